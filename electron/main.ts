@@ -12,14 +12,15 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 
-import { app, BrowserWindow, ipcMain, protocol, shell } from 'electron';
-import { GitService } from './services/git.service';
+import { app, BrowserWindow, FileFilter, ipcMain, protocol, shell } from 'electron';
+import { GitService, AddWorktreeOptions, BisectVerdict, CloneOptions, CommitSearchQuery, CompareMode, FetchOptions, IgnoreTarget, LogOptions, OperationOptions, PatchApplyMode, RebaseTodoItem, ResetMode, SigningConfig, StashOptions, SubmoduleUpdateOptions, SyncOptions } from './services/git.service';
 import { AuthService } from './services/auth.service';
 import { RepoScannerService } from './services/repo-scanner.service';
 import { GitHubService } from './services/github.service';
 import { UpdaterService } from './services/updater.service';
 import { TerminalService } from './services/terminal.service';
 import { AgentService } from './services/agent.service';
+import { AutoFetchService } from './services/auto-fetch.service';
 
 let mainWindow: BrowserWindow | null = null;
 const gitService = new GitService();
@@ -29,6 +30,7 @@ const githubService = new GitHubService();
 const updaterService = new UpdaterService();
 const terminalService = new TerminalService();
 const agentService = new AgentService(gitService);
+const autoFetchService = new AutoFetchService(gitService, repoScanner, authService);
 
 const isDev = !app.isPackaged;
 
@@ -154,6 +156,14 @@ async function handleOAuthCallback(url: string): Promise<void> {
 
 // ─── IPC Handlers ────────────────────────────────────────────────
 
+/** Forwards `--progress` output of a long-running git operation to the renderer */
+function withProgress(operation?: OperationOptions): OperationOptions {
+    return {
+        ...operation,
+        onProgress: (progress) => mainWindow?.webContents.send('git:progress', progress),
+    };
+}
+
 function registerIpcHandlers(): void {
     // ── Window Controls ──
     ipcMain.handle('window:minimize', () => mainWindow?.minimize());
@@ -167,15 +177,35 @@ function registerIpcHandlers(): void {
     ipcMain.handle('window:close', () => mainWindow?.close());
 
     // ── Dialog ──
-    ipcMain.handle('dialog:openDirectory', async () => {
+    ipcMain.handle('dialog:openDirectory', async (_event, title?: string) => {
         const { dialog } = require('electron');
         const result = await dialog.showOpenDialog(mainWindow!, {
-            properties: ['openDirectory'],
-            title: 'Select a folder to scan for Git repositories',
+            properties: ['openDirectory', 'createDirectory'],
+            title: title ?? 'Select a folder to scan for Git repositories',
         });
         if (result.canceled || result.filePaths.length === 0) return null;
         return result.filePaths[0];
     });
+    ipcMain.handle('dialog:openFiles', async (_event, options: { title?: string; filters?: FileFilter[] } = {}) => {
+        const { dialog } = require('electron');
+        const result = await dialog.showOpenDialog(mainWindow!, {
+            properties: ['openFile', 'multiSelections'],
+            title: options.title,
+            filters: options.filters,
+        });
+        if (result.canceled) return [];
+        return result.filePaths;
+    });
+    ipcMain.handle('dialog:saveFile', async (_event, options: { title?: string; defaultPath?: string; filters?: FileFilter[] } = {}) => {
+        const { dialog } = require('electron');
+        const result = await dialog.showSaveDialog(mainWindow!, {
+            title: options.title,
+            defaultPath: options.defaultPath,
+            filters: options.filters,
+        });
+        if (result.canceled || !result.filePath) return null;
+        return result.filePath;
+    });
 
     // ── Auth ──
     ipcMain.handle('auth:login', async () => {
@@ -314,8 +344,8 @@ function registerIpcHandlers(): void {
     );
     ipcMain.handle(
         'git:commit',
-        async (_event, repoPath: string, message: string) => {
-            return gitService.commit(repoPath, message);
+        async (_event, repoPath: string, message: string, noVerify?: boolean) => {
+            return gitService.commit(repoPath, message, noVerify);
         }
     );
     ipcMain.handle(
@@ -327,39 +357,70 @@ function registerIpcHandlers(): void {
             remote?: string,
             branch?: string,
             setUpstream?: boolean,
-            force?: boolean
+            force?: boolean,
+            noVerify?: boolean,
+            operation?: OperationOptions
         ) => {
-            return gitService.push(repoPath, token, remote, branch, setUpstream, force);
+            return gitService.push(repoPath, token, remote, branch, setUpstream, force, noVerify, withProgress(operation));
         }
     );
     ipcMain.handle(
         'git:pull',
-        async (_event, repoPath: string, token: string) => {
-            return gitService.pull(repoPath, token);
+        async (_event, repoPath: string, token: string, remote?: string, operation?: OperationOptions) => {
+            return gitService.pull(repoPath, token, remote, withProgress(operation));
+        }
+    );
+    ipcMain.handle(
+        'git:fetch',
+        async (_event, repoPath: string, token: string, options?: FetchOptions, operation?: OperationOptions) => {
+            return gitService.fetch(repoPath, token, options, withProgress(operation));
         }
     );
     ipcMain.handle(
         'git:setRemote',
-        async (_event, repoPath: string, name: string, url: string) => {
-            return gitService.setRemote(repoPath, name, url);
+        async (_event, repoPath: string, name: string, url: string, pushOnly?: boolean) => {
+            return gitService.setRemote(repoPath, name, url, pushOnly);
         }
     );
     ipcMain.handle(
         'git:sync',
-        async (_event, repoPath: string, token: string) => {
-            return gitService.sync(repoPath, token);
+        async (_event, repoPath: string, token: string, options?: SyncOptions, operation?: OperationOptions) => {
+            return gitService.sync(repoPath, token, options, withProgress(operation));
         }
     );
+    ipcMain.handle('git:cancelOperation', async (_event, operationId: string) => {
+        return gitService.cancelOperation(operationId);
+    });
+    ipcMain.handle('git:queueState', async () => {
+        return gitService.getQueueState();
+    });
+
+    // ── Undo Journal ──
+    ipcMain.handle('git:undoJournal', async (_event, repoPath: string) => {
+        return gitService.getUndoJournal(repoPath);
+    });
+    ipcMain.handle('git:undo', async (_event, repoPath: string, entryId: string) => {
+        return gitService.undo(repoPath, entryId);
+    });
+    ipcMain.handle('git:clearUndoJournal', async (_event, repoPath: string) => {
+        return gitService.clearUndoJournal(repoPath);
+    });
     ipcMain.handle(
         'git:diff',
         async (_event, repoPath: string, file?: string) => {
             return gitService.diff(repoPath, file);
         }
     );
+    ipcMain.handle('git:diffSections', async (_event, repoPath: string, file?: string) => {
+        return gitService.diffSections(repoPath, file);
+    });
+    ipcMain.handle('git:applyPatch', async (_event, repoPath: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => {
+        return gitService.applyPatch(repoPath, patch, options);
+    });
     ipcMain.handle(
         'git:log',
-        async (_event, repoPath: string, limit?: number) => {
-            return gitService.log(repoPath, limit);
+        async (_event, repoPath: string, limit?: number, options?: LogOptions) => {
+            return gitService.log(repoPath, limit, options);
         }
     );
     ipcMain.handle('git:branches', async (_event, repoPath: string) => {
@@ -386,10 +447,13 @@ function registerIpcHandlers(): void {
 
     ipcMain.handle(
         'git:reset',
-        async (_event, repoPath: string, mode: 'soft' | 'hard', target: string) => {
+        async (_event, repoPath: string, mode: ResetMode, target: string) => {
             return gitService.reset(repoPath, mode, target);
         }
     );
+    ipcMain.handle('git:resetPreview', async (_event, repoPath: string, target: string, mode: ResetMode) => {
+        return gitService.getResetPreview(repoPath, target, mode);
+    });
     ipcMain.handle('git:checkoutPullRequest', async (_event, repoPath: string, prNumber: number) => {
         return gitService.checkoutPullRequest(repoPath, prNumber);
     });
@@ -406,17 +470,42 @@ function registerIpcHandlers(): void {
             return gitService.getCommitDetails(repoPath, hash);
         }
     );
+
+    ipcMain.handle('git:getCommitSignature', async (_event, repoPath: string, hash: string) => {
+        return gitService.getCommitSignature(repoPath, hash);
+    });
+    ipcMain.handle('git:getCommitSignatures', async (_event, repoPath: string, hashes: string[]) => {
+        return gitService.getCommitSignatures(repoPath, hashes);
+    });
     ipcMain.handle(
         'git:getFileDiff',
         async (_event, repoPath: string, filePath: string, hash1: string, hash2?: string) => {
             return gitService.getFileDiff(repoPath, filePath, hash1, hash2);
         }
     );
-    ipcMain.handle('git:stash', async (_event, repoPath: string) => {
-        return gitService.stash(repoPath);
+    ipcMain.handle('git:stash', async (_event, repoPath: string, options?: StashOptions) => {
+        return gitService.stash(repoPath, options);
+    });
+    ipcMain.handle('git:stashPop', async (_event, repoPath: string, ref?: string) => {
+        return gitService.stashPop(repoPath, ref);
+    });
+    ipcMain.handle('git:listStashes', async (_event, repoPath: string) => {
+        return gitService.listStashes(repoPath);
     });
-    ipcMain.handle('git:stashPop', async (_event, repoPath: string) => {
-        return gitService.stashPop(repoPath);
+    ipcMain.handle('git:getStashFiles', async (_event, repoPath: string, ref: string) => {
+        return gitService.getStashFiles(repoPath, ref);
+    });
+    ipcMain.handle('git:stashApply', async (_event, repoPath: string, ref: string) => {
+        return gitService.stashApply(repoPath, ref);
+    });
+    ipcMain.handle('git:stashDrop', async (_event, repoPath: string, ref: string) => {
+        return gitService.stashDrop(repoPath, ref);
+    });
+    ipcMain.handle('git:stashRename', async (_event, repoPath: string, ref: string, message: string) => {
+        return gitService.stashRename(repoPath, ref, message);
+    });
+    ipcMain.handle('git:stashBranch', async (_event, repoPath: string, branch: string, ref: string) => {
+        return gitService.stashBranch(repoPath, branch, ref);
     });
     ipcMain.handle('git:revert', async (_event, repoPath: string) => {
         return gitService.revert(repoPath);
@@ -424,8 +513,8 @@ function registerIpcHandlers(): void {
     ipcMain.handle('git:currentBranch', async (_event, repoPath: string) => {
         return gitService.currentBranch(repoPath);
     });
-    ipcMain.handle('git:remoteUrl', async (_event, repoPath: string) => {
-        return gitService.getRemoteUrl(repoPath);
+    ipcMain.handle('git:remoteUrl', async (_event, repoPath: string, remote?: string) => {
+        return gitService.getRemoteUrl(repoPath, remote);
     });
     ipcMain.handle('git:merge', async (_event, repoPath: string, branch: string) => {
         return gitService.merge(repoPath, branch);
@@ -446,9 +535,18 @@ function registerIpcHandlers(): void {
     ipcMain.handle('git:resolveConflict', async (_event, repoPath: string, file: string, strategy: 'theirs' | 'ours') => {
         return gitService.resolveConflict(repoPath, file, strategy);
     });
+    ipcMain.handle('git:getConflictVersions', async (_event, repoPath: string, file: string) => {
+        return gitService.getConflictVersions(repoPath, file);
+    });
+    ipcMain.handle('git:markResolved', async (_event, repoPath: string, file: string, content: string) => {
+        return gitService.markResolved(repoPath, file, content);
+    });
 
-    ipcMain.handle('git:blame', async (_event, repoPath: string, file: string) => {
-        return gitService.blame(repoPath, file);
+    ipcMain.handle('git:blame', async (_event, repoPath: string, file: string, rev?: string) => {
+        return gitService.blame(repoPath, file, rev);
+    });
+    ipcMain.handle('git:fileHistory', async (_event, repoPath: string, file: string, limit?: number) => {
+        return gitService.fileHistory(repoPath, file, limit);
     });
 
     // ── Tags ──
@@ -480,6 +578,103 @@ function registerIpcHandlers(): void {
     ipcMain.handle('git:rewordCommit', async (_event, repoPath: string, newMessage: string) => {
         return gitService.rewordCommit(repoPath, newMessage);
     });
+    ipcMain.handle('git:getAmendInfo', async (_event, repoPath: string) => {
+        return gitService.getAmendInfo(repoPath);
+    });
+    ipcMain.handle('git:amendCommit', async (_event, repoPath: string, message: string, resetAuthor?: boolean, noVerify?: boolean) => {
+        return gitService.amendCommit(repoPath, message, resetAuthor, noVerify);
+    });
+
+    // ── Hooks ──
+    ipcMain.handle('git:listHooks', async (_event, repoPath: string) => {
+        return gitService.listHooks(repoPath);
+    });
+    ipcMain.handle('git:setHookEnabled', async (_event, repoPath: string, hookPath: string, enabled: boolean) => {
+        return gitService.setHookEnabled(repoPath, hookPath, enabled);
+    });
+    ipcMain.handle('git:readHook', async (_event, repoPath: string, hookPath: string) => {
+        return gitService.readHook(repoPath, hookPath);
+    });
+    ipcMain.handle('git:saveHook', async (_event, repoPath: string, name: string, content: string, hookPath?: string) => {
+        return gitService.saveHook(repoPath, name, content, hookPath);
+    });
+    ipcMain.handle('git:lastHookFailure', async (_event, repoPath: string) => {
+        return gitService.getLastHookFailure(repoPath);
+    });
+
+    // ── Ignore Rules ──
+    ipcMain.handle('git:listIgnoreFiles', async (_event, repoPath: string) => {
+        return gitService.listIgnoreFiles(repoPath);
+    });
+    ipcMain.handle('git:readIgnoreFile', async (_event, repoPath: string, filePath: string) => {
+        return gitService.readIgnoreFile(repoPath, filePath);
+    });
+    ipcMain.handle('git:writeIgnoreFile', async (_event, repoPath: string, filePath: string, content: string) => {
+        return gitService.writeIgnoreFile(repoPath, filePath, content);
+    });
+    ipcMain.handle('git:addIgnorePattern', async (_event, repoPath: string, pattern: string, target: IgnoreTarget, dir?: string) => {
+        return gitService.addIgnorePattern(repoPath, pattern, target, dir);
+    });
+    ipcMain.handle('git:checkIgnore', async (_event, repoPath: string, filePath: string) => {
+        return gitService.checkIgnore(repoPath, filePath);
+    });
+
+    // ── Interactive Rebase ──
+    ipcMain.handle('git:getRebaseCommits', async (_event, repoPath: string, fromHash: string) => {
+        return gitService.getRebaseCommits(repoPath, fromHash);
+    });
+    ipcMain.handle('git:interactiveRebase', async (_event, repoPath: string, fromHash: string, todo: RebaseTodoItem[]) => {
+        return gitService.interactiveRebase(repoPath, fromHash, todo);
+    });
+
+    // ── In-Progress Operations ──
+    ipcMain.handle('git:operationState', async (_event, repoPath: string) => {
+        return gitService.getOperationState(repoPath);
+    });
+    ipcMain.handle('git:continueOperation', async (_event, repoPath: string) => {
+        return gitService.continueOperation(repoPath);
+    });
+    ipcMain.handle('git:skipOperation', async (_event, repoPath: string) => {
+        return gitService.skipOperation(repoPath);
+    });
+    ipcMain.handle('git:abortOperation', async (_event, repoPath: string) => {
+        return gitService.abortOperation(repoPath);
+    });
+
+    // ── Search ──
+    ipcMain.handle('git:searchCommits', async (_event, repoPath: string, searchId: string, query: CommitSearchQuery) => {
+        return gitService.searchCommits(repoPath, searchId, query, (commits) => {
+            mainWindow?.webContents.send('git:searchResults', { searchId, commits });
+        });
+    });
+    ipcMain.handle('git:cancelSearch', async (_event, searchId: string) => {
+        gitService.cancelSearch(searchId);
+    });
+
+    // ── Compare ──
+    ipcMain.handle('git:compareRefs', async (_event, repoPath: string, base: string, head: string, mode: CompareMode) => {
+        return gitService.compareRefs(repoPath, base, head, mode);
+    });
+
+    // ── Patches ──
+    ipcMain.handle('git:exportPatches', async (_event, repoPath: string, fromHash: string, toHash: string, destination: string, mbox?: boolean) => {
+        return gitService.exportPatches(repoPath, fromHash, toHash, destination, mbox);
+    });
+    ipcMain.handle('git:applyPatches', async (_event, repoPath: string, files: string[], mode: PatchApplyMode, threeWay?: boolean) => {
+        return gitService.applyPatches(repoPath, files, mode, threeWay);
+    });
+    ipcMain.handle('git:amStatus', async (_event, repoPath: string) => {
+        return gitService.getAmStatus(repoPath);
+    });
+    ipcMain.handle('git:amContinue', async (_event, repoPath: string) => {
+        return gitService.amContinue(repoPath);
+    });
+    ipcMain.handle('git:amSkip', async (_event, repoPath: string) => {
+        return gitService.amSkip(repoPath);
+    });
+    ipcMain.handle('git:amAbort', async (_event, repoPath: string) => {
+        return gitService.amAbort(repoPath);
+    });
 
     ipcMain.handle('git:listFiles', async (_event, repoPath: string) => {
         return gitService.listFiles(repoPath);
@@ -494,8 +689,8 @@ function registerIpcHandlers(): void {
     });
 
     // ── Git Identity (sync with terminal) ──
-    ipcMain.handle('git:setIdentity', async (_event, name: string, email: string) => {
-        gitService.setActiveIdentity(name, email);
+    ipcMain.handle('git:setIdentity', async (_event, name: string, email: string, signing?: SigningConfig) => {
+        gitService.setActiveIdentity(name, email, signing);
     });
     ipcMain.handle(
         'git:clearIdentity',
@@ -521,17 +716,84 @@ function registerIpcHandlers(): void {
         return await gitService.getLfsTrackedFiles(repoPath);
     });
 
-    ipcMain.handle('git:clone', async (_event, url: string, destination: string, token?: string) => {
-        return gitService.clone(url, destination, token, (progress) => {
-            mainWindow?.webContents.send('git:cloneProgress', progress);
-        });
+    // Bisect
+    ipcMain.handle('git:bisectStatus', async (_event, repoPath: string) => {
+        return gitService.getBisectStatus(repoPath);
+    });
+
+    ipcMain.handle('git:bisectStart', async (_event, repoPath: string, bad: string, good: string) => {
+        return gitService.bisectStart(repoPath, bad, good);
+    });
+
+    ipcMain.handle('git:bisectMark', async (_event, repoPath: string, verdict: BisectVerdict, ref?: string) => {
+        return gitService.bisectMark(repoPath, verdict, ref);
+    });
+
+    ipcMain.handle('git:bisectRun', async (_event, repoPath: string, command: string, operation?: OperationOptions) => {
+        return gitService.bisectRun(repoPath, command, withProgress(operation));
+    });
+
+    ipcMain.handle('git:bisectReset', async (_event, repoPath: string) => {
+        return gitService.bisectReset(repoPath);
+    });
+
+    // Submodules
+    ipcMain.handle('git:listSubmodules', async (_event, repoPath: string) => {
+        return gitService.listSubmodules(repoPath);
+    });
+
+    ipcMain.handle(
+        'git:updateSubmodules',
+        async (_event, repoPath: string, options?: SubmoduleUpdateOptions, token?: string, operation?: OperationOptions) => {
+            return gitService.updateSubmodules(repoPath, options, token, withProgress(operation));
+        }
+    );
+
+    ipcMain.handle('git:syncSubmodules', async (_event, repoPath: string, recursive?: boolean) => {
+        return gitService.syncSubmodules(repoPath, recursive);
+    });
+
+    // Worktrees
+    ipcMain.handle('git:listWorktrees', async (_event, repoPath: string) => {
+        return gitService.listWorktrees(repoPath);
+    });
+
+    ipcMain.handle('git:addWorktree', async (_event, repoPath: string, worktreePath: string, branch: string, options?: AddWorktreeOptions) => {
+        return gitService.addWorktree(repoPath, worktreePath, branch, options);
+    });
+
+    ipcMain.handle('git:removeWorktree', async (_event, repoPath: string, worktreePath: string, force?: boolean) => {
+        return gitService.removeWorktree(repoPath, worktreePath, force);
+    });
+
+    ipcMain.handle('git:pruneWorktrees', async (_event, repoPath: string) => {
+        return gitService.pruneWorktrees(repoPath);
+    });
+
+    ipcMain.handle('git:clone', async (_event, url: string, destination: string, token?: string, options?: CloneOptions, operation?: OperationOptions) => {
+        return gitService.clone(url, destination, token, options, withProgress(operation));
+    });
+    ipcMain.handle('git:isShallow', async (_event, repoPath: string) => {
+        return gitService.isShallow(repoPath);
+    });
+    ipcMain.handle('git:deepen', async (_event, repoPath: string, token?: string, depth?: number, operation?: OperationOptions) => {
+        return gitService.deepen(repoPath, token, depth, withProgress(operation));
     });
     ipcMain.handle('git:init', async (_event, repoPath: string, options?: any) => {
         return gitService.init(repoPath, options);
     });
+    ipcMain.handle('git:listRemotes', async (_event, repoPath: string) => {
+        return gitService.listRemotes(repoPath);
+    });
     ipcMain.handle('git:addRemote', async (_event, repoPath: string, name: string, url: string) => {
         return gitService.addRemote(repoPath, name, url);
     });
+    ipcMain.handle('git:renameRemote', async (_event, repoPath: string, oldName: string, newName: string) => {
+        return gitService.renameRemote(repoPath, oldName, newName);
+    });
+    ipcMain.handle('git:removeRemote', async (_event, repoPath: string, name: string) => {
+        return gitService.removeRemote(repoPath, name);
+    });
     ipcMain.handle('git:setUpstream', async (_event, repoPath: string, branch: string, remote?: string) => {
         return gitService.setUpstream(repoPath, branch, remote);
     });
@@ -625,6 +887,14 @@ function registerIpcHandlers(): void {
         agentService.clearHistory();
     });
 
+    // ── Auto Fetch ──
+    ipcMain.handle('autoFetch:setRepos', async (_event, repoPaths: string[]) => {
+        autoFetchService.setRepos(repoPaths);
+    });
+    ipcMain.handle('autoFetch:configure', async (_event, intervalMinutes: number) => {
+        autoFetchService.configure(intervalMinutes);
+    });
+
     // ── Storage (persists JSON data in userData) ──
     ipcMain.handle('storage:get', async (_event, key: string) => {
         const fs = require('fs');
@@ -661,6 +931,7 @@ app.whenReady().then(() => {
         terminalService.setWindow(mainWindow);
         gitService.setWindow(mainWindow);
         agentService.setWindow(mainWindow);
+        autoFetchService.setWindow(mainWindow);
     }
 
     // Check for updates in production after a short delay
@@ -679,6 +950,7 @@ app.whenReady().then(() => {
 
 app.on('window-all-closed', () => {
     terminalService.destroyAll();
+    autoFetchService.stop();
     if (process.platform !== 'darwin') {
         app.quit();
         // Safety net: Force exit if quit hangs (common on Windows with background tasks)
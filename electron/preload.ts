@@ -1,6 +1,9 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, FileFilter, ipcRenderer } from 'electron';
 
 export interface ElectronAPI {
+    // Host OS, for path rules that differ per platform
+    platform: NodeJS.Platform;
+
     // Window controls
     window: {
         minimize: () => Promise<void>;
@@ -55,38 +58,64 @@ export interface ElectronAPI {
         status: (repoPath: string) => Promise<FileStatus[]>;
         stage: (repoPath: string, files: string[]) => Promise<void>;
         unstage: (repoPath: string, files: string[]) => Promise<void>;
-        commit: (repoPath: string, message: string) => Promise<void>;
-        push: (repoPath: string, token: string, remote?: string, branch?: string, setUpstream?: boolean, force?: boolean) => Promise<void>;
+        commit: (repoPath: string, message: string, noVerify?: boolean) => Promise<void>;
+        push: (repoPath: string, token: string, remote?: string, branch?: string, setUpstream?: boolean, force?: boolean, noVerify?: boolean, operation?: OperationOptions) => Promise<void>;
         deleteRemoteBranch: (repoPath: string, remote: string, branch: string, token: string) => Promise<void>;
-        reset: (repoPath: string, mode: 'soft' | 'hard', target: string) => Promise<void>;
+        reset: (repoPath: string, mode: ResetMode, target: string) => Promise<void>;
+        resetPreview: (repoPath: string, target: string, mode: ResetMode) => Promise<ResetPreview>;
         checkoutPullRequest: (repoPath: string, prNumber: number) => Promise<void>;
         checkoutCommit: (repoPath: string, hash: string) => Promise<void>;
         getCommitDetails: (repoPath: string, hash: string) => Promise<{ path: string; status: 'added' | 'modified' | 'deleted' | 'renamed'; staged: boolean }[]>;
+        getCommitSignature: (repoPath: string, hash: string) => Promise<CommitSignature>;
+        getCommitSignatures: (repoPath: string, hashes: string[]) => Promise<Record<string, CommitSignature>>;
         getFileDiff: (repoPath: string, filePath: string, hash1: string, hash2?: string) => Promise<string>;
-        pull: (repoPath: string, token: string) => Promise<void>;
-        sync: (repoPath: string, token: string) => Promise<SyncResult>;
+        pull: (repoPath: string, token: string, remote?: string, operation?: OperationOptions) => Promise<void>;
+        fetch: (repoPath: string, token: string, options?: { prune?: boolean; all?: boolean; remote?: string }, operation?: OperationOptions) => Promise<{ cancelled: boolean }>;
+        sync: (repoPath: string, token: string, options?: SyncOptions, operation?: OperationOptions) => Promise<SyncResult>;
         diff: (repoPath: string, file?: string) => Promise<string>;
-        log: (repoPath: string, limit?: number) => Promise<CommitInfo[]>;
+        diffSections: (repoPath: string, file?: string) => Promise<{ staged: string; unstaged: string }>;
+        applyPatch: (repoPath: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => Promise<void>;
+        log: (repoPath: string, limit?: number, options?: { skip?: number; ref?: string; all?: boolean }) => Promise<CommitInfo[]>;
         branches: (repoPath: string) => Promise<BranchInfo[]>;
         checkout: (repoPath: string, branch: string, create?: boolean) => Promise<void>;
         deleteBranch: (repoPath: string, branch: string) => Promise<void>;
-        stash: (repoPath: string) => Promise<void>;
-        stashPop: (repoPath: string) => Promise<void>;
+        stash: (repoPath: string, options?: StashOptions) => Promise<void>;
+        stashPop: (repoPath: string, ref?: string) => Promise<void>;
+        listStashes: (repoPath: string) => Promise<StashEntry[]>;
+        getStashFiles: (repoPath: string, ref: string) => Promise<FileStatus[]>;
+        stashApply: (repoPath: string, ref: string) => Promise<void>;
+        stashDrop: (repoPath: string, ref: string) => Promise<void>;
+        stashRename: (repoPath: string, ref: string, message: string) => Promise<void>;
+        stashBranch: (repoPath: string, branch: string, ref: string) => Promise<void>;
         revert: (repoPath: string) => Promise<void>;
         currentBranch: (repoPath: string) => Promise<string>;
-        remoteUrl: (repoPath: string) => Promise<string>;
-        clone: (url: string, destination: string, token?: string) => Promise<void>;
+        remoteUrl: (repoPath: string, remote?: string) => Promise<string>;
+        clone: (url: string, destination: string, token?: string, options?: CloneOptions, operation?: OperationOptions) => Promise<void>;
+        isShallow: (repoPath: string) => Promise<boolean>;
+        deepen: (repoPath: string, token?: string, depth?: number, operation?: OperationOptions) => Promise<void>;
         init: (repoPath: string, options?: { defaultBranch?: string }) => Promise<void>;
+        listRemotes: (repoPath: string) => Promise<RemoteInfo[]>;
         addRemote: (repoPath: string, name: string, url: string) => Promise<void>;
-        setRemote: (repoPath: string, name: string, url: string) => Promise<void>;
+        renameRemote: (repoPath: string, oldName: string, newName: string) => Promise<void>;
+        removeRemote: (repoPath: string, name: string) => Promise<void>;
+        setRemote: (repoPath: string, name: string, url: string, pushOnly?: boolean) => Promise<void>;
         setUpstream: (repoPath: string, branch: string, remote: string) => Promise<void>;
         merge: (repoPath: string, branch: string) => Promise<void>;
         rebase: (repoPath: string, branch: string) => Promise<void>;
-        onCloneProgress: (callback: (message: string) => void) => void;
+        cancelOperation: (operationId: string) => Promise<void>;
+        onProgress: (callback: (progress: GitProgress) => void) => () => void;
+        queueState: () => Promise<RepoQueueState[]>;
+        undoJournal: (repoPath: string) => Promise<UndoEntry[]>;
+        undo: (repoPath: string, entryId: string) => Promise<UndoEntry>;
+        clearUndoJournal: (repoPath: string) => Promise<void>;
+        onUndoChanged: (callback: (data: { repoPath: string; entries: UndoEntry[] }) => void) => () => void;
         discardFile: (repoPath: string, file: string) => Promise<void>;
         cleanFile: (repoPath: string, file: string) => Promise<void>;
         resolveConflict: (repoPath: string, file: string, strategy: 'theirs' | 'ours') => Promise<void>;
-        blame: (repoPath: string, file: string) => Promise<BlameInfo[]>;
+        getConflictVersions: (repoPath: string, file: string) => Promise<{ base: string | null; ours: string | null; theirs: string | null; merged: string }>;
+        markResolved: (repoPath: string, file: string, content: string) => Promise<void>;
+        blame: (repoPath: string, file: string, rev?: string) => Promise<BlameInfo[]>;
+        fileHistory: (repoPath: string, file: string, limit?: number) => Promise<FileHistoryEntry[]>;
         listFiles: (repoPath: string) => Promise<string[]>;
         getFileContent: (repoPath: string, path: string, ref?: string) => Promise<string>;
         listTags: (repoPath: string) => Promise<{ name: string; date: string; message: string; hash: string }[]>;
@@ -97,8 +126,49 @@ export interface ElectronAPI {
         cherryPick: (repoPath: string, commitHash: string) => Promise<void>;
         squashCommits: (repoPath: string, count: number, message: string) => Promise<void>;
         rewordCommit: (repoPath: string, newMessage: string) => Promise<void>;
+        getAmendInfo: (repoPath: string) => Promise<AmendInfo>;
+        amendCommit: (repoPath: string, message: string, resetAuthor?: boolean, noVerify?: boolean) => Promise<void>;
+
+        // Hooks
+        listHooks: (repoPath: string) => Promise<HooksOverview>;
+        setHookEnabled: (repoPath: string, hookPath: string, enabled: boolean) => Promise<void>;
+        readHook: (repoPath: string, hookPath: string) => Promise<string>;
+        saveHook: (repoPath: string, name: string, content: string, hookPath?: string) => Promise<void>;
+        lastHookFailure: (repoPath: string) => Promise<HookFailure | null>;
+
+        // Ignore rules
+        listIgnoreFiles: (repoPath: string) => Promise<IgnoreFile[]>;
+        readIgnoreFile: (repoPath: string, filePath: string) => Promise<string>;
+        writeIgnoreFile: (repoPath: string, filePath: string, content: string) => Promise<void>;
+        addIgnorePattern: (repoPath: string, pattern: string, target: IgnoreTarget, dir?: string) => Promise<string>;
+        checkIgnore: (repoPath: string, filePath: string) => Promise<IgnoreMatch>;
+
+        getRebaseCommits: (repoPath: string, fromHash: string) => Promise<RebaseCommit[]>;
+        interactiveRebase: (repoPath: string, fromHash: string, todo: RebaseTodoItem[]) => Promise<OperationState>;
+
+        // In-progress merge / rebase / cherry-pick / revert
+        operationState: (repoPath: string) => Promise<OperationState>;
+        continueOperation: (repoPath: string) => Promise<OperationState>;
+        skipOperation: (repoPath: string) => Promise<OperationState>;
+        abortOperation: (repoPath: string) => Promise<void>;
+
+        // Search
+        searchCommits: (repoPath: string, searchId: string, query: CommitSearchQuery) => Promise<CommitSearchResult>;
+        cancelSearch: (searchId: string) => Promise<void>;
+        onSearchResults: (callback: (data: { searchId: string; commits: CommitInfo[] }) => void) => () => void;
+
+        // Compare
+        compareRefs: (repoPath: string, base: string, head: string, mode: 'two-dot' | 'three-dot') => Promise<CompareResult>;
+
+        // Patches
+        exportPatches: (repoPath: string, fromHash: string, toHash: string, destination: string, mbox?: boolean) => Promise<string[]>;
+        applyPatches: (repoPath: string, files: string[], mode: 'am' | 'apply', threeWay?: boolean) => Promise<PatchApplyResult>;
+        amStatus: (repoPath: string) => Promise<AmStatus>;
+        amContinue: (repoPath: string) => Promise<AmStatus>;
+        amSkip: (repoPath: string) => Promise<AmStatus>;
+        amAbort: (repoPath: string) => Promise<void>;
         reflog: (repoPath: string, limit?: number) => Promise<any[]>;
-        setIdentity: (name: string, email: string) => Promise<void>;
+        setIdentity: (name: string, email: string, signing?: SigningConfig) => Promise<void>;
         clearIdentity: () => Promise<void>;
 
         // LFS
@@ -106,11 +176,31 @@ export interface ElectronAPI {
         lfsTrack: (repoPath: string, pattern: string) => Promise<void>;
         lfsUntrack: (repoPath: string, pattern: string) => Promise<void>;
         getLfsTrackedFiles: (repoPath: string) => Promise<string[]>;
+
+        // Bisect
+        bisectStatus: (repoPath: string) => Promise<BisectStatus>;
+        bisectStart: (repoPath: string, bad: string, good: string) => Promise<BisectStatus>;
+        bisectMark: (repoPath: string, verdict: 'good' | 'bad' | 'skip', ref?: string) => Promise<BisectStatus>;
+        bisectRun: (repoPath: string, command: string, operation?: OperationOptions) => Promise<BisectStatus>;
+        bisectReset: (repoPath: string) => Promise<void>;
+
+        // Submodules
+        listSubmodules: (repoPath: string) => Promise<SubmoduleInfo[]>;
+        updateSubmodules: (repoPath: string, options?: SubmoduleUpdateOptions, token?: string, operation?: OperationOptions) => Promise<void>;
+        syncSubmodules: (repoPath: string, recursive?: boolean) => Promise<void>;
+
+        // Worktrees
+        listWorktrees: (repoPath: string) => Promise<WorktreeInfo[]>;
+        addWorktree: (repoPath: string, worktreePath: string, branch: string, options?: AddWorktreeOptions) => Promise<void>;
+        removeWorktree: (repoPath: string, worktreePath: string, force?: boolean) => Promise<void>;
+        pruneWorktrees: (repoPath: string) => Promise<void>;
     };
 
     // Dialog
     dialog: {
-        openDirectory: () => Promise<string | null>;
+        openDirectory: (title?: string) => Promise<string | null>;
+        openFiles: (options?: { title?: string; filters?: FileFilter[] }) => Promise<string[]>;
+        saveFile: (options?: { title?: string; defaultPath?: string; filters?: FileFilter[] }) => Promise<string | null>;
     };
 
     // Shell
@@ -162,9 +252,17 @@ export interface ElectronAPI {
     activity: {
         onCommandStart: (callback: (data: any) => void) => void;
         onCommandComplete: (callback: (data: any) => void) => void;
+        onRemoteUpdate: (callback: (data: RemoteUpdateEvent) => void) => void;
+        onQueueChange: (callback: (state: RepoQueueState) => void) => void;
         removeActivityListeners: () => void;
     };
 
+    // Background fetch of opened repos
+    autoFetch: {
+        setRepos: (repoPaths: string[]) => Promise<void>;
+        configure: (intervalMinutes: number) => Promise<void>;
+    };
+
     // Terminal
     terminal: {
         create: (id: string, context: { cwd: string; username?: string; displayName?: string; email?: string; token?: string }) => Promise<{ cols: number; rows: number }>;
@@ -203,8 +301,14 @@ export interface FileStatus {
     status: 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflict';
     staged: boolean;
     oldPath?: string;
+    submodule?: { commitChanged: boolean; modified: boolean; untracked: boolean };
+    conflict?: ConflictKind;
 }
 
+export type ConflictKind =
+    | 'both-modified' | 'both-added' | 'both-deleted'
+    | 'added-by-us' | 'added-by-them' | 'deleted-by-us' | 'deleted-by-them';
+
 export interface CommitInfo {
     hash: string;
     shortHash: string;
@@ -213,6 +317,35 @@ export interface CommitInfo {
     email: string;
     date: string;
     refs: string;
+    parents: string[];
+}
+
+export interface SigningConfig {
+    format: 'openpgp' | 'ssh';
+    key: string;
+    signCommits: boolean;
+    signTags: boolean;
+}
+
+export interface CommitSignature {
+    status: 'verified' | 'unverified' | 'unsigned';
+    code: string;
+    signer: string;
+    key: string;
+}
+
+export interface CloneOptions {
+    depth?: number;
+    singleBranch?: boolean;
+    branch?: string;
+    filter?: 'blob:none' | 'tree:0';
+    sparsePaths?: string[];
+}
+
+export interface RemoteUpdateEvent {
+    repoPath: string;
+    updates: { ref: string; newCommits: number; created: boolean }[];
+    fetchedAt: number;
 }
 
 export interface BranchInfo {
@@ -220,6 +353,10 @@ export interface BranchInfo {
     current: boolean;
     remote: boolean;
     lastCommit?: string;
+    upstream?: string;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean;
 }
 
 export interface BlameInfo {
@@ -230,6 +367,33 @@ export interface BlameInfo {
     email: string;
     date: string;
     message: string;
+    previousHash?: string;
+    previousPath?: string;
+}
+
+export interface AmendInfo {
+    message: string;
+    author: string;
+    email: string;
+    pushedTo?: string;
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard' | 'keep' | 'merge';
+
+export interface ResetPreview {
+    branch?: string;
+    commitsRemoved: CommitInfo[];
+    removedCount: number;
+    unreachable: string[];
+    addedCount: number;
+    discardedFiles: string[];
+    blockingFiles: string[];
+}
+
+export interface FileHistoryEntry extends CommitInfo {
+    path: string;
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
 }
 
 export interface SyncResult {
@@ -240,6 +404,235 @@ export interface SyncResult {
     error?: string;
 }
 
+export interface SyncOptions {
+    pullRemote?: string;
+    pushRemote?: string;
+}
+
+export interface OperationOptions {
+    operationId?: string;
+    timeoutMs?: number;
+}
+
+export interface GitProgress {
+    operationId: string;
+    phase: string;
+    percent?: number;
+    current?: number;
+    total?: number;
+    message: string;
+}
+
+export interface QueuedCommand {
+    id: string;
+    command: string;
+    queuedAt: number;
+}
+
+export interface RepoQueueState {
+    repoPath: string;
+    running: QueuedCommand | null;
+    pending: QueuedCommand[];
+}
+
+export interface UndoEntry {
+    id: string;
+    operation: string;
+    description: string;
+    createdAt: number;
+    head?: { branch: string | null; hash: string | null; restore: 'soft' | 'mixed' | 'keep' };
+    refs?: { ref: string; hash: string | null }[];
+    refPrefix?: string;
+    files?: { path: string; blob: string | null; mode?: number }[];
+    conflicts?: string[];
+    stash?: { hash: string; subject: string };
+    createdStash?: { hash: string; subject: string };
+    remote?: { name: string; config: [string, string][] };
+    renamedRemote?: { from: string; to: string };
+    config?: { key: string; values: string[] }[];
+    submodules?: { path: string; head: { branch: string | null; hash: string | null; restore: 'soft' | 'mixed' | 'keep' } }[];
+    worktree?: { path: string; branch: string | null; hash: string | null; files: { path: string; blob: string | null; mode?: number }[] };
+}
+
+export interface RemoteInfo {
+    name: string;
+    fetchUrl: string;
+    pushUrl: string;
+}
+
+export interface StashEntry {
+    index: number;
+    ref: string;
+    hash: string;
+    message: string;
+    branch: string;
+    date: string;
+}
+
+export interface StashOptions {
+    message?: string;
+    files?: string[];
+    includeUntracked?: boolean;
+}
+
+export interface RebaseTodoItem {
+    action: 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+    hash: string;
+    message?: string;
+}
+
+export interface RebaseCommit extends CommitInfo {
+    fullMessage: string;
+}
+
+export interface OperationState {
+    operation: 'merge' | 'rebase' | 'cherry-pick' | 'revert' | null;
+    target?: string;
+    headName?: string;
+    step?: number;
+    total?: number;
+    stopReason?: 'edit' | 'conflict' | 'other';
+    stoppedAt?: string;
+    remaining?: string[];
+    conflicts: { path: string; kind: ConflictKind }[];
+    message?: string;
+}
+
+export interface HookInfo {
+    name: string;
+    path: string;
+    enabled: boolean;
+    sample: boolean;
+    shadowed: boolean;
+}
+
+export interface HooksOverview {
+    activeDir: string;
+    hooksPath?: string;
+    hooks: HookInfo[];
+}
+
+export interface HookFailure {
+    operation: 'commit' | 'push';
+    hook: string;
+    exitCode: number;
+    output: string;
+}
+
+export type IgnoreTarget = 'root' | 'nested' | 'exclude';
+
+export interface IgnoreFile {
+    path: string;
+    label: string;
+    exists: boolean;
+    local: boolean;
+}
+
+export interface IgnoreMatch {
+    path: string;
+    ignored: boolean;
+    source?: string;
+    line?: number;
+    pattern?: string;
+}
+
+export interface CommitSearchQuery {
+    message?: string;
+    author?: string;
+    since?: string;
+    until?: string;
+    path?: string;
+    content?: string;
+    contentMode?: 'string' | 'regex';
+    ignoreCase?: boolean;
+    all?: boolean;
+    maxCount?: number;
+}
+
+export interface CommitSearchResult {
+    count: number;
+    truncated: boolean;
+    cancelled: boolean;
+}
+
+export interface CompareFile {
+    path: string;
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    additions: number | null;
+    deletions: number | null;
+}
+
+export interface CompareResult {
+    base: string;
+    head: string;
+    ahead: CommitInfo[];
+    behind: CommitInfo[];
+    aheadCount: number;
+    behindCount: number;
+    mergeBase: string | null;
+    diffFrom: string;
+    files: CompareFile[];
+}
+
+export interface PatchApplyResult {
+    applied: number;
+    conflicts: string[];
+    inProgress: boolean;
+}
+
+export interface AmStatus {
+    inProgress: boolean;
+    current: number;
+    total: number;
+    subject?: string;
+    conflicts: string[];
+}
+
+export interface BisectStatus {
+    inProgress: boolean;
+    bad?: string;
+    good: string[];
+    skipped: string[];
+    current?: string;
+    remaining: number;
+    steps: number;
+    firstBad?: string;
+    output?: string;
+}
+
+export interface SubmoduleInfo {
+    path: string;
+    name: string;
+    url: string;
+    recordedCommit: string;
+    checkedOutCommit: string | null;
+    state: 'uninitialized' | 'clean' | 'changed' | 'conflict';
+    describe?: string;
+}
+
+export interface SubmoduleUpdateOptions {
+    init?: boolean;
+    recursive?: boolean;
+    paths?: string[];
+}
+
+export interface WorktreeInfo {
+    path: string;
+    head: string;
+    branch?: string;
+    isMain: boolean;
+    bare: boolean;
+    detached: boolean;
+    locked: boolean;
+    prunable: boolean;
+}
+
+export interface AddWorktreeOptions {
+    createBranch?: boolean;
+    startPoint?: string;
+}
+
 export interface AuthCallbackData {
     success: boolean;
     account?: Account;
@@ -287,6 +680,8 @@ interface UpdateRepoOptions {
 }
 
 const electronAPI: ElectronAPI = {
+    platform: process.platform,
+
     window: {
         minimize: () => ipcRenderer.invoke('window:minimize'),
         maximize: () => ipcRenderer.invoke('window:maximize'),
@@ -338,43 +733,75 @@ const electronAPI: ElectronAPI = {
         status: (repoPath) => ipcRenderer.invoke('git:status', repoPath),
         stage: (repoPath, files) => ipcRenderer.invoke('git:stage', repoPath, files),
         unstage: (repoPath, files) => ipcRenderer.invoke('git:unstage', repoPath, files),
-        commit: (repoPath, message) => ipcRenderer.invoke('git:commit', repoPath, message),
-        push: (repoPath, token, remote, branch, setUpstream, force) =>
-            ipcRenderer.invoke('git:push', repoPath, token, remote, branch, setUpstream, force),
-        pull: (repoPath, token) => ipcRenderer.invoke('git:pull', repoPath, token),
+        commit: (repoPath, message, noVerify) => ipcRenderer.invoke('git:commit', repoPath, message, noVerify),
+        push: (repoPath, token, remote, branch, setUpstream, force, noVerify, operation) =>
+            ipcRenderer.invoke('git:push', repoPath, token, remote, branch, setUpstream, force, noVerify, operation),
+        pull: (repoPath, token, remote, operation) => ipcRenderer.invoke('git:pull', repoPath, token, remote, operation),
+        fetch: (repoPath, token, options, operation) => ipcRenderer.invoke('git:fetch', repoPath, token, options, operation),
         deleteRemoteBranch: (repoPath, remote, branch, token) =>
             ipcRenderer.invoke('git:deleteRemoteBranch', repoPath, remote, branch, token),
         reset: (repoPath, mode, target) => ipcRenderer.invoke('git:reset', repoPath, mode, target),
+        resetPreview: (repoPath, target, mode) => ipcRenderer.invoke('git:resetPreview', repoPath, target, mode),
         checkoutPullRequest: (repoPath: string, prNumber: number) => ipcRenderer.invoke('git:checkoutPullRequest', repoPath, prNumber),
         checkoutCommit: (repoPath, hash) => ipcRenderer.invoke('git:checkoutCommit', repoPath, hash),
         getCommitDetails: (repoPath, hash) => ipcRenderer.invoke('git:getCommitDetails', repoPath, hash),
+        getCommitSignature: (repoPath, hash) => ipcRenderer.invoke('git:getCommitSignature', repoPath, hash),
+        getCommitSignatures: (repoPath, hashes) => ipcRenderer.invoke('git:getCommitSignatures', repoPath, hashes),
         getFileDiff: (repoPath, filePath, hash1, hash2) => ipcRenderer.invoke('git:getFileDiff', repoPath, filePath, hash1, hash2),
-        sync: (repoPath, token) => ipcRenderer.invoke('git:sync', repoPath, token),
+        sync: (repoPath, token, options, operation) => ipcRenderer.invoke('git:sync', repoPath, token, options, operation),
         diff: (repoPath, file) => ipcRenderer.invoke('git:diff', repoPath, file),
-        log: (repoPath, limit) => ipcRenderer.invoke('git:log', repoPath, limit),
+        diffSections: (repoPath, file) => ipcRenderer.invoke('git:diffSections', repoPath, file),
+        applyPatch: (repoPath, patch, options) => ipcRenderer.invoke('git:applyPatch', repoPath, patch, options),
+        log: (repoPath, limit, options) => ipcRenderer.invoke('git:log', repoPath, limit, options),
         branches: (repoPath) => ipcRenderer.invoke('git:branches', repoPath),
         checkout: (repoPath, branch, create) =>
             ipcRenderer.invoke('git:checkout', repoPath, branch, create),
         deleteBranch: (repoPath, branch) => ipcRenderer.invoke('git:deleteBranch', repoPath, branch),
-        stash: (repoPath) => ipcRenderer.invoke('git:stash', repoPath),
-        stashPop: (repoPath) => ipcRenderer.invoke('git:stashPop', repoPath),
+        stash: (repoPath, options) => ipcRenderer.invoke('git:stash', repoPath, options),
+        stashPop: (repoPath, ref) => ipcRenderer.invoke('git:stashPop', repoPath, ref),
+        listStashes: (repoPath) => ipcRenderer.invoke('git:listStashes', repoPath),
+        getStashFiles: (repoPath, ref) => ipcRenderer.invoke('git:getStashFiles', repoPath, ref),
+        stashApply: (repoPath, ref) => ipcRenderer.invoke('git:stashApply', repoPath, ref),
+        stashDrop: (repoPath, ref) => ipcRenderer.invoke('git:stashDrop', repoPath, ref),
+        stashRename: (repoPath, ref, message) => ipcRenderer.invoke('git:stashRename', repoPath, ref, message),
+        stashBranch: (repoPath, branch, ref) => ipcRenderer.invoke('git:stashBranch', repoPath, branch, ref),
         revert: (repoPath) => ipcRenderer.invoke('git:revert', repoPath),
         currentBranch: (repoPath) => ipcRenderer.invoke('git:currentBranch', repoPath),
-        remoteUrl: (repoPath) => ipcRenderer.invoke('git:remoteUrl', repoPath),
-        clone: (url, destination, token) => ipcRenderer.invoke('git:clone', url, destination, token),
+        remoteUrl: (repoPath, remote) => ipcRenderer.invoke('git:remoteUrl', repoPath, remote),
+        clone: (url, destination, token, options, operation) => ipcRenderer.invoke('git:clone', url, destination, token, options, operation),
+        isShallow: (repoPath) => ipcRenderer.invoke('git:isShallow', repoPath),
+        deepen: (repoPath, token, depth, operation) => ipcRenderer.invoke('git:deepen', repoPath, token, depth, operation),
         init: (repoPath, options) => ipcRenderer.invoke('git:init', repoPath, options),
+        listRemotes: (repoPath) => ipcRenderer.invoke('git:listRemotes', repoPath),
         addRemote: (repoPath, name, url) => ipcRenderer.invoke('git:addRemote', repoPath, name, url),
-        setRemote: (repoPath, name, url) => ipcRenderer.invoke('git:setRemote', repoPath, name, url),
+        renameRemote: (repoPath, oldName, newName) => ipcRenderer.invoke('git:renameRemote', repoPath, oldName, newName),
+        removeRemote: (repoPath, name) => ipcRenderer.invoke('git:removeRemote', repoPath, name),
+        setRemote: (repoPath, name, url, pushOnly) => ipcRenderer.invoke('git:setRemote', repoPath, name, url, pushOnly),
         setUpstream: (repoPath, branch, remote) => ipcRenderer.invoke('git:setUpstream', repoPath, branch, remote),
         merge: (repoPath, branch) => ipcRenderer.invoke('git:merge', repoPath, branch),
         rebase: (repoPath, branch) => ipcRenderer.invoke('git:rebase', repoPath, branch),
-        onCloneProgress: (callback) => {
-            ipcRenderer.on('git:cloneProgress', (_event, message) => callback(message));
+        cancelOperation: (operationId) => ipcRenderer.invoke('git:cancelOperation', operationId),
+        onProgress: (callback) => {
+            const subscription = (_event: any, progress: GitProgress) => callback(progress);
+            ipcRenderer.on('git:progress', subscription);
+            return () => ipcRenderer.removeListener('git:progress', subscription);
+        },
+        queueState: () => ipcRenderer.invoke('git:queueState'),
+        undoJournal: (repoPath) => ipcRenderer.invoke('git:undoJournal', repoPath),
+        undo: (repoPath, entryId) => ipcRenderer.invoke('git:undo', repoPath, entryId),
+        clearUndoJournal: (repoPath) => ipcRenderer.invoke('git:clearUndoJournal', repoPath),
+        onUndoChanged: (callback) => {
+            const subscription = (_event: any, data: { repoPath: string; entries: UndoEntry[] }) => callback(data);
+            ipcRenderer.on('undo:changed', subscription);
+            return () => ipcRenderer.removeListener('undo:changed', subscription);
         },
         discardFile: (repoPath, file) => ipcRenderer.invoke('git:discardFile', repoPath, file),
         cleanFile: (repoPath, file) => ipcRenderer.invoke('git:cleanFile', repoPath, file),
         resolveConflict: (repoPath, file, strategy) => ipcRenderer.invoke('git:resolveConflict', repoPath, file, strategy),
-        blame: (repoPath, file) => ipcRenderer.invoke('git:blame', repoPath, file),
+        getConflictVersions: (repoPath, file) => ipcRenderer.invoke('git:getConflictVersions', repoPath, file),
+        markResolved: (repoPath, file, content) => ipcRenderer.invoke('git:markResolved', repoPath, file, content),
+        blame: (repoPath, file, rev) => ipcRenderer.invoke('git:blame', repoPath, file, rev),
+        fileHistory: (repoPath, file, limit) => ipcRenderer.invoke('git:fileHistory', repoPath, file, limit),
         listFiles: (repoPath: string) => ipcRenderer.invoke('git:listFiles', repoPath),
         getFileContent: (repoPath: string, path: string, ref?: string) => ipcRenderer.invoke('git:getFileContent', repoPath, path, ref),
         listTags: (repoPath: string) => ipcRenderer.invoke('git:listTags', repoPath),
@@ -385,8 +812,52 @@ const electronAPI: ElectronAPI = {
         cherryPick: (repoPath: string, commitHash: string) => ipcRenderer.invoke('git:cherryPick', repoPath, commitHash),
         squashCommits: (repoPath: string, count: number, message: string) => ipcRenderer.invoke('git:squashCommits', repoPath, count, message),
         rewordCommit: (repoPath: string, newMessage: string) => ipcRenderer.invoke('git:rewordCommit', repoPath, newMessage),
+        getAmendInfo: (repoPath) => ipcRenderer.invoke('git:getAmendInfo', repoPath),
+        amendCommit: (repoPath, message, resetAuthor, noVerify) => ipcRenderer.invoke('git:amendCommit', repoPath, message, resetAuthor, noVerify),
+
+        // Hooks
+        listHooks: (repoPath) => ipcRenderer.invoke('git:listHooks', repoPath),
+        setHookEnabled: (repoPath, hookPath, enabled) => ipcRenderer.invoke('git:setHookEnabled', repoPath, hookPath, enabled),
+        readHook: (repoPath, hookPath) => ipcRenderer.invoke('git:readHook', repoPath, hookPath),
+        saveHook: (repoPath, name, content, hookPath) => ipcRenderer.invoke('git:saveHook', repoPath, name, content, hookPath),
+        lastHookFailure: (repoPath) => ipcRenderer.invoke('git:lastHookFailure', repoPath),
+
+        // Ignore rules
+        listIgnoreFiles: (repoPath) => ipcRenderer.invoke('git:listIgnoreFiles', repoPath),
+        readIgnoreFile: (repoPath, filePath) => ipcRenderer.invoke('git:readIgnoreFile', repoPath, filePath),
+        writeIgnoreFile: (repoPath, filePath, content) => ipcRenderer.invoke('git:writeIgnoreFile', repoPath, filePath, content),
+        addIgnorePattern: (repoPath, pattern, target, dir) => ipcRenderer.invoke('git:addIgnorePattern', repoPath, pattern, target, dir),
+        checkIgnore: (repoPath, filePath) => ipcRenderer.invoke('git:checkIgnore', repoPath, filePath),
+
+        getRebaseCommits: (repoPath, fromHash) => ipcRenderer.invoke('git:getRebaseCommits', repoPath, fromHash),
+        interactiveRebase: (repoPath, fromHash, todo) => ipcRenderer.invoke('git:interactiveRebase', repoPath, fromHash, todo),
+
+        operationState: (repoPath) => ipcRenderer.invoke('git:operationState', repoPath),
+        continueOperation: (repoPath) => ipcRenderer.invoke('git:continueOperation', repoPath),
+        skipOperation: (repoPath) => ipcRenderer.invoke('git:skipOperation', repoPath),
+        abortOperation: (repoPath) => ipcRenderer.invoke('git:abortOperation', repoPath),
+
+        // Search
+        searchCommits: (repoPath, searchId, query) => ipcRenderer.invoke('git:searchCommits', repoPath, searchId, query),
+        cancelSearch: (searchId) => ipcRenderer.invoke('git:cancelSearch', searchId),
+        onSearchResults: (callback) => {
+            const subscription = (_event: any, data: { searchId: string; commits: CommitInfo[] }) => callback(data);
+            ipcRenderer.on('git:searchResults', subscription);
+            return () => ipcRenderer.removeListener('git:searchResults', subscription);
+        },
+
+        // Compare
+        compareRefs: (repoPath, base, head, mode) => ipcRenderer.invoke('git:compareRefs', repoPath, base, head, mode),
+
+        // Patches
+        exportPatches: (repoPath, fromHash, toHash, destination, mbox) => ipcRenderer.invoke('git:exportPatches', repoPath, fromHash, toHash, destination, mbox),
+        applyPatches: (repoPath, files, mode, threeWay) => ipcRenderer.invoke('git:applyPatches', repoPath, files, mode, threeWay),
+        amStatus: (repoPath) => ipcRenderer.invoke('git:amStatus', repoPath),
+        amContinue: (repoPath) => ipcRenderer.invoke('git:amContinue', repoPath),
+        amSkip: (repoPath) => ipcRenderer.invoke('git:amSkip', repoPath),
+        amAbort: (repoPath) => ipcRenderer.invoke('git:amAbort', repoPath),
         reflog: (repoPath: string, limit?: number) => ipcRenderer.invoke('git:reflog', repoPath, limit),
-        setIdentity: (name: string, email: string) => ipcRenderer.invoke('git:setIdentity', name, email),
+        setIdentity: (name: string, email: string, signing?: SigningConfig) => ipcRenderer.invoke('git:setIdentity', name, email, signing),
         clearIdentity: () => ipcRenderer.invoke('git:clearIdentity'),
 
         // LFS
@@ -394,10 +865,30 @@ const electronAPI: ElectronAPI = {
         lfsTrack: (repoPath: string, pattern: string) => ipcRenderer.invoke('git:lfsTrack', repoPath, pattern),
         lfsUntrack: (repoPath: string, pattern: string) => ipcRenderer.invoke('git:lfsUntrack', repoPath, pattern),
         getLfsTrackedFiles: (repoPath: string) => ipcRenderer.invoke('git:getLfsTrackedFiles', repoPath),
+
+        // Bisect
+        bisectStatus: (repoPath) => ipcRenderer.invoke('git:bisectStatus', repoPath),
+        bisectStart: (repoPath, bad, good) => ipcRenderer.invoke('git:bisectStart', repoPath, bad, good),
+        bisectMark: (repoPath, verdict, ref) => ipcRenderer.invoke('git:bisectMark', repoPath, verdict, ref),
+        bisectRun: (repoPath, command, operation) => ipcRenderer.invoke('git:bisectRun', repoPath, command, operation),
+        bisectReset: (repoPath) => ipcRenderer.invoke('git:bisectReset', repoPath),
+
+        // Submodules
+        listSubmodules: (repoPath) => ipcRenderer.invoke('git:listSubmodules', repoPath),
+        updateSubmodules: (repoPath, options, token, operation) => ipcRenderer.invoke('git:updateSubmodules', repoPath, options, token, operation),
+        syncSubmodules: (repoPath, recursive) => ipcRenderer.invoke('git:syncSubmodules', repoPath, recursive),
+
+        // Worktrees
+        listWorktrees: (repoPath) => ipcRenderer.invoke('git:listWorktrees', repoPath),
+        addWorktree: (repoPath, worktreePath, branch, options) => ipcRenderer.invoke('git:addWorktree', repoPath, worktreePath, branch, options),
+        removeWorktree: (repoPath, worktreePath, force) => ipcRenderer.invoke('git:removeWorktree', repoPath, worktreePath, force),
+        pruneWorktrees: (repoPath) => ipcRenderer.invoke('git:pruneWorktrees', repoPath),
     },
 
     dialog: {
-        openDirectory: () => ipcRenderer.invoke('dialog:openDirectory'),
+        openDirectory: (title) => ipcRenderer.invoke('dialog:openDirectory', title),
+        openFiles: (options) => ipcRenderer.invoke('dialog:openFiles', options),
+        saveFile: (options) => ipcRenderer.invoke('dialog:saveFile', options),
     },
 
     shell: {
@@ -478,12 +969,25 @@ const electronAPI: ElectronAPI = {
         onCommandComplete: (callback) => {
             ipcRenderer.on('activity:command-complete', (_event, data) => callback(data));
         },
+        onRemoteUpdate: (callback) => {
+            ipcRenderer.on('activity:remote-update', (_event, data) => callback(data));
+        },
+        onQueueChange: (callback) => {
+            ipcRenderer.on('activity:queue', (_event, state) => callback(state));
+        },
         removeActivityListeners: () => {
             ipcRenderer.removeAllListeners('activity:command-start');
             ipcRenderer.removeAllListeners('activity:command-complete');
+            ipcRenderer.removeAllListeners('activity:remote-update');
+            ipcRenderer.removeAllListeners('activity:queue');
         },
     },
 
+    autoFetch: {
+        setRepos: (repoPaths) => ipcRenderer.invoke('autoFetch:setRepos', repoPaths),
+        configure: (intervalMinutes) => ipcRenderer.invoke('autoFetch:configure', intervalMinutes),
+    },
+
     terminal: {
         create: (id: string, context: { cwd: string; username?: string; displayName?: string; email?: string; token?: string }) => ipcRenderer.invoke('terminal:create', id, context),
         write: (id, data) => ipcRenderer.invoke('terminal:write', id, data),
@@ -0,0 +1,159 @@
+import { BrowserWindow } from 'electron';
+import { GitService } from './git.service';
+import { AuthService } from './auth.service';
+import { RepoScannerService } from './repo-scanner.service';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface RemoteRefUpdate {
+    /** Remote-tracking ref, e.g. origin/main */
+    ref: string;
+    newCommits: number;
+    /** The ref did not exist before this fetch */
+    created: boolean;
+}
+
+export interface RemoteUpdateEvent {
+    repoPath: string;
+    updates: RemoteRefUpdate[];
+    fetchedAt: number;
+}
+
+interface RepoSchedule {
+    nextFetchAt: number;
+    failures: number;
+}
+
+const TICK_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// ─── Auto Fetch Service ──────────────────────────────────────────
+
+/**
+ * Periodically fetches every opened repository in the background and
+ * reports remote-tracking refs that gained commits. Repos that fail to
+ * fetch are retried with exponential backoff. Repos with git commands
+ * queued are skipped until they are idle.
+ */
+export class AutoFetchService {
+    private mainWindow: BrowserWindow | null = null;
+    private schedules = new Map<string, RepoSchedule>();
+    private intervalMs = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private isTicking = false;
+
+    constructor(
+        private gitService: GitService,
+        private repoScanner: RepoScannerService,
+        private authService: AuthService
+    ) { }
+
+    setWindow(win: BrowserWindow): void {
+        this.mainWindow = win;
+    }
+
+    /** Replaces the set of repos to fetch, keeping schedules of known ones */
+    setRepos(repoPaths: string[]): void {
+        const next = new Map<string, RepoSchedule>();
+        for (const repoPath of repoPaths) {
+            next.set(repoPath, this.schedules.get(repoPath) ?? { nextFetchAt: Date.now(), failures: 0 });
+        }
+        this.schedules = next;
+    }
+
+    /** Sets the fetch interval; 0 disables auto-fetch */
+    configure(intervalMinutes: number): void {
+        this.intervalMs = Math.max(0, intervalMinutes) * 60 * 1000;
+
+        if (this.intervalMs === 0) {
+            this.stop();
+            return;
+        }
+
+        // Pull in fetches scheduled further out than the new interval
+        const now = Date.now();
+        for (const schedule of this.schedules.values()) {
+            schedule.nextFetchAt = Math.min(schedule.nextFetchAt, now + this.intervalMs);
+        }
+
+        if (!this.timer) {
+            this.timer = setInterval(() => this.tick(), TICK_MS);
+            this.tick();
+        }
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // ── Private Helpers ──
+
+    private async tick(): Promise<void> {
+        // A slow network can make one pass outlast the tick
+        if (this.isTicking || this.intervalMs === 0) return;
+        this.isTicking = true;
+
+        try {
+            for (const [repoPath, schedule] of this.schedules) {
+                if (this.intervalMs === 0) break;
+                if (schedule.nextFetchAt > Date.now()) continue;
+                // Left due, so it is tried again on the next tick once the repo is idle
+                if (this.gitService.isRepoBusy(repoPath)) continue;
+
+                try {
+                    // Gave way to a command the user started; not a failure
+                    if (!(await this.fetchRepo(repoPath))) continue;
+                    schedule.failures = 0;
+                    schedule.nextFetchAt = Date.now() + this.intervalMs;
+                } catch {
+                    schedule.failures++;
+                    const backoff = Math.min(
+                        this.intervalMs * 2 ** schedule.failures,
+                        Math.max(this.intervalMs, MAX_BACKOFF_MS)
+                    );
+                    schedule.nextFetchAt = Date.now() + backoff;
+                }
+            }
+        } finally {
+            this.isTicking = false;
+        }
+    }
+
+    /** False when the fetch was cancelled to make way for another command */
+    private async fetchRepo(repoPath: string): Promise<boolean> {
+        const token = await this.tokenFor(repoPath);
+        const before = await this.gitService.remoteRefs(repoPath);
+
+        const { cancelled } = await this.gitService.fetch(repoPath, token, { all: true, prune: true, background: true });
+        if (cancelled) return false;
+
+        const after = await this.gitService.remoteRefs(repoPath);
+        const known = Array.from(new Set(before.values()));
+        const updates: RemoteRefUpdate[] = [];
+
+        for (const [ref, hash] of after) {
+            if (before.get(ref) === hash) continue;
+            const newCommits = await this.gitService.countNewCommits(repoPath, hash, known);
+            if (newCommits > 0) {
+                updates.push({ ref, newCommits, created: !before.has(ref) });
+            }
+        }
+
+        if (updates.length > 0 && this.mainWindow && !this.mainWindow.isDestroyed()) {
+            const event: RemoteUpdateEvent = { repoPath, updates, fetchedAt: Date.now() };
+            this.mainWindow.webContents.send('activity:remote-update', event);
+        }
+        return true;
+    }
+
+    private async tokenFor(repoPath: string): Promise<string | undefined> {
+        const accounts = await this.authService.getAccounts();
+        const accountId = await this.repoScanner.detectAccount(repoPath, accounts);
+        const account = accounts.find((a) => a.id === accountId);
+        if (!account) return undefined;
+        return (await this.authService.getToken(account.username)) ?? undefined;
+    }
+}
@@ -0,0 +1,138 @@
+import * as path from 'path';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface QueuedCommand {
+    id: string;
+    command: string;
+    queuedAt: number;
+}
+
+export interface RepoQueueState {
+    repoPath: string;
+    /** Mutating command currently holding the repo */
+    running: QueuedCommand | null;
+    /** Mutating commands waiting for their turn, oldest first */
+    pending: QueuedCommand[];
+}
+
+interface RepoQueue {
+    state: RepoQueueState;
+    tail: Promise<void>;
+}
+
+// Subcommands that never write to the repository
+const READ_ONLY_COMMANDS = new Set([
+    'status', 'log', 'show', 'diff', 'rev-parse', 'rev-list', 'ls-files', 'ls-tree',
+    'ls-remote', 'cat-file', 'for-each-ref', 'show-ref', 'merge-base', 'check-ignore',
+    'blame', 'grep', 'describe', 'shortlog', 'name-rev', 'format-patch', 'cherry',
+    'count-objects', 'verify-commit', 'verify-tag', 'var', 'version',
+]);
+
+// Subcommands that only read for some of their sub-subcommands ('' = no arguments)
+const READ_ONLY_SUBCOMMANDS: Record<string, string[]> = {
+    stash: ['list', 'show'],
+    remote: ['', '-v', 'show', 'get-url'],
+    worktree: ['list'],
+    submodule: ['', 'status'],
+    bisect: ['log', 'visualize'],
+    lfs: ['ls-files', 'status', 'env'],
+    'sparse-checkout': ['list'],
+    notes: ['', 'list', 'show'],
+};
+
+const BRANCH_WRITE_FLAGS = new Set([
+    '-d', '-D', '--delete', '-m', '-M', '--move', '-c', '-C', '--copy', '-f', '--force',
+    '-u', '--set-upstream-to', '--unset-upstream', '--edit-description',
+]);
+
+/** Whether `git <args>` only reads, so it can run alongside other commands */
+export function isReadOnlyCommand(args: string[]): boolean {
+    const [command, ...rest] = args;
+    if (!command) return false;
+    if (READ_ONLY_COMMANDS.has(command)) return true;
+
+    const subcommands = READ_ONLY_SUBCOMMANDS[command];
+    if (subcommands) return subcommands.includes(rest[0] ?? '');
+
+    switch (command) {
+        case 'config':
+            return rest.some((a) => a.startsWith('--get') || a === '--list' || a === '-l');
+        case 'branch':
+            // Listing takes only flags; a name argument creates a branch
+            return rest.every((a) => a.startsWith('-') && !BRANCH_WRITE_FLAGS.has(a.split('=')[0]));
+        case 'tag':
+            return rest.length === 0 || rest.includes('-l') || rest.includes('--list');
+        case 'symbolic-ref':
+            // `symbolic-ref HEAD` reads; `symbolic-ref HEAD refs/heads/x` writes
+            return rest.filter((a) => !a.startsWith('-')).length <= 1;
+        case 'reflog':
+            return rest.length === 0 || rest[0] === 'show' || rest[0].startsWith('-');
+        default:
+            return false;
+    }
+}
+
+// ─── Git Queue Service ───────────────────────────────────────────
+
+/**
+ * Serializes mutating git commands per repository so the UI, background
+ * refreshes and the agent never collide on `index.lock`. Read-only
+ * commands bypass the queue and run concurrently.
+ */
+export class GitQueueService {
+    private queues = new Map<string, RepoQueue>();
+    private counter = 0;
+
+    constructor(private onChange: (state: RepoQueueState) => void) { }
+
+    /** Runs `task` once every mutating command queued before it on `repoPath` has finished */
+    async run<T>(repoPath: string, command: string, task: () => Promise<T>): Promise<T> {
+        const key = this.keyFor(repoPath);
+        const queue = this.queues.get(key) ?? {
+            state: { repoPath, running: null, pending: [] },
+            tail: Promise.resolve(),
+        };
+        this.queues.set(key, queue);
+
+        const entry: QueuedCommand = { id: `queue-${Date.now()}-${++this.counter}`, command, queuedAt: Date.now() };
+        const previous = queue.tail;
+        let release!: () => void;
+        queue.tail = new Promise<void>((resolve) => { release = resolve; });
+
+        queue.state = { ...queue.state, pending: [...queue.state.pending, entry] };
+        this.onChange(queue.state);
+
+        await previous;
+        queue.state = {
+            ...queue.state,
+            running: entry,
+            pending: queue.state.pending.filter((e) => e !== entry),
+        };
+        this.onChange(queue.state);
+
+        try {
+            return await task();
+        } finally {
+            queue.state = { ...queue.state, running: null };
+            this.onChange(queue.state);
+            if (queue.state.pending.length === 0) this.queues.delete(key);
+            release();
+        }
+    }
+
+    /** Whether a mutating command is running or waiting on `repoPath` */
+    isBusy(repoPath: string): boolean {
+        return this.queues.has(this.keyFor(repoPath));
+    }
+
+    /** Current state of every repository with queued or running commands */
+    snapshot(): RepoQueueState[] {
+        return Array.from(this.queues.values(), (queue) => queue.state);
+    }
+
+    private keyFor(repoPath: string): string {
+        const resolved = path.resolve(repoPath);
+        return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+    }
+}
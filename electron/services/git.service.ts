@@ -1,10 +1,12 @@
-import { execFile, ExecFileOptions, exec } from 'child_process';
+import { execFile, ExecFileOptions, exec, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 const execAsync = promisify(exec);
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { BrowserWindow } from 'electron';
+import { GitQueueService, RepoQueueState, isReadOnlyCommand } from './git-queue.service';
+import { UndoJournalService, UndoEntry } from './undo-journal.service';
 
 // ─── Types ───────────────────────────────────────────────────────
 
@@ -14,11 +16,53 @@ export interface ExecResult {
     code: number;
 }
 
+export interface StreamResult extends ExecResult {
+    cancelled: boolean;
+    timedOut: boolean;
+}
+
+/** One parsed line of git's `--progress` output */
+export interface GitProgress {
+    operationId: string;
+    /** e.g. "Receiving objects", "remote: Compressing objects" */
+    phase: string;
+    percent?: number;
+    current?: number;
+    total?: number;
+    /** The raw line, including throughput such as "1.20 MiB | 2.00 MiB/s" */
+    message: string;
+}
+
+export interface OperationOptions {
+    /** Id the renderer uses to match progress events and to cancel */
+    operationId?: string;
+    /** Kills the operation after this many ms (defaults per operation) */
+    timeoutMs?: number;
+    onProgress?: (progress: GitProgress) => void;
+}
+
 export interface FileStatus {
     path: string;
     status: 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflict';
     staged: boolean;
     oldPath?: string;
+    /** Set when the path is a submodule; says what changed inside it */
+    submodule?: SubmoduleChange;
+    /** Set for conflicted paths; how each side changed the file */
+    conflict?: ConflictKind;
+}
+
+export type ConflictKind =
+    | 'both-modified' | 'both-added' | 'both-deleted'
+    | 'added-by-us' | 'added-by-them' | 'deleted-by-us' | 'deleted-by-them';
+
+export interface SubmoduleChange {
+    /** The checked-out commit differs from the one recorded in the superproject */
+    commitChanged: boolean;
+    /** Tracked files inside the submodule are modified */
+    modified: boolean;
+    /** The submodule contains untracked files */
+    untracked: boolean;
 }
 
 export interface CommitInfo {
@@ -29,6 +73,27 @@ export interface CommitInfo {
     email: string;
     date: string;
     refs: string;
+    parents: string[];
+}
+
+export type SignatureStatus = 'verified' | 'unverified' | 'unsigned';
+
+export interface SigningConfig {
+    /** `openpgp` for GPG keys, `ssh` for SSH signing keys */
+    format: 'openpgp' | 'ssh';
+    /** GPG key id, or path to the SSH public key */
+    key: string;
+    signCommits: boolean;
+    signTags: boolean;
+}
+
+export interface CommitSignature {
+    status: SignatureStatus;
+    /** Raw `%G?` code, e.g. G, U, X, Y, R, E, B or N */
+    code: string;
+    /** Signer identity reported by gpg/ssh, empty when unsigned */
+    signer: string;
+    key: string;
 }
 
 export interface BranchInfo {
@@ -36,6 +101,38 @@ export interface BranchInfo {
     current: boolean;
     remote: boolean;
     lastCommit?: string;
+    /** Short name of the tracked branch, e.g. origin/main */
+    upstream?: string;
+    ahead: number;
+    behind: number;
+    /** The upstream is configured but no longer exists on the remote */
+    upstreamGone: boolean;
+}
+
+export interface CloneOptions {
+    /** Truncate history to this many commits */
+    depth?: number;
+    singleBranch?: boolean;
+    /** Branch or tag to clone instead of the remote's default */
+    branch?: string;
+    /** Partial clone: blob:none fetches blobs on demand, tree:0 trees as well */
+    filter?: 'blob:none' | 'tree:0';
+    /** Directories for an initial cone-mode sparse checkout */
+    sparsePaths?: string[];
+}
+
+export interface FetchOptions {
+    prune?: boolean;
+    all?: boolean;
+    /** Remote to fetch from when not fetching all (defaults to origin) */
+    remote?: string;
+    /** Unattended fetch that gives way to any mutating command queued on the repo */
+    background?: boolean;
+}
+
+export interface FetchResult {
+    /** A background fetch gave way to a mutating command; any other cancel throws */
+    cancelled: boolean;
 }
 
 export interface BlameInfo {
@@ -46,6 +143,45 @@ export interface BlameInfo {
     email: string;
     date: string;
     message: string;
+    /** Parent commit and path to blame next, absent for lines added in a root commit */
+    previousHash?: string;
+    previousPath?: string;
+}
+
+export interface AmendInfo {
+    /** Full message of HEAD, to prefill the amend */
+    message: string;
+    author: string;
+    email: string;
+    /** Upstream that already contains HEAD; amending then needs a force push */
+    pushedTo?: string;
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard' | 'keep' | 'merge';
+
+/** What resetting the current branch to a commit would change */
+export interface ResetPreview {
+    /** Branch being moved, absent on a detached HEAD */
+    branch?: string;
+    /** Commits leaving the branch, newest first, capped at RESET_PREVIEW_LIMIT */
+    commitsRemoved: CommitInfo[];
+    removedCount: number;
+    /** Removed commits no other branch, remote branch or tag contains; only the reflog keeps them */
+    unreachable: string[];
+    /** Commits the branch gains when the target is ahead of HEAD */
+    addedCount: number;
+    /** Files whose uncommitted changes the reset throws away */
+    discardedFiles: string[];
+    /** Files with local changes that make a keep or merge reset refuse to run */
+    blockingFiles: string[];
+}
+
+export interface FileHistoryEntry extends CommitInfo {
+    /** Path of the file as of this commit */
+    path: string;
+    /** Path before this commit when it renamed the file */
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
 }
 
 export interface SyncResult {
@@ -56,6 +192,19 @@ export interface SyncResult {
     error?: string;
 }
 
+export interface SyncOptions {
+    /** Remote to pull from, e.g. `upstream` in a fork (defaults to the branch's upstream) */
+    pullRemote?: string;
+    /** Remote to push to (defaults to origin) */
+    pushRemote?: string;
+}
+
+export interface RemoteInfo {
+    name: string;
+    fetchUrl: string;
+    pushUrl: string;
+}
+
 export interface ReflogEntry {
     hash: string;
     shortHash: string;
@@ -65,6 +214,432 @@ export interface ReflogEntry {
     index: number;
 }
 
+export interface StashEntry {
+    index: number;
+    /** `stash@{n}` — shifts when stashes above it are dropped */
+    ref: string;
+    hash: string;
+    message: string;
+    branch: string;
+    date: string;
+}
+
+export interface StashOptions {
+    message?: string;
+    /** Stash only these paths */
+    files?: string[];
+    includeUntracked?: boolean;
+}
+
+export interface LogOptions {
+    /** Number of commits to skip, for paging */
+    skip?: number;
+    /** Walk from this ref instead of HEAD */
+    ref?: string;
+    /** Walk from every branch, tag and remote ref */
+    all?: boolean;
+}
+
+export interface HookInfo {
+    /** Hook name git runs, e.g. pre-commit */
+    name: string;
+    path: string;
+    enabled: boolean;
+    /** One of git's shipped *.sample templates */
+    sample: boolean;
+    /** Lives in .git/hooks while core.hooksPath points elsewhere, so git never runs it */
+    shadowed: boolean;
+}
+
+export interface HooksOverview {
+    /** Directory git runs hooks from */
+    activeDir: string;
+    /** Set when core.hooksPath overrides .git/hooks */
+    hooksPath?: string;
+    hooks: HookInfo[];
+}
+
+export interface HookFailure {
+    operation: 'commit' | 'push';
+    hook: string;
+    exitCode: number;
+    /** Everything the hook (and git) printed */
+    output: string;
+}
+
+/** Where a new ignore rule goes: top-level .gitignore, one next to the file, or the local exclude file */
+export type IgnoreTarget = 'root' | 'nested' | 'exclude';
+
+export interface IgnoreFile {
+    path: string;
+    /** Path relative to the working tree, for display */
+    label: string;
+    exists: boolean;
+    /** `info/exclude` applies to this clone only and is never committed */
+    local: boolean;
+}
+
+export interface IgnoreMatch {
+    path: string;
+    ignored: boolean;
+    /** File holding the deciding rule, relative to the working tree */
+    source?: string;
+    line?: number;
+    pattern?: string;
+}
+
+export interface CommitSearchQuery {
+    /** Regex matched against the commit message */
+    message?: string;
+    /** Regex matched against author name and email */
+    author?: string;
+    /** Dates in any form git accepts, e.g. 2024-01-31 or "2 weeks ago" */
+    since?: string;
+    until?: string;
+    /** Only commits touching this path */
+    path?: string;
+    /** Diff content to look for: a string whose count changed (-S), or a regex (-G) */
+    content?: string;
+    contentMode?: 'string' | 'regex';
+    ignoreCase?: boolean;
+    /** Search every ref instead of HEAD */
+    all?: boolean;
+    maxCount?: number;
+}
+
+export interface CommitSearchResult {
+    count: number;
+    /** Stopped at maxCount; more matches may exist */
+    truncated: boolean;
+    cancelled: boolean;
+}
+
+export interface DiffSections {
+    staged: string;
+    unstaged: string;
+}
+
+export interface ConflictVersions {
+    /** Common ancestor (index stage 1), null when the file was added on both sides */
+    base: string | null;
+    /** Our side (index stage 2), null when we deleted the file */
+    ours: string | null;
+    /** Their side (index stage 3), null when they deleted the file */
+    theirs: string | null;
+    /** Working tree content, including conflict markers */
+    merged: string;
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+    action: RebaseAction;
+    hash: string;
+    /** New message for `reword`, or on the last squash/fixup of a group for the combined commit */
+    message?: string;
+}
+
+export interface RebaseCommit extends CommitInfo {
+    /** Subject and body, to prefill a reword */
+    fullMessage: string;
+}
+
+export type SequencerOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+export interface ConflictedFile {
+    path: string;
+    kind: ConflictKind;
+}
+
+/** A merge, rebase, cherry-pick or revert that stopped halfway */
+export interface OperationState {
+    operation: SequencerOperation | null;
+    /** Branch or commit being merged, picked or reverted; the new base of a rebase */
+    target?: string;
+    /** Branch being rebased */
+    headName?: string;
+    /** 1-based rebase step */
+    step?: number;
+    total?: number;
+    /** Why the rebase stopped; `edit` waits for the commit at `stoppedAt` to be amended */
+    stopReason?: 'edit' | 'conflict' | 'other';
+    stoppedAt?: string;
+    /** Todo lines the rebase has yet to apply */
+    remaining?: string[];
+    conflicts: ConflictedFile[];
+    /** Commit message git prepared in MERGE_MSG, comment lines removed */
+    message?: string;
+}
+
+export interface WorktreeInfo {
+    path: string;
+    head: string;
+    /** Short branch name, absent when HEAD is detached */
+    branch?: string;
+    /** The repository's own working tree (always listed first by git) */
+    isMain: boolean;
+    bare: boolean;
+    detached: boolean;
+    locked: boolean;
+    /** The worktree directory is gone and `git worktree prune` will remove it */
+    prunable: boolean;
+}
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface BisectStatus {
+    inProgress: boolean;
+    bad?: string;
+    good: string[];
+    skipped: string[];
+    /** Commit currently checked out for testing */
+    current?: string;
+    /** Commits that could still be the first bad one */
+    remaining: number;
+    /** Roughly how many more verdicts are needed */
+    steps: number;
+    /** Set once the range has narrowed down to a single commit */
+    firstBad?: string;
+    /** Output of the last `git bisect run` */
+    output?: string;
+}
+
+/** `two-dot` diffs base against head; `three-dot` diffs their merge base against head */
+export type CompareMode = 'two-dot' | 'three-dot';
+
+export interface CompareFile {
+    path: string;
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    /** Null for binary files */
+    additions: number | null;
+    deletions: number | null;
+}
+
+export interface CompareResult {
+    base: string;
+    head: string;
+    /** Commits in head but not in base (base..head), newest first */
+    ahead: CommitInfo[];
+    /** Commits in base but not in head (head..base), newest first */
+    behind: CommitInfo[];
+    /** Totals; the lists above are capped */
+    aheadCount: number;
+    behindCount: number;
+    mergeBase: string | null;
+    /** Revision the file diffs start from: base, or the merge base in three-dot mode */
+    diffFrom: string;
+    files: CompareFile[];
+}
+
+export type PatchApplyMode = 'am' | 'apply';
+
+export interface PatchApplyResult {
+    /** Patches committed (am) or applied to the working tree (apply) */
+    applied: number;
+    conflicts: string[];
+    /** A `git am` session is paused and waits for continue/skip/abort */
+    inProgress: boolean;
+}
+
+export interface AmStatus {
+    inProgress: boolean;
+    /** 1-based number of the patch being applied */
+    current: number;
+    total: number;
+    /** Subject of the patch that stopped the session */
+    subject?: string;
+    conflicts: string[];
+}
+
+export interface SubmoduleInfo {
+    path: string;
+    name: string;
+    url: string;
+    /** Commit recorded in the superproject's index */
+    recordedCommit: string;
+    /** Commit checked out in the submodule, null until it is initialized */
+    checkedOutCommit: string | null;
+    state: 'uninitialized' | 'clean' | 'changed' | 'conflict';
+    /** `git describe` of the checked-out commit, when available */
+    describe?: string;
+}
+
+export interface SubmoduleUpdateOptions {
+    /** Initialize submodules that haven't been cloned yet */
+    init?: boolean;
+    recursive?: boolean;
+    /** Limit the update to these submodule paths */
+    paths?: string[];
+}
+
+export interface AddWorktreeOptions {
+    /** Create `branch` as a new branch instead of checking out an existing one */
+    createBranch?: boolean;
+    /** Commit the new branch starts from (defaults to HEAD) */
+    startPoint?: string;
+}
+
+// ─── Log Parsing ─────────────────────────────────────────────────
+
+const KNOWN_HOOKS = [
+    'applypatch-msg', 'pre-applypatch', 'post-applypatch', 'pre-commit', 'pre-merge-commit',
+    'prepare-commit-msg', 'commit-msg', 'post-commit', 'pre-rebase', 'post-checkout', 'post-merge',
+    'pre-push', 'pre-receive', 'update', 'proc-receive', 'post-receive', 'post-update',
+    'reference-transaction', 'push-to-checkout', 'pre-auto-gc', 'post-rewrite',
+    'sendemail-validate', 'fsmonitor-watchman', 'post-index-change',
+];
+
+// exec's 60s limit suits local commands; network operations get their own
+const OPERATION_TIMEOUTS = {
+    clone: 60 * 60_000,
+    fetch: 15 * 60_000,
+    pull: 15 * 60_000,
+    push: 15 * 60_000,
+    hooks: 10 * 60_000,
+    export: 15 * 60_000,
+    bisect: 2 * 60 * 60_000,
+    // Reword and squash lines commit through the hooks, once per commit
+    rebase: 60 * 60_000,
+};
+
+// No %G? here: verifying signatures runs gpg/ssh per commit, so it is only
+// done for the commits on screen through getCommitSignatures
+const LOG_FORMAT = '%H%n%h%n%s%n%an%n%ae%n%ci%n%D%n%P';
+const LOG_FORMAT_LINES = LOG_FORMAT.split('%n').length;
+const LOG_SEPARATOR = '---COMMIT_SEPARATOR---';
+const RESET_PREVIEW_LIMIT = 100;
+// Holds the reword/squash message files of an interactive rebase, inside the git dir
+const REBASE_WORK_DIR = 'flux-rebase';
+const BISECT_RUN_SCRIPT = 'flux-bisect-run';
+// Files in the git dir that record a bisect session
+const BISECT_STATE_FILES = [
+    'BISECT_START', 'BISECT_LOG', 'BISECT_TERMS', 'BISECT_NAMES',
+    'BISECT_EXPECTED_REV', 'BISECT_ANCESTORS_OK', 'BISECT_HEAD', 'BISECT_FIRST_PARENT',
+];
+// Files in the git dir that record a merge, cherry-pick or revert stopped halfway
+const SEQUENCER_STATE_FILES: Record<'merge' | 'cherry-pick' | 'revert', string[]> = {
+    merge: ['MERGE_HEAD', 'MERGE_MSG', 'MERGE_MODE'],
+    'cherry-pick': ['CHERRY_PICK_HEAD', 'MERGE_MSG'],
+    revert: ['REVERT_HEAD', 'MERGE_MSG'],
+};
+
+// Unmerged XY codes from `git status --porcelain=v2`
+const CONFLICT_KINDS: Record<string, ConflictKind> = {
+    UU: 'both-modified',
+    AA: 'both-added',
+    DD: 'both-deleted',
+    AU: 'added-by-us',
+    UA: 'added-by-them',
+    DU: 'deleted-by-us',
+    UD: 'deleted-by-them',
+};
+
+// G is a good signature from a trusted key; every other code except N
+// (unsigned) means signed but not verifiable as trusted
+function signatureStatus(code: string): SignatureStatus {
+    if (code === 'G') return 'verified';
+    if (code === 'N' || !code) return 'unsigned';
+    return 'unverified';
+}
+
+function parseCommitLines(lines: string[]): CommitInfo {
+    return {
+        hash: lines[0] || '',
+        shortHash: lines[1] || '',
+        message: lines[2] || '',
+        author: lines[3] || '',
+        email: lines[4] || '',
+        date: lines[5] || '',
+        refs: lines[6] || '',
+        parents: (lines[7] || '').split(' ').filter(Boolean),
+    };
+}
+
+/** Joins `diff --name-status -z` and `diff --numstat -z` output per file */
+function parseCompareFiles(nameStatus: string, numstat: string): CompareFile[] {
+    const stats = new Map<string, { additions: number | null; deletions: number | null }>();
+    const numTokens = numstat.split('\0');
+    for (let i = 0; i < numTokens.length; i++) {
+        if (!numTokens[i]) continue;
+        const [added, deleted, file] = numTokens[i].split('\t');
+        // Renames leave the path empty and put old and new paths in the next tokens
+        const filePath = file || numTokens[(i += 2)];
+        stats.set(filePath, {
+            additions: added === '-' ? null : parseInt(added, 10),
+            deletions: deleted === '-' ? null : parseInt(deleted, 10),
+        });
+    }
+
+    const files: CompareFile[] = [];
+    const tokens = nameStatus.split('\0');
+    for (let i = 0; i < tokens.length; i++) {
+        const code = tokens[i];
+        if (!code) continue;
+
+        let file: CompareFile;
+        if (code.startsWith('R') || code.startsWith('C')) {
+            const oldPath = tokens[++i];
+            const newPath = tokens[++i];
+            file = code.startsWith('R')
+                ? { path: newPath, oldPath, status: 'renamed', additions: 0, deletions: 0 }
+                : { path: newPath, status: 'added', additions: 0, deletions: 0 };
+        } else {
+            const filePath = tokens[++i];
+            const status = code.startsWith('A') ? 'added' : code.startsWith('D') ? 'deleted' : 'modified';
+            file = { path: filePath, status, additions: 0, deletions: 0 };
+        }
+
+        const stat = stats.get(file.path);
+        if (stat) Object.assign(file, stat);
+        files.push(file);
+    }
+    return files;
+}
+
+function parseLogOutput(stdout: string): CommitInfo[] {
+    return stdout
+        .split(LOG_SEPARATOR)
+        .filter((block) => block.trim())
+        // Only strip newlines: refs and parents may be empty lines
+        .map((block) => parseCommitLines(block.replace(/^\n+|\n+$/g, '').split('\n')));
+}
+
+function isExecutable(filePath: string): boolean {
+    // Windows has no executable bit; git runs any hook file there
+    if (process.platform === 'win32') return true;
+    try {
+        fs.accessSync(filePath, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// ─── Progress Parsing ────────────────────────────────────────────
+
+/**
+ * Parses a `--progress` line such as "Receiving objects:  45% (450/1000), 1.2 MiB | 2 MiB/s"
+ * or "remote: Counting objects: 1234, done." Returns null for anything else.
+ */
+function parseProgressLine(line: string): Omit<GitProgress, 'operationId'> | null {
+    const withPercent = line.match(/^(?:remote: )?([A-Z][a-z]+(?: [a-z]+)*):\s+(\d+)% \((\d+)\/(\d+)\)/);
+    if (withPercent) {
+        return {
+            phase: withPercent[1],
+            percent: Number(withPercent[2]),
+            current: Number(withPercent[3]),
+            total: Number(withPercent[4]),
+            message: line,
+        };
+    }
+    const countOnly = line.match(/^(?:remote: )?([A-Z][a-z]+(?: [a-z]+)*):\s+(\d+)(?:,|$)/);
+    if (countOnly) {
+        return { phase: countOnly[1], current: Number(countOnly[2]), message: line };
+    }
+    return null;
+}
+
 // ─── GIT_ASKPASS Helper ──────────────────────────────────────────
 
 /**
@@ -87,7 +662,7 @@ function createAskPassScript(token: string): string {
     return scriptPath;
 }
 
-function cleanupAskPassScript(scriptPath: string): void {
+function cleanupTempFile(scriptPath: string): void {
     try {
         if (fs.existsSync(scriptPath)) {
             fs.unlinkSync(scriptPath);
@@ -97,12 +672,57 @@ function cleanupAskPassScript(scriptPath: string): void {
     }
 }
 
+function firstLine(message: string): string {
+    const line = message.split('\n')[0].trim();
+    return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+/**
+ * Creates a temporary GIT_SEQUENCE_EDITOR script that replaces the
+ * todo list git generates with the one prepared by the app, so an
+ * interactive rebase can run without opening an editor.
+ */
+/** Single-quotes a value for sh, which git also runs exec lines and editors with */
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function createSequenceEditorScript(todoPath: string): string {
+    const tmpDir = os.tmpdir();
+    const isWindows = process.platform === 'win32';
+    const scriptName = `gitflow-sequence-editor-${Date.now()}${isWindows ? '.bat' : '.sh'}`;
+    const scriptPath = path.join(tmpDir, scriptName);
+
+    if (isWindows) {
+        fs.writeFileSync(scriptPath, `@echo off\r\ncopy /Y "${todoPath}" %1 >nul\r\n`, { mode: 0o700 });
+    } else {
+        fs.writeFileSync(scriptPath, `#!/bin/sh\ncat ${shellQuote(todoPath)} > "$1"\n`, { mode: 0o700 });
+    }
+
+    return scriptPath;
+}
+
 // ─── GitService Class ────────────────────────────────────────────
 
 export class GitService {
     private mainWindow: BrowserWindow | null = null;
     private commandCounter = 0;
-    private activeIdentity: { name: string; email: string } | null = null;
+    private searches = new Map<string, ChildProcess>();
+    private operations = new Map<string, ChildProcess | null>();
+    /** Operation ids of background fetches, keyed by resolved repo path */
+    private backgroundFetches = new Map<string, string>();
+    private hookFailures = new Map<string, HookFailure>();
+    private activeIdentity: { name: string; email: string; signing?: SigningConfig } | null = null;
+    private queue = new GitQueueService((state) => {
+        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+            this.mainWindow.webContents.send('activity:queue', state);
+        }
+    });
+    private journal = new UndoJournalService(this, (repoPath, entries) => {
+        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+            this.mainWindow.webContents.send('undo:changed', { repoPath, entries });
+        }
+    });
 
     setWindow(win: BrowserWindow): void {
         this.mainWindow = win;
@@ -111,10 +731,11 @@ export class GitService {
     /**
      * Sets the active git identity used for all git operations.
      * This ensures commits from the app use the same name/email
-     * as the integrated terminal.
+     * as the integrated terminal. An optional signing config makes
+     * commits (and tags created from the app) signed with that key.
      */
-    setActiveIdentity(name: string, email: string): void {
-        this.activeIdentity = { name, email };
+    setActiveIdentity(name: string, email: string, signing?: SigningConfig): void {
+        this.activeIdentity = { name, email, signing };
     }
 
     clearActiveIdentity(): void {
@@ -128,17 +749,24 @@ export class GitService {
 
     async checkoutPullRequest(repoPath: string, prNumber: number, branchName?: string): Promise<void> {
         const localBranch = branchName || `pr/${prNumber}`;
+        const undo = await this.journal.capture(repoPath, 'checkout', `Check out PR #${prNumber}`, {
+            head: 'keep',
+            refs: [`refs/heads/${localBranch}`],
+        });
         // Fetch the PR head to a local branch
         await this.exec(repoPath, ['fetch', 'origin', `pull/${prNumber}/head:${localBranch}`]);
         // Checkout the local branch
         await this.exec(repoPath, ['checkout', localBranch]);
+        await this.journal.add(repoPath, undo);
     }
 
     async checkoutCommit(repoPath: string, hash: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'checkout', `Check out ${hash.slice(0, 7)}`, { head: 'keep' });
         const result = await this.exec(repoPath, ['checkout', hash]);
         if (result.code !== 0) {
             throw new Error(`git checkout failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async getCommitDetails(repoPath: string, hash: string): Promise<FileStatus[]> {
@@ -183,6 +811,33 @@ export class GitService {
             });
     }
 
+    async getCommitSignature(repoPath: string, hash: string): Promise<CommitSignature> {
+        const result = await this.exec(repoPath, ['log', '-1', '--format=%G?%n%GS%n%GK', hash]);
+        if (result.code !== 0) {
+            throw new Error(`git log failed: ${result.stderr}`);
+        }
+
+        const [code = 'N', signer = '', key = ''] = result.stdout.split('\n');
+        return { status: signatureStatus(code), code, signer, key };
+    }
+
+    /** Signature status of several commits at once, keyed by full hash */
+    async getCommitSignatures(repoPath: string, hashes: string[]): Promise<Record<string, CommitSignature>> {
+        if (hashes.length === 0) return {};
+
+        const result = await this.exec(repoPath, ['show', '-s', '--format=%H%x1f%G?%x1f%GS%x1f%GK%x1e', ...hashes]);
+        if (result.code !== 0) {
+            throw new Error(`git show failed: ${result.stderr}`);
+        }
+
+        const signatures: Record<string, CommitSignature> = {};
+        for (const record of result.stdout.split('\x1e')) {
+            const [hash, code = 'N', signer = '', key = ''] = record.trim().split('\x1f');
+            if (hash) signatures[hash] = { status: signatureStatus(code), code, signer, key };
+        }
+        return signatures;
+    }
+
     async getFileDiff(repoPath: string, filePath: string, hash1: string, hash2?: string): Promise<string> {
         const args = ['diff', '--no-color', hash1];
         if (hash2) args.push(hash2);
@@ -194,17 +849,196 @@ export class GitService {
     /**
      * Core execution method. Spawns a git process with optional token injection.
      * Token injection uses GIT_ASKPASS so credentials never touch the repo config.
+     * Mutating commands wait their turn in the repo's queue.
      */
     async exec(
         repoPath: string,
         args: string[],
-        token?: string
+        token?: string,
+        extraEnv?: Record<string, string>
+    ): Promise<ExecResult> {
+        return this.enqueue(repoPath, args, token, () => this.run(repoPath, args, token, extraEnv));
+    }
+
+    /** Mutating commands currently running or waiting, per repository */
+    getQueueState(): RepoQueueState[] {
+        return this.queue.snapshot();
+    }
+
+    /** Whether a mutating command is running or waiting on the repo */
+    isRepoBusy(repoPath: string): boolean {
+        return this.queue.isBusy(repoPath);
+    }
+
+    private enqueue<T>(repoPath: string, args: string[], token: string | undefined, task: () => Promise<T>): Promise<T> {
+        if (isReadOnlyCommand(args)) return task();
+
+        // Foreground commands never wait on a background fetch; it is retried later
+        const background = this.backgroundFetches.get(path.resolve(repoPath));
+        if (background) this.cancelOperation(background);
+
+        return this.queue.run(repoPath, `git ${this.sanitizeArgs(args, token).join(' ')}`, task);
+    }
+
+    private async run(
+        repoPath: string,
+        args: string[],
+        token?: string,
+        extraEnv?: Record<string, string>
     ): Promise<ExecResult> {
+        // Reads skip the optional index refresh so they never take index.lock
+        const readEnv: Record<string, string> = isReadOnlyCommand(args) ? { GIT_OPTIONAL_LOCKS: '0' } : {};
+        const { env, askPassScript } = this.buildEnv(token, { ...readEnv, ...extraEnv });
+
+        const options: ExecFileOptions = {
+            cwd: repoPath,
+            env,
+            maxBuffer: 10 * 1024 * 1024, // 10MB for large diffs
+            timeout: 60000, // 60s timeout
+        };
+
+        const complete = this.trackCommand(repoPath, args, token);
+
+        return new Promise<ExecResult>((resolve) => {
+            execFile('git', args, options, (error, stdout, stderr) => {
+                // Cleanup askpass script immediately
+                if (askPassScript) {
+                    cleanupTempFile(askPassScript);
+                }
+
+                const code = error ? (error as any).code || 1 : 0;
+                complete(code, stderr?.toString() || '');
+
+                resolve({
+                    stdout: stdout?.toString() || '',
+                    stderr: stderr?.toString() || '',
+                    code,
+                });
+            });
+        });
+    }
+
+    /**
+     * Streaming execution for long network operations: no output buffer
+     * limit, `--progress` lines on stderr become progress events, and the
+     * process can be cancelled by operation id or killed by its timeout.
+     * Progress lines are left out of the returned stderr. An operation
+     * cancelled while still queued never starts. With `stdoutFile`, stdout
+     * is written to that file instead of being returned.
+     */
+    async execStreaming(
+        repoPath: string,
+        args: string[],
+        options: OperationOptions & { token?: string; extraEnv?: Record<string, string>; cwd?: string; stdoutFile?: string } = {}
+    ): Promise<StreamResult> {
+        const operationId = options.operationId ?? `op-${Date.now()}-${++this.commandCounter}`;
+        this.operations.set(operationId, null);
+
+        return this.enqueue(repoPath, args, options.token, async () => {
+            if (!this.operations.has(operationId)) {
+                return { stdout: '', stderr: '', code: 1, cancelled: true, timedOut: false };
+            }
+            return this.runStreaming(repoPath, args, operationId, options);
+        });
+    }
+
+    private runStreaming(
+        repoPath: string,
+        args: string[],
+        operationId: string,
+        options: OperationOptions & { token?: string; extraEnv?: Record<string, string>; cwd?: string; stdoutFile?: string }
+    ): Promise<StreamResult> {
+        const { env, askPassScript } = this.buildEnv(options.token, options.extraEnv);
+        const complete = this.trackCommand(repoPath, args, options.token);
+
+        return new Promise<StreamResult>((resolve) => {
+            const proc = spawn('git', args, { cwd: options.cwd ?? repoPath, env });
+            this.operations.set(operationId, proc);
+            const out = options.stdoutFile ? fs.createWriteStream(options.stdoutFile) : null;
+
+            let stdout = '';
+            let stderr = '';
+            let pending = '';
+            let timedOut = false;
+            let settled = false;
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                proc.kill();
+            }, options.timeoutMs ?? OPERATION_TIMEOUTS.fetch);
+
+            // Progress redraws its line with \r, so split on both line endings
+            const handleLine = (line: string) => {
+                const progress = parseProgressLine(line.trim());
+                if (progress) options.onProgress?.({ operationId, ...progress });
+                else if (line.trim()) stderr += `${line}\n`;
+            };
+
+            const finish = (code: number) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                if (pending) handleLine(pending);
+
+                const cancelled = this.operations.get(operationId) !== proc;
+                if (!cancelled) this.operations.delete(operationId);
+                if (askPassScript) cleanupTempFile(askPassScript);
+
+                const done = () => {
+                    complete(code, stderr);
+                    resolve({ stdout, stderr, code, cancelled, timedOut });
+                };
+                // Only report the file once everything piped into it is flushed
+                if (out && !out.closed) out.once('close', done);
+                else done();
+            };
+
+            if (out) {
+                out.on('error', (error) => {
+                    stderr += error.message;
+                    proc.kill();
+                });
+                proc.stdout?.pipe(out);
+            } else {
+                proc.stdout?.on('data', (data) => {
+                    stdout += data.toString();
+                });
+            }
+            proc.stderr?.on('data', (data) => {
+                const lines = (pending + data.toString()).split(/\r\n|\r|\n/);
+                pending = lines.pop() ?? '';
+                lines.forEach(handleLine);
+            });
+            proc.on('error', (error) => {
+                stderr += error.message;
+                finish(1);
+            });
+            proc.on('close', (code) => finish(code ?? 1));
+        });
+    }
+
+    /** Stops a running or queued streaming operation; it resolves with `cancelled` set */
+    cancelOperation(operationId: string): void {
+        const proc = this.operations.get(operationId);
+        this.operations.delete(operationId);
+        proc?.kill();
+    }
+
+    /** Error for a failed streaming operation, null when it succeeded */
+    private streamError(command: string, result: StreamResult): Error | null {
+        if (result.cancelled) return new Error(`git ${command} was cancelled by the user`);
+        if (result.timedOut) return new Error(`git ${command} timed out`);
+        if (result.code !== 0) return new Error(`git ${command} failed: ${result.stderr}`);
+        return null;
+    }
+
+    private buildEnv(token?: string, extraEnv?: Record<string, string>): { env: Record<string, string>; askPassScript?: string } {
         let askPassScript: string | undefined;
 
         const env: Record<string, string> = {
             ...process.env as Record<string, string>,
             GIT_TERMINAL_PROMPT: '0',
+            ...extraEnv,
         };
 
         // Inject active account identity so commits use the same
@@ -220,6 +1054,15 @@ export class GitService {
             }
         }
 
+        // Config overrides passed through GIT_CONFIG_COUNT/KEY_n/VALUE_n
+        const config: [string, string][] = [];
+
+        const signing = this.activeIdentity?.signing;
+        if (signing?.key) {
+            config.push(['user.signingkey', signing.key], ['gpg.format', signing.format]);
+            config.push(['commit.gpgsign', signing.signCommits ? 'true' : 'false']);
+        }
+
         // If a token is provided, create a GIT_ASKPASS helper
         if (token) {
             askPassScript = createAskPassScript(token);
@@ -231,19 +1074,22 @@ export class GitService {
             // Git checks credential helpers BEFORE GIT_ASKPASS, so without
             // this override, cached credentials from another account would
             // take priority over the app's token.
-            env.GIT_CONFIG_COUNT = '1';
-            env.GIT_CONFIG_KEY_0 = 'credential.helper';
-            env.GIT_CONFIG_VALUE_0 = '';
+            config.push(['credential.helper', '']);
         }
 
-        const options: ExecFileOptions = {
-            cwd: repoPath,
-            env,
-            maxBuffer: 10 * 1024 * 1024, // 10MB for large diffs
-            timeout: 60000, // 60s timeout
-        };
+        if (config.length > 0) {
+            env.GIT_CONFIG_COUNT = String(config.length);
+            config.forEach(([key, value], i) => {
+                env[`GIT_CONFIG_KEY_${i}`] = key;
+                env[`GIT_CONFIG_VALUE_${i}`] = value;
+            });
+        }
+
+        return { env, askPassScript };
+    }
 
-        // Broadcast activity start
+    /** Broadcasts the command to the activity log; call the result when it exits */
+    private trackCommand(repoPath: string, args: string[], token?: string): (code: number, stderr: string) => void {
         const commandId = `cmd-${Date.now()}-${++this.commandCounter}`;
         const safeArgs = this.sanitizeArgs(args, token);
         const commandStr = `git ${safeArgs.join(' ')}`;
@@ -258,38 +1104,22 @@ export class GitService {
             });
         }
 
-        return new Promise<ExecResult>((resolve) => {
-            execFile('git', args, options, (error, stdout, stderr) => {
-                // Cleanup askpass script immediately
-                if (askPassScript) {
-                    cleanupAskPassScript(askPassScript);
-                }
-
-                const code = error ? (error as any).code || 1 : 0;
-                const completedAt = Date.now();
-
-                // Broadcast activity complete
-                if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                    this.mainWindow.webContents.send('activity:command-complete', {
-                        id: commandId,
-                        command: commandStr,
-                        repoPath,
-                        startedAt,
-                        completedAt,
-                        durationMs: completedAt - startedAt,
-                        exitCode: code,
-                        status: code === 0 ? 'success' : 'error',
-                        errorMessage: code !== 0 ? (stderr?.toString() || '').trim() : undefined,
-                    });
-                }
-
-                resolve({
-                    stdout: stdout?.toString() || '',
-                    stderr: stderr?.toString() || '',
-                    code,
+        return (code, stderr) => {
+            const completedAt = Date.now();
+            if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+                this.mainWindow.webContents.send('activity:command-complete', {
+                    id: commandId,
+                    command: commandStr,
+                    repoPath,
+                    startedAt,
+                    completedAt,
+                    durationMs: completedAt - startedAt,
+                    exitCode: code,
+                    status: code === 0 ? 'success' : 'error',
+                    errorMessage: code !== 0 ? stderr.trim() : undefined,
                 });
-            });
-        });
+            }
+        };
     }
 
     /**
@@ -339,6 +1169,11 @@ export class GitService {
 
                 let status: FileStatus['status'];
                 const statusChar = staged ? xy[0] : xy[1];
+                // <sub> is "N..." for plain files, "S<c><m><u>" for submodules
+                const sub = parts[2];
+                const submodule = sub.startsWith('S')
+                    ? { commitChanged: sub[1] === 'C', modified: sub[2] === 'M', untracked: sub[3] === 'U' }
+                    : undefined;
 
                 switch (statusChar) {
                     case 'A':
@@ -357,16 +1192,14 @@ export class GitService {
                         status = 'modified';
                 }
 
-                // For renamed files, path is at different positions
+                // Renames carry an extra score field, then the old path as the next entry
                 if (entry.startsWith('2 ')) {
-                    const pathParts = parts.slice(8);
-                    const filePath = pathParts.join(' ');
-                    files.push({ path: filePath, status, staged });
-                    // Skip the old path entry
+                    const filePath = parts.slice(9).join(' ');
+                    files.push({ path: filePath, status, staged, submodule, oldPath: entries[i + 1] });
                     i++;
                 } else {
                     const filePath = parts.slice(8).join(' ');
-                    files.push({ path: filePath, status, staged });
+                    files.push({ path: filePath, status, staged, submodule });
                 }
             } else if (entry.startsWith('? ')) {
                 const filePath = entry.substring(2);
@@ -374,7 +1207,8 @@ export class GitService {
             } else if (entry.startsWith('u ')) {
                 const parts = entry.split(' ');
                 const filePath = parts.slice(10).join(' ');
-                files.push({ path: filePath, status: 'conflict', staged: false });
+                const conflict = CONFLICT_KINDS[parts[1]] ?? 'both-modified';
+                files.push({ path: filePath, status: 'conflict', staged: false, conflict });
             }
 
             i++;
@@ -406,11 +1240,54 @@ export class GitService {
 
     // ── Commit ──
 
-    async commit(repoPath: string, message: string): Promise<void> {
-        const result = await this.exec(repoPath, ['commit', '-m', message]);
+    /**
+     * Commits the staged changes. While a merge is in progress an empty
+     * `message` keeps the merge message git prepared in MERGE_MSG.
+     */
+    async commit(repoPath: string, message: string, noVerify = false): Promise<void> {
+        const merging = fs.existsSync(await this.gitPath(repoPath, 'MERGE_HEAD'));
+        const args = merging && !message.trim() ? ['commit', '--no-edit'] : ['commit', '-m', message];
+        if (noVerify) args.push('--no-verify');
+
+        const description = merging ? 'Merge commit' : `Commit "${firstLine(message)}"`;
+        const undo = await this.journal.capture(repoPath, 'commit', description, { head: 'soft' });
+        const result = await this.execWithHookTrace(repoPath, args, 'commit');
+        const error = this.streamError('commit', result);
+        if (error) throw error;
+        await this.journal.add(repoPath, undo);
+    }
+
+    async getAmendInfo(repoPath: string): Promise<AmendInfo> {
+        const result = await this.exec(repoPath, ['log', '-1', '--format=%an%n%ae%n%B', 'HEAD']);
         if (result.code !== 0) {
-            throw new Error(`git commit failed: ${result.stderr}`);
+            throw new Error(`git log failed: ${result.stderr}`);
+        }
+        const [author = '', email = '', ...body] = result.stdout.split('\n');
+        const info: AmendInfo = { message: body.join('\n').trim(), author, email };
+
+        const upstream = await this.exec(repoPath, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}']);
+        if (upstream.code === 0) {
+            // Exit code 0 means HEAD is reachable from the upstream, i.e. already pushed
+            const contained = await this.exec(repoPath, ['merge-base', '--is-ancestor', 'HEAD', '@{u}']);
+            if (contained.code === 0) info.pushedTo = upstream.stdout.trim();
         }
+        return info;
+    }
+
+    /**
+     * Folds the staged changes into HEAD with a new message. The original
+     * author is kept unless `resetAuthor`, which uses the active identity.
+     */
+    async amendCommit(repoPath: string, message: string, resetAuthor = false, noVerify = false): Promise<void> {
+        const args = ['commit', '--amend', '-m', message];
+        if (resetAuthor) args.push('--reset-author');
+        if (noVerify) args.push('--no-verify');
+
+        const undo = await this.journal.capture(repoPath, 'amend', 'Amend last commit', { head: 'soft' });
+        const result = await this.execWithHookTrace(repoPath, args, 'commit');
+        const error = this.streamError('commit --amend', result);
+        if (error) throw error;
+        await this.journal.add(repoPath, undo);
     }
 
     // ── Push / Pull / Sync ──
@@ -421,32 +1298,113 @@ export class GitService {
         remote = 'origin',
         branch?: string,
         setUpstream = false,
-        force: boolean = false
+        force: boolean = false,
+        noVerify = false,
+        operation: OperationOptions = {}
     ): Promise<void> {
-        const args = ['push'];
+        const args = ['push', '--progress'];
         if (setUpstream) args.push('-u');
         if (force) args.push('--force');
+        if (noVerify) args.push('--no-verify');
         args.push(remote);
         if (branch) args.push(branch);
 
-        const result = await this.exec(repoPath, args, token);
-        if (result.code !== 0) {
-            throw new Error(`git push failed: ${result.stderr}`);
+        const result = await this.execWithHookTrace(repoPath, args, 'push', {
+            timeoutMs: OPERATION_TIMEOUTS.push,
+            ...operation,
+            token,
+        });
+        const error = this.streamError('push', result);
+        if (error) throw error;
+    }
+
+    async pull(repoPath: string, token: string, remote?: string, operation: OperationOptions = {}): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'pull', `Pull from ${remote ?? 'upstream'}`, { head: 'keep' });
+        const result = await this.execStreaming(repoPath, await this.pullArgs(repoPath, remote), {
+            timeoutMs: OPERATION_TIMEOUTS.pull,
+            ...operation,
+            token,
+        });
+        const error = this.streamError('pull', result);
+        if (error) {
+            await this.holdIfPaused(repoPath, undo);
+            throw error;
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async fetch(repoPath: string, token?: string, options: FetchOptions = {}, operation: OperationOptions = {}): Promise<FetchResult> {
+        const args = ['fetch', '--progress'];
+        if (options.prune) args.push('--prune');
+        // Housekeeping would keep a background fetch holding the repo for longer
+        if (options.background) args.push('--no-auto-gc');
+        args.push(options.all ? '--all' : options.remote ?? 'origin');
+
+        const operationId = operation.operationId ?? `fetch-${Date.now()}-${++this.commandCounter}`;
+        const running = this.execStreaming(repoPath, args, {
+            timeoutMs: OPERATION_TIMEOUTS.fetch,
+            ...operation,
+            operationId,
+            token,
+        });
+
+        // Registered only after the fetch itself was queued, so it doesn't cancel itself
+        const key = path.resolve(repoPath);
+        if (options.background) this.backgroundFetches.set(key, operationId);
+        try {
+            const result = await running;
+            if (options.background && result.cancelled) return { cancelled: true };
+            const error = this.streamError('fetch', result);
+            if (error) throw error;
+            return { cancelled: false };
+        } finally {
+            if (this.backgroundFetches.get(key) === operationId) this.backgroundFetches.delete(key);
+        }
+    }
+
+    /**
+     * Pulling from a remote other than the branch's upstream needs the
+     * branch spelled out; git refuses a bare `git pull <remote>` there.
+     */
+    private async pullArgs(repoPath: string, remote?: string): Promise<string[]> {
+        const args = ['pull', '--rebase', '--autostash', '--progress'];
+        if (!remote) return args;
+
+        const branch = await this.currentBranch(repoPath);
+        const tracked = branch ? await this.exec(repoPath, ['config', '--get', `branch.${branch}.remote`]) : null;
+        if (branch && tracked?.stdout.trim() !== remote) args.push(remote, branch);
+        return args;
+    }
+
+    /** Remote-tracking refs keyed by short name, e.g. origin/main -> hash */
+    async remoteRefs(repoPath: string): Promise<Map<string, string>> {
+        const result = await this.exec(repoPath, [
+            'for-each-ref',
+            '--format=%(refname:short)%09%(objectname)',
+            'refs/remotes',
+        ]);
+
+        const refs = new Map<string, string>();
+        if (result.code !== 0) return refs;
+
+        for (const line of result.stdout.split('\n').filter(Boolean)) {
+            const [name, hash] = line.split('\t');
+            // origin/HEAD is a symref and just mirrors another branch
+            if (!name.endsWith('/HEAD')) refs.set(name, hash);
         }
+        return refs;
     }
 
-    async pull(repoPath: string, token: string): Promise<void> {
-        const result = await this.exec(
-            repoPath,
-            ['pull', '--rebase', '--autostash'],
-            token
-        );
+    /** Number of commits reachable from `tip` but from none of `exclude` */
+    async countNewCommits(repoPath: string, tip: string, exclude: string[]): Promise<number> {
+        const result = await this.exec(repoPath, ['rev-list', '--count', tip, '--not', ...exclude]);
         if (result.code !== 0) {
-            throw new Error(`git pull failed: ${result.stderr}`);
+            throw new Error(`git rev-list failed: ${result.stderr}`);
         }
+        return parseInt(result.stdout.trim(), 10) || 0;
     }
 
-    async sync(repoPath: string, token: string): Promise<SyncResult> {
+    async sync(repoPath: string, token: string, options: SyncOptions = {}, operation: OperationOptions = {}): Promise<SyncResult> {
         const result: SyncResult = {
             success: false,
             pulled: false,
@@ -454,14 +1412,23 @@ export class GitService {
             conflicts: [],
         };
 
+        // Both steps share one id, so cancelling the sync stops whichever step is current
+        const operationId = operation.operationId ?? `sync-${Date.now()}-${++this.commandCounter}`;
+
         try {
             // Step 1: Pull with rebase
-            const pullResult = await this.exec(
-                repoPath,
-                ['pull', '--rebase', '--autostash'],
-                token
-            );
+            const undo = await this.journal.capture(repoPath, 'pull', `Pull from ${options.pullRemote ?? 'upstream'}`, { head: 'keep' });
+            const pullResult = await this.execStreaming(repoPath, await this.pullArgs(repoPath, options.pullRemote), {
+                timeoutMs: OPERATION_TIMEOUTS.pull,
+                ...operation,
+                operationId,
+                token,
+            });
 
+            if (pullResult.cancelled || pullResult.timedOut) {
+                result.error = this.streamError('pull', pullResult)?.message;
+                return result;
+            }
             if (pullResult.code !== 0) {
                 // Check for conflicts
                 if (
@@ -473,20 +1440,33 @@ export class GitService {
                         .filter((f) => f.status === 'conflict')
                         .map((f) => f.path);
                     result.error = 'Merge conflicts detected';
+                    await this.holdIfPaused(repoPath, undo);
                     return result;
                 }
                 result.error = pullResult.stderr;
                 return result;
             }
             result.pulled = true;
+            // Re-registered at once, so a cancel that arrives before the push starts isn't lost
+            this.operations.set(operationId, null);
+            await this.journal.add(repoPath, undo);
 
             // Step 2: Push
-            const pushResult = await this.exec(
-                repoPath,
-                ['push', 'origin'],
-                token
-            );
+            if (!this.operations.has(operationId)) {
+                result.error = 'git push was cancelled by the user';
+                return result;
+            }
+            const pushResult = await this.execStreaming(repoPath, ['push', '--progress', options.pushRemote ?? 'origin'], {
+                timeoutMs: OPERATION_TIMEOUTS.push,
+                ...operation,
+                operationId,
+                token,
+            });
 
+            if (pushResult.cancelled || pushResult.timedOut) {
+                result.error = this.streamError('push', pushResult)?.message;
+                return result;
+            }
             if (pushResult.code !== 0) {
                 result.error = pushResult.stderr;
                 return result;
@@ -504,6 +1484,25 @@ export class GitService {
     // ── Diff ──
 
     async diff(repoPath: string, file?: string): Promise<string> {
+        const { staged, unstaged } = await this.diffSections(repoPath, file);
+
+        // Combine both diffs
+        let combinedDiff = '';
+        if (staged) combinedDiff += staged;
+        if (unstaged) {
+            if (combinedDiff) combinedDiff += '\n';
+            combinedDiff += unstaged;
+        }
+
+        return combinedDiff;
+    }
+
+    /**
+     * Same output as `diff`, but with the staged (index vs HEAD) and
+     * unstaged (worktree vs index) parts kept apart so partial patches
+     * can be built against the right base.
+     */
+    async diffSections(repoPath: string, file?: string): Promise<DiffSections> {
         const args = ['diff', '--no-color'];
         if (file) args.push('--', file);
 
@@ -515,47 +1514,167 @@ export class GitService {
             this.exec(repoPath, stagedArgs),
         ]);
 
-        // Combine both diffs
-        let combinedDiff = '';
-        if (staged.stdout) combinedDiff += staged.stdout;
-        if (unstaged.stdout) {
-            if (combinedDiff) combinedDiff += '\n';
-            combinedDiff += unstaged.stdout;
+        return { staged: staged.stdout, unstaged: unstaged.stdout };
+    }
+
+    /**
+     * Applies a (partial) patch with `git apply`. `cached` targets the
+     * index instead of the working tree, `reverse` undoes the patch.
+     */
+    async applyPatch(repoPath: string, patch: string, options: { cached?: boolean; reverse?: boolean } = {}): Promise<void> {
+        const patchPath = path.join(os.tmpdir(), `gitflow-patch-${Date.now()}.patch`);
+        fs.writeFileSync(patchPath, patch, 'utf8');
+
+        const args = ['apply', '--whitespace=nowarn'];
+        if (options.cached) args.push('--cached');
+        if (options.reverse) args.push('--reverse');
+        args.push(patchPath);
+
+        try {
+            // Only the working tree side loses changes; the index keeps its own copy
+            let undo: UndoEntry | null = null;
+            if (!options.cached) {
+                const files = await this.patchedFiles(repoPath, patchPath);
+                const target = files.length === 1 ? files[0] : `${files.length} files`;
+                undo = await this.journal.capture(repoPath, 'discard', `Discard selected lines in ${target}`, { files });
+            }
+
+            const result = await this.exec(repoPath, args);
+            if (result.code !== 0) {
+                throw new Error(`git apply failed: ${result.stderr}`);
+            }
+            if (undo) await this.journal.add(repoPath, undo);
+        } finally {
+            cleanupTempFile(patchPath);
         }
+    }
 
-        return combinedDiff;
+    /** Paths a patch file touches, both sides of a rename included */
+    private async patchedFiles(repoPath: string, patchPath: string): Promise<string[]> {
+        const result = await this.exec(repoPath, ['apply', '--numstat', '-z', patchPath]);
+        if (result.code !== 0) {
+            throw new Error(`git apply --numstat failed: ${result.stderr}`);
+        }
+
+        // "added\tdeleted\tpath" per file; a rename leaves the path empty and follows with old and new
+        const items = result.stdout.split('\0');
+        const files: string[] = [];
+        for (let i = 0; i < items.length; i++) {
+            if (!items[i]) continue;
+            const file = items[i].split('\t')[2];
+            if (file) {
+                files.push(file);
+            } else {
+                files.push(items[i + 1], items[i + 2]);
+                i += 2;
+            }
+        }
+        return files.filter(Boolean);
     }
 
     // ── Log ──
 
-    async log(repoPath: string, limit = 50): Promise<CommitInfo[]> {
-        const format = '%H%n%h%n%s%n%an%n%ae%n%ci%n%D';
-        const separator = '---COMMIT_SEPARATOR---';
-        const result = await this.exec(repoPath, [
+    async log(repoPath: string, limit = 50, options: LogOptions = {}): Promise<CommitInfo[]> {
+        const args = [
             'log',
+            // Children before parents, so graph lanes can be laid out in one pass
+            '--topo-order',
             `--max-count=${limit}`,
-            `--format=${format}${separator}`,
-        ]);
+            `--format=${LOG_FORMAT}${LOG_SEPARATOR}`,
+        ];
+        if (options.skip) args.push(`--skip=${options.skip}`);
+        if (options.all) args.push('--all');
+        else if (options.ref) args.push(options.ref);
+
+        const result = await this.exec(repoPath, args);
 
         if (result.code !== 0) {
             return [];
         }
 
-        return result.stdout
-            .split(separator)
-            .filter((block) => block.trim())
-            .map((block) => {
-                const lines = block.trim().split('\n');
-                return {
-                    hash: lines[0] || '',
-                    shortHash: lines[1] || '',
-                    message: lines[2] || '',
-                    author: lines[3] || '',
-                    email: lines[4] || '',
-                    date: lines[5] || '',
-                    refs: lines[6] || '',
-                };
+        return parseLogOutput(result.stdout);
+    }
+
+    // ── Search ──
+
+    /**
+     * Runs a filtered `git log` and reports matches in batches as git
+     * finds them, so content searches over long histories show results
+     * early. Only one search per id runs; cancelSearch stops it.
+     */
+    async searchCommits(
+        repoPath: string,
+        searchId: string,
+        query: CommitSearchQuery,
+        onBatch: (commits: CommitInfo[]) => void
+    ): Promise<CommitSearchResult> {
+        const maxCount = query.maxCount ?? 1000;
+        const args = ['log', `--max-count=${maxCount}`, `--format=${LOG_FORMAT}${LOG_SEPARATOR}`, '--extended-regexp'];
+        if (query.ignoreCase) args.push('--regexp-ignore-case');
+        if (query.message) args.push(`--grep=${query.message}`);
+        if (query.author) args.push(`--author=${query.author}`);
+        if (query.since) args.push(`--since=${query.since}`);
+        if (query.until) args.push(`--until=${query.until}`);
+        if (query.content) args.push(query.contentMode === 'regex' ? `-G${query.content}` : `-S${query.content}`);
+        if (query.all) args.push('--all');
+        args.push('--');
+        if (query.path) args.push(query.path);
+
+        this.cancelSearch(searchId);
+
+        let count = 0;
+        let pending = '';
+        const flush = (final: boolean) => {
+            const blocks = pending.split(LOG_SEPARATOR);
+            // The last block may still be arriving
+            pending = final ? '' : blocks.pop() ?? '';
+            const commits = parseLogOutput(blocks.join(LOG_SEPARATOR));
+            if (commits.length > 0) {
+                count += commits.length;
+                onBatch(commits);
+            }
+        };
+
+        return new Promise<CommitSearchResult>((resolve, reject) => {
+            const proc = execFile(
+                'git',
+                args,
+                {
+                    cwd: repoPath,
+                    env: { ...process.env as Record<string, string>, GIT_TERMINAL_PROMPT: '0' },
+                    maxBuffer: 50 * 1024 * 1024,
+                    timeout: 600000, // Pickaxe over a large history is slow
+                },
+                (error, _stdout, stderr) => {
+                    const cancelled = this.searches.get(searchId) !== proc;
+                    if (!cancelled) this.searches.delete(searchId);
+
+                    if (cancelled) {
+                        resolve({ count, truncated: false, cancelled: true });
+                    } else if (error) {
+                        reject(new Error(`git log failed: ${stderr || error.message}`));
+                    } else {
+                        flush(true);
+                        resolve({ count, truncated: count >= maxCount, cancelled: false });
+                    }
+                }
+            );
+            this.searches.set(searchId, proc);
+
+            proc.stdout?.on('data', (data) => {
+                if (this.searches.get(searchId) !== proc) return;
+                pending += data.toString();
+                flush(false);
             });
+        });
+    }
+
+    cancelSearch(searchId: string): void {
+        const proc = this.searches.get(searchId);
+        if (proc) {
+            this.searches.delete(searchId);
+            proc.kill();
+        }
     }
 
     // ── Branches ──
@@ -565,7 +1684,7 @@ export class GitService {
             'branch',
             '-a',
             '--no-color',
-            '--format=%(HEAD) %(refname:short) %(objectname:short)',
+            '--format=%(HEAD)%09%(refname:short)%09%(objectname:short)%09%(upstream:short)%09%(upstream:track,nobracket)',
         ]);
 
         if (result.code !== 0) {
@@ -576,16 +1695,22 @@ export class GitService {
             .split('\n')
             .filter(Boolean)
             .map((line) => {
-                const current = line.startsWith('*');
-                const parts = line.replace('*', '').trim().split(' ');
-                const name = parts[0];
+                const [head, name, lastCommit, upstream, track = ''] = line.split('\t');
                 const remote = name.startsWith('remotes/') || name.startsWith('origin/');
 
+                // track is e.g. "ahead 2, behind 1", "gone" or empty when in sync
+                const ahead = track.match(/ahead (\d+)/);
+                const behind = track.match(/behind (\d+)/);
+
                 return {
                     name: name.replace('remotes/origin/', '').replace(/^origin\//, ''),
-                    current,
+                    current: head === '*',
                     remote,
-                    lastCommit: parts[1],
+                    lastCommit,
+                    upstream: upstream || undefined,
+                    ahead: ahead ? parseInt(ahead[1], 10) : 0,
+                    behind: behind ? parseInt(behind[1], 10) : 0,
+                    upstreamGone: track === 'gone',
                 };
             });
     }
@@ -607,35 +1732,46 @@ export class GitService {
             ? ['checkout', '-b', branch]
             : ['checkout', branch];
 
+        const undo = await this.journal.capture(repoPath, 'checkout', create ? `Create branch ${branch}` : `Check out ${branch}`, {
+            head: 'keep',
+            refs: create ? [`refs/heads/${branch}`] : [],
+        });
         const result = await this.exec(repoPath, args);
         if (result.code !== 0) {
             throw new Error(`git checkout failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async checkoutFile(repoPath: string, file: string): Promise<void> {
         // Discard changes to a specific file: git checkout HEAD -- <file>
         // Note: For untracked files, this won't work (need clean -f). 
         // But for 'modified' or 'deleted', this works.
+        const undo = await this.journal.capture(repoPath, 'discard', `Discard changes to ${file}`, { files: [file] });
         const result = await this.exec(repoPath, ['checkout', 'HEAD', '--', file]);
         if (result.code !== 0) {
             throw new Error(`git checkout file failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async clean(repoPath: string, file: string): Promise<void> {
         // Remove untracked file
+        const undo = await this.journal.capture(repoPath, 'clean', `Delete untracked ${file}`, { files: [file] });
         const result = await this.exec(repoPath, ['clean', '-f', file]);
         if (result.code !== 0) {
             throw new Error(`git clean failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async deleteBranch(repoPath: string, branch: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'delete-branch', `Delete branch ${branch}`, { refs: [`refs/heads/${branch}`] });
         const result = await this.exec(repoPath, ['branch', '-D', branch]); // Force delete to be safe
         if (result.code !== 0) {
             throw new Error(`git branch -D failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async deleteRemoteBranch(repoPath: string, remote: string, branch: string, token: string): Promise<void> {
@@ -645,67 +1781,268 @@ export class GitService {
         }
     }
 
-    async reset(repoPath: string, mode: 'soft' | 'hard', target: string): Promise<void> {
+    async reset(repoPath: string, mode: ResetMode, target: string): Promise<void> {
+        // Hard and merge resets also throw away uncommitted changes, so keep those too
+        const undo = await this.journal.capture(repoPath, 'reset', `Reset (${mode}) to ${target}`, {
+            head: mode === 'soft' || mode === 'mixed' ? mode : 'keep',
+            dirtyFiles: mode === 'hard' || mode === 'merge',
+        });
         const result = await this.exec(repoPath, ['reset', `--${mode}`, target]);
         if (result.code !== 0) {
             throw new Error(`git reset failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
-    // ── Stash ──
+    /** Lists the commits and uncommitted changes `reset --<mode> <target>` would drop */
+    async getResetPreview(repoPath: string, target: string, mode: ResetMode): Promise<ResetPreview> {
+        const verify = await this.exec(repoPath, ['rev-parse', '--verify', '--quiet', `${target}^{commit}`]);
+        if (verify.code !== 0) {
+            throw new Error(`Unknown commit: ${target}`);
+        }
+        const hash = verify.stdout.trim();
 
-    async stash(repoPath: string): Promise<void> {
-        const attemptStash = async (retries = 3): Promise<void> => {
-            const result = await this.exec(repoPath, [
-                'stash',
-                'push',
-                '-m',
-                `GitFlow auto-stash ${new Date().toISOString()}`,
-            ]);
+        const symbolic = await this.exec(repoPath, ['symbolic-ref', '--short', '--quiet', 'HEAD']);
+        const branch = symbolic.code === 0 ? symbolic.stdout.trim() : undefined;
 
-            if (result.code !== 0) {
-                // Ignore "No local changes" error
-                if (result.stderr.includes('No local changes')) {
-                    return;
-                }
+        const count = async (range: string) =>
+            parseInt((await this.exec(repoPath, ['rev-list', '--count', range])).stdout.trim(), 10) || 0;
 
-                // Retry on lock/index error
-                if (result.stderr.includes('could not write index') || result.stderr.includes('index.lock')) {
-                    if (retries > 0) {
-                        await new Promise(resolve => setTimeout(resolve, 500));
-                        return attemptStash(retries - 1);
-                    }
-                }
+        const log = await this.exec(repoPath, [
+            'log', `--max-count=${RESET_PREVIEW_LIMIT}`, `--format=${LOG_FORMAT}${LOG_SEPARATOR}`, `${hash}..HEAD`,
+        ]);
 
-                throw new Error(`git stash failed: ${result.stderr}`);
-            }
+        // Everything else that could still reach a removed commit; the branch itself is about to move
+        const others = ['rev-list', 'HEAD', '--not', hash];
+        if (branch) others.push(`--exclude=${branch}`);
+        others.push('--branches', '--remotes', '--tags');
+        const unreachable = await this.exec(repoPath, others);
+
+        const names = async (args: string[]) => {
+            const result = await this.exec(repoPath, [...args, '--name-only', '-z']);
+            return result.code === 0 ? result.stdout.split('\0').filter(Boolean) : [];
+        };
+
+        let discardedFiles: string[] = [];
+        let blockingFiles: string[] = [];
+        if (mode === 'hard') {
+            discardedFiles = await names(['diff', 'HEAD']);
+        } else if (mode === 'keep') {
+            // --keep refuses when a file it has to update has local changes
+            const [dirty, changed] = await Promise.all([names(['diff', 'HEAD']), names(['diff', 'HEAD', hash])]);
+            blockingFiles = dirty.filter((f) => changed.includes(f));
+        } else if (mode === 'merge') {
+            // --merge resets the index but keeps unstaged edits, unless the target changes those files
+            const [staged, unstaged, changed] = await Promise.all([
+                names(['diff', '--cached']),
+                names(['diff']),
+                names(['diff', '--cached', hash]),
+            ]);
+            discardedFiles = staged.filter((f) => !unstaged.includes(f));
+            blockingFiles = unstaged.filter((f) => changed.includes(f));
+        }
+
+        return {
+            branch,
+            commitsRemoved: log.code === 0 ? parseLogOutput(log.stdout) : [],
+            removedCount: await count(`${hash}..HEAD`),
+            unreachable: unreachable.code === 0 ? unreachable.stdout.split('\n').filter(Boolean) : [],
+            addedCount: await count(`HEAD..${hash}`),
+            discardedFiles,
+            blockingFiles,
         };
+    }
+
+    // ── Stash ──
 
-        await attemptStash();
+    async stash(repoPath: string, options: StashOptions = {}): Promise<void> {
+        const args = [
+            'stash',
+            'push',
+            '-m',
+            options.message || `GitFlow auto-stash ${new Date().toISOString()}`,
+        ];
+        if (options.includeUntracked) args.push('--include-untracked');
+        if (options.files?.length) args.push('--', ...options.files);
+
+        const selected = !!options.files?.length;
+        const undo = await this.journal.capture(repoPath, 'stash', options.message ? `Stash "${firstLine(options.message)}"` : 'Stash changes', {
+            // '.' expands to the untracked files the stash takes along
+            files: selected ? options.files : options.includeUntracked ? ['.'] : [],
+            dirtyFiles: !selected,
+        });
+        const result = await this.exec(repoPath, args);
+        if (result.code !== 0) {
+            // Ignore "No local changes" error
+            if (result.stderr.includes('No local changes')) {
+                return;
+            }
+            throw new Error(`git stash failed: ${result.stderr}`);
+        }
+        await this.journal.noteCreatedStash(repoPath, undo);
+        await this.journal.add(repoPath, undo);
     }
 
-    async stashPop(repoPath: string): Promise<void> {
-        const result = await this.exec(repoPath, ['stash', 'pop']);
+    async stashPop(repoPath: string, ref?: string): Promise<void> {
+        const args = ['stash', 'pop'];
+        if (ref) args.push(ref);
+
+        const undo = await this.journal.capture(repoPath, 'stash-pop', `Pop ${ref ?? 'stash@{0}'}`, {
+            stash: ref ?? 'stash@{0}',
+            files: await this.stashPaths(repoPath, ref ?? 'stash@{0}'),
+        });
+        const result = await this.exec(repoPath, args);
         if (result.code !== 0) {
             throw new Error(`git stash pop failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async listStashes(repoPath: string): Promise<StashEntry[]> {
+        const separator = '\x1f';
+        const result = await this.exec(repoPath, [
+            'stash',
+            'list',
+            `--format=%gd${separator}%H${separator}%gs${separator}%ci`,
+        ]);
+        if (result.code !== 0) {
+            throw new Error(`git stash list failed: ${result.stderr}`);
+        }
+
+        return result.stdout
+            .split('\n')
+            .filter(Boolean)
+            .map((line, index) => {
+                const [ref, hash, subject, date] = line.split(separator);
+                // Subjects look like "On main: message" or "WIP on main: abc123 message"
+                const match = subject.match(/^(?:WIP on|On) ([^:]+): (.*)$/);
+                return {
+                    index,
+                    ref,
+                    hash,
+                    message: match ? match[2] : subject,
+                    branch: match ? match[1] : '',
+                    date,
+                };
+            });
+    }
+
+    async getStashFiles(repoPath: string, ref: string): Promise<FileStatus[]> {
+        const result = await this.exec(repoPath, ['stash', 'show', '--name-status', ref]);
+        if (result.code !== 0) {
+            throw new Error(`git stash show failed: ${result.stderr}`);
+        }
+
+        return result.stdout
+            .split('\n')
+            .filter(Boolean)
+            .map((line) => {
+                const parts = line.split('\t');
+                const code = parts[0];
+                const status: FileStatus['status'] = code.startsWith('A')
+                    ? 'added'
+                    : code.startsWith('D')
+                        ? 'deleted'
+                        : code.startsWith('R')
+                            ? 'renamed'
+                            : 'modified';
+                return { path: parts[parts.length - 1], status, staged: false };
+            });
+    }
+
+    async stashApply(repoPath: string, ref: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'stash-apply', `Apply ${ref}`, { files: await this.stashPaths(repoPath, ref) });
+        const result = await this.exec(repoPath, ['stash', 'apply', ref]);
+        if (result.code !== 0) {
+            throw new Error(`git stash apply failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    /** Every path applying a stash writes, its untracked files included */
+    private async stashPaths(repoPath: string, ref: string): Promise<string[]> {
+        const tracked = await this.exec(repoPath, ['stash', 'show', '--name-only', '--no-renames', '-z', ref]);
+        if (tracked.code !== 0) {
+            throw new Error(`git stash show failed: ${tracked.stderr}`);
+        }
+        // The third parent only exists when the stash took untracked files along
+        const untracked = await this.exec(repoPath, ['ls-tree', '-r', '--name-only', '-z', `${ref}^3`]);
+        return [...tracked.stdout.split('\0'), ...(untracked.code === 0 ? untracked.stdout.split('\0') : [])].filter(Boolean);
+    }
+
+    async stashDrop(repoPath: string, ref: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'stash-drop', `Drop ${ref}`, { stash: ref });
+        const result = await this.exec(repoPath, ['stash', 'drop', ref]);
+        if (result.code !== 0) {
+            throw new Error(`git stash drop failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    /**
+     * Git has no rename for stashes: store the same commit again with the
+     * new message, then drop the old entry. The stash moves to the top.
+     */
+    async stashRename(repoPath: string, ref: string, message: string): Promise<void> {
+        const entry = (await this.listStashes(repoPath)).find((s) => s.ref === ref);
+        if (!entry) {
+            throw new Error(`Stash ${ref} not found`);
+        }
+
+        // Keep git's "On <branch>:" prefix so the branch is still listed
+        const subject = entry.branch ? `On ${entry.branch}: ${message}` : message;
+        const undo = await this.journal.capture(repoPath, 'stash-rename', `Rename ${ref} to "${firstLine(message)}"`, {
+            stash: ref,
+            stashRenamedTo: subject,
+        });
+
+        // Storing first means a failure leaves the original entry untouched
+        const store = await this.exec(repoPath, ['stash', 'store', '-m', subject, entry.hash]);
+        if (store.code !== 0) {
+            throw new Error(`git stash store failed: ${store.stderr}`);
+        }
+
+        // The new entry is stash@{0}, so the old one moved down by one
+        const index = parseInt(ref.match(/\{(\d+)\}/)?.[1] ?? '0', 10);
+        const drop = await this.exec(repoPath, ['stash', 'drop', `stash@{${index + 1}}`]);
+        if (drop.code !== 0) {
+            throw new Error(`git stash drop failed: ${drop.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async stashBranch(repoPath: string, branch: string, ref: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'stash-branch', `Create branch ${branch} from ${ref}`, {
+            head: 'keep',
+            refs: [`refs/heads/${branch}`],
+            stash: ref,
+        });
+        const result = await this.exec(repoPath, ['stash', 'branch', branch, ref]);
+        if (result.code !== 0) {
+            throw new Error(`git stash branch failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
     }
 
     // ── Revert ──
 
     async revert(repoPath: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'revert', 'Revert last commit', { head: 'keep' });
         const result = await this.exec(repoPath, [
             'revert',
             'HEAD',
             '--no-edit',
         ]);
         if (result.code !== 0) {
+            await this.holdIfPaused(repoPath, undo);
             throw new Error(`git revert failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async resolveConflict(repoPath: string, file: string, strategy: 'theirs' | 'ours'): Promise<void> {
         const flag = strategy === 'theirs' ? '--theirs' : '--ours';
+        const undo = await this.journal.capture(repoPath, 'resolve', `Resolve ${file} with ${strategy}`, { conflicts: [file] });
 
         // 1. Checkout the version
         const checkoutResult = await this.exec(repoPath, ['checkout', flag, file]);
@@ -718,27 +2055,114 @@ export class GitService {
         if (addResult.code !== 0) {
             throw new Error(`git add failed: ${addResult.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
+    }
+
+    /**
+     * Reads the three index stages of a conflicted file plus the
+     * working tree copy, for the three-way merge editor.
+     */
+    async getConflictVersions(repoPath: string, file: string): Promise<ConflictVersions> {
+        const normalizedPath = file.replace(/\\/g, '/');
+        const readStage = async (stage: number): Promise<string | null> => {
+            const result = await this.exec(repoPath, ['show', `:${stage}:${normalizedPath}`]);
+            return result.code === 0 ? result.stdout : null;
+        };
+
+        const [base, ours, theirs] = await Promise.all([readStage(1), readStage(2), readStage(3)]);
+
+        const fullPath = path.join(repoPath, file);
+        const merged = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf8') : '';
+
+        return { base, ours, theirs, merged };
+    }
+
+    /**
+     * Writes the merged result to the working tree and stages it,
+     * which clears the conflict entries from the index.
+     */
+    async markResolved(repoPath: string, file: string, content: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'resolve', `Resolve ${file}`, { conflicts: [file] });
+        fs.writeFileSync(path.join(repoPath, file), content, 'utf8');
+
+        const result = await this.exec(repoPath, ['add', '--', file]);
+        if (result.code !== 0) {
+            throw new Error(`git add failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
     }
 
     // ── Remote ──
 
-    async getRemoteUrl(repoPath: string): Promise<string> {
+    async getRemoteUrl(repoPath: string, remote = 'origin'): Promise<string> {
         const result = await this.exec(repoPath, [
             'remote',
             'get-url',
-            'origin',
+            remote,
         ]);
         return result.stdout.trim();
     }
 
+    async listRemotes(repoPath: string): Promise<RemoteInfo[]> {
+        const result = await this.exec(repoPath, ['remote', '-v']);
+        if (result.code !== 0) {
+            throw new Error(`git remote failed: ${result.stderr}`);
+        }
+
+        // One line per remote and direction: "<name>\t<url> (fetch|push)"
+        const remotes = new Map<string, RemoteInfo>();
+        for (const line of result.stdout.split('\n').filter(Boolean)) {
+            const match = line.match(/^(\S+)\t(.*) \((fetch|push)\)$/);
+            if (!match) continue;
+            const [, name, url, direction] = match;
+            const remote = remotes.get(name) ?? { name, fetchUrl: '', pushUrl: '' };
+            if (direction === 'fetch') remote.fetchUrl = url;
+            else remote.pushUrl = url;
+            remotes.set(name, remote);
+        }
+        return [...remotes.values()];
+    }
+
     async addRemote(repoPath: string, name: string, url: string): Promise<void> {
+        // Both keys are unset beforehand, so undo removes the remote again
+        const undo = await this.journal.capture(repoPath, 'add-remote', `Add remote ${name}`, {
+            config: [`remote.${name}.url`, `remote.${name}.fetch`],
+        });
         const result = await this.exec(repoPath, ['remote', 'add', name, url]);
         if (result.code !== 0) {
             throw new Error(`git remote add failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async renameRemote(repoPath: string, oldName: string, newName: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'rename-remote', `Rename remote ${oldName} to ${newName}`, {
+            renamedRemote: { from: oldName, to: newName },
+        });
+        const result = await this.exec(repoPath, ['remote', 'rename', oldName, newName]);
+        if (result.code !== 0) {
+            throw new Error(`git remote rename failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async removeRemote(repoPath: string, name: string): Promise<void> {
+        // Removing a remote deletes its remote-tracking branches too
+        const undo = await this.journal.capture(repoPath, 'remove-remote', `Remove remote ${name}`, {
+            remote: name,
+            refPrefix: `refs/remotes/${name}/`,
+        });
+        const result = await this.exec(repoPath, ['remote', 'remove', name]);
+        if (result.code !== 0) {
+            throw new Error(`git remote remove failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
     }
 
     async setUpstream(repoPath: string, branch: string, remote = 'origin'): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'set-upstream', `Set upstream of ${branch} to ${remote}/${branch}`, {
+            config: [`branch.${branch}.remote`, `branch.${branch}.merge`],
+        });
         const result = await this.exec(repoPath, [
             'branch',
             '--set-upstream-to',
@@ -748,27 +2172,44 @@ export class GitService {
         if (result.code !== 0) {
             throw new Error(`git set upstream failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async merge(repoPath: string, branch: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'merge', `Merge ${branch}`, { head: 'keep' });
         const result = await this.exec(repoPath, ['merge', branch]);
         if (result.code !== 0) {
-            throw new Error(`Merge failed: ${result.stderr}`);
+            await this.holdIfPaused(repoPath, undo);
+            throw new Error(`Merge failed: ${result.stderr || result.stdout}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async rebase(repoPath: string, branch: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'rebase', `Rebase onto ${branch}`, { head: 'keep' });
         const result = await this.exec(repoPath, ['rebase', branch]);
         if (result.code !== 0) {
-            // Abort rebase if failed to avoid stuck state
-            await this.exec(repoPath, ['rebase', '--abort']).catch(() => { });
+            // Conflicts stay paused for the user to resolve; abort anything else to avoid a stuck state
+            if ((await this.conflictedFiles(repoPath)).length === 0) {
+                await this.exec(repoPath, ['rebase', '--abort']).catch(() => { });
+            }
+            await this.holdIfPaused(repoPath, undo);
             throw new Error(`Rebase failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
-    async blame(repoPath: string, file: string): Promise<BlameInfo[]> {
+    /**
+     * Blames `file` in the working copy, or as of `rev` when given. `file`
+     * must be the path the file had at that revision.
+     */
+    async blame(repoPath: string, file: string, rev?: string): Promise<BlameInfo[]> {
         // Use --line-porcelain to get full info for each line
-        const result = await this.exec(repoPath, ['blame', '--line-porcelain', file]);
+        const args = ['blame', '--line-porcelain'];
+        if (rev) args.push(rev);
+        args.push('--', file);
+
+        const result = await this.exec(repoPath, args);
         if (result.code !== 0) {
             throw new Error(`git blame failed: ${result.stderr}`);
         }
@@ -799,6 +2240,12 @@ export class GitService {
                 currentInfo.date = new Date(timestamp * 1000).toISOString();
             } else if (line.startsWith('summary ')) {
                 currentInfo.message = line.substring(8);
+            } else if (line.startsWith('previous ')) {
+                // "previous <hash> <path>": where this line came from before the commit
+                const rest = line.substring(9);
+                const space = rest.indexOf(' ');
+                currentInfo.previousHash = rest.substring(0, space);
+                currentInfo.previousPath = rest.substring(space + 1);
             } else if (line.startsWith('\t')) {
                 // Content line, ends the block
                 if (currentInfo.hash) {
@@ -811,74 +2258,119 @@ export class GitService {
         return blameData;
     }
 
-    // ── Clone ──
+    /**
+     * Every commit that touched `file`, newest first, following renames.
+     * Each entry carries the path the file had in that commit.
+     */
+    async fileHistory(repoPath: string, file: string, limit?: number): Promise<FileHistoryEntry[]> {
+        const args = ['log', '--follow', '--name-status', `--format=${LOG_SEPARATOR}%n${LOG_FORMAT}`];
+        if (limit) args.push(`--max-count=${limit}`);
 
-    async clone(
-        url: string,
-        destination: string,
-        token?: string,
-        onProgress?: (message: string) => void
-    ): Promise<void> {
-        const env: Record<string, string> = {
-            ...process.env as Record<string, string>,
-            GIT_TERMINAL_PROMPT: '0',
-        };
+        const result = await this.exec(repoPath, [...args, '--', file]);
+        if (result.code !== 0) {
+            throw new Error(`git log failed: ${result.stderr}`);
+        }
 
-        // Inject active identity for consistency with terminal
-        if (this.activeIdentity) {
-            if (this.activeIdentity.name) {
-                env.GIT_AUTHOR_NAME = this.activeIdentity.name;
-                env.GIT_COMMITTER_NAME = this.activeIdentity.name;
-            }
-            if (this.activeIdentity.email) {
-                env.GIT_AUTHOR_EMAIL = this.activeIdentity.email;
-                env.GIT_COMMITTER_EMAIL = this.activeIdentity.email;
-            }
-        }
+        const unquote = (p: string) => (p.startsWith('"') && p.endsWith('"') ? p.slice(1, -1) : p);
+        // Merges have no name-status line, so carry the path over from the newer commit
+        let pathAtCommit = file.replace(/\\/g, '/');
 
-        let askPassScript: string | undefined;
-        if (token) {
-            askPassScript = createAskPassScript(token);
-            env.GIT_ASKPASS = askPassScript;
-            env.GIT_CONFIG_NOSYSTEM = '1';
-            // Disable credential helpers so they don't override our token
-            env.GIT_CONFIG_COUNT = '1';
-            env.GIT_CONFIG_KEY_0 = 'credential.helper';
-            env.GIT_CONFIG_VALUE_0 = '';
-        }
-
-        const options: ExecFileOptions = {
-            env,
-            maxBuffer: 50 * 1024 * 1024, // 50MB for large repos
-            timeout: 600000, // 10 minutes
-        };
-
-        return new Promise<void>((resolve, reject) => {
-            const proc = execFile(
-                'git',
-                ['clone', '--progress', url, destination],
-                options,
-                (error, stdout, stderr) => {
-                    if (askPassScript) {
-                        cleanupAskPassScript(askPassScript);
-                    }
-
-                    if (error) {
-                        reject(new Error(`Clone failed: ${stderr || error.message}`));
+        return result.stdout
+            .split(LOG_SEPARATOR)
+            .filter((block) => block.trim())
+            .map((block) => {
+                const lines = block.replace(/^\n/, '').split('\n');
+                const commit = parseCommitLines(lines);
+                const change = lines.slice(LOG_FORMAT_LINES).find((line) => line.includes('\t'));
+
+                let status: FileHistoryEntry['status'] = 'modified';
+                let path = pathAtCommit;
+                let oldPath: string | undefined;
+
+                if (change) {
+                    const parts = change.split('\t');
+                    const code = parts[0];
+                    if (code.startsWith('R') && parts.length >= 3) {
+                        status = 'renamed';
+                        oldPath = unquote(parts[1]);
+                        path = unquote(parts[2]);
                     } else {
-                        resolve();
+                        status = code.startsWith('A') ? 'added' : code.startsWith('D') ? 'deleted' : 'modified';
+                        path = unquote(parts[1]);
                     }
                 }
-            );
 
-            // Capture progress from stderr (git writes progress to stderr)
-            if (onProgress && proc.stderr) {
-                proc.stderr.on('data', (data) => {
-                    const message = data.toString().trim();
-                    if (message) onProgress(message);
-                });
-            }
+                pathAtCommit = oldPath ?? path;
+                return { ...commit, path, oldPath, status };
+            });
+    }
+
+    // ── Clone ──
+
+    async clone(
+        url: string,
+        destination: string,
+        token?: string,
+        cloneOptions: CloneOptions = {},
+        operation: OperationOptions = {}
+    ): Promise<void> {
+        const args = ['clone', '--progress'];
+        if (cloneOptions.depth) args.push(`--depth=${cloneOptions.depth}`);
+        if (cloneOptions.singleBranch) args.push('--single-branch');
+        // --depth implies --single-branch unless told otherwise
+        else if (cloneOptions.depth) args.push('--no-single-branch');
+        if (cloneOptions.branch) args.push('--branch', cloneOptions.branch);
+        if (cloneOptions.filter) args.push(`--filter=${cloneOptions.filter}`);
+        const sparsePaths = cloneOptions.sparsePaths?.filter(Boolean) ?? [];
+        if (sparsePaths.length > 0) args.push('--sparse');
+        args.push(url, destination);
+
+        // The destination doesn't exist yet, so run from the current directory
+        const result = await this.execStreaming(destination, args, {
+            timeoutMs: OPERATION_TIMEOUTS.clone,
+            ...operation,
+            token,
+            cwd: process.cwd(),
         });
+        const error = this.streamError('clone', result);
+        if (error) throw error;
+
+        if (sparsePaths.length > 0) {
+            operation.onProgress?.({
+                operationId: operation.operationId ?? '',
+                phase: 'Checking out sparse paths',
+                message: 'Checking out sparse paths...',
+            });
+            // Partial clones fetch the newly included blobs here, hence the token,
+            // and it stays part of the clone for progress, cancel and timeout
+            const sparse = await this.execStreaming(destination, ['sparse-checkout', 'set', '--cone', ...sparsePaths], {
+                timeoutMs: OPERATION_TIMEOUTS.clone,
+                ...operation,
+                token,
+            });
+            const sparseError = this.streamError('sparse-checkout', sparse);
+            if (sparseError) throw sparseError;
+        }
+    }
+
+    async isShallow(repoPath: string): Promise<boolean> {
+        const result = await this.exec(repoPath, ['rev-parse', '--is-shallow-repository']);
+        return result.code === 0 && result.stdout.trim() === 'true';
+    }
+
+    /**
+     * Fetches more history for a shallow clone: `depth` more commits, or
+     * the complete history when omitted.
+     */
+    async deepen(repoPath: string, token?: string, depth?: number, operation: OperationOptions = {}): Promise<void> {
+        const args = ['fetch', '--progress', depth ? `--deepen=${depth}` : '--unshallow', 'origin'];
+        const result = await this.execStreaming(repoPath, args, {
+            timeoutMs: OPERATION_TIMEOUTS.fetch,
+            ...operation,
+            token,
+        });
+        const error = this.streamError('fetch', result);
+        if (error) throw error;
     }
 
     // ── Init ──
@@ -899,11 +2391,19 @@ export class GitService {
             throw new Error(`git init failed: ${result.stderr}`);
         }
     }
-    async setRemote(repoPath: string, name: string, url: string): Promise<void> {
-        const result = await this.exec(repoPath, ['remote', 'set-url', name, url]);
+
+    /** Changes a remote's URL; with `pushOnly` only the URL used for pushing */
+    async setRemote(repoPath: string, name: string, url: string, pushOnly = false): Promise<void> {
+        const args = ['remote', 'set-url'];
+        if (pushOnly) args.push('--push');
+        const undo = await this.journal.capture(repoPath, 'set-remote', `Change ${pushOnly ? 'push ' : ''}URL of ${name}`, {
+            config: [`remote.${name}.${pushOnly ? 'pushurl' : 'url'}`],
+        });
+        const result = await this.exec(repoPath, [...args, name, url]);
         if (result.code !== 0) {
             throw new Error(`git remote set-url failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     // ── Tags ──
@@ -926,17 +2426,23 @@ export class GitService {
 
     async createTag(repoPath: string, tagName: string, message?: string, commitHash?: string): Promise<void> {
         const args = ['tag'];
-        if (message) {
+        const signing = this.activeIdentity?.signing;
+        if (signing?.key && signing.signTags) {
+            // Signed tags are always annotated, so they need a message
+            args.push('-s', tagName, '-m', message || tagName);
+        } else if (message) {
             args.push('-a', tagName, '-m', message);
         } else {
             args.push(tagName);
         }
         if (commitHash) args.push(commitHash);
 
+        const undo = await this.journal.capture(repoPath, 'create-tag', `Create tag ${tagName}`, { refs: [`refs/tags/${tagName}`] });
         const result = await this.exec(repoPath, args);
         if (result.code !== 0) {
             throw new Error(`git tag failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async pushTag(repoPath: string, tagName: string, token: string): Promise<void> {
@@ -947,10 +2453,12 @@ export class GitService {
     }
 
     async deleteTag(repoPath: string, tagName: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'delete-tag', `Delete tag ${tagName}`, { refs: [`refs/tags/${tagName}`] });
         const result = await this.exec(repoPath, ['tag', '-d', tagName]);
         if (result.code !== 0) {
             throw new Error(`git tag -d failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async deleteRemoteTag(repoPath: string, tagName: string, token: string): Promise<void> {
@@ -963,15 +2471,211 @@ export class GitService {
     // ── Cherry-Pick ──
 
     async cherryPick(repoPath: string, commitHash: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'cherry-pick', `Cherry-pick ${commitHash.slice(0, 7)}`, { head: 'keep' });
         const result = await this.exec(repoPath, ['cherry-pick', commitHash]);
         if (result.code !== 0) {
+            await this.holdIfPaused(repoPath, undo);
             throw new Error(`git cherry-pick failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
+    }
+
+    // ── In-Progress Operations ──
+
+    /** Detects a merge, rebase, cherry-pick or revert that stopped halfway, e.g. on conflicts */
+    async getOperationState(repoPath: string): Promise<OperationState> {
+        const exists = async (name: string) => fs.existsSync(await this.gitPath(repoPath, name));
+        const state: OperationState = { operation: null, conflicts: [] };
+
+        const rebaseMerge = await this.gitPath(repoPath, 'rebase-merge');
+        const rebaseApply = await this.gitPath(repoPath, 'rebase-apply');
+        // rebase-apply is shared with `git am`, which marks its sessions with `applying`
+        const stateDir = fs.existsSync(rebaseMerge) ? rebaseMerge
+            : fs.existsSync(path.join(rebaseApply, 'rebasing')) ? rebaseApply
+                : null;
+
+        if (stateDir) {
+            const readState = (name: string): string => {
+                try {
+                    return fs.readFileSync(path.join(stateDir, name), 'utf8').trim();
+                } catch {
+                    return '';
+                }
+            };
+            const isMergeBackend = stateDir === rebaseMerge;
+
+            state.operation = 'rebase';
+            state.headName = readState('head-name').replace(/^refs\/heads\//, '') || undefined;
+            state.step = parseInt(readState(isMergeBackend ? 'msgnum' : 'next'), 10) || undefined;
+            state.total = parseInt(readState(isMergeBackend ? 'end' : 'last'), 10) || undefined;
+            const onto = readState('onto');
+            if (onto) state.target = await this.describeRevision(repoPath, onto);
+            if (isMergeBackend) {
+                state.stoppedAt = readState('stopped-sha') || undefined;
+                state.remaining = readState('git-rebase-todo')
+                    .split('\n')
+                    .map((line) => line.trim())
+                    .filter((line) => line && !line.startsWith('#'));
+            }
+        } else if (await exists('MERGE_HEAD')) {
+            state.operation = 'merge';
+            state.target = await this.describeRevision(repoPath, 'MERGE_HEAD');
+        } else if (await exists('CHERRY_PICK_HEAD')) {
+            state.operation = 'cherry-pick';
+            state.target = await this.describeRevision(repoPath, 'CHERRY_PICK_HEAD');
+        } else if (await exists('REVERT_HEAD')) {
+            state.operation = 'revert';
+            state.target = await this.describeRevision(repoPath, 'REVERT_HEAD');
+        } else {
+            return state;
+        }
+
+        if (state.operation !== 'rebase') {
+            state.message = await this.readMergeMessage(repoPath);
+        }
+
+        const files = await this.status(repoPath).catch(() => [] as FileStatus[]);
+        state.conflicts = files
+            .filter((f) => f.status === 'conflict')
+            .map((f) => ({ path: f.path, kind: f.conflict ?? 'both-modified' }));
+
+        if (state.operation === 'rebase') {
+            state.stopReason = state.conflicts.length > 0 ? 'conflict'
+                : fs.existsSync(path.join(rebaseMerge, 'amend')) ? 'edit'
+                    : 'other';
+        }
+        return state;
+    }
+
+    /** Finishes the current step once its conflicts are resolved and staged */
+    async continueOperation(repoPath: string): Promise<OperationState> {
+        const state = await this.getOperationState(repoPath);
+        if (!state.operation) {
+            throw new Error('No merge, rebase, cherry-pick or revert is in progress');
+        }
+        if (state.conflicts.length > 0) {
+            throw new Error(`Resolve and stage ${state.conflicts.length} conflicted file(s) before continuing`);
+        }
+
+        // Mid-rebase HEAD is detached, so only the other operations can be undone from here
+        // when the app did not start them and holds no entry from before they paused
+        const operation = state.operation;
+        const verb = operation === 'merge' ? 'Merge' : operation === 'cherry-pick' ? 'Cherry-pick' : 'Revert';
+        const undo = operation === 'rebase'
+            ? null
+            : await this.journal.capture(repoPath, operation, `${verb} ${state.target ?? 'HEAD'}`, { head: 'keep' });
+
+        const next = await this.runSequencerCommand(repoPath, operation, '--continue');
+        if (!next.operation && !(await this.journal.release(repoPath, operation)) && undo) {
+            await this.journal.add(repoPath, undo);
+        }
+        return next;
+    }
+
+    /** Drops the commit the rebase, cherry-pick or revert stopped at and goes on with the next */
+    async skipOperation(repoPath: string): Promise<OperationState> {
+        const { operation } = await this.getOperationState(repoPath);
+        if (!operation) {
+            throw new Error('No rebase, cherry-pick or revert is in progress');
+        }
+        if (operation === 'merge') {
+            throw new Error('A merge cannot be skipped; abort it instead');
+        }
+
+        const next = await this.runSequencerCommand(repoPath, operation, '--skip');
+        if (!next.operation) await this.journal.release(repoPath, operation);
+        return next;
+    }
+
+    /** Restores the branch to where it was before the operation started */
+    async abortOperation(repoPath: string): Promise<void> {
+        const { operation, target } = await this.getOperationState(repoPath);
+        if (!operation) return;
+
+        const undo = await this.journal.capture(repoPath, 'abort', `Abort ${operation} of ${target ?? 'HEAD'}`, {
+            head: 'keep',
+            dirtyFiles: true,
+            stateFiles: operation === 'rebase' ? await this.rebaseStateFiles(repoPath) : SEQUENCER_STATE_FILES[operation],
+        });
+        const result = await this.exec(repoPath, [operation, '--abort']);
+        if (result.code !== 0) {
+            throw new Error(`git ${operation} --abort failed: ${result.stderr}`);
+        }
+        if (operation === 'rebase') await this.removeRebaseWorkDir(repoPath);
+        await this.journal.discard(repoPath);
+        await this.journal.add(repoPath, undo);
+    }
+
+    /** Keeps `undo` until the operation it left stopped halfway, if any, is continued to the end */
+    private async holdIfPaused(repoPath: string, undo: UndoEntry): Promise<void> {
+        const { operation } = await this.getOperationState(repoPath);
+        if (operation) await this.journal.hold(repoPath, undo, operation);
+    }
+
+    /**
+     * The state dir of the rebase in progress, plus the message files of an
+     * interactive one, so undoing an abort can put them back
+     */
+    private async rebaseStateFiles(repoPath: string): Promise<string[]> {
+        return fs.existsSync(await this.gitPath(repoPath, 'rebase-merge')) ? ['rebase-merge', REBASE_WORK_DIR] : ['rebase-apply'];
+    }
+
+    /** Removes the interactive rebase's message files once the rebase has ended */
+    private async removeRebaseWorkDir(repoPath: string): Promise<void> {
+        fs.rmSync(await this.gitPath(repoPath, REBASE_WORK_DIR), { recursive: true, force: true });
+    }
+
+    private async runSequencerCommand(repoPath: string, operation: SequencerOperation, flag: '--continue' | '--skip'): Promise<OperationState> {
+        // GIT_EDITOR=true accepts the prepared commit messages without opening an editor;
+        // streaming, since the remaining steps run commit hooks that can outlast exec's timeout
+        const result = await this.execStreaming(repoPath, [operation, flag], {
+            timeoutMs: OPERATION_TIMEOUTS.rebase,
+            extraEnv: { GIT_EDITOR: 'true' },
+        });
+        if (result.timedOut) {
+            throw this.streamError(`${operation} ${flag}`, result);
+        }
+        const state = await this.getOperationState(repoPath);
+        if (operation === 'rebase' && state.operation !== 'rebase') await this.removeRebaseWorkDir(repoPath);
+        // Stopping again on the next commit's conflicts is not a failure, nor is a rebase
+        // pausing for any other reason, e.g. an edit or a failed exec line
+        const paused = state.conflicts.length > 0 || (operation === 'rebase' && state.operation === 'rebase');
+        if (result.code !== 0 && !paused) {
+            throw new Error(`git ${operation} ${flag} failed: ${result.stderr || result.stdout}`);
+        }
+        return state;
+    }
+
+    /** Names a commit by the branch or tag pointing at it, falling back to its short hash */
+    private async describeRevision(repoPath: string, rev: string): Promise<string> {
+        const refs = await this.exec(repoPath, [
+            'for-each-ref', '--points-at', rev, '--format=%(refname:short)', 'refs/heads', 'refs/remotes', 'refs/tags',
+        ]);
+        const name = refs.stdout.split('\n').find(Boolean);
+        if (name) return name;
+
+        const short = await this.exec(repoPath, ['rev-parse', '--short', rev]);
+        return short.code === 0 ? short.stdout.trim() : rev;
+    }
+
+    private async readMergeMessage(repoPath: string): Promise<string | undefined> {
+        try {
+            const message = fs.readFileSync(await this.gitPath(repoPath, 'MERGE_MSG'), 'utf8');
+            const text = message
+                .split('\n')
+                .filter((line) => !line.startsWith('#'))
+                .join('\n')
+                .trim();
+            return text || undefined;
+        } catch {
+            return undefined;
+        }
     }
 
     // ── Squash / Reword ──
 
     async squashCommits(repoPath: string, count: number, message: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'squash', `Squash ${count} commits`, { head: 'keep' });
         // Soft reset to undo N commits, keeping changes staged
         const resetResult = await this.exec(repoPath, ['reset', '--soft', `HEAD~${count}`]);
         if (resetResult.code !== 0) {
@@ -982,13 +2686,774 @@ export class GitService {
         if (commitResult.code !== 0) {
             throw new Error(`git commit failed: ${commitResult.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
     }
 
     async rewordCommit(repoPath: string, newMessage: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'reword', 'Reword last commit', { head: 'keep' });
         const result = await this.exec(repoPath, ['commit', '--amend', '-m', newMessage]);
         if (result.code !== 0) {
             throw new Error(`git commit --amend failed: ${result.stderr}`);
         }
+        await this.journal.add(repoPath, undo);
+    }
+
+    // ── Interactive Rebase ──
+
+    /**
+     * Resolves a path inside the repository's git directory.
+     * Uses `--git-path` so linked worktrees resolve to their own state dir.
+     */
+    private async gitPath(repoPath: string, name: string): Promise<string> {
+        const result = await this.exec(repoPath, ['rev-parse', '--git-path', name]);
+        if (result.code !== 0) {
+            throw new Error(`git rev-parse failed: ${result.stderr}`);
+        }
+        return path.resolve(repoPath, result.stdout.trim());
+    }
+
+    /**
+     * Lists the commits an interactive rebase starting at `fromHash`
+     * would rewrite (fromHash itself up to HEAD), oldest first.
+     */
+    async getRebaseCommits(repoPath: string, fromHash: string): Promise<RebaseCommit[]> {
+        const isRoot = await this.isRootCommit(repoPath, fromHash);
+        const range = isRoot ? 'HEAD' : `${fromHash}~1..HEAD`;
+
+        const result = await this.exec(repoPath, [
+            'log',
+            '--reverse',
+            '--no-merges',
+            `--format=${LOG_FORMAT}${LOG_SEPARATOR}`,
+            range,
+        ]);
+        if (result.code !== 0) {
+            throw new Error(`git log failed: ${result.stderr}`);
+        }
+
+        // Bodies can hold anything, so they come separately, delimited by control characters
+        const bodies = await this.exec(repoPath, ['log', '--no-merges', '--format=%H%x1f%B%x1e', range]);
+        const messages = new Map<string, string>();
+        for (const record of bodies.stdout.split('\x1e')) {
+            const [hash, body] = record.replace(/^\n+/, '').split('\x1f');
+            if (hash && body !== undefined) messages.set(hash, body.trim());
+        }
+
+        return parseLogOutput(result.stdout).map((commit) => ({
+            ...commit,
+            fullMessage: messages.get(commit.hash) ?? commit.message,
+        }));
+    }
+
+    private async isRootCommit(repoPath: string, hash: string): Promise<boolean> {
+        const result = await this.exec(repoPath, ['rev-list', '--parents', '-n', '1', hash]);
+        if (result.code !== 0) {
+            throw new Error(`git rev-list failed: ${result.stderr}`);
+        }
+        return result.stdout.trim().split(' ').length === 1;
+    }
+
+    /**
+     * Runs `git rebase -i` non-interactively with a todo list built by the app.
+     * Rewording is done with an `exec git commit --amend -F` line after the
+     * commit, so no editor is ever opened. Stops (edit or conflicts) are not
+     * errors: the returned status describes where the rebase paused.
+     */
+    async interactiveRebase(repoPath: string, fromHash: string, todo: RebaseTodoItem[]): Promise<OperationState> {
+        if (todo.length === 0) {
+            throw new Error('Nothing to rebase');
+        }
+        if (todo[0].action === 'squash' || todo[0].action === 'fixup') {
+            throw new Error('The first commit cannot be squashed or fixed up');
+        }
+
+        // Message files live in the git dir so they survive a pause; whichever
+        // command sees the rebase end removes them
+        const workDir = await this.gitPath(repoPath, REBASE_WORK_DIR);
+        fs.rmSync(workDir, { recursive: true, force: true });
+        fs.mkdirSync(workDir, { recursive: true });
+        const lines: string[] = [];
+
+        todo.forEach((item, i) => {
+            const action = item.action === 'reword' ? 'pick' : item.action;
+            lines.push(`${action} ${item.hash}`);
+
+            // Squash groups get their message once the last member, squash or fixup, is applied
+            const next = todo.slice(i + 1).find((t) => t.action !== 'drop');
+            const melds = (t?: RebaseTodoItem) => t?.action === 'squash' || t?.action === 'fixup';
+            const endsGroup = melds(item) && !melds(next);
+            if (item.message && (item.action === 'reword' || endsGroup)) {
+                const messagePath = path.join(workDir, `message-${i}.txt`);
+                fs.writeFileSync(messagePath, item.message, 'utf8');
+                lines.push(`exec git commit --amend --allow-empty -F ${shellQuote(messagePath.replace(/\\/g, '/'))}`);
+            }
+        });
+
+        const todoPath = path.join(workDir, 'git-rebase-todo');
+        fs.writeFileSync(todoPath, lines.join('\n') + '\n', 'utf8');
+        const editorScript = createSequenceEditorScript(todoPath);
+
+        const isRoot = await this.isRootCommit(repoPath, fromHash);
+        const args = ['rebase', '-i', isRoot ? '--root' : `${fromHash}~1`];
+        const undo = await this.journal.capture(repoPath, 'rebase', `Interactive rebase from ${fromHash.slice(0, 7)}`, { head: 'keep' });
+
+        try {
+            // Streaming, since the hooks each reword or squash commits through can outlast exec's timeout
+            const result = await this.execStreaming(repoPath, args, {
+                timeoutMs: OPERATION_TIMEOUTS.rebase,
+                extraEnv: {
+                    GIT_SEQUENCE_EDITOR: editorScript.replace(/\\/g, '/'),
+                    // Accept git's combined message for squashes without a custom one
+                    GIT_EDITOR: 'true',
+                },
+            });
+            if (result.timedOut) {
+                throw this.streamError('rebase', result);
+            }
+
+            const state = await this.getOperationState(repoPath);
+            const paused = state.operation === 'rebase';
+            if (!paused) await this.removeRebaseWorkDir(repoPath);
+            if (result.code !== 0 && !paused) {
+                throw new Error(`git rebase failed: ${result.stderr}`);
+            }
+            // A paused rebase is journaled once it is continued to the end
+            if (paused) await this.journal.hold(repoPath, undo, 'rebase');
+            else await this.journal.add(repoPath, undo);
+            return state;
+        } finally {
+            cleanupTempFile(editorScript);
+        }
+    }
+
+    // ── Hooks ──
+
+    async listHooks(repoPath: string): Promise<HooksOverview> {
+        const { defaultDir, hooksPath } = await this.hookDirs(repoPath);
+        const dirs = hooksPath ? [hooksPath, defaultDir] : [defaultDir];
+        const hooks: HookInfo[] = [];
+
+        for (const dir of dirs) {
+            if (!fs.existsSync(dir)) continue;
+            const shadowed = dir !== dirs[0];
+            const dirHooks: HookInfo[] = [];
+
+            for (const fileName of fs.readdirSync(dir).sort()) {
+                const filePath = path.join(dir, fileName);
+                const match = fileName.match(/^(.+?)(\.sample|\.disabled)?$/);
+                if (!match || !KNOWN_HOOKS.includes(match[1]) || !fs.statSync(filePath).isFile()) continue;
+
+                dirHooks.push({
+                    name: match[1],
+                    path: filePath,
+                    enabled: !match[2] && isExecutable(filePath),
+                    sample: match[2] === '.sample',
+                    shadowed,
+                });
+            }
+
+            // Samples are only interesting for hooks that aren't set up yet
+            hooks.push(...dirHooks.filter((h) => !h.sample || !dirHooks.some((o) => o.name === h.name && !o.sample)));
+        }
+
+        return { activeDir: dirs[0], hooksPath, hooks };
+    }
+
+    /**
+     * Enables a hook by making it executable under its real name (copying
+     * samples, renaming `.disabled` files back) or disables it by renaming
+     * it to `<name>.disabled`.
+     */
+    async setHookEnabled(repoPath: string, hookPath: string, enabled: boolean): Promise<void> {
+        await this.assertHookPath(repoPath, hookPath);
+        const target = hookPath.replace(/\.(sample|disabled)$/, '');
+
+        if (!enabled && target !== hookPath) return;
+        if (enabled && target !== hookPath && fs.existsSync(target)) {
+            throw new Error(`${path.basename(target)} already exists`);
+        }
+
+        // Every name the hook can move between, so undo puts it back under the old one
+        const undo = await this.journal.capture(repoPath, 'set-hook', `${enabled ? 'Enable' : 'Disable'} ${path.basename(target)} hook`, {
+            files: [...new Set([hookPath, target, `${target}.disabled`])],
+        });
+        if (!enabled) {
+            fs.renameSync(hookPath, `${hookPath}.disabled`);
+        } else {
+            if (hookPath.endsWith('.sample')) fs.copyFileSync(hookPath, target);
+            else if (target !== hookPath) fs.renameSync(hookPath, target);
+            fs.chmodSync(target, 0o755);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    async readHook(repoPath: string, hookPath: string): Promise<string> {
+        await this.assertHookPath(repoPath, hookPath);
+        return fs.readFileSync(hookPath, 'utf8');
+    }
+
+    /** Writes a hook script; new hooks are created enabled in the active hooks directory */
+    async saveHook(repoPath: string, name: string, content: string, hookPath?: string): Promise<void> {
+        if (!KNOWN_HOOKS.includes(name)) {
+            throw new Error(`Unknown hook: ${name}`);
+        }
+
+        let target = hookPath;
+        if (target) {
+            await this.assertHookPath(repoPath, target);
+        } else {
+            const { defaultDir, hooksPath } = await this.hookDirs(repoPath);
+            const dir = hooksPath ?? defaultDir;
+            fs.mkdirSync(dir, { recursive: true });
+            target = path.join(dir, name);
+            if (fs.existsSync(target)) {
+                throw new Error(`${name} hook already exists`);
+            }
+        }
+
+        const undo = await this.journal.capture(repoPath, 'save-hook', `Save ${name} hook`, { files: [target] });
+        fs.writeFileSync(target, content.replace(/\r\n/g, '\n'), 'utf8');
+        if (!/\.(sample|disabled)$/.test(target)) fs.chmodSync(target, 0o755);
+        await this.journal.add(repoPath, undo);
+    }
+
+    /** Hook that made the last commit/push in this repo fail, if any */
+    getLastHookFailure(repoPath: string): HookFailure | null {
+        return this.hookFailures.get(repoPath) ?? null;
+    }
+
+    private async hookDirs(repoPath: string): Promise<{ defaultDir: string; hooksPath?: string }> {
+        const commonDir = await this.exec(repoPath, ['rev-parse', '--git-common-dir']);
+        if (commonDir.code !== 0) {
+            throw new Error(`git rev-parse failed: ${commonDir.stderr}`);
+        }
+        const defaultDir = path.join(path.resolve(repoPath, commonDir.stdout.trim()), 'hooks');
+
+        // Relative hooksPath values are resolved against the working tree root
+        const configured = await this.exec(repoPath, ['config', '--path', '--get', 'core.hooksPath']);
+        const hooksPath = configured.code === 0 && configured.stdout.trim()
+            ? path.resolve(repoPath, configured.stdout.trim())
+            : undefined;
+
+        return { defaultDir, hooksPath: hooksPath === defaultDir ? undefined : hooksPath };
+    }
+
+    // Hook paths come from the renderer; only touch files in this repo's hook dirs
+    private async assertHookPath(repoPath: string, hookPath: string): Promise<void> {
+        const { defaultDir, hooksPath } = await this.hookDirs(repoPath);
+        const dir = path.dirname(path.resolve(hookPath));
+        if (dir !== defaultDir && dir !== hooksPath) {
+            throw new Error(`Not a hook of this repository: ${hookPath}`);
+        }
+    }
+
+    /**
+     * Runs a command that may trigger hooks with a trace2 event log, so a
+     * failure can be pinned on the hook that exited non-zero rather than
+     * just surfacing git's stderr.
+     */
+    private async execWithHookTrace(
+        repoPath: string,
+        args: string[],
+        operation: HookFailure['operation'],
+        options: OperationOptions & { token?: string } = {}
+    ): Promise<StreamResult> {
+        this.hookFailures.delete(repoPath);
+        const tracePath = path.join(os.tmpdir(), `gitflow-trace-${Date.now()}-${process.pid}.json`);
+
+        try {
+            // Streaming, since hooks such as test runners can outlast exec's timeout
+            const result = await this.execStreaming(repoPath, args, {
+                timeoutMs: OPERATION_TIMEOUTS.hooks,
+                ...options,
+                extraEnv: { GIT_TRACE2_EVENT: tracePath },
+            });
+            if (result.code === 0 || result.cancelled || result.timedOut || !fs.existsSync(tracePath)) return result;
+
+            const hookNames = new Map<number, string>();
+            for (const line of fs.readFileSync(tracePath, 'utf8').split('\n')) {
+                if (!line.includes('"child_')) continue;
+                try {
+                    const event = JSON.parse(line);
+                    const hook = hookNames.get(event.child_id);
+                    if (event.event === 'child_start' && event.child_class === 'hook') {
+                        hookNames.set(event.child_id, event.hook_name);
+                    } else if (event.event === 'child_exit' && hook && event.code !== 0) {
+                        this.hookFailures.set(repoPath, {
+                            operation,
+                            hook,
+                            exitCode: event.code,
+                            output: [result.stderr, result.stdout].map((out) => out.trim()).filter(Boolean).join('\n'),
+                        });
+                        break;
+                    }
+                } catch {
+                    // Ignore truncated lines
+                }
+            }
+            return result;
+        } finally {
+            cleanupTempFile(tracePath);
+        }
+    }
+
+    // ── Undo Journal ──
+
+    /** Undoable operations recorded for the repo, newest first */
+    async getUndoJournal(repoPath: string): Promise<UndoEntry[]> {
+        return this.journal.list(repoPath);
+    }
+
+    /** Restores the state from before a journaled operation */
+    async undo(repoPath: string, entryId: string): Promise<UndoEntry> {
+        return this.journal.undo(repoPath, entryId);
+    }
+
+    async clearUndoJournal(repoPath: string): Promise<void> {
+        return this.journal.clear(repoPath);
+    }
+
+    /** Raw bytes of a blob; `exec` decodes output as text */
+    async readBlob(repoPath: string, blob: string): Promise<Buffer> {
+        return new Promise<Buffer>((resolve, reject) => {
+            execFile(
+                'git',
+                ['cat-file', 'blob', blob],
+                { cwd: repoPath, encoding: 'buffer', maxBuffer: 512 * 1024 * 1024 },
+                (error, stdout, stderr) => {
+                    if (error) reject(new Error(`git cat-file failed: ${stderr.toString() || error.message}`));
+                    else resolve(stdout);
+                }
+            );
+        });
+    }
+
+    // ── Ignore Rules ──
+
+    async listIgnoreFiles(repoPath: string): Promise<IgnoreFile[]> {
+        const result = await this.exec(repoPath, [
+            'ls-files', '-z', '--cached', '--others', '--exclude-standard', '--', ':(glob)**/.gitignore',
+        ]);
+        if (result.code !== 0) {
+            throw new Error(`git ls-files failed: ${result.stderr}`);
+        }
+
+        const relative = new Set(result.stdout.split('\0').filter(Boolean));
+        relative.add('.gitignore');
+        const files: IgnoreFile[] = [...relative].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+            .map((rel) => {
+                const filePath = path.join(repoPath, rel);
+                return { path: filePath, label: rel, exists: fs.existsSync(filePath), local: false };
+            });
+
+        const excludePath = await this.excludeFilePath(repoPath);
+        files.push({
+            path: excludePath,
+            label: path.relative(repoPath, excludePath).replace(/\\/g, '/'),
+            exists: fs.existsSync(excludePath),
+            local: true,
+        });
+        return files;
+    }
+
+    async readIgnoreFile(repoPath: string, filePath: string): Promise<string> {
+        await this.assertIgnorePath(repoPath, filePath);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+    }
+
+    async writeIgnoreFile(repoPath: string, filePath: string, content: string): Promise<void> {
+        await this.assertIgnorePath(repoPath, filePath);
+        const undo = await this.journal.capture(repoPath, 'write-ignore', `Edit ${path.basename(filePath)}`, { files: [filePath] });
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+        await this.journal.add(repoPath, undo);
+    }
+
+    /**
+     * Appends a rule to the chosen ignore file. `dir` is the repo-relative
+     * directory of a nested .gitignore; the pattern must be relative to it.
+     */
+    async addIgnorePattern(repoPath: string, pattern: string, target: IgnoreTarget, dir = ''): Promise<string> {
+        const filePath = target === 'exclude'
+            ? await this.excludeFilePath(repoPath)
+            : path.join(repoPath, target === 'nested' ? dir : '', '.gitignore');
+        await this.assertIgnorePath(repoPath, filePath);
+
+        const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+        if (existing.split(/\r?\n/).some((line) => line === pattern)) return filePath;
+
+        const separator = existing.length > 0 && !existing.endsWith('\n') ? '\n' : '';
+        const undo = await this.journal.capture(repoPath, 'add-ignore', `Ignore ${pattern}`, { files: [filePath] });
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.appendFileSync(filePath, `${separator}${pattern}\n`, 'utf8');
+        await this.journal.add(repoPath, undo);
+        return filePath;
+    }
+
+    /** Explains which rule (if any) ignores a path, tracked or not */
+    async checkIgnore(repoPath: string, filePath: string): Promise<IgnoreMatch> {
+        const result = await this.exec(repoPath, ['check-ignore', '-v', '--no-index', '--', filePath]);
+        if (result.code === 1) {
+            return { path: filePath, ignored: false };
+        }
+        if (result.code !== 0) {
+            throw new Error(`git check-ignore failed: ${result.stderr}`);
+        }
+
+        // -v prints <source>:<line>:<pattern> TAB <path>
+        const match = result.stdout.split('\t')[0].match(/^(.*?):(\d+):(.*)$/);
+        if (!match) {
+            throw new Error(`Unexpected git check-ignore output: ${result.stdout}`);
+        }
+        const [, source, line, pattern] = match;
+        return {
+            path: filePath,
+            // A matching negated rule is what re-includes the path
+            ignored: !pattern.startsWith('!'),
+            source: path.isAbsolute(source) ? path.relative(repoPath, source).replace(/\\/g, '/') : source,
+            line: Number(line),
+            pattern,
+        };
+    }
+
+    private async excludeFilePath(repoPath: string): Promise<string> {
+        const result = await this.exec(repoPath, ['rev-parse', '--git-path', 'info/exclude']);
+        if (result.code !== 0) {
+            throw new Error(`git rev-parse failed: ${result.stderr}`);
+        }
+        return path.resolve(repoPath, result.stdout.trim());
+    }
+
+    // Only .gitignore files inside the working tree and the exclude file are writable from the renderer
+    private async assertIgnorePath(repoPath: string, filePath: string): Promise<void> {
+        const resolved = path.resolve(filePath);
+        if (resolved === await this.excludeFilePath(repoPath)) return;
+
+        const fromRoot = path.relative(path.resolve(repoPath), resolved);
+        if (path.basename(resolved) !== '.gitignore' || fromRoot.startsWith('..') || path.isAbsolute(fromRoot)) {
+            throw new Error(`Not an ignore file of this repository: ${filePath}`);
+        }
+    }
+
+    // ── Compare ──
+
+    async compareRefs(repoPath: string, baseRef: string, headRef: string, mode: CompareMode, limit = 500): Promise<CompareResult> {
+        const base = await this.resolveCommit(repoPath, baseRef);
+        const head = await this.resolveCommit(repoPath, headRef);
+
+        const mergeBaseResult = await this.exec(repoPath, ['merge-base', base, head]);
+        const mergeBase = mergeBaseResult.code === 0 ? mergeBaseResult.stdout.trim() : null;
+        if (mode === 'three-dot' && !mergeBase) {
+            throw new Error(`${baseRef} and ${headRef} have no common history`);
+        }
+        const diffFrom = mode === 'three-dot' && mergeBase ? mergeBase : base;
+
+        const listCommits = async (range: string) => {
+            const result = await this.exec(repoPath, ['log', `--max-count=${limit}`, `--format=${LOG_FORMAT}${LOG_SEPARATOR}`, range]);
+            if (result.code !== 0) {
+                throw new Error(`git log failed: ${result.stderr}`);
+            }
+            return parseLogOutput(result.stdout);
+        };
+
+        const [ahead, behind, counts, nameStatus, numstat] = await Promise.all([
+            listCommits(`${base}..${head}`),
+            listCommits(`${head}..${base}`),
+            this.exec(repoPath, ['rev-list', '--left-right', '--count', `${base}...${head}`]),
+            this.exec(repoPath, ['diff', '--name-status', '-z', '-M', diffFrom, head]),
+            this.exec(repoPath, ['diff', '--numstat', '-z', '-M', diffFrom, head]),
+        ]);
+        if (nameStatus.code !== 0) {
+            throw new Error(`git diff failed: ${nameStatus.stderr}`);
+        }
+
+        const [behindCount, aheadCount] = counts.stdout.trim().split(/\s+/).map((n) => parseInt(n, 10) || 0);
+
+        return {
+            base,
+            head,
+            ahead,
+            behind,
+            aheadCount: aheadCount ?? ahead.length,
+            behindCount: behindCount ?? behind.length,
+            mergeBase,
+            diffFrom,
+            files: parseCompareFiles(nameStatus.stdout, numstat.stdout),
+        };
+    }
+
+    private async resolveCommit(repoPath: string, ref: string): Promise<string> {
+        const result = await this.exec(repoPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+        if (result.code !== 0 || !result.stdout.trim()) {
+            throw new Error(`Unknown revision: ${ref}`);
+        }
+        return result.stdout.trim();
+    }
+
+    // ── Patches ──
+
+    /**
+     * Exports the commits from `fromHash` up to `toHash` (both inclusive)
+     * with `git format-patch`: one numbered file per commit in `destination`,
+     * or a single mbox file at `destination`. Returns the written paths.
+     */
+    async exportPatches(repoPath: string, fromHash: string, toHash: string, destination: string, mbox = false): Promise<string[]> {
+        const isRoot = await this.isRootCommit(repoPath, fromHash);
+        const range = isRoot ? ['--root', toHash] : [`${fromHash}~1..${toHash}`];
+
+        if (mbox) {
+            // Streamed to the file, since a long range can outgrow exec's buffer
+            const result = await this.execStreaming(repoPath, ['format-patch', '--stdout', ...range], {
+                timeoutMs: OPERATION_TIMEOUTS.export,
+                stdoutFile: destination,
+            });
+            const error = this.streamError('format-patch', result)
+                ?? (fs.statSync(destination).size === 0 ? new Error('No commits to export in the selected range') : null);
+            if (error) {
+                fs.rmSync(destination, { force: true });
+                throw error;
+            }
+            return [destination];
+        }
+
+        const result = await this.exec(repoPath, ['format-patch', '-o', destination, ...range]);
+        if (result.code !== 0) {
+            throw new Error(`git format-patch failed: ${result.stderr}`);
+        }
+        return result.stdout
+            .split('\n')
+            .filter(Boolean)
+            .map((file) => path.resolve(repoPath, file.trim()));
+    }
+
+    /**
+     * Applies patch files either as commits (`git am`) or as working tree
+     * changes (`git apply`). With `threeWay`, patches that don't apply
+     * cleanly fall back to a 3-way merge and leave conflicts to resolve;
+     * a paused `am` session is reported rather than thrown.
+     */
+    async applyPatches(repoPath: string, files: string[], mode: PatchApplyMode, threeWay = true): Promise<PatchApplyResult> {
+        if (files.length === 0) {
+            throw new Error('No patch files selected');
+        }
+
+        const description = `Apply ${files.length} patch${files.length === 1 ? '' : 'es'}`;
+        if (mode === 'apply') {
+            const patched: string[] = [];
+            for (const file of files) patched.push(...await this.patchedFiles(repoPath, file));
+            const undo = await this.journal.capture(repoPath, 'apply-patch', description, { files: patched });
+
+            // Working tree only; a 3-way merge needs the index, so it is just the fallback
+            // for patches that don't apply cleanly (git apply is all or nothing)
+            let result = await this.exec(repoPath, ['apply', ...files]);
+            if (result.code !== 0 && threeWay) {
+                result = await this.exec(repoPath, ['apply', '--3way', ...files]);
+            }
+
+            const conflicts = await this.conflictedFiles(repoPath);
+            if (result.code !== 0 && conflicts.length === 0) {
+                throw new Error(`git apply failed: ${result.stderr}`);
+            }
+            await this.journal.add(repoPath, undo);
+            return { applied: conflicts.length > 0 ? 0 : files.length, conflicts, inProgress: false };
+        }
+
+        const undo = await this.journal.capture(repoPath, 'apply-patch', description, { head: 'keep' });
+        const before = await this.exec(repoPath, ['rev-parse', 'HEAD']);
+        const args = ['am', '--keep-cr'];
+        if (threeWay) args.push('--3way');
+        const result = await this.exec(repoPath, [...args, ...files]);
+
+        const status = await this.getAmStatus(repoPath);
+        if (result.code !== 0 && status.conflicts.length === 0) {
+            // Nothing to resolve by hand, so don't leave the session half-applied
+            if (status.inProgress) await this.exec(repoPath, ['am', '--abort']);
+            throw new Error(`git am failed: ${result.stderr || result.stdout}`);
+        }
+
+        // A session stopped on conflicts is journaled once it is continued to the end
+        if (status.inProgress) await this.journal.hold(repoPath, undo, 'am');
+        else await this.journal.add(repoPath, undo);
+
+        const applied = before.code === 0
+            ? await this.exec(repoPath, ['rev-list', '--count', `${before.stdout.trim()}..HEAD`])
+            : await this.exec(repoPath, ['rev-list', '--count', 'HEAD']);
+
+        return {
+            applied: parseInt(applied.stdout.trim(), 10) || 0,
+            conflicts: status.conflicts,
+            inProgress: status.inProgress,
+        };
+    }
+
+    async getAmStatus(repoPath: string): Promise<AmStatus> {
+        const status: AmStatus = { inProgress: false, current: 0, total: 0, conflicts: [] };
+
+        // rebase-apply is shared with `git rebase --apply`; only am writes "applying"
+        const stateDir = await this.gitPath(repoPath, 'rebase-apply');
+        if (!fs.existsSync(path.join(stateDir, 'applying'))) {
+            return status;
+        }
+
+        const readState = (name: string): string => {
+            try {
+                return fs.readFileSync(path.join(stateDir, name), 'utf8').trim();
+            } catch {
+                return '';
+            }
+        };
+
+        status.inProgress = true;
+        status.current = parseInt(readState('next'), 10) || 0;
+        status.total = parseInt(readState('last'), 10) || 0;
+        status.subject = readState('final-commit').split('\n')[0] || undefined;
+        status.conflicts = await this.conflictedFiles(repoPath);
+        return status;
+    }
+
+    async amContinue(repoPath: string): Promise<AmStatus> {
+        return this.runAmCommand(repoPath, '--continue');
+    }
+
+    async amSkip(repoPath: string): Promise<AmStatus> {
+        return this.runAmCommand(repoPath, '--skip');
+    }
+
+    async amAbort(repoPath: string): Promise<void> {
+        const undo = await this.journal.capture(repoPath, 'abort', 'Abort patch import', {
+            head: 'keep',
+            dirtyFiles: true,
+            stateFiles: ['rebase-apply'],
+        });
+        const result = await this.exec(repoPath, ['am', '--abort']);
+        if (result.code !== 0) {
+            throw new Error(`git am --abort failed: ${result.stderr}`);
+        }
+        await this.journal.discard(repoPath);
+        await this.journal.add(repoPath, undo);
+    }
+
+    private async runAmCommand(repoPath: string, flag: '--continue' | '--skip'): Promise<AmStatus> {
+        const result = await this.exec(repoPath, ['am', flag]);
+        const status = await this.getAmStatus(repoPath);
+        if (result.code !== 0 && status.conflicts.length === 0) {
+            throw new Error(`git am ${flag} failed: ${result.stderr || result.stdout}`);
+        }
+        if (!status.inProgress) await this.journal.release(repoPath, 'am');
+        return status;
+    }
+
+    private async conflictedFiles(repoPath: string): Promise<string[]> {
+        const files = await this.status(repoPath).catch(() => [] as FileStatus[]);
+        return files.filter((f) => f.status === 'conflict').map((f) => f.path);
+    }
+
+    // ── Bisect ──
+
+    async getBisectStatus(repoPath: string): Promise<BisectStatus> {
+        const status: BisectStatus = { inProgress: false, good: [], skipped: [], remaining: 0, steps: 0 };
+
+        if (!fs.existsSync(await this.gitPath(repoPath, 'BISECT_START'))) {
+            return status;
+        }
+        status.inProgress = true;
+
+        const refs = await this.exec(repoPath, ['for-each-ref', '--format=%(refname) %(objectname)', 'refs/bisect/']);
+        for (const line of refs.stdout.split('\n').filter(Boolean)) {
+            const [ref, hash] = line.split(' ');
+            if (ref === 'refs/bisect/bad') status.bad = hash;
+            else if (ref.startsWith('refs/bisect/good-')) status.good.push(hash);
+            else if (ref.startsWith('refs/bisect/skip-')) status.skipped.push(hash);
+        }
+
+        const head = await this.exec(repoPath, ['rev-parse', 'HEAD']);
+        status.current = head.stdout.trim() || undefined;
+
+        if (status.bad && status.good.length > 0) {
+            const count = await this.exec(repoPath, ['rev-list', '--count', status.bad, '--not', ...status.good]);
+            status.remaining = parseInt(count.stdout.trim(), 10) || 0;
+            status.steps = status.remaining > 1 ? Math.ceil(Math.log2(status.remaining)) : 0;
+            if (status.remaining === 1) status.firstBad = status.bad;
+        }
+
+        return status;
+    }
+
+    async bisectStart(repoPath: string, bad: string, good: string): Promise<BisectStatus> {
+        const undo = await this.captureBisect(repoPath, `Start bisect between ${good.slice(0, 7)} and ${bad.slice(0, 7)}`);
+        const result = await this.exec(repoPath, ['bisect', 'start', bad, good]);
+        if (result.code !== 0) {
+            // Don't leave a half-started session behind
+            await this.exec(repoPath, ['bisect', 'reset']);
+            throw new Error(`git bisect start failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+        return this.getBisectStatus(repoPath);
+    }
+
+    async bisectMark(repoPath: string, verdict: BisectVerdict, ref?: string): Promise<BisectStatus> {
+        const args = ['bisect', verdict];
+        if (ref) args.push(ref);
+
+        const undo = await this.captureBisect(repoPath, `Mark ${ref ? ref.slice(0, 7) : 'HEAD'} as ${verdict}`);
+        const result = await this.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`git bisect ${verdict} failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+        return this.getBisectStatus(repoPath);
+    }
+
+    /**
+     * Lets git drive the bisect with a shell command: exit 0 = good,
+     * 125 = skip, 1-127 = bad.
+     */
+    async bisectRun(repoPath: string, command: string, operation: OperationOptions = {}): Promise<BisectStatus> {
+        const undo = await this.captureBisect(repoPath, `Run bisect with ${firstLine(command)}`);
+
+        // bisect run quotes its arguments into one word, so pipes and builtins only
+        // survive as a script, which git starts with the shell it uses for hooks
+        const script = await this.gitPath(repoPath, BISECT_RUN_SCRIPT);
+        fs.writeFileSync(script, `#!/bin/sh\n${command}\n`, { mode: 0o755 });
+
+        try {
+            // Streaming, since a test suite per step easily outlasts exec's timeout
+            const result = await this.execStreaming(repoPath, ['bisect', 'run', script], {
+                timeoutMs: OPERATION_TIMEOUTS.bisect,
+                ...operation,
+            });
+            // Steps marked before a cancel or failure stay marked, so they are undoable too
+            await this.journal.add(repoPath, undo);
+            if (result.cancelled || result.timedOut) {
+                throw this.streamError('bisect run', result);
+            }
+
+            const status = await this.getBisectStatus(repoPath);
+            if (result.code !== 0 && !status.firstBad) {
+                throw new Error(`git bisect run failed: ${result.stderr || result.stdout}`);
+            }
+            return { ...status, output: result.stdout };
+        } finally {
+            cleanupTempFile(script);
+        }
+    }
+
+    async bisectReset(repoPath: string): Promise<void> {
+        const undo = await this.captureBisect(repoPath, 'End bisect');
+        const result = await this.exec(repoPath, ['bisect', 'reset']);
+        if (result.code !== 0) {
+            throw new Error(`git bisect reset failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    /** Checked-out commit, bisect refs and session files, which every bisect step changes */
+    private async captureBisect(repoPath: string, description: string): Promise<UndoEntry> {
+        return this.journal.capture(repoPath, 'bisect', description, {
+            head: 'keep',
+            refPrefix: 'refs/bisect/',
+            stateFiles: BISECT_STATE_FILES,
+        });
     }
 
     async listFiles(repoPath: string): Promise<string[]> {
@@ -1055,6 +3520,189 @@ export class GitService {
             });
     }
 
+    // ── Submodules ──
+
+    async listSubmodules(repoPath: string): Promise<SubmoduleInfo[]> {
+        if (!fs.existsSync(path.join(repoPath, '.gitmodules'))) return [];
+
+        const result = await this.exec(repoPath, ['submodule', 'status']);
+        if (result.code !== 0) {
+            throw new Error(`git submodule status failed: ${result.stderr}`);
+        }
+
+        // name/url come from .gitmodules, keyed by path
+        const config = await this.exec(repoPath, [
+            'config', '-f', '.gitmodules', '--get-regexp', '^submodule\\..*\\.(path|url)$',
+        ]);
+        const names = new Map<string, string>();
+        const urls = new Map<string, string>();
+        for (const line of config.stdout.split('\n').filter(Boolean)) {
+            const match = line.match(/^submodule\.(.+)\.(path|url) (.*)$/);
+            if (!match) continue;
+            if (match[2] === 'path') names.set(match[3], match[1]);
+            else urls.set(match[1], match[3]);
+        }
+
+        // Recorded commits are the gitlink entries (mode 160000) in the index
+        const index = await this.exec(repoPath, ['ls-files', '--stage']);
+        const recorded = new Map<string, string>();
+        for (const line of index.stdout.split('\n')) {
+            const match = line.match(/^160000 ([0-9a-f]+) \d\t(.*)$/);
+            if (match) recorded.set(match[2], match[1]);
+        }
+
+        return result.stdout
+            .split('\n')
+            .filter(line => line.trim())
+            .map((line): SubmoduleInfo | null => {
+                // "<flag><sha> <path>[ (<describe>)]", flag is ' ', '-', '+' or 'U'
+                const match = line.match(/^([ +\-U])([0-9a-f]+) (.+?)(?: \((.*)\))?$/);
+                if (!match) return null;
+                const [, flag, hash, subPath, describe] = match;
+                const name = names.get(subPath) ?? subPath;
+                const state: SubmoduleInfo['state'] =
+                    flag === '-' ? 'uninitialized' : flag === '+' ? 'changed' : flag === 'U' ? 'conflict' : 'clean';
+
+                return {
+                    path: subPath,
+                    name,
+                    url: urls.get(name) ?? '',
+                    recordedCommit: recorded.get(subPath) ?? (flag === '+' ? '' : hash),
+                    checkedOutCommit: state === 'uninitialized' ? null : hash,
+                    state,
+                    describe,
+                };
+            })
+            .filter((s): s is SubmoduleInfo => s !== null);
+    }
+
+    async updateSubmodules(
+        repoPath: string,
+        options: SubmoduleUpdateOptions = {},
+        token?: string,
+        operation: OperationOptions = {}
+    ): Promise<void> {
+        const args = ['submodule', 'update', '--progress'];
+        if (options.init) args.push('--init');
+        if (options.recursive) args.push('--recursive');
+        if (options.paths?.length) args.push('--', ...options.paths);
+
+        // Undo checks the submodules out at their old commits; fresh clones are left in place
+        const undo = await this.journal.capture(repoPath, 'update-submodules', 'Update submodules', { submodules: true });
+
+        // Initializing clones each submodule, so it runs like a clone
+        const result = await this.execStreaming(repoPath, args, {
+            timeoutMs: OPERATION_TIMEOUTS.clone,
+            ...operation,
+            token,
+        });
+        const error = this.streamError('submodule update', result);
+        if (error) throw error;
+        await this.journal.add(repoPath, undo);
+    }
+
+    async syncSubmodules(repoPath: string, recursive = true): Promise<void> {
+        const args = ['submodule', 'sync'];
+        if (recursive) args.push('--recursive');
+
+        // Sync rewrites the URLs in the top-level config and in each submodule's own config
+        const foreach = ['submodule', 'foreach', '--quiet'];
+        if (recursive) foreach.push('--recursive');
+        const gitDirs = await this.exec(repoPath, [...foreach, 'git rev-parse --absolute-git-dir']);
+        const undo = await this.journal.capture(repoPath, 'sync-submodules', 'Sync submodule URLs', {
+            stateFiles: ['config'],
+            files: gitDirs.stdout.split('\n').filter(Boolean).map((dir) => path.join(dir, 'config')),
+        });
+
+        const result = await this.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`git submodule sync failed: ${result.stderr}`);
+        }
+        await this.journal.add(repoPath, undo);
+    }
+
+    // ── Worktrees ──
+
+    async listWorktrees(repoPath: string): Promise<WorktreeInfo[]> {
+        const result = await this.exec(repoPath, ['worktree', 'list', '--porcelain']);
+        if (result.code !== 0) {
+            throw new Error(`git worktree list failed: ${result.stderr}`);
+        }
+
+        return result.stdout
+            .split(/\r?\n\r?\n/)
+            .filter(block => block.trim())
+            .map((block, index) => {
+                const worktree: WorktreeInfo = {
+                    path: '',
+                    head: '',
+                    isMain: index === 0,
+                    bare: false,
+                    detached: false,
+                    locked: false,
+                    prunable: false,
+                };
+                for (const line of block.split(/\r?\n/)) {
+                    const [key, ...rest] = line.split(' ');
+                    const value = rest.join(' ');
+                    if (key === 'worktree') worktree.path = path.resolve(value);
+                    else if (key === 'HEAD') worktree.head = value;
+                    else if (key === 'branch') worktree.branch = value.replace(/^refs\/heads\//, '');
+                    else if (key === 'bare') worktree.bare = true;
+                    else if (key === 'detached') worktree.detached = true;
+                    else if (key === 'locked') worktree.locked = true;
+                    else if (key === 'prunable') worktree.prunable = true;
+                }
+                return worktree;
+            });
+    }
+
+    async addWorktree(repoPath: string, worktreePath: string, branch: string, options: AddWorktreeOptions = {}): Promise<void> {
+        const args = ['worktree', 'add'];
+        if (options.createBranch) {
+            args.push('-b', branch, worktreePath);
+            if (options.startPoint) args.push(options.startPoint);
+        } else {
+            args.push(worktreePath, branch);
+        }
+
+        const result = await this.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`git worktree add failed: ${result.stderr}`);
+        }
+    }
+
+    async removeWorktree(repoPath: string, worktreePath: string, force = false): Promise<void> {
+        const args = ['worktree', 'remove'];
+        if (force) args.push('--force');
+        args.push(worktreePath);
+
+        // A worktree whose directory is already gone has nothing left to restore
+        const undo = fs.existsSync(worktreePath)
+            ? await this.journal.capture(repoPath, 'remove-worktree', `Remove worktree ${path.basename(worktreePath)}`, { worktree: worktreePath })
+            : null;
+        const result = await this.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`git worktree remove failed: ${result.stderr}`);
+        }
+        if (undo) await this.journal.add(repoPath, undo);
+    }
+
+    async pruneWorktrees(repoPath: string): Promise<void> {
+        // The dry run reports "Removing worktrees/<name>: <reason>" on stderr for each entry it would delete
+        const dryRun = await this.exec(repoPath, ['worktree', 'prune', '--dry-run', '--verbose']);
+        const stale = [...dryRun.stderr.matchAll(/^Removing (worktrees\/[^:]+):/gm)].map((match) => match[1]);
+        const undo = stale.length > 0
+            ? await this.journal.capture(repoPath, 'prune-worktrees', 'Prune worktrees', { stateFiles: stale })
+            : null;
+
+        const result = await this.exec(repoPath, ['worktree', 'prune']);
+        if (result.code !== 0) {
+            throw new Error(`git worktree prune failed: ${result.stderr}`);
+        }
+        if (undo) await this.journal.add(repoPath, undo);
+    }
+
     // ── LFS ──
 
     async isLfsInstalled(): Promise<boolean> {
@@ -111,9 +111,9 @@ export class RepoScannerService {
         try {
             const entries = fs.readdirSync(dirPath, { withFileTypes: true });
 
-            // Check if this directory contains a .git folder
+            // A .git folder, or a .git file pointing elsewhere (submodules, linked worktrees)
             const hasGit = entries.some(
-                (e) => e.isDirectory() && e.name === '.git'
+                (e) => (e.isDirectory() || e.isFile()) && e.name === '.git'
             );
 
             if (hasGit) {
@@ -0,0 +1,579 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import type { ExecResult } from './git.service';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+/**
+ * Where HEAD was before an operation. `soft` undoes keep the operation's
+ * changes staged (commit, amend), `mixed` resets the index as well and
+ * `keep` moves the working tree back too.
+ */
+export interface HeadSnapshot {
+    branch: string | null;
+    hash: string | null;
+    restore: 'soft' | 'mixed' | 'keep';
+}
+
+/** A ref's previous target; null means the ref did not exist */
+export interface RefSnapshot {
+    ref: string;
+    hash: string | null;
+}
+
+/**
+ * Content of a file; a null blob means the file did not exist. Paths are
+ * repo-relative, or absolute for state files in the git dir.
+ */
+export interface FileSnapshot {
+    path: string;
+    blob: string | null;
+    mode?: number;
+}
+
+export interface StashSnapshot {
+    hash: string;
+    subject: string;
+    /** Subject the same stash commit was stored under by a rename; undo drops that entry */
+    renamedTo?: string;
+}
+
+/** A removed remote's config, including the upstream settings of branches tracking it */
+export interface RemoteSnapshot {
+    name: string;
+    config: [string, string][];
+}
+
+/** A config key's previous values; none means it was unset */
+export interface ConfigSnapshot {
+    key: string;
+    values: string[];
+}
+
+/** Checked-out commit of a submodule, by path from the top-level repo */
+export interface SubmoduleSnapshot {
+    path: string;
+    head: HeadSnapshot;
+}
+
+/** A removed worktree and the uncommitted files it held */
+export interface WorktreeSnapshot {
+    path: string;
+    branch: string | null;
+    hash: string | null;
+    files: FileSnapshot[];
+}
+
+export interface UndoEntry {
+    id: string;
+    operation: string;
+    description: string;
+    createdAt: number;
+    head?: HeadSnapshot;
+    refs?: RefSnapshot[];
+    /** Refs under this prefix that are not in `refs` are deleted on undo */
+    refPrefix?: string;
+    files?: FileSnapshot[];
+    /** Resolved paths whose conflict undo recreates in the index */
+    conflicts?: string[];
+    stash?: StashSnapshot;
+    /** Stash the operation created; undo drops it */
+    createdStash?: StashSnapshot;
+    remote?: RemoteSnapshot;
+    /** Remote renamed from `from` to `to`; undo renames it back */
+    renamedRemote?: { from: string; to: string };
+    config?: ConfigSnapshot[];
+    submodules?: SubmoduleSnapshot[];
+    worktree?: WorktreeSnapshot;
+}
+
+/** What to capture before an operation runs */
+export interface UndoCapture {
+    head?: HeadSnapshot['restore'];
+    refs?: string[];
+    /** Repo-relative or absolute paths; repo directories expand to the untracked files below them */
+    files?: string[];
+    /** Capture every tracked file with uncommitted changes */
+    dirtyFiles?: boolean;
+    /** Conflicted files about to be resolved; also captured as `files` */
+    conflicts?: string[];
+    /** Capture every ref under this prefix, e.g. `refs/bisect/` */
+    refPrefix?: string;
+    /** Files in the git dir, e.g. MERGE_HEAD, that record an operation's state */
+    stateFiles?: string[];
+    /** Remote about to be removed */
+    remote?: string;
+    renamedRemote?: { from: string; to: string };
+    /** Config keys about to change, e.g. `remote.origin.url` */
+    config?: string[];
+    /** Capture the checked-out commit of every initialized submodule, nested ones included */
+    submodules?: boolean;
+    /** Path of a worktree about to be removed */
+    worktree?: string;
+    /** Stash ref, e.g. `stash@{0}`, about to be dropped */
+    stash?: string;
+    /** New subject when `stash` is being renamed rather than dropped */
+    stashRenamedTo?: string;
+}
+
+interface GitRunner {
+    exec(repoPath: string, args: string[]): Promise<ExecResult>;
+    readBlob(repoPath: string, blob: string): Promise<Buffer>;
+}
+
+const JOURNAL_FILE = 'flux-undo-journal.json';
+// Entry of an operation that paused, e.g. on conflicts, until it is continued to the end
+const HELD_FILE = 'flux-undo-held.json';
+const MAX_ENTRIES = 50;
+
+// ─── Undo Journal Service ────────────────────────────────────────
+
+/**
+ * Records the pre-state of app-initiated git operations so they can be
+ * undone in one step: HEAD and ref targets, dropped stash commits,
+ * config values, removed remotes and worktrees, submodule checkouts, and
+ * blob snapshots of files about to be discarded or overwritten. Blobs are
+ * written to the object database with `hash-object -w`, so nothing is
+ * copied out of the repository. The journal lives in the
+ * repo's git dir, next to the held entry of an operation paused on conflicts.
+ */
+export class UndoJournalService {
+    private journals = new Map<string, UndoEntry[]>();
+    private counter = 0;
+
+    constructor(
+        private git: GitRunner,
+        private onChange: (repoPath: string, entries: UndoEntry[]) => void
+    ) { }
+
+    /** Snapshots the state `capture` describes; pass the result to `add` once the operation succeeded */
+    async capture(repoPath: string, operation: string, description: string, capture: UndoCapture): Promise<UndoEntry> {
+        const entry: UndoEntry = {
+            id: `undo-${Date.now()}-${++this.counter}`,
+            operation,
+            description,
+            createdAt: Date.now(),
+        };
+
+        if (capture.head) {
+            entry.head = { ...(await this.readHead(repoPath)), restore: capture.head };
+        }
+        if (capture.refs?.length) {
+            entry.refs = await Promise.all(capture.refs.map(async (ref) => ({ ref, hash: await this.resolve(repoPath, ref) })));
+        }
+        if (capture.refPrefix) {
+            entry.refPrefix = capture.refPrefix;
+            entry.refs = [...(entry.refs ?? []), ...await this.listRefs(repoPath, capture.refPrefix)];
+        }
+
+        const files = [
+            ...(capture.files ?? []),
+            ...(capture.conflicts ?? []),
+            ...(capture.dirtyFiles ? await this.dirtyFiles(repoPath) : []),
+        ];
+        for (const name of capture.stateFiles ?? []) {
+            files.push(await this.gitPath(repoPath, name));
+        }
+        if (files.length > 0) {
+            entry.files = await this.snapshotFiles(repoPath, files);
+        }
+        if (capture.conflicts?.length) {
+            entry.conflicts = capture.conflicts;
+        }
+
+        if (capture.remote) {
+            entry.remote = await this.readRemote(repoPath, capture.remote);
+        }
+        if (capture.renamedRemote) {
+            entry.renamedRemote = capture.renamedRemote;
+        }
+        if (capture.config?.length) {
+            entry.config = await Promise.all(capture.config.map(async (key) => ({ key, values: await this.readConfig(repoPath, key) })));
+        }
+        if (capture.submodules) {
+            entry.submodules = await this.readSubmodules(repoPath);
+        }
+        if (capture.worktree) {
+            entry.worktree = await this.readWorktree(capture.worktree);
+        }
+
+        if (capture.stash) {
+            entry.stash = await this.readStash(repoPath, capture.stash);
+            if (entry.stash && capture.stashRenamedTo) entry.stash.renamedTo = capture.stashRenamedTo;
+        }
+
+        return entry;
+    }
+
+    async add(repoPath: string, entry: UndoEntry): Promise<void> {
+        const entries = [entry, ...(await this.list(repoPath))].slice(0, MAX_ENTRIES);
+        await this.save(repoPath, entries);
+    }
+
+    /** Records the stash an operation just pushed as `stash@{0}`, so undo drops it again */
+    async noteCreatedStash(repoPath: string, entry: UndoEntry): Promise<void> {
+        entry.createdStash = await this.readStash(repoPath, 'stash@{0}');
+    }
+
+    /**
+     * Keeps the entry of an operation that paused instead of finishing, e.g.
+     * on conflicts. `release` journals it once the operation is continued to
+     * the end; aborting it calls `discard`.
+     */
+    async hold(repoPath: string, entry: UndoEntry, resumedBy: string): Promise<void> {
+        fs.writeFileSync(await this.heldPath(repoPath), JSON.stringify({ resumedBy, entry }), 'utf-8');
+    }
+
+    /** Journals the held entry if it belongs to `operation`, which just finished; false when there was none */
+    async release(repoPath: string, operation: string): Promise<boolean> {
+        const heldPath = await this.heldPath(repoPath);
+        let held: { resumedBy: string; entry: UndoEntry };
+        try {
+            held = JSON.parse(fs.readFileSync(heldPath, 'utf-8'));
+        } catch {
+            return false;
+        }
+
+        fs.rmSync(heldPath, { force: true });
+        if (held.resumedBy !== operation) return false;
+        await this.add(repoPath, held.entry);
+        return true;
+    }
+
+    async discard(repoPath: string): Promise<void> {
+        fs.rmSync(await this.heldPath(repoPath), { force: true });
+    }
+
+    /** Journal entries, newest first */
+    async list(repoPath: string): Promise<UndoEntry[]> {
+        const cached = this.journals.get(repoPath);
+        if (cached) return cached;
+
+        let entries: UndoEntry[] = [];
+        try {
+            entries = JSON.parse(fs.readFileSync(await this.journalPath(repoPath), 'utf-8'));
+        } catch {
+            // No journal yet
+        }
+        this.journals.set(repoPath, entries);
+        return entries;
+    }
+
+    async clear(repoPath: string): Promise<void> {
+        await this.save(repoPath, []);
+    }
+
+    /** Restores the state recorded in `entryId` and removes it from the journal */
+    async undo(repoPath: string, entryId: string): Promise<UndoEntry> {
+        const entries = await this.list(repoPath);
+        const entry = entries.find((e) => e.id === entryId);
+        if (!entry) {
+            throw new Error('Undo entry not found');
+        }
+
+        if (entry.head) await this.restoreHead(repoPath, entry.head);
+        if (entry.refPrefix) await this.removeNewRefs(repoPath, entry.refPrefix, entry.refs ?? []);
+        for (const ref of entry.refs ?? []) await this.restoreRef(repoPath, ref);
+        if (entry.createdStash) await this.dropCreatedStash(repoPath, entry.createdStash);
+        if (entry.stash) await this.restoreStash(repoPath, entry.stash);
+        if (entry.conflicts) await this.restoreConflicts(repoPath, entry.conflicts);
+        for (const file of entry.files ?? []) await this.restoreFile(repoPath, file);
+        if (entry.remote) await this.restoreRemote(repoPath, entry.remote);
+        if (entry.renamedRemote) await this.restoreRemoteName(repoPath, entry.renamedRemote);
+        for (const config of entry.config ?? []) await this.restoreConfig(repoPath, config);
+        for (const submodule of entry.submodules ?? []) await this.restoreHead(path.join(repoPath, submodule.path), submodule.head);
+        if (entry.worktree) await this.restoreWorktree(repoPath, entry.worktree);
+
+        await this.save(repoPath, entries.filter((e) => e.id !== entryId));
+        return entry;
+    }
+
+    // ─── Capture ─────────────────────────────────────────────────
+
+    private async readHead(repoPath: string): Promise<{ branch: string | null; hash: string | null }> {
+        const branch = await this.git.exec(repoPath, ['symbolic-ref', '--quiet', 'HEAD']);
+        return {
+            branch: branch.code === 0 ? branch.stdout.trim() : null,
+            hash: await this.resolve(repoPath, 'HEAD'),
+        };
+    }
+
+    private async resolve(repoPath: string, ref: string): Promise<string | null> {
+        const result = await this.git.exec(repoPath, ['rev-parse', '--verify', '--quiet', ref]);
+        return result.code === 0 ? result.stdout.trim() : null;
+    }
+
+    private async listRefs(repoPath: string, prefix: string): Promise<RefSnapshot[]> {
+        const result = await this.git.exec(repoPath, ['for-each-ref', '--format=%(refname) %(objectname)', prefix]);
+        return result.stdout.split('\n').filter(Boolean).map((line) => {
+            const [ref, hash] = line.split(' ');
+            return { ref, hash };
+        });
+    }
+
+    private async dirtyFiles(repoPath: string): Promise<string[]> {
+        const result = await this.git.exec(repoPath, ['diff', 'HEAD', '--name-only', '-z']);
+        return result.code === 0 ? result.stdout.split('\0').filter(Boolean) : [];
+    }
+
+    private async snapshotFiles(repoPath: string, files: string[]): Promise<FileSnapshot[]> {
+        const snapshots: FileSnapshot[] = [];
+
+        for (const file of files) {
+            const fullPath = path.resolve(repoPath, file);
+            if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) {
+                // State dirs in the git dir, e.g. rebase-merge, are taken whole
+                const nested = path.isAbsolute(file)
+                    ? fs.readdirSync(fullPath).map((name) => path.join(file, name))
+                    : (await this.git.exec(repoPath, ['ls-files', '--others', '--exclude-standard', '-z', '--', file])).stdout.split('\0').filter(Boolean);
+                snapshots.push(...await this.snapshotFiles(repoPath, nested));
+                continue;
+            }
+
+            if (!fs.existsSync(fullPath)) {
+                snapshots.push({ path: file, blob: null });
+                continue;
+            }
+
+            // --no-filters keeps the exact bytes on disk, line endings included
+            const result = await this.git.exec(repoPath, ['hash-object', '-w', '--no-filters', '--', file]);
+            if (result.code !== 0) {
+                throw new Error(`Could not snapshot ${file} for undo: ${result.stderr}`);
+            }
+            snapshots.push({ path: file, blob: result.stdout.trim(), mode: fs.statSync(fullPath).mode & 0o777 });
+        }
+
+        return snapshots;
+    }
+
+    private async readRemote(repoPath: string, name: string): Promise<RemoteSnapshot> {
+        const result = await this.git.exec(repoPath, ['config', '--null', '--get-regexp', '^(remote|branch)\\.']);
+        const entries = result.stdout.split('\0').filter(Boolean).map((item): [string, string] => {
+            const newline = item.indexOf('\n');
+            return newline === -1 ? [item, ''] : [item.slice(0, newline), item.slice(newline + 1)];
+        });
+
+        // `remote remove` also unsets branch.<name>.remote/merge of branches tracking it
+        const tracking = new Set(entries
+            .filter(([key, value]) => /^branch\..+\.remote$/.test(key) && value === name)
+            .map(([key]) => key.slice(0, -'remote'.length)));
+        return {
+            name,
+            config: entries.filter(([key]) => {
+                if (key.startsWith(`remote.${name}.`)) return true;
+                const prefix = key.slice(0, key.lastIndexOf('.') + 1);
+                return tracking.has(prefix) && (key.endsWith('.remote') || key.endsWith('.merge'));
+            }),
+        };
+    }
+
+    private async readConfig(repoPath: string, key: string): Promise<string[]> {
+        // Exits 1 when the key is unset
+        const result = await this.git.exec(repoPath, ['config', '--null', '--get-all', key]);
+        return result.code === 0 ? result.stdout.split('\0').slice(0, -1) : [];
+    }
+
+    private async readSubmodules(repoPath: string): Promise<SubmoduleSnapshot[]> {
+        const result = await this.git.exec(repoPath, ['submodule', 'status', '--recursive']);
+        const snapshots: SubmoduleSnapshot[] = [];
+
+        // "<flag><hash> <path> (<describe>)", with flag '-' for submodules that are not initialized
+        for (const line of result.stdout.split('\n')) {
+            const match = line.match(/^([ +U])[0-9a-f]+ (.+?)(?: \(.*\))?$/);
+            if (!match) continue;
+            const head = await this.readHead(path.join(repoPath, match[2]));
+            snapshots.push({ path: match[2], head: { ...head, restore: 'keep' } });
+        }
+        return snapshots;
+    }
+
+    private async readWorktree(worktreePath: string): Promise<WorktreeSnapshot> {
+        const head = await this.readHead(worktreePath);
+        // A forced removal deletes untracked files as well; '.' expands to them
+        const files = [...await this.dirtyFiles(worktreePath), '.'];
+        return { path: worktreePath, ...head, files: await this.snapshotFiles(worktreePath, files) };
+    }
+
+    private async readStash(repoPath: string, ref: string): Promise<StashSnapshot | undefined> {
+        return (await this.listStashes(repoPath)).find((s) => s.ref === ref);
+    }
+
+    private async listStashes(repoPath: string): Promise<(StashSnapshot & { ref: string })[]> {
+        const separator = '\x1f';
+        const result = await this.git.exec(repoPath, ['stash', 'list', `--format=%gd${separator}%H${separator}%gs`]);
+        return result.stdout.split('\n').filter(Boolean).map((line) => {
+            const [ref, hash, subject] = line.split(separator);
+            return { ref, hash, subject };
+        });
+    }
+
+    // ─── Restore ─────────────────────────────────────────────────
+
+    private async restoreHead(repoPath: string, head: HeadSnapshot): Promise<void> {
+        const current = await this.readHead(repoPath);
+
+        if (current.branch !== head.branch) {
+            const target = head.branch ? head.branch.replace(/^refs\/heads\//, '') : head.hash;
+            if (!target) {
+                throw new Error('Cannot undo: the previous HEAD no longer exists');
+            }
+            const args = head.branch ? ['checkout', target] : ['checkout', '--detach', target];
+            const result = await this.git.exec(repoPath, args);
+            if (result.code !== 0) {
+                throw new Error(`Undo failed to check out ${target}: ${result.stderr}`);
+            }
+        }
+
+        const now = await this.resolve(repoPath, 'HEAD');
+        if (now === head.hash) return;
+
+        // The branch was unborn: undoing its first commit removes the branch again
+        const result = head.hash
+            ? await this.git.exec(repoPath, ['reset', `--${head.restore}`, head.hash])
+            : await this.git.exec(repoPath, ['update-ref', '-d', 'HEAD']);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to reset ${head.branch ?? 'HEAD'}: ${result.stderr}`);
+        }
+    }
+
+    private async restoreRef(repoPath: string, ref: RefSnapshot): Promise<void> {
+        const args = ref.hash ? ['update-ref', ref.ref, ref.hash] : ['update-ref', '-d', ref.ref];
+        const result = await this.git.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to restore ${ref.ref}: ${result.stderr}`);
+        }
+    }
+
+    private async removeNewRefs(repoPath: string, prefix: string, keep: RefSnapshot[]): Promise<void> {
+        for (const { ref } of await this.listRefs(repoPath, prefix)) {
+            if (keep.some((k) => k.ref === ref)) continue;
+            await this.restoreRef(repoPath, { ref, hash: null });
+        }
+    }
+
+    private async dropCreatedStash(repoPath: string, stash: StashSnapshot): Promise<void> {
+        const created = (await this.listStashes(repoPath)).find((s) => s.hash === stash.hash);
+        if (!created) return;
+
+        const result = await this.git.exec(repoPath, ['stash', 'drop', created.ref]);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to drop ${created.ref}: ${result.stderr}`);
+        }
+    }
+
+    private async restoreStash(repoPath: string, stash: StashSnapshot): Promise<void> {
+        if (stash.renamedTo) {
+            const renamed = (await this.listStashes(repoPath)).find((s) => s.hash === stash.hash && s.subject === stash.renamedTo);
+            if (renamed) {
+                const drop = await this.git.exec(repoPath, ['stash', 'drop', renamed.ref]);
+                if (drop.code !== 0) {
+                    throw new Error(`Undo failed to remove the renamed stash: ${drop.stderr}`);
+                }
+            }
+        }
+
+        const result = await this.git.exec(repoPath, ['stash', 'store', '-m', stash.subject, stash.hash]);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to restore the stash: ${result.stderr}`);
+        }
+    }
+
+    private async restoreFile(repoPath: string, file: FileSnapshot): Promise<void> {
+        const fullPath = path.resolve(repoPath, file.path);
+        if (!file.blob) {
+            fs.rmSync(fullPath, { force: true });
+            return;
+        }
+
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, await this.git.readBlob(repoPath, file.blob));
+        if (file.mode !== undefined && process.platform !== 'win32') {
+            fs.chmodSync(fullPath, file.mode);
+        }
+    }
+
+    private async restoreConflicts(repoPath: string, files: string[]): Promise<void> {
+        // Staging a resolution keeps the conflict stages as resolve-undo data, which -m puts back
+        const result = await this.git.exec(repoPath, ['checkout', '-m', '--', ...files]);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to restore the conflicts: ${result.stderr}`);
+        }
+    }
+
+    private async restoreRemote(repoPath: string, remote: RemoteSnapshot): Promise<void> {
+        const existing = await this.git.exec(repoPath, ['remote']);
+        if (existing.stdout.split('\n').includes(remote.name)) {
+            throw new Error(`Cannot undo: a remote named ${remote.name} exists again`);
+        }
+
+        for (const [key, value] of remote.config) {
+            const result = await this.git.exec(repoPath, ['config', '--add', key, value]);
+            if (result.code !== 0) {
+                throw new Error(`Undo failed to restore ${key}: ${result.stderr}`);
+            }
+        }
+    }
+
+    private async restoreRemoteName(repoPath: string, renamed: { from: string; to: string }): Promise<void> {
+        const result = await this.git.exec(repoPath, ['remote', 'rename', renamed.to, renamed.from]);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to rename ${renamed.to} back to ${renamed.from}: ${result.stderr}`);
+        }
+    }
+
+    private async restoreConfig(repoPath: string, config: ConfigSnapshot): Promise<void> {
+        // Exits 5 when the key is already unset
+        const unset = await this.git.exec(repoPath, ['config', '--unset-all', config.key]);
+        if (unset.code !== 0 && unset.code !== 5) {
+            throw new Error(`Undo failed to reset ${config.key}: ${unset.stderr}`);
+        }
+        for (const value of config.values) {
+            const result = await this.git.exec(repoPath, ['config', '--add', config.key, value]);
+            if (result.code !== 0) {
+                throw new Error(`Undo failed to restore ${config.key}: ${result.stderr}`);
+            }
+        }
+    }
+
+    private async restoreWorktree(repoPath: string, worktree: WorktreeSnapshot): Promise<void> {
+        const target = worktree.branch ? worktree.branch.replace(/^refs\/heads\//, '') : worktree.hash;
+        if (!target) {
+            throw new Error('Cannot undo: the worktree had no commit checked out');
+        }
+
+        const args = worktree.branch ? ['worktree', 'add', worktree.path, target] : ['worktree', 'add', '--detach', worktree.path, target];
+        const result = await this.git.exec(repoPath, args);
+        if (result.code !== 0) {
+            throw new Error(`Undo failed to recreate the worktree: ${result.stderr}`);
+        }
+        for (const file of worktree.files) await this.restoreFile(worktree.path, file);
+    }
+
+    // ─── Storage ─────────────────────────────────────────────────
+
+    private async gitPath(repoPath: string, name: string): Promise<string> {
+        const result = await this.git.exec(repoPath, ['rev-parse', '--git-path', name]);
+        if (result.code !== 0) {
+            throw new Error(`Not a git repository: ${repoPath}`);
+        }
+        return path.resolve(repoPath, result.stdout.trim());
+    }
+
+    private async heldPath(repoPath: string): Promise<string> {
+        return path.join(path.dirname(await this.journalPath(repoPath)), HELD_FILE);
+    }
+
+    private async journalPath(repoPath: string): Promise<string> {
+        const result = await this.git.exec(repoPath, ['rev-parse', '--absolute-git-dir']);
+        if (result.code !== 0) {
+            throw new Error(`Not a git repository: ${repoPath}`);
+        }
+        return path.join(result.stdout.trim(), JOURNAL_FILE);
+    }
+
+    private async save(repoPath: string, entries: UndoEntry[]): Promise<void> {
+        this.journals.set(repoPath, entries);
+        fs.writeFileSync(await this.journalPath(repoPath), JSON.stringify(entries, null, 2), 'utf-8');
+        this.onChange(repoPath, entries);
+    }
+}
@@ -8,13 +8,15 @@ import { ActivityPanel } from './components/layout/ActivityPanel';
 import { ConflictPanel } from './components/conflicts/ConflictPanel';
 import { CommandPalette } from './components/common/CommandPalette';
 import { MacroEditorModal } from './components/modals/MacroEditorModal';
+import { HookFailureModal } from './components/modals/HookFailureModal';
 import { useAccountStore } from './stores/account.store';
-import { useRepoStore } from './stores/repo.store';
+import { useRepoStore, UndoEntry } from './stores/repo.store';
 import { useUIStore } from './stores/ui.store';
-import { useActivityStore } from './stores/activity.store';
+import { useActivityStore, RepoQueueState } from './stores/activity.store';
 import { useCommandPaletteStore } from './stores/command-palette.store';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
 import { UpdateToast } from './components/common/UpdateToast';
+import { OperationProgress } from './components/common/OperationProgress';
 import { registerDefaultCommands } from './lib/default-commands';
 
 export default function App() {
@@ -22,6 +24,7 @@ export default function App() {
     const loadSavedRepos = useRepoStore((s) => s.loadSavedRepos);
     const notification = useUIStore((s) => s.notification);
     const showConflictPanel = useUIStore((s) => s.showConflictPanel);
+    const hasHookFailure = useUIStore((s) => s.hookFailure !== null);
     const repoSidebarCollapsed = useUIStore((s) => s.repoSidebarCollapsed);
     const terminalExpanded = useUIStore((s) => s.terminalExpanded);
     const terminalHeight = useUIStore((s) => s.terminalHeight);
@@ -38,20 +41,33 @@ export default function App() {
     const activeAccountId = useAccountStore((s) => s.activeAccountId);
     const accounts = useAccountStore((s) => s.accounts);
     const activeAccount = accounts.find((a) => a.id === activeAccountId);
+    const signingConfig = useAccountStore((s) => (activeAccountId ? s.signingConfigs[activeAccountId] : undefined));
 
     useEffect(() => {
         const api = (window as any).electronAPI;
         if (!api?.git) return;
 
-        if (activeAccount?.displayName || activeAccount?.email) {
+        if (activeAccount?.displayName || activeAccount?.email || signingConfig) {
             api.git.setIdentity(
-                activeAccount.displayName || activeAccount.username,
-                activeAccount.email || ''
+                activeAccount?.displayName || activeAccount?.username || '',
+                activeAccount?.email || '',
+                signingConfig
             );
         } else {
             api.git.clearIdentity();
         }
-    }, [activeAccount?.displayName, activeAccount?.email, activeAccount?.username]);
+    }, [activeAccount?.displayName, activeAccount?.email, activeAccount?.username, signingConfig]);
+
+    // ── Keep the background fetcher's repo list in sync ──
+    const repos = useRepoStore((s) => s.repos);
+    const fetchablePaths = repos.filter((r) => !r.worktreeOf).map((r) => r.path).join('\n');
+
+    useEffect(() => {
+        const api = (window as any).electronAPI;
+        if (!api?.autoFetch) return;
+        // Linked worktrees share refs with their main repo, so fetching those is enough
+        api.autoFetch.setRepos(fetchablePaths ? fetchablePaths.split('\n') : []);
+    }, [fetchablePaths]);
 
     // ── Activity log IPC listeners ──
     useEffect(() => {
@@ -78,8 +94,48 @@ export default function App() {
             });
         });
 
+        api.activity.onRemoteUpdate((data: any) => {
+            const summaries = data.updates.map((u: { ref: string; newCommits: number; created: boolean }) =>
+                u.created
+                    ? `New branch ${u.ref} (${u.newCommits} commit${u.newCommits === 1 ? '' : 's'})`
+                    : `${u.newCommits} new commit${u.newCommits === 1 ? '' : 's'} on ${u.ref}`
+            );
+
+            summaries.forEach((summary: string, i: number) => {
+                useActivityStore.getState().addEntry({
+                    id: `remote-${data.repoPath}-${data.fetchedAt}-${i}`,
+                    command: summary,
+                    repoPath: data.repoPath,
+                    status: 'success',
+                    startedAt: data.fetchedAt,
+                    completedAt: data.fetchedAt,
+                });
+            });
+
+            const repoStore = useRepoStore.getState();
+            if (repoStore.activeRepoPath === data.repoPath) {
+                repoStore.refreshBranches();
+                repoStore.refreshLog();
+                useUIStore.getState().showNotification('info', summaries.join(', '));
+            }
+        });
+
+        api.activity.onQueueChange((state: RepoQueueState) => {
+            useActivityStore.getState().setQueueState(state);
+        });
+        api.git.queueState().then((states: RepoQueueState[]) => {
+            states.forEach((state) => useActivityStore.getState().setQueueState(state));
+        }).catch((error: any) => console.error('Failed to load git queue state:', error));
+
+        const unsubscribeUndo = api.git.onUndoChanged(({ repoPath, entries }: { repoPath: string; entries: UndoEntry[] }) => {
+            if (useRepoStore.getState().activeRepoPath === repoPath) {
+                useRepoStore.setState({ undoEntries: entries });
+            }
+        });
+
         return () => {
             api.activity.removeActivityListeners();
+            unsubscribeUndo();
         };
     }, []);
 
@@ -393,11 +449,19 @@ export default function App() {
                 {/* ── Update Toast ── */}
                 <UpdateToast />
 
+                {/* ── Git Operation Progress ── */}
+                <OperationProgress />
+
                 {/* ── Conflict Panel Overlay ── */}
                 <AnimatePresence>
                     {showConflictPanel && <ConflictPanel />}
                 </AnimatePresence>
 
+                {/* ── Hook Failure ── */}
+                <AnimatePresence>
+                    {hasHookFailure && <HookFailureModal />}
+                </AnimatePresence>
+
                 {/* ── Command Palette ── */}
                 <CommandPalette />
 
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useRepoStore, CommitInfo, CommitSearchQuery, CommitSearchResult } from '../../stores/repo.store';
+import { useUIStore } from '../../stores/ui.store';
+
+const api = () => (window as any).electronAPI;
+
+const EMPTY_QUERY: CommitSearchQuery = { contentMode: 'string', ignoreCase: true };
+
+export function CommitSearchPanel() {
+    const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+    const openModal = useUIStore((s) => s.openModal);
+
+    const [query, setQuery] = useState<CommitSearchQuery>(EMPTY_QUERY);
+    const [results, setResults] = useState<CommitInfo[]>([]);
+    const [summary, setSummary] = useState<CommitSearchResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    // Batches from an older search can still arrive after a new one starts
+    const searchIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = api().git.onSearchResults(({ searchId, commits }: { searchId: string; commits: CommitInfo[] }) => {
+            if (searchId === searchIdRef.current) {
+                setResults((prev) => [...prev, ...commits]);
+            }
+        });
+        return () => {
+            unsubscribe();
+            if (searchIdRef.current) api().git.cancelSearch(searchIdRef.current);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (searchIdRef.current) api().git.cancelSearch(searchIdRef.current);
+        searchIdRef.current = null;
+        setResults([]);
+        setSummary(null);
+        setError(null);
+        setIsSearching(false);
+    }, [activeRepoPath]);
+
+    const hasCriteria = Boolean(query.message || query.author || query.since || query.until || query.path || query.content);
+
+    const handleSearch = async () => {
+        if (!activeRepoPath || !hasCriteria) return;
+        if (searchIdRef.current) api().git.cancelSearch(searchIdRef.current);
+
+        const searchId = `search-${Date.now()}`;
+        searchIdRef.current = searchId;
+        setResults([]);
+        setSummary(null);
+        setError(null);
+        setIsSearching(true);
+
+        try {
+            const result: CommitSearchResult = await api().git.searchCommits(activeRepoPath, searchId, {
+                ...query,
+                // The date picker gives midnight; include the whole end day
+                until: query.until ? `${query.until} 23:59:59` : undefined,
+            });
+            if (searchIdRef.current === searchId) setSummary(result);
+        } catch (err: any) {
+            if (searchIdRef.current === searchId) setError(err.message);
+        } finally {
+            if (searchIdRef.current === searchId) setIsSearching(false);
+        }
+    };
+
+    const handleStop = () => {
+        if (searchIdRef.current) api().git.cancelSearch(searchIdRef.current);
+    };
+
+    const update = (patch: Partial<CommitSearchQuery>) => setQuery({ ...query, ...patch });
+    const onEnter = (e: React.KeyboardEvent) => e.key === 'Enter' && handleSearch();
+
+    return (
+        <div className="flex flex-col h-full min-h-0">
+            {/* Criteria */}
+            <div className="px-4 py-3 border-b border-border bg-surface-1 space-y-2 shrink-0">
+                <div className="grid grid-cols-2 gap-2">
+                    <input
+                        type="text"
+                        value={query.message ?? ''}
+                        onChange={(e) => update({ message: e.target.value })}
+                        onKeyDown={onEnter}
+                        placeholder="Message (regex)"
+                        className="input-field text-xs"
+                        autoFocus
+                    />
+                    <input
+                        type="text"
+                        value={query.author ?? ''}
+                        onChange={(e) => update({ author: e.target.value })}
+                        onKeyDown={onEnter}
+                        placeholder="Author name or email"
+                        className="input-field text-xs"
+                    />
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="date"
+                            value={query.since ?? ''}
+                            onChange={(e) => update({ since: e.target.value })}
+                            className="input-field text-xs flex-1"
+                            title="Committed on or after"
+                        />
+                        <span className="text-2xs text-text-tertiary">to</span>
+                        <input
+                            type="date"
+                            value={query.until ?? ''}
+                            onChange={(e) => update({ until: e.target.value })}
+                            className="input-field text-xs flex-1"
+                            title="Committed on or before"
+                        />
+                    </div>
+                    <input
+                        type="text"
+                        value={query.path ?? ''}
+                        onChange={(e) => update({ path: e.target.value })}
+                        onKeyDown={onEnter}
+                        placeholder="Path, e.g. src/ or *.ts"
+                        className="input-field text-xs font-mono"
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={query.content ?? ''}
+                        onChange={(e) => update({ content: e.target.value })}
+                        onKeyDown={onEnter}
+                        placeholder={query.contentMode === 'regex' ? 'Regex matched against added/removed lines' : 'Text added or removed by the commit'}
+                        className="input-field text-xs font-mono flex-1"
+                    />
+                    <select
+                        value={query.contentMode}
+                        onChange={(e) => update({ contentMode: e.target.value as CommitSearchQuery['contentMode'] })}
+                        className="input-field text-xs py-1 w-36"
+                        title="-S finds commits that change how often the text occurs; -G finds diffs with a matching line"
+                    >
+                        <option value="string">Exact text (-S)</option>
+                        <option value="regex">Regex in diff (-G)</option>
+                    </select>
+                </div>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer">
+                        <input type="checkbox" checked={!!query.ignoreCase} onChange={(e) => update({ ignoreCase: e.target.checked })} />
+                        Ignore case
+                    </label>
+                    <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer">
+                        <input type="checkbox" checked={!!query.all} onChange={(e) => update({ all: e.target.checked })} />
+                        All refs
+                    </label>
+                    <div className="flex gap-2 ml-auto">
+                        <button onClick={() => setQuery(EMPTY_QUERY)} className="btn-ghost text-xs" disabled={isSearching}>
+                            Clear
+                        </button>
+                        {isSearching ? (
+                            <button onClick={handleStop} className="btn-secondary text-xs">Stop</button>
+                        ) : (
+                            <button onClick={handleSearch} className="btn-primary text-xs" disabled={!hasCriteria}>Search</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Status */}
+            {(isSearching || summary || error) && (
+                <div className="flex items-center gap-2 px-4 py-1.5 border-b border-border text-2xs text-text-tertiary shrink-0">
+                    {isSearching && <span className="loading-spinner w-3 h-3" />}
+                    {error ? (
+                        <span className="text-red-400 truncate">{error}</span>
+                    ) : (
+                        <span>
+                            {results.length} match{results.length !== 1 ? 'es' : ''}
+                            {isSearching && ' so far'}
+                            {summary?.truncated && ', showing the first ones only; narrow the search to see the rest'}
+                            {summary?.cancelled && ', search stopped'}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {/* Results */}
+            <div className="flex-1 overflow-y-auto divide-y divide-border/50">
+                {results.map((commit) => (
+                    <div
+                        key={commit.hash}
+                        onClick={() => openModal('commit-details', commit.hash)}
+                        className="px-4 py-2 cursor-pointer hover:bg-surface-2/50 transition-colors"
+                    >
+                        <div className="text-sm text-text-secondary truncate" title={commit.message}>{commit.message}</div>
+                        <div className="flex items-center gap-3 mt-0.5 text-2xs text-text-tertiary">
+                            <span className="font-mono bg-surface-2 px-1.5 py-0.5 rounded">{commit.shortHash}</span>
+                            <span className="truncate">{commit.author}</span>
+                            <span className="ml-auto shrink-0">
+                                {(() => {
+                                    try {
+                                        return formatDistanceToNow(new Date(commit.date), { addSuffix: true });
+                                    } catch {
+                                        return commit.date;
+                                    }
+                                })()}
+                            </span>
+                        </div>
+                    </div>
+                ))}
+                {!isSearching && summary && results.length === 0 && (
+                    <div className="flex items-center justify-center py-8 text-xs text-text-tertiary">
+                        No commits match these criteria
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -11,9 +11,11 @@ interface ContextMenuItem {
 interface ContextMenuProps {
     items: ContextMenuItem[];
     children: ReactNode;
+    /** Classes for the element wrapping `children`, e.g. to fill the parent's height */
+    className?: string;
 }
 
-export function ContextMenu({ items, children }: ContextMenuProps) {
+export function ContextMenu({ items, children, className }: ContextMenuProps) {
     const [isOpen, setIsOpen] = useState(false);
     const [position, setPosition] = useState({ x: 0, y: 0 });
     const menuRef = useRef<HTMLDivElement>(null);
@@ -39,7 +41,7 @@ export function ContextMenu({ items, children }: ContextMenuProps) {
 
     return (
         <>
-            <div onContextMenu={handleContextMenu}>{children}</div>
+            <div onContextMenu={handleContextMenu} className={className}>{children}</div>
             {isOpen && (
                 <div
                     ref={menuRef}
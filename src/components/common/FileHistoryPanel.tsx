@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useRepoStore, FileHistoryEntry } from '../../stores/repo.store';
+import { useUIStore } from '../../stores/ui.store';
+import { DiffEditor } from './DiffEditor';
+
+const api = () => (window as any).electronAPI;
+
+const PAGE_SIZE = 100;
+
+const STATUS_STYLES: Record<FileHistoryEntry['status'], string> = {
+    added: 'text-green-400',
+    modified: 'text-amber-400',
+    deleted: 'text-red-400',
+    renamed: 'text-sky-400',
+};
+
+interface FileHistoryPanelProps {
+    file: string;
+    /** Blame the file as of a commit, at the path it had there */
+    onBlameAt: (rev: string, path: string) => void;
+}
+
+export function FileHistoryPanel({ file, onBlameAt }: FileHistoryPanelProps) {
+    const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+    const openModal = useUIStore((s) => s.openModal);
+
+    const [entries, setEntries] = useState<FileHistoryEntry[] | null>(null);
+    const [selected, setSelected] = useState<FileHistoryEntry | null>(null);
+    const [diff, setDiff] = useState<{ original: string; modified: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+    useEffect(() => {
+        setEntries(null);
+        setSelected(null);
+        setError(null);
+        setHasMore(false);
+        if (!activeRepoPath) return;
+
+        api().git.fileHistory(activeRepoPath, file, PAGE_SIZE)
+            .then((history: FileHistoryEntry[]) => {
+                setEntries(history);
+                setHasMore(history.length >= PAGE_SIZE);
+                if (history.length > 0) setSelected(history[0]);
+            })
+            .catch((err: any) => setError(err.message));
+    }, [activeRepoPath, file]);
+
+    const loadMore = async () => {
+        if (!activeRepoPath || !entries || isLoadingMore) return;
+
+        // --follow loses renames it skips over, so re-read with a larger limit instead of paging
+        const limit = entries.length + PAGE_SIZE;
+        setIsLoadingMore(true);
+        try {
+            const history: FileHistoryEntry[] = await api().git.fileHistory(activeRepoPath, file, limit);
+            setEntries(history);
+            setHasMore(history.length >= limit);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    // Diff the file against the commit's first parent, using the pre-rename path there
+    useEffect(() => {
+        setDiff(null);
+        if (!activeRepoPath || !selected) return;
+
+        Promise.all([
+            selected.status === 'added'
+                ? ''
+                : api().git.getFileContent(activeRepoPath, selected.oldPath ?? selected.path, `${selected.hash}~1`).catch(() => ''),
+            selected.status === 'deleted'
+                ? ''
+                : api().git.getFileContent(activeRepoPath, selected.path, selected.hash).catch(() => ''),
+        ]).then(([original, modified]) => setDiff({ original, modified }));
+    }, [activeRepoPath, selected]);
+
+    if (error) {
+        return <div className="flex items-center justify-center h-full text-xs text-red-400">{error}</div>;
+    }
+
+    if (entries === null) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="loading-spinner w-6 h-6" />
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-full text-xs text-text-tertiary">
+                This file has no committed history yet
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full min-h-0 bg-surface-0">
+            {/* Commits touching the file */}
+            <div className="w-80 border-r border-border overflow-y-auto shrink-0 divide-y divide-border/50">
+                {entries.map((entry) => (
+                    <div
+                        key={entry.hash}
+                        onClick={() => setSelected(entry)}
+                        className={`group px-3 py-2 cursor-pointer transition-colors ${selected?.hash === entry.hash ? 'bg-surface-3' : 'hover:bg-surface-2/50'}`}
+                    >
+                        <div className="text-xs text-text-primary truncate" title={entry.message}>{entry.message}</div>
+                        <div className="flex items-center gap-2 mt-1 text-2xs text-text-tertiary">
+                            <span className="font-mono">{entry.shortHash}</span>
+                            <span className="truncate">{entry.author}</span>
+                            <span className="ml-auto shrink-0">
+                                {(() => {
+                                    try {
+                                        return formatDistanceToNow(new Date(entry.date), { addSuffix: true });
+                                    } catch {
+                                        return entry.date;
+                                    }
+                                })()}
+                            </span>
+                        </div>
+                        {(entry.status !== 'modified' || entry.path !== file) && (
+                            <div className={`mt-1 text-2xs font-mono truncate ${STATUS_STYLES[entry.status]}`} title={entry.path}>
+                                {entry.status === 'renamed'
+                                    ? `renamed from ${entry.oldPath}`
+                                    : entry.status === 'modified' ? entry.path : `${entry.status} ${entry.path}`}
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {hasMore && (
+                    <button
+                        onClick={loadMore}
+                        disabled={isLoadingMore}
+                        className="w-full px-3 py-2 text-2xs text-text-tertiary hover:text-text-primary hover:bg-surface-2/50 transition-colors disabled:opacity-50"
+                    >
+                        {isLoadingMore ? 'Loading...' : 'Load more'}
+                    </button>
+                )}
+            </div>
+
+            {/* Selected commit's change to the file */}
+            <div className="flex-1 flex flex-col min-w-0">
+                {selected && (
+                    <div className="flex items-center gap-1 px-3 py-1.5 border-b border-border bg-surface-1">
+                        <span className="font-mono text-2xs text-text-tertiary mr-2">{selected.shortHash}</span>
+                        <button onClick={() => openModal('commit-details', selected.hash)} className="btn-ghost text-xs">
+                            View Commit
+                        </button>
+                        {selected.status !== 'deleted' && (
+                            <button
+                                onClick={() => onBlameAt(selected.hash, selected.path)}
+                                className="btn-ghost text-xs"
+                                title="Blame the file as it was after this commit"
+                            >
+                                Blame Here
+                            </button>
+                        )}
+                    </div>
+                )}
+                <div className="flex-1 min-h-0 p-2">
+                    {diff ? (
+                        <DiffEditor original={diff.original} modified={diff.modified} language="text" />
+                    ) : (
+                        <div className="h-full flex items-center justify-center">
+                            <span className="loading-spinner w-5 h-5" />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
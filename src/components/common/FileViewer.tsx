@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from 'react';
-import { useRepoStore, BlameInfo } from '../../stores/repo.store';
+import { useRepoStore } from '../../stores/repo.store';
+import { useUIStore } from '../../stores/ui.store';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CodeEditor } from './CodeEditor';
+import { FileHistoryPanel } from './FileHistoryPanel';
 import Prism from 'prismjs';
 import 'prismjs/themes/prism-tomorrow.css';
 import 'prismjs/components/prism-typescript';
@@ -32,6 +34,12 @@ const stringToColor = (str: string) => {
     return '#' + '00000'.substring(0, 6 - c.length) + c;
 };
 
+// A revision being blamed, with the path the file had there
+interface BlameTarget {
+    rev: string;
+    path: string;
+}
+
 interface FileViewerProps {
     file: string; // Relative path
     onClose: () => void;
@@ -46,8 +54,14 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
 
     const [content, setContent] = useState<string | null>(null);
     const [showBlame, setShowBlame] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Empty while blaming the working copy; each "blame prior" pushes a revision
+    const [blameStack, setBlameStack] = useState<BlameTarget[]>([]);
+    const [revContent, setRevContent] = useState<string | null>(null);
+    const blameTarget = blameStack.length > 0 ? blameStack[blameStack.length - 1] : null;
+
     // Load content
     useEffect(() => {
         if (!activeRepoPath) return;
@@ -71,15 +85,33 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
 
     // Cleanup blame on unmount or file change
     useEffect(() => {
+        setBlameStack([]);
+        setShowHistory(false);
         return () => clearBlame();
     }, [clearBlame, file]);
 
-    // Load blame when toggled
+    // Load blame when toggled or when moving between revisions
     useEffect(() => {
-        if (showBlame && !blameData && !isLoadingBlame) {
-            loadBlame(file);
+        if (showBlame) {
+            loadBlame(blameTarget?.path ?? file, blameTarget?.rev);
         }
-    }, [showBlame, blameData, isLoadingBlame, loadBlame, file]);
+    }, [showBlame, blameTarget, loadBlame, file]);
+
+    // Blaming an older revision shows the file as it was there
+    useEffect(() => {
+        setRevContent(null);
+        if (!activeRepoPath || !blameTarget) return;
+
+        (window as any).electronAPI.git.getFileContent(activeRepoPath, blameTarget.path, blameTarget.rev)
+            .then((text: string) => setRevContent(text))
+            .catch((err: any) => setError(err.message));
+    }, [activeRepoPath, blameTarget]);
+
+    const blameAt = (target: BlameTarget) => {
+        setBlameStack((stack) => [...stack, target]);
+        setShowHistory(false);
+        setShowBlame(true);
+    };
 
     if (error) {
         return (
@@ -101,9 +133,10 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
         );
     }
 
-    const lines = content.split('\n');
+    const shown = blameTarget ? revContent ?? '' : content;
+    const lines = shown.split('\n');
     const language = getLanguage(file);
-    const highlighted = Prism.highlight(content, Prism.languages[language] || Prism.languages.text, language);
+    const highlighted = Prism.highlight(shown, Prism.languages[language] || Prism.languages.text, language);
 
     return (
         <div className="flex flex-col h-full bg-surface-0">
@@ -114,11 +147,51 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
                     <span className="font-medium text-sm text-text-primary">{file}</span>
+                    {showBlame && blameTarget && (
+                        <div className="flex items-center gap-1 ml-2">
+                            <span
+                                className="text-2xs font-mono px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20"
+                                title={blameTarget.path}
+                            >
+                                at {blameTarget.rev.substring(0, 7)}
+                                {blameTarget.path !== file && ` (${blameTarget.path})`}
+                            </span>
+                            <button
+                                onClick={() => setBlameStack((stack) => stack.slice(0, -1))}
+                                className="btn-ghost text-2xs px-1.5 py-0.5"
+                                title="Back to the previous blame"
+                            >
+                                Back
+                            </button>
+                            <button
+                                onClick={() => setBlameStack([])}
+                                className="btn-ghost text-2xs px-1.5 py-0.5"
+                                title="Blame the working copy"
+                            >
+                                Latest
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-2">
                     <button
-                        onClick={() => setShowBlame(!showBlame)}
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={`
+                            px-2 py-1 text-xs font-medium rounded border transition-colors
+                            ${showHistory
+                                ? 'bg-brand-500/10 text-brand-500 border-brand-500/20'
+                                : 'bg-surface-2 text-text-secondary border-border hover:border-text-secondary'
+                            }
+                        `}
+                    >
+                        {showHistory ? 'Hide History' : 'File History'}
+                    </button>
+                    <button
+                        onClick={() => {
+                            setShowBlame(showHistory || !showBlame);
+                            setShowHistory(false);
+                        }}
                         className={`
                             px-2 py-1 text-xs font-medium rounded border transition-colors
                             ${showBlame
@@ -132,7 +205,7 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
                                 <span className="loading-spinner w-2 h-2" /> Loading...
                             </span>
                         ) : (
-                            showBlame ? 'Hide Blame' : 'Show Blame'
+                            showBlame && !showHistory ? 'Hide Blame' : 'Show Blame'
                         )}
                     </button>
                     <button
@@ -149,7 +222,9 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
 
             {/* Content */}
             <div className="flex-1 overflow-hidden relative bg-[#1e1e1e]">
-                {!showBlame ? (
+                {showHistory ? (
+                    <FileHistoryPanel file={file} onBlameAt={(rev, path) => blameAt({ rev, path })} />
+                ) : !showBlame ? (
                     <div className="h-full w-full">
                         <CodeEditor
                             value={content}
@@ -174,6 +249,9 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
                                         const blame = blameData.find(b => b.line === lineNum);
                                         const prevBlame = blameData.find(b => b.line === lineNum - 1);
                                         const isSameCommit = prevBlame && blame && prevBlame.hash === blame.hash;
+                                        const prior = blame?.previousHash && blame.previousPath
+                                            ? { rev: blame.previousHash, path: blame.previousPath }
+                                            : null;
 
                                         return (
                                             <div
@@ -181,9 +259,10 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
                                                 className="h-[20px] px-2 flex items-center text-[10px] text-gray-500 hover:bg-[#2a2d2e] hover:text-gray-300 border-r border-transparent hover:border-brand-500 cursor-pointer transition-colors"
                                                 title={blame ? `${blame.author}: ${blame.message} (${blame.shortHash}) - ${new Date(blame.date).toLocaleDateString()}` : ''}
                                                 style={{ contain: 'strict' }}
+                                                onClick={() => blame && useUIStore.getState().openModal('commit-details', blame.hash)}
                                             >
                                                 {blame && !isSameCommit && (
-                                                    <div className="flex items-center justify-between w-full">
+                                                    <div className="group flex items-center justify-between w-full">
                                                         <span
                                                             className="truncate font-medium w-[100px]"
                                                             style={{ color: stringToColor(blame.author) }}
@@ -193,6 +272,18 @@ export function FileViewer({ file, onClose }: FileViewerProps) {
                                                         <span className="text-[9px] opacity-60 ml-2 shrink-0">
                                                             {new Date(blame.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
                                                         </span>
+                                                        {prior && (
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    blameAt(prior);
+                                                                }}
+                                                                className="ml-1 px-1 rounded opacity-0 group-hover:opacity-100 hover:bg-brand-500/20 hover:text-brand-400 shrink-0"
+                                                                title={`Blame prior to ${blame.shortHash}`}
+                                                            >
+                                                                ↶
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 )}
                                             </div>
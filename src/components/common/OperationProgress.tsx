@@ -0,0 +1,65 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useRepoStore, GitProgress } from '../../stores/repo.store';
+
+const api = () => (window as any).electronAPI;
+
+export function OperationProgress() {
+    const operations = useRepoStore((s) => s.operations);
+    const updateOperationProgress = useRepoStore((s) => s.updateOperationProgress);
+    const cancelOperation = useRepoStore((s) => s.cancelOperation);
+
+    useEffect(() => {
+        const unsubscribe = api()?.git.onProgress((progress: GitProgress) => updateOperationProgress(progress));
+        return () => unsubscribe?.();
+    }, [updateOperationProgress]);
+
+    return (
+        <div className="fixed bottom-12 left-4 z-50 w-80 space-y-2">
+            <AnimatePresence>
+                {operations.map((operation) => {
+                    const { progress } = operation;
+                    const count = progress?.total
+                        ? `${progress.current}/${progress.total}`
+                        : progress?.current !== undefined ? `${progress.current}` : '';
+
+                    return (
+                        <motion.div
+                            key={operation.id}
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: 20 }}
+                            className="p-3 bg-surface-2 border border-border rounded-lg shadow-2xl"
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-medium text-text-primary truncate">{operation.label}</span>
+                                <button
+                                    onClick={() => cancelOperation(operation.id)}
+                                    className="text-2xs text-text-tertiary hover:text-red-400 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                            <div className="flex items-center justify-between mt-1 text-2xs text-text-tertiary">
+                                <span className="truncate">{progress?.phase ?? 'Starting...'}</span>
+                                <span className="font-mono">
+                                    {count}{progress?.percent !== undefined ? ` (${progress.percent}%)` : ''}
+                                </span>
+                            </div>
+                            <div className="mt-2 h-1 rounded-full bg-surface-0 overflow-hidden">
+                                {progress?.percent !== undefined ? (
+                                    <div
+                                        className="h-full bg-brand-500 transition-all duration-200"
+                                        style={{ width: `${progress.percent}%` }}
+                                    />
+                                ) : (
+                                    <div className="h-full w-1/3 bg-brand-500/60 animate-pulse" />
+                                )}
+                            </div>
+                        </motion.div>
+                    );
+                })}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+
+type SignatureStatus = 'verified' | 'unverified' | 'unsigned';
+
+const STYLES: Record<SignatureStatus, { label: string; className: string; title: string }> = {
+    verified: {
+        label: 'Verified',
+        className: 'bg-green-500/15 text-green-400 border-green-500/30',
+        title: 'Good signature from a trusted key',
+    },
+    unverified: {
+        label: 'Unverified',
+        className: 'bg-amber-500/15 text-amber-400 border-amber-500/30',
+        title: 'Signed, but the signature could not be verified against a trusted key',
+    },
+    unsigned: {
+        label: 'Unsigned',
+        className: 'bg-surface-3 text-text-tertiary border-border',
+        title: 'This commit is not signed',
+    },
+};
+
+export function SignatureBadge({ status, signer }: { status: SignatureStatus; signer?: string }) {
+    const style = STYLES[status];
+    return (
+        <span
+            className={`text-[10px] font-semibold px-1.5 py-0.5 rounded border shrink-0 ${style.className}`}
+            title={signer ? `${style.title}\nSigned by ${signer}` : style.title}
+        >
+            {style.label}
+        </span>
+    );
+}
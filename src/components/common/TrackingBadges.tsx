@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface Tracking {
+    upstream?: string;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean;
+}
+
+export function TrackingBadges({ branch }: { branch: Tracking }) {
+    if (!branch.upstream) return null;
+
+    if (branch.upstreamGone) {
+        return (
+            <span
+                className="badge bg-red-500/15 text-red-400"
+                title={`${branch.upstream} no longer exists on the remote`}
+            >
+                gone
+            </span>
+        );
+    }
+
+    return (
+        <>
+            {branch.ahead > 0 && (
+                <span className="badge-ahead" title={`${branch.ahead} commit(s) not yet pushed to ${branch.upstream}`}>
+                    ↑{branch.ahead}
+                </span>
+            )}
+            {branch.behind > 0 && (
+                <span className="badge-behind" title={`${branch.behind} commit(s) on ${branch.upstream} not yet pulled`}>
+                    ↓{branch.behind}
+                </span>
+            )}
+        </>
+    );
+}
@@ -1,52 +1,164 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useRepoStore } from '../../stores/repo.store';
+import { CodeEditor } from '../common/CodeEditor';
+import { parseConflictBlocks, resolveConflictBlock, BlockResolution } from '../../lib/conflict-markers';
 
 interface ConflictResolverProps {
     file: string;
 }
 
+const BLOCK_ACTIONS: { resolution: BlockResolution; label: string; title: string }[] = [
+    { resolution: 'ours', label: 'Ours', title: 'Keep the current (local) side' },
+    { resolution: 'theirs', label: 'Theirs', title: 'Keep the incoming side' },
+    { resolution: 'ours-theirs', label: 'Both', title: 'Keep ours, then theirs' },
+    { resolution: 'theirs-ours', label: 'Both (theirs first)', title: 'Keep theirs, then ours' },
+    { resolution: 'base', label: 'Base', title: 'Revert to the common ancestor' },
+];
+
+function languageFor(file: string): string {
+    const ext = file.split('.').pop();
+    return ext === 'ts' || ext === 'tsx' ? 'typescript' : ext === 'js' || ext === 'jsx' ? 'javascript' : ext === 'json' ? 'json' : 'text';
+}
+
 export function ConflictResolver({ file }: ConflictResolverProps) {
     const resolveConflict = useRepoStore((s) => s.resolveConflict);
+    const conflictVersions = useRepoStore((s) => s.conflictVersions);
+    const loadConflictVersions = useRepoStore((s) => s.loadConflictVersions);
+    const markConflictResolved = useRepoStore((s) => s.markConflictResolved);
+    const [result, setResult] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
 
-    return (
-        <div className="flex flex-col items-center justify-center h-full p-8 text-center">
-            <div className="bg-surface-2 p-6 rounded-xl border border-border max-w-md shadow-lg">
-                <div className="w-12 h-12 rounded-full bg-status-conflict/20 flex items-center justify-center mx-auto mb-4">
-                    <svg className="w-6 h-6 text-status-conflict" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
-                            d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                </div>
+    useEffect(() => {
+        loadConflictVersions(file);
+    }, [file, loadConflictVersions]);
+
+    const versions = conflictVersions?.file === file ? conflictVersions : null;
+
+    useEffect(() => {
+        if (versions) setResult(versions.merged);
+    }, [versions]);
+
+    const blocks = useMemo(() => parseConflictBlocks(result), [result]);
+    const language = languageFor(file);
 
-                <h3 className="text-lg font-bold text-text-primary mb-2">Merge Conflict Detected</h3>
-                <p className="text-sm text-text-secondary mb-6">
-                    File <span className="font-mono bg-surface-3 px-1.5 py-0.5 rounded text-text-primary">{file}</span> has conflicts that need to be resolved.
-                </p>
+    const handleMarkResolved = async () => {
+        if (blocks.length > 0 &&
+            !confirm(`${blocks.length} conflict block(s) still contain markers. Mark ${file} as resolved anyway?`)) {
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await markConflictResolved(file, result);
+        } finally {
+            setIsSaving(false);
+        }
+    };
 
-                <div className="flex flex-col gap-3 w-full">
+    if (!versions) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <span className="loading-spinner w-6 h-6" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full flex flex-col bg-surface-0">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-3 px-3 py-2 border-b border-border bg-surface-1 shrink-0">
+                <div className="flex items-center gap-2 min-w-0">
+                    <div className="w-2 h-2 rounded-full bg-status-conflict shrink-0" />
+                    <span className="text-xs font-mono text-text-primary truncate">{file}</span>
+                    <span className="text-2xs text-text-tertiary shrink-0">
+                        {blocks.length === 0 ? 'no conflicts left' : `${blocks.length} conflict${blocks.length !== 1 ? 's' : ''} left`}
+                    </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button
+                        onClick={() => resolveConflict(file, 'ours')}
+                        className="btn-ghost text-2xs px-2 py-1"
+                        title="Replace the whole file with our version and stage it"
+                    >
+                        Use Ours
+                    </button>
                     <button
                         onClick={() => resolveConflict(file, 'theirs')}
-                        className="btn-primary w-full justify-center bg-blue-600 hover:bg-blue-700 border-blue-600"
+                        className="btn-ghost text-2xs px-2 py-1"
+                        title="Replace the whole file with their version and stage it"
                     >
-                        <div className="flex items-center gap-2">
-                            <span className="font-bold">Accept Incoming (Theirs)</span>
-                            <span className="text-xs opacity-80">(Remote changes)</span>
-                        </div>
+                        Use Theirs
                     </button>
-
                     <button
-                        onClick={() => resolveConflict(file, 'ours')}
-                        className="btn-secondary w-full justify-center"
+                        onClick={() => setResult(versions.merged)}
+                        className="btn-ghost text-2xs px-2 py-1"
+                        title="Discard edits to the result"
                     >
-                        <div className="flex items-center gap-2">
-                            <span className="font-bold">Accept Current (Ours)</span>
-                            <span className="text-xs opacity-80">(Local changes)</span>
-                        </div>
+                        Reset
                     </button>
+                    <button
+                        onClick={handleMarkResolved}
+                        disabled={isSaving}
+                        className="btn-primary text-2xs px-3 py-1"
+                    >
+                        {isSaving ? 'Saving...' : 'Mark Resolved'}
+                    </button>
+                </div>
+            </div>
 
-                    <div className="text-xs text-text-tertiary mt-2">
-                        Manual resolution: Open file in external editor, fix conflicts, then stage the file.
+            {/* Base / Ours / Theirs */}
+            <div className="h-[38%] grid grid-cols-3 gap-2 p-2 border-b border-border shrink-0">
+                {([
+                    ['Base', versions.base],
+                    ['Ours (current)', versions.ours],
+                    ['Theirs (incoming)', versions.theirs],
+                ] as const).map(([label, content]) => (
+                    <div key={label} className="flex flex-col min-h-0">
+                        <span className="text-2xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">{label}</span>
+                        <div className="flex-1 min-h-0">
+                            {content === null ? (
+                                <div className="h-full flex items-center justify-center rounded-md border border-border text-2xs text-text-tertiary">
+                                    {label === 'Base' ? 'No common ancestor' : 'Deleted on this side'}
+                                </div>
+                            ) : (
+                                <CodeEditor value={content} language={language} readOnly={true} />
+                            )}
+                        </div>
                     </div>
+                ))}
+            </div>
+
+            {/* Conflict blocks */}
+            {blocks.length > 0 && (
+                <div className="max-h-28 overflow-y-auto px-3 py-2 border-b border-border bg-surface-1 space-y-1 shrink-0">
+                    {blocks.map((block, i) => (
+                        <div key={`${block.start}-${i}`} className="flex items-center gap-2">
+                            <span className="text-2xs text-text-secondary w-32 shrink-0">
+                                Conflict {i + 1} <span className="text-text-tertiary">(line {block.start + 1})</span>
+                            </span>
+                            {BLOCK_ACTIONS.filter((a) => a.resolution !== 'base' || block.base !== null).map((action) => (
+                                <button
+                                    key={action.resolution}
+                                    onClick={() => setResult(resolveConflictBlock(result, i, action.resolution))}
+                                    className="btn-ghost text-2xs px-2 py-0.5"
+                                    title={action.title}
+                                >
+                                    {action.label}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Result */}
+            <div className="flex-1 min-h-0 flex flex-col p-2">
+                <span className="text-2xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">Result</span>
+                <div className="flex-1 min-h-0">
+                    <CodeEditor
+                        value={result}
+                        language={language}
+                        onChange={(value) => setResult(value ?? '')}
+                    />
                 </div>
             </div>
         </div>
@@ -1,6 +1,7 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useRepoStore } from '../../stores/repo.store';
 import { DiffEditor } from '../common/DiffEditor';
+import { HunkView } from './HunkView';
 
 interface DiffViewerProps {
     file: string;
@@ -11,6 +12,7 @@ export function DiffViewer({ file }: DiffViewerProps) {
     const diffCtx = useRepoStore((s) => s.diffCtx);
     const loadDiffContext = useRepoStore((s) => s.loadDiffContext);
     const isLoadingDiff = useRepoStore((s) => s.isLoadingDiff);
+    const [view, setView] = useState<'side-by-side' | 'hunks'>('side-by-side');
 
     useEffect(() => {
         if (file) {
@@ -35,13 +37,33 @@ export function DiffViewer({ file }: DiffViewerProps) {
     }
 
     return (
-        <div className="h-full bg-surface-0">
-            <DiffEditor
-                original={diffCtx.original}
-                modified={diffCtx.modified}
-                language={diffCtx.language}
-                readOnly={true}
-            />
+        <div className="h-full flex flex-col bg-surface-0">
+            <div className="flex items-center justify-between px-3 py-1.5 border-b border-border bg-surface-1 shrink-0">
+                <span className="text-xs font-mono text-text-secondary truncate">{file}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                    {(['side-by-side', 'hunks'] as const).map((mode) => (
+                        <button
+                            key={mode}
+                            onClick={() => setView(mode)}
+                            className={`btn-ghost text-2xs px-2 py-0.5 ${view === mode ? 'text-brand-400 bg-surface-3' : ''}`}
+                        >
+                            {mode === 'side-by-side' ? 'Side by side' : 'Hunks'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex-1 min-h-0">
+                {view === 'hunks' ? (
+                    <HunkView file={file} />
+                ) : (
+                    <DiffEditor
+                        original={diffCtx.original}
+                        modified={diffCtx.modified}
+                        language={diffCtx.language}
+                        readOnly={true}
+                    />
+                )}
+            </div>
         </div>
     );
 }
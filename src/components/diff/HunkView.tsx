@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRepoStore } from '../../stores/repo.store';
+import { parseDiff, buildHunkPatch, isChangeLine, FileDiff, DiffHunk } from '../../lib/patch';
+
+interface HunkViewProps {
+    file: string;
+}
+
+export function HunkView({ file }: HunkViewProps) {
+    const diffSections = useRepoStore((s) => s.diffSections);
+    const loadDiffSections = useRepoStore((s) => s.loadDiffSections);
+    const fileStatuses = useRepoStore((s) => s.fileStatuses);
+
+    useEffect(() => {
+        if (file) {
+            loadDiffSections(file);
+        }
+    }, [file, loadDiffSections]);
+
+    const staged = useMemo(
+        () => (diffSections?.file === file ? parseDiff(diffSections.staged) : []),
+        [diffSections, file]
+    );
+    const unstaged = useMemo(
+        () => (diffSections?.file === file ? parseDiff(diffSections.unstaged) : []),
+        [diffSections, file]
+    );
+
+    const isUntracked = fileStatuses.some((f) => f.path === file && f.status === 'untracked');
+
+    if (isUntracked) {
+        return (
+            <div className="flex items-center justify-center h-full text-xs text-text-tertiary">
+                Untracked files can only be staged as a whole
+            </div>
+        );
+    }
+
+    if (staged.length === 0 && unstaged.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-full text-xs text-text-tertiary">
+                No changes to show
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full overflow-y-auto bg-surface-0 p-3 space-y-4">
+            {unstaged.map((f) => (
+                <FileSection key={`unstaged-${f.path}`} fileDiff={f} section="unstaged" />
+            ))}
+            {staged.map((f) => (
+                <FileSection key={`staged-${f.path}`} fileDiff={f} section="staged" />
+            ))}
+        </div>
+    );
+}
+
+function FileSection({ fileDiff, section }: { fileDiff: FileDiff; section: 'staged' | 'unstaged' }) {
+    return (
+        <div>
+            <h3 className="text-2xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">
+                {section === 'staged' ? 'Staged' : 'Unstaged'}
+            </h3>
+            {fileDiff.isBinary ? (
+                <div className="text-xs text-text-tertiary">Binary file, stage it as a whole</div>
+            ) : (
+                <div className="space-y-3">
+                    {fileDiff.hunks.map((hunk) => (
+                        <HunkBlock key={`${section}-${hunk.header}`} fileDiff={fileDiff} hunk={hunk} section={section} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function HunkBlock({ fileDiff, hunk, section }: { fileDiff: FileDiff; hunk: DiffHunk; section: 'staged' | 'unstaged' }) {
+    const applyPatch = useRepoStore((s) => s.applyPatch);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [isApplying, setIsApplying] = useState(false);
+
+    const toggleLine = (index: number) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
+    const run = async (action: 'stage' | 'unstage' | 'discard') => {
+        const patch = buildHunkPatch(fileDiff, hunk, {
+            selected: selected.size > 0 ? selected : undefined,
+            reverse: action !== 'stage',
+        });
+        if (!patch) return;
+
+        if (action === 'discard') {
+            const what = selected.size > 0 ? `${selected.size} selected line(s)` : 'this hunk';
+            if (!confirm(`Discard ${what} in ${fileDiff.path}? This cannot be undone.`)) return;
+        }
+
+        setIsApplying(true);
+        try {
+            await applyPatch(patch, action);
+            setSelected(new Set());
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const scope = selected.size > 0 ? `${selected.size} Line${selected.size === 1 ? '' : 's'}` : 'Hunk';
+
+    return (
+        <div className="rounded-lg border border-border overflow-hidden">
+            <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-surface-2 border-b border-border">
+                <span className="font-mono text-2xs text-text-tertiary truncate">{hunk.header}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                    {section === 'unstaged' ? (
+                        <>
+                            <button
+                                onClick={() => run('discard')}
+                                disabled={isApplying}
+                                className="btn-ghost text-2xs px-2 py-0.5 text-red-400 hover:text-red-300"
+                            >
+                                Discard {scope}
+                            </button>
+                            <button
+                                onClick={() => run('stage')}
+                                disabled={isApplying}
+                                className="btn-ghost text-2xs px-2 py-0.5 text-brand-400"
+                            >
+                                Stage {scope}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={() => run('unstage')}
+                            disabled={isApplying}
+                            className="btn-ghost text-2xs px-2 py-0.5 text-amber-400"
+                        >
+                            Unstage {scope}
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div className="font-mono text-xs">
+                {hunk.lines.map((line, i) => {
+                    const selectable = isChangeLine(line);
+                    const isSelected = selected.has(i);
+                    const color = line.type === 'add'
+                        ? 'bg-green-500/10 text-green-300'
+                        : line.type === 'remove'
+                            ? 'bg-red-500/10 text-red-300'
+                            : 'text-text-tertiary';
+
+                    return (
+                        <div
+                            key={i}
+                            onClick={() => selectable && toggleLine(i)}
+                            className={`flex whitespace-pre ${color} ${selectable ? 'cursor-pointer hover:brightness-125' : ''} ${isSelected ? 'ring-1 ring-inset ring-brand-500/60' : ''}`}
+                        >
+                            <span className="w-5 shrink-0 text-center select-none opacity-60">
+                                {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+                            </span>
+                            <span className="pr-3">{line.type === 'meta' ? line.content : line.content || ' '}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -121,6 +121,20 @@ export function AccountSidebar() {
                             <p className="text-xs font-medium truncate">{contextMenu.account.username}</p>
                             <p className="text-2xs text-text-tertiary capitalize">{contextMenu.account.type}</p>
                         </div>
+                        <button
+                            onClick={() => {
+                                useUIStore.getState().openModal('signing-settings', contextMenu.account.id);
+                                setContextMenu(null);
+                            }}
+                            className="w-full px-3 py-1.5 text-left text-xs text-text-secondary hover:bg-surface-3
+                                       flex items-center gap-2 transition-colors"
+                        >
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                    d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                            </svg>
+                            Commit Signing...
+                        </button>
                         <button
                             onClick={() => handleRemoveAccount(contextMenu.account)}
                             className="w-full px-3 py-1.5 text-left text-xs text-status-error hover:bg-status-error/10
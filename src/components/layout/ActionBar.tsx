@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useUIStore } from '../../stores/ui.store';
 import { useRepoStore } from '../../stores/repo.store';
 import { useAccountStore } from '../../stores/account.store';
+import { TrackingBadges } from '../common/TrackingBadges';
 
 export function ActionBar() {
     const isCommitting = useUIStore((s) => s.isCommitting);
@@ -9,6 +10,10 @@ export function ActionBar() {
     const commitMessage = useUIStore((s) => s.commitMessage);
     const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
     const fileStatuses = useRepoStore((s) => s.fileStatuses);
+    const currentBranch = useRepoStore((s) => s.branches.find((b) => b.current));
+    const isFetching = useRepoStore((s) => s.isFetching);
+    const remoteTargets = useRepoStore((s) => s.remoteTargets);
+    const lastUndo = useRepoStore((s) => s.undoEntries[0]);
     const activeAccountId = useAccountStore((s) => s.activeAccountId);
     const accounts = useAccountStore((s) => s.accounts);
     const activeAccount = accounts.find((a) => a.id === activeAccountId);
@@ -115,19 +120,44 @@ export function ActionBar() {
                     Pop
                 </button>
 
-                {/* Undo last commit */}
+                {/* Stash manager */}
                 <button
-                    onClick={() => useRepoStore.getState().undoLastCommit()}
+                    onClick={() => useUIStore.getState().openModal('stash-manager', null)}
                     disabled={noRepo}
                     className={`btn-ghost text-xs ${noRepo ? 'opacity-40 cursor-not-allowed' : ''}`}
-                    title="Undo last commit -- keeps changes staged (Soft Reset)"
+                    title="Browse, apply, rename and drop stashes"
                 >
                     <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
                     </svg>
-                    Undo
+                    Stashes
                 </button>
 
+                {/* Undo last operation; without a journal entry, undo the last commit */}
+                <div className="flex items-center">
+                    <button
+                        onClick={() => (lastUndo ? useRepoStore.getState().undoOperation() : useRepoStore.getState().undoLastCommit())}
+                        disabled={noRepo}
+                        className={`btn-ghost text-xs ${noRepo ? 'opacity-40 cursor-not-allowed' : ''}`}
+                        title={lastUndo ? `Undo: ${lastUndo.description}` : 'Undo last commit -- keeps changes staged (Soft Reset)'}
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                        </svg>
+                        Undo
+                    </button>
+                    <button
+                        onClick={() => useUIStore.getState().openModal('undo-history', null)}
+                        disabled={noRepo}
+                        className={`btn-ghost text-xs px-1 ${noRepo ? 'opacity-40 cursor-not-allowed' : ''}`}
+                        title="Undo history"
+                    >
+                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                </div>
+
                 {/* Revert last commit */}
                 <button
                     onClick={() => useRepoStore.getState().revertLastCommit()}
@@ -215,11 +245,36 @@ export function ActionBar() {
                     Sync
                 </span>
 
+                {currentBranch && <TrackingBadges branch={currentBranch} />}
+
+                {/* Only worth showing when it differs from the usual origin/origin */}
+                {(remoteTargets.pull !== 'origin' || remoteTargets.push !== 'origin') && (
+                    <button
+                        onClick={() => useUIStore.getState().setActiveTab('settings')}
+                        className="px-1.5 py-0.5 rounded text-2xs font-mono bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        title="Pull and push remotes (change in Settings)"
+                    >
+                        {remoteTargets.pull} → {remoteTargets.push}
+                    </button>
+                )}
+
+                <button
+                    onClick={() => useRepoStore.getState().fetchRepo({ prune: true })}
+                    disabled={isFetching || noRepo}
+                    className={`btn-ghost text-xs ${isFetching || noRepo ? 'opacity-40 cursor-not-allowed' : ''}`}
+                    title="Fetch from origin and prune deleted remote branches"
+                >
+                    <svg className={`w-3.5 h-3.5 ${isFetching ? 'animate-pulse' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                    Fetch
+                </button>
+
                 <button
                     onClick={handleSync}
                     disabled={isSyncing || noRepo}
                     className={`btn-secondary text-xs ${isSyncing || noRepo ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    title="Pull (rebase) then push to remote (Ctrl+Shift+S)"
+                    title={`Pull (rebase) from ${remoteTargets.pull} then push to ${remoteTargets.push} (Ctrl+Shift+S)`}
                 >
                     {isSyncing ? (
                         <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -279,7 +334,7 @@ export function ActionBar() {
                     title={
                         hasStaged
                             ? 'Stage area not empty - use Commit & Push instead'
-                            : 'Push local commits to remote'
+                            : `Push local commits to ${remoteTargets.push}`
                     }
                 >
                     {isSyncing ? (
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useActivityStore, ActivityLogEntry } from '../../stores/activity.store';
+import { useActivityStore, ActivityLogEntry, RepoQueueState } from '../../stores/activity.store';
 
 function formatDuration(ms: number): string {
     if (ms < 1000) return `${ms}ms`;
@@ -67,9 +67,36 @@ function EntryRow({ entry }: { entry: ActivityLogEntry }) {
     );
 }
 
+function QueueRow({ queue }: { queue: RepoQueueState }) {
+    const repoName = queue.repoPath.split(/[\\/]/).filter(Boolean).pop() ?? queue.repoPath;
+
+    return (
+        <div className="px-3 py-1.5 border-b border-border/50">
+            <div className="flex items-center gap-2">
+                <StatusIcon status="running" />
+                <span className="text-2xs text-text-tertiary shrink-0">{repoName}</span>
+                <span className="font-mono text-xs text-text-primary truncate flex-1">
+                    {queue.running?.command ?? 'Waiting...'}
+                </span>
+                {queue.pending.length > 0 && (
+                    <span className="text-2xs text-amber-400 tabular-nums shrink-0">
+                        {queue.pending.length} queued
+                    </span>
+                )}
+            </div>
+            {queue.pending.map((command) => (
+                <div key={command.id} className="ml-5.5 mt-0.5 font-mono text-2xs text-text-tertiary truncate">
+                    {command.command}
+                </div>
+            ))}
+        </div>
+    );
+}
+
 export function ActivityPanel() {
     const entries = useActivityStore((s) => s.entries);
     const clearEntries = useActivityStore((s) => s.clearEntries);
+    const queues = useActivityStore((s) => s.queues);
 
     return (
         <div className="flex flex-col h-full bg-surface-0">
@@ -96,6 +123,14 @@ export function ActivityPanel() {
                 )}
             </div>
 
+            {queues.length > 0 && (
+                <div className="shrink-0 max-h-32 overflow-y-auto border-b border-border bg-surface-1/50">
+                    {queues.map((queue) => (
+                        <QueueRow key={queue.repoPath} queue={queue} />
+                    ))}
+                </div>
+            )}
+
             <div className="flex-1 overflow-y-auto">
                 {entries.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-full text-text-tertiary">
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { useUIStore, TabId } from '../../stores/ui.store';
 import { useRepoStore } from '../../stores/repo.store';
 import { ActionBar } from './ActionBar';
+import { OperationBanner } from './OperationBanner';
 import { ChangesTab } from '../tabs/ChangesTab';
 import { HistoryTab } from '../tabs/HistoryTab';
 import { BranchesTab } from '../tabs/BranchesTab';
@@ -17,6 +18,14 @@ import { NewRepoModal } from '../modals/NewRepoModal';
 import { CommitDetailsModal } from '../modals/CommitDetailsModal';
 import { CloneModal } from '../modals/CloneModal';
 import { TimeMachineModal } from '../modals/TimeMachineModal';
+import { InteractiveRebaseModal } from '../modals/InteractiveRebaseModal';
+import { StashManagerModal } from '../modals/StashManagerModal';
+import { SigningSettingsModal } from '../modals/SigningSettingsModal';
+import { PatchImportModal } from '../modals/PatchImportModal';
+import { CompareModal } from '../modals/CompareModal';
+import { GitignoreModal } from '../modals/GitignoreModal';
+import { UndoHistoryModal } from '../modals/UndoHistoryModal';
+import { ResetModal } from '../modals/ResetModal';
 import { ThemeToggle } from '../common/ThemeToggle';
 
 const APP_VERSION = '1.0.0';
@@ -240,6 +249,8 @@ export function MainView() {
                 </div>
             </div>
 
+            {activeRepoPath && <OperationBanner />}
+
             <div className="flex-1 overflow-hidden">
                 {showEmptyContent ? (
                     <EmptyState onNewRepo={() => {
@@ -275,6 +286,14 @@ export function MainView() {
             <CommitDetailsModal />
             <CloneModal />
             <TimeMachineModal />
+            <InteractiveRebaseModal />
+            <StashManagerModal />
+            <SigningSettingsModal />
+            <PatchImportModal />
+            <CompareModal />
+            <GitignoreModal />
+            <UndoHistoryModal />
+            <ResetModal />
         </div>
     );
 }
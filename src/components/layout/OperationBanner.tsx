@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useRepoStore, OperationState, OPERATION_LABELS } from '../../stores/repo.store';
+import { useUIStore } from '../../stores/ui.store';
+
+function describe(state: OperationState): string {
+    const target = state.target ?? 'HEAD';
+    switch (state.operation) {
+        case 'merge':
+            return `Merging ${target}`;
+        case 'rebase':
+            return `Rebasing ${state.headName ?? 'HEAD'} onto ${target}${state.step && state.total ? ` (step ${state.step} of ${state.total})` : ''}`;
+        case 'cherry-pick':
+            return `Cherry-picking ${target}`;
+        case 'revert':
+            return `Reverting ${target}`;
+        default:
+            return '';
+    }
+}
+
+/**
+ * Shown while a merge, rebase, cherry-pick or revert is stopped halfway,
+ * whichever tab is open, so the repo is never left in that state unnoticed.
+ */
+export function OperationBanner() {
+    const operationState = useRepoStore((s) => s.operationState);
+    const continueOperation = useRepoStore((s) => s.continueOperation);
+    const skipOperation = useRepoStore((s) => s.skipOperation);
+    const abortOperation = useRepoStore((s) => s.abortOperation);
+    const openModal = useUIStore((s) => s.openModal);
+    const setActiveTab = useUIStore((s) => s.setActiveTab);
+    const setSelectedFile = useUIStore((s) => s.setSelectedFile);
+    const [isRunning, setIsRunning] = useState(false);
+
+    if (!operationState?.operation) return null;
+
+    const label = OPERATION_LABELS[operationState.operation];
+    const { conflicts } = operationState;
+
+    const runStep = async (step: () => Promise<void>) => {
+        setIsRunning(true);
+        try {
+            await step();
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleAbort = () => {
+        if (!confirm(`Abort the ${label.toLowerCase()} and restore the branch to where it was before?`)) return;
+        runStep(abortOperation);
+    };
+
+    const openConflict = (file: string) => {
+        setActiveTab('changes');
+        setSelectedFile(file);
+    };
+
+    return (
+        <div className="px-4 py-2 border-b border-amber-500/30 bg-amber-500/10 shrink-0 space-y-1.5">
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-xs text-amber-400 truncate">
+                    {describe(operationState)}
+                    <span className="text-text-secondary">
+                        {conflicts.length > 0
+                            ? ` · ${conflicts.length} conflicted file${conflicts.length === 1 ? '' : 's'} to resolve`
+                            : ' · ready to continue'}
+                    </span>
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                    {operationState.operation === 'rebase' && (
+                        <button
+                            onClick={() => openModal('interactive-rebase', null)}
+                            disabled={isRunning}
+                            className="btn-ghost text-xs px-2 py-1"
+                            title="Show where the rebase stopped and the commits still to apply"
+                        >
+                            Details...
+                        </button>
+                    )}
+                    <button
+                        onClick={() => runStep(continueOperation)}
+                        disabled={isRunning || conflicts.length > 0}
+                        className="btn-ghost text-xs px-2 py-1 text-amber-400 disabled:opacity-40"
+                        title={conflicts.length > 0 ? 'Resolve and stage every conflicted file first' : `git ${operationState.operation} --continue`}
+                    >
+                        Continue
+                    </button>
+                    {operationState.operation !== 'merge' && (
+                        <button
+                            onClick={() => runStep(skipOperation)}
+                            disabled={isRunning}
+                            className="btn-ghost text-xs px-2 py-1"
+                            title="Drop this commit and go on with the next one"
+                        >
+                            Skip
+                        </button>
+                    )}
+                    <button
+                        onClick={handleAbort}
+                        disabled={isRunning}
+                        className="btn-ghost text-xs px-2 py-1"
+                        title={`git ${operationState.operation} --abort`}
+                    >
+                        Abort
+                    </button>
+                </div>
+            </div>
+
+            {conflicts.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {conflicts.map((conflict) => (
+                        <button
+                            key={conflict.path}
+                            onClick={() => openConflict(conflict.path)}
+                            className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-surface-2 border border-border hover:border-status-conflict transition-colors"
+                            title="Resolve in the Changes tab"
+                        >
+                            <span className="w-1.5 h-1.5 rounded-full bg-status-conflict shrink-0" />
+                            <span className="text-2xs font-mono text-text-primary truncate max-w-[240px]">{conflict.path}</span>
+                            <span className="text-2xs text-text-tertiary">{conflict.kind.replace(/-/g, ' ')}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -33,6 +33,13 @@ export function RepoSidebar() {
         return filtered;
     }, [repos, activeAccountId, search]);
 
+    // Linked worktrees and opened submodules are listed under their main repository
+    const parentOf = (r: RepoInfo) => r.worktreeOf ?? r.submoduleOf;
+    const topLevelRepos = filteredRepos.filter(
+        (r) => !parentOf(r) || !filteredRepos.some((p) => p.path === parentOf(r))
+    );
+    const childrenOf = (repo: RepoInfo) => filteredRepos.filter((r) => parentOf(r) === repo.path);
+
     const handleBrowseAndScan = async () => {
         try {
             const api = (window as any).electronAPI;
@@ -146,18 +153,28 @@ export function RepoSidebar() {
                         </button>
                     </div>
                 ) : (
-                    filteredRepos.map((repo) => (
-                        <RepoItem
-                            key={repo.path}
-                            repo={repo}
-                            isActive={repo.path === activeRepoPath}
-                            onClick={() => setActiveRepo(repo.path)}
-                            onRemove={() => {
-                                if (confirm(`Remove "${repo.name}" from the app?\n\nThis will only remove it from the list, not delete the folder.`)) {
-                                    removeRepo(repo.path);
-                                }
-                            }}
-                        />
+                    topLevelRepos.map((repo) => (
+                        <React.Fragment key={repo.path}>
+                            <RepoItem
+                                repo={repo}
+                                isActive={repo.path === activeRepoPath}
+                                onClick={() => setActiveRepo(repo.path)}
+                                onRemove={() => {
+                                    if (confirm(`Remove "${repo.name}" from the app?\n\nThis will only remove it from the list, not delete the folder.`)) {
+                                        removeRepo(repo.path);
+                                    }
+                                }}
+                            />
+                            {childrenOf(repo).map((child) => (
+                                <RepoItem
+                                    key={child.path}
+                                    repo={child}
+                                    isActive={child.path === activeRepoPath}
+                                    onClick={() => setActiveRepo(child.path)}
+                                    onRemove={child.submoduleOf ? () => removeRepo(child.path) : undefined}
+                                />
+                            ))}
+                        </React.Fragment>
                     ))
                 )}
             </div>
@@ -181,20 +198,33 @@ function RepoItem({
     repo: RepoInfo;
     isActive: boolean;
     onClick: () => void;
-    onRemove: () => void;
+    /** Omitted for worktrees, which are managed from the Branches tab */
+    onRemove?: () => void;
 }) {
     return (
         <motion.div
             whileHover={{ x: 2 }}
             onClick={onClick}
-            className={`sidebar-item mb-0.5 group relative ${isActive ? 'active' : ''}`}
+            className={`sidebar-item mb-0.5 group relative ${repo.worktreeOf || repo.submoduleOf ? 'ml-4' : ''} ${isActive ? 'active' : ''}`}
         >
             {/* Repo icon */}
             <div className="shrink-0">
-                <svg className="w-4 h-4 text-text-tertiary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
-                        d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
-                </svg>
+                {repo.worktreeOf ? (
+                    <svg className="w-4 h-4 text-text-tertiary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <title>Worktree</title>
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+                    </svg>
+                ) : repo.submoduleOf ? (
+                    <svg className="w-4 h-4 text-text-tertiary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <title>Submodule</title>
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                    </svg>
+                ) : (
+                    <svg className="w-4 h-4 text-text-tertiary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                            d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                    </svg>
+                )}
             </div>
 
             {/* Repo info */}
@@ -211,7 +241,7 @@ function RepoItem({
             </div>
 
             {/* Remove button (visible on hover) */}
-            <button
+            {onRemove && <button
                 onClick={(e) => {
                     e.stopPropagation();
                     onRemove();
@@ -222,7 +252,7 @@ function RepoItem({
                 <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
-            </button>
+            </button>}
         </motion.div>
     );
 }
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useUIStore } from '../../stores/ui.store';
-import { useRepoStore } from '../../stores/repo.store';
+import { useRepoStore, CloneOptions } from '../../stores/repo.store';
 import { useAccountStore } from '../../stores/account.store';
 
 const api = () => (window as any).electronAPI;
@@ -19,6 +19,11 @@ export function CloneModal() {
     const [localPath, setLocalPath] = useState('');
     const [checkoutRef, setCheckoutRef] = useState('');
     const [isCloning, setIsCloning] = useState(false);
+    const [showAdvanced, setShowAdvanced] = useState(false);
+    const [depth, setDepth] = useState('');
+    const [singleBranch, setSingleBranch] = useState(false);
+    const [filter, setFilter] = useState<'' | 'blob:none' | 'tree:0'>('');
+    const [sparsePaths, setSparsePaths] = useState('');
 
     useEffect(() => {
         if (isOpen && initialUrl) {
@@ -48,7 +53,22 @@ export function CloneModal() {
             const activeAccount = accounts.find((a) => a.id === activeAccountId) || accounts[0];
             const token = activeAccount?.token || '';
 
-            await cloneRepo(repoUrl, token, { localPath, checkoutRef });
+            const cloneOptions: CloneOptions = {
+                depth: parseInt(depth, 10) || undefined,
+                singleBranch,
+                filter: filter || undefined,
+                sparsePaths: sparsePaths.split(/[\n,]/).map((p) => p.trim()).filter(Boolean),
+            };
+            // A single-branch clone can only check out what it fetched, so clone that ref directly
+            if (singleBranch && checkoutRef) {
+                cloneOptions.branch = checkoutRef;
+            }
+
+            await cloneRepo(repoUrl, token, {
+                localPath,
+                checkoutRef: cloneOptions.branch ? undefined : checkoutRef,
+                clone: cloneOptions,
+            });
             showNotification('success', 'Repository cloned successfully');
             closeModal();
         } catch (error: any) {
@@ -136,6 +156,87 @@ export function CloneModal() {
                                 Leave empty to clone default branch. You can check out any commit later from History.
                             </p>
                         </div>
+
+                        {/* Large repository options */}
+                        <div>
+                            <button
+                                onClick={() => setShowAdvanced(!showAdvanced)}
+                                className="flex items-center gap-1 text-xs font-medium text-text-secondary hover:text-text-primary"
+                            >
+                                <svg
+                                    className={`w-3 h-3 transition-transform ${showAdvanced ? 'rotate-90' : ''}`}
+                                    fill="none" viewBox="0 0 24 24" stroke="currentColor"
+                                >
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                                </svg>
+                                Large repository options
+                            </button>
+
+                            {showAdvanced && (
+                                <div className="mt-3 space-y-3 pl-4 border-l border-border">
+                                    <div className="flex items-center gap-4">
+                                        <div>
+                                            <label className="block text-2xs font-medium text-text-secondary mb-1">
+                                                History depth
+                                            </label>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={depth}
+                                                onChange={(e) => setDepth(e.target.value)}
+                                                className="input-field w-28 text-sm"
+                                                placeholder="Full"
+                                            />
+                                        </div>
+                                        <label className="flex items-center gap-1.5 text-xs text-text-secondary mt-4 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={singleBranch}
+                                                onChange={(e) => setSingleBranch(e.target.checked)}
+                                            />
+                                            Single branch
+                                        </label>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-2xs font-medium text-text-secondary mb-1">
+                                            Partial clone
+                                        </label>
+                                        <select
+                                            value={filter}
+                                            onChange={(e) => setFilter(e.target.value as typeof filter)}
+                                            className="input-field w-full text-sm"
+                                        >
+                                            <option value="">Off (download everything)</option>
+                                            <option value="blob:none">Blobless (file contents on demand)</option>
+                                            <option value="tree:0">Treeless (trees and contents on demand)</option>
+                                        </select>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-2xs font-medium text-text-secondary mb-1">
+                                            Sparse checkout directories
+                                        </label>
+                                        <textarea
+                                            value={sparsePaths}
+                                            onChange={(e) => setSparsePaths(e.target.value)}
+                                            rows={2}
+                                            className="input-field w-full font-mono text-sm resize-none"
+                                            placeholder={'packages/app\npackages/shared'}
+                                        />
+                                        <p className="text-2xs text-text-tertiary mt-1">
+                                            One per line. Only these directories and top-level files are checked out.
+                                        </p>
+                                    </div>
+
+                                    {singleBranch && checkoutRef && (
+                                        <p className="text-2xs text-amber-400">
+                                            With single branch, the version above must be a branch or tag name.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
                     </div>
 
                     {/* Footer */}
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useUIStore } from '../../stores/ui.store';
 import { useRepoStore, FileStatus } from '../../stores/repo.store';
 import { DiffEditor } from '../common/DiffEditor';
+import { SignatureBadge } from '../common/SignatureBadge';
 
 const api = () => (window as any).electronAPI;
 
@@ -18,6 +19,17 @@ export function CommitDetailsModal() {
     const [diff, setDiff] = useState<{ original: string, modified: string } | null>(null);
     const [isLoadingDetails, setIsLoadingDetails] = useState(false);
     const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+    const [signature, setSignature] = useState<{ status: 'verified' | 'unverified' | 'unsigned'; signer: string; key: string } | null>(null);
+
+    // Signature verification runs gpg/ssh, so fetch it separately from the file list
+    useEffect(() => {
+        setSignature(null);
+        if (!isOpen || !commitHash || !activeRepoPath) return;
+
+        api().git.getCommitSignature(activeRepoPath, commitHash)
+            .then(setSignature)
+            .catch((err: any) => console.error(err));
+    }, [isOpen, commitHash, activeRepoPath]);
 
     // Fetch commit details (changed files)
     useEffect(() => {
@@ -103,7 +115,13 @@ export function CommitDetailsModal() {
                                     <span className="text-xs font-mono bg-surface-3 px-1.5 py-0.5 rounded text-text-secondary">
                                         {commitHash.substring(0, 7)}
                                     </span>
+                                    {signature && <SignatureBadge status={signature.status} signer={signature.signer} />}
                                 </h2>
+                                {signature?.key && (
+                                    <span className="text-2xs text-text-tertiary font-mono">
+                                        {signature.signer ? `${signature.signer} · ` : ''}key {signature.key}
+                                    </span>
+                                )}
                             </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, CommitInfo, CompareFile, CompareMode, CompareResult } from '../../stores/repo.store';
+import { DiffEditor } from '../common/DiffEditor';
+
+const api = () => (window as any).electronAPI;
+
+const STATUS_LETTERS: Record<CompareFile['status'], { letter: string; className: string }> = {
+    added: { letter: 'A', className: 'bg-status-added/20 text-status-added' },
+    modified: { letter: 'M', className: 'bg-status-modified/20 text-status-modified' },
+    deleted: { letter: 'D', className: 'bg-status-deleted/20 text-status-deleted' },
+    renamed: { letter: 'R', className: 'bg-text-tertiary/20 text-text-tertiary' },
+};
+
+const LANGUAGES: Record<string, string> = {
+    ts: 'typescript',
+    tsx: 'typescript',
+    js: 'javascript',
+    jsx: 'javascript',
+    json: 'json',
+    css: 'css',
+    html: 'html',
+    md: 'markdown',
+    py: 'python',
+};
+
+export interface CompareRequest {
+    base?: string;
+    head?: string;
+}
+
+export function CompareModal() {
+    const { modalState, closeModal } = useUIStore();
+    const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+    const branches = useRepoStore((s) => s.branches);
+    const tags = useRepoStore((s) => s.tags);
+    const loadTags = useRepoStore((s) => s.loadTags);
+
+    const isOpen = modalState.type === 'compare';
+    const request = (modalState.data ?? {}) as CompareRequest;
+
+    const [base, setBase] = useState('');
+    const [head, setHead] = useState('');
+    const [mode, setMode] = useState<CompareMode>('three-dot');
+    const [result, setResult] = useState<CompareResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [view, setView] = useState<'files' | 'commits'>('files');
+    const [selectedFile, setSelectedFile] = useState<CompareFile | null>(null);
+    const [diff, setDiff] = useState<{ original: string; modified: string } | null>(null);
+
+    const currentBranch = branches.find((b) => b.current)?.name ?? 'HEAD';
+
+    const runCompare = async (baseRef: string, headRef: string, compareMode: CompareMode) => {
+        if (!activeRepoPath || !baseRef.trim() || !headRef.trim()) return;
+        setIsComparing(true);
+        setError(null);
+        setSelectedFile(null);
+        try {
+            const compared: CompareResult = await api().git.compareRefs(activeRepoPath, baseRef.trim(), headRef.trim(), compareMode);
+            setResult(compared);
+            if (compared.files.length > 0) setSelectedFile(compared.files[0]);
+        } catch (err: any) {
+            setResult(null);
+            setError(err.message);
+        } finally {
+            setIsComparing(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const initialBase = request.base ?? currentBranch;
+        const initialHead = request.head ?? currentBranch;
+        setBase(initialBase);
+        setHead(initialHead);
+        setResult(null);
+        setError(null);
+        setView('files');
+        loadTags();
+        if (initialBase !== initialHead) runCompare(initialBase, initialHead, mode);
+        // Only when the modal opens; later edits are compared on demand
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen, modalState.data]);
+
+    useEffect(() => {
+        setDiff(null);
+        if (!activeRepoPath || !result || !selectedFile) return;
+
+        Promise.all([
+            selectedFile.status === 'added'
+                ? ''
+                : api().git.getFileContent(activeRepoPath, selectedFile.oldPath ?? selectedFile.path, result.diffFrom).catch(() => ''),
+            selectedFile.status === 'deleted'
+                ? ''
+                : api().git.getFileContent(activeRepoPath, selectedFile.path, result.head).catch(() => ''),
+        ]).then(([original, modified]) => setDiff({ original, modified }));
+    }, [activeRepoPath, result, selectedFile]);
+
+    const handleModeChange = (next: CompareMode) => {
+        setMode(next);
+        if (result) runCompare(base, head, next);
+    };
+
+    const handleSwap = () => {
+        setBase(head);
+        setHead(base);
+        if (result) runCompare(head, base, mode);
+    };
+
+    if (!isOpen) return null;
+
+    const refNames = [
+        ...branches.filter((b) => b.name !== 'HEAD').map((b) => b.name),
+        ...tags.map((t) => t.name),
+    ];
+    const totals = result?.files.reduce(
+        (sum, f) => ({ additions: sum.additions + (f.additions ?? 0), deletions: sum.deletions + (f.deletions ?? 0) }),
+        { additions: 0, deletions: 0 }
+    );
+    const isBinary = selectedFile && selectedFile.additions === null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="bg-surface-1 rounded-xl border border-border w-[90vw] h-[85vh] flex flex-col shadow-2xl"
+                >
+                    {/* Header */}
+                    <div className="flex items-center gap-3 px-4 py-3 border-b border-border bg-surface-2 rounded-t-xl">
+                        <h2 className="text-lg font-bold shrink-0">Compare</h2>
+                        <datalist id="compare-refs">
+                            {refNames.map((name) => <option key={name} value={name} />)}
+                        </datalist>
+                        <input
+                            type="text"
+                            list="compare-refs"
+                            value={base}
+                            onChange={(e) => setBase(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && runCompare(base, head, mode)}
+                            placeholder="Base"
+                            className="input-field text-xs font-mono w-48"
+                            title="Base: branch, tag or commit"
+                        />
+                        <button onClick={handleSwap} className="btn-ghost p-1.5" title="Swap base and compare">
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                            </svg>
+                        </button>
+                        <input
+                            type="text"
+                            list="compare-refs"
+                            value={head}
+                            onChange={(e) => setHead(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && runCompare(base, head, mode)}
+                            placeholder="Compare"
+                            className="input-field text-xs font-mono w-48"
+                            title="Compare: branch, tag or commit"
+                        />
+                        <div className="flex rounded-md border border-border overflow-hidden shrink-0">
+                            <button
+                                onClick={() => handleModeChange('three-dot')}
+                                className={`px-2 py-1 text-xs ${mode === 'three-dot' ? 'bg-brand-500/20 text-brand-400' : 'text-text-secondary hover:bg-surface-3'}`}
+                                title="Changes on the compare side since it diverged from base (base...compare)"
+                            >
+                                Since merge base
+                            </button>
+                            <button
+                                onClick={() => handleModeChange('two-dot')}
+                                className={`px-2 py-1 text-xs border-l border-border ${mode === 'two-dot' ? 'bg-brand-500/20 text-brand-400' : 'text-text-secondary hover:bg-surface-3'}`}
+                                title="Direct difference between the two trees (base..compare)"
+                            >
+                                Direct
+                            </button>
+                        </div>
+                        <button
+                            onClick={() => runCompare(base, head, mode)}
+                            disabled={isComparing || !base.trim() || !head.trim()}
+                            className="btn-primary text-xs shrink-0"
+                        >
+                            {isComparing ? 'Comparing...' : 'Compare'}
+                        </button>
+                        <button onClick={closeModal} className="btn-ghost p-1.5 ml-auto">
+                            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {/* Summary */}
+                    {result && totals && (
+                        <div className="flex items-center gap-4 px-4 py-2 border-b border-border text-xs text-text-secondary">
+                            <span><span className="text-green-400 font-medium">{result.aheadCount}</span> commit(s) only in {head}</span>
+                            <span><span className="text-amber-400 font-medium">{result.behindCount}</span> commit(s) only in {base}</span>
+                            <span>
+                                {result.files.length} file(s) changed{' '}
+                                <span className="text-green-400">+{totals.additions}</span>{' '}
+                                <span className="text-red-400">−{totals.deletions}</span>
+                            </span>
+                            <span className="ml-auto text-text-tertiary">
+                                {result.mergeBase
+                                    ? <>merge base <span className="font-mono">{result.mergeBase.slice(0, 7)}</span></>
+                                    : 'no common history'}
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Content */}
+                    {error ? (
+                        <div className="flex-1 flex items-center justify-center text-xs text-red-400">{error}</div>
+                    ) : !result ? (
+                        <div className="flex-1 flex items-center justify-center text-xs text-text-tertiary">
+                            {isComparing ? <span className="loading-spinner w-6 h-6" /> : 'Pick two branches, tags or commits to compare'}
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex min-h-0">
+                            <div className="w-[320px] border-r border-border flex flex-col bg-surface-0 shrink-0">
+                                <div className="flex border-b border-border">
+                                    <button
+                                        onClick={() => setView('files')}
+                                        className={`flex-1 px-3 py-2 text-xs font-semibold uppercase ${view === 'files' ? 'text-text-primary border-b-2 border-brand-500' : 'text-text-tertiary'}`}
+                                    >
+                                        Files ({result.files.length})
+                                    </button>
+                                    <button
+                                        onClick={() => setView('commits')}
+                                        className={`flex-1 px-3 py-2 text-xs font-semibold uppercase ${view === 'commits' ? 'text-text-primary border-b-2 border-brand-500' : 'text-text-tertiary'}`}
+                                    >
+                                        Commits ({result.aheadCount + result.behindCount})
+                                    </button>
+                                </div>
+                                <div className="flex-1 overflow-y-auto p-2">
+                                    {view === 'files' ? (
+                                        result.files.length === 0 ? (
+                                            <div className="text-xs text-text-tertiary text-center py-4">No file changes</div>
+                                        ) : result.files.map((file) => (
+                                            <button
+                                                key={file.path}
+                                                onClick={() => setSelectedFile(file)}
+                                                className={`w-full text-left flex items-center gap-2 px-2 py-1.5 rounded text-xs mb-0.5 transition-colors ${selectedFile?.path === file.path
+                                                    ? 'bg-accent/10 text-accent'
+                                                    : 'hover:bg-surface-2 text-text-secondary'
+                                                    }`}
+                                                title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                                            >
+                                                <span className={`w-3.5 h-3.5 flex items-center justify-center rounded text-[10px] font-bold shrink-0 ${STATUS_LETTERS[file.status].className}`}>
+                                                    {STATUS_LETTERS[file.status].letter}
+                                                </span>
+                                                <span className="truncate flex-1">{file.path}</span>
+                                                {file.additions === null ? (
+                                                    <span className="text-2xs text-text-tertiary shrink-0">binary</span>
+                                                ) : (
+                                                    <span className="text-2xs font-mono shrink-0">
+                                                        <span className="text-green-400">+{file.additions}</span>{' '}
+                                                        <span className="text-red-400">−{file.deletions}</span>
+                                                    </span>
+                                                )}
+                                            </button>
+                                        ))
+                                    ) : (
+                                        <>
+                                            <CommitSection title={`Only in ${head}`} commits={result.ahead} total={result.aheadCount} />
+                                            <CommitSection title={`Only in ${base}`} commits={result.behind} total={result.behindCount} />
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* Diff Viewer */}
+                            <div className="flex-1 flex flex-col overflow-hidden bg-surface-1">
+                                {selectedFile && (
+                                    <div className="px-4 py-2 border-b border-border text-sm font-medium text-text-primary truncate">
+                                        {selectedFile.oldPath ? `${selectedFile.oldPath} → ${selectedFile.path}` : selectedFile.path}
+                                    </div>
+                                )}
+                                <div className="flex-1 min-h-0 p-2">
+                                    {!selectedFile ? (
+                                        <div className="h-full flex items-center justify-center text-xs text-text-tertiary">
+                                            Select a file to view its changes
+                                        </div>
+                                    ) : isBinary ? (
+                                        <div className="h-full flex items-center justify-center text-xs text-text-tertiary">
+                                            Binary file, no text diff available
+                                        </div>
+                                    ) : diff ? (
+                                        <DiffEditor
+                                            original={diff.original}
+                                            modified={diff.modified}
+                                            language={LANGUAGES[selectedFile.path.split('.').pop() ?? ''] ?? 'text'}
+                                        />
+                                    ) : (
+                                        <div className="h-full flex items-center justify-center">
+                                            <span className="loading-spinner w-5 h-5" />
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
+
+function CommitSection({ title, commits, total }: { title: string; commits: CommitInfo[]; total: number }) {
+    return (
+        <div className="mb-3">
+            <div className="px-2 py-1 text-2xs font-semibold text-text-tertiary uppercase truncate">
+                {title} ({total})
+            </div>
+            {commits.length === 0 ? (
+                <div className="px-2 py-1 text-2xs text-text-tertiary">None</div>
+            ) : commits.map((commit) => (
+                <div key={commit.hash} className="px-2 py-1.5 rounded hover:bg-surface-2">
+                    <div className="text-xs text-text-primary truncate" title={commit.message}>{commit.message}</div>
+                    <div className="flex items-center gap-2 text-2xs text-text-tertiary">
+                        <span className="font-mono">{commit.shortHash}</span>
+                        <span className="truncate">{commit.author}</span>
+                        <span className="ml-auto shrink-0">
+                            {(() => {
+                                try {
+                                    return formatDistanceToNow(new Date(commit.date), { addSuffix: true });
+                                } catch {
+                                    return commit.date;
+                                }
+                            })()}
+                        </span>
+                    </div>
+                </div>
+            ))}
+            {total > commits.length && (
+                <div className="px-2 py-1 text-2xs text-text-tertiary">and {total - commits.length} more</div>
+            )}
+        </div>
+    );
+}
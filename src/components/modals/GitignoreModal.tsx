@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, IgnoreFile, IgnoreMatch, IgnoreTarget } from '../../stores/repo.store';
+import { CodeEditor } from '../common/CodeEditor';
+import { IgnoreKind, ignoreRuleFor } from '../../lib/gitignore';
+import { GITIGNORE_TEMPLATES } from '../../lib/gitignore-templates';
+
+const api = () => (window as any).electronAPI;
+
+interface GitignoreModalData {
+    /** Untracked entry to write a rule for; without it the modal opens the editor */
+    rule?: { entry: string; kind: IgnoreKind };
+}
+
+export function GitignoreModal() {
+    const { modalState, closeModal } = useUIStore();
+    const isOpen = modalState.type === 'gitignore';
+    const data: GitignoreModalData = modalState.data || {};
+    const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+
+    const [mode, setMode] = useState<'rule' | 'editor'>('editor');
+
+    useEffect(() => {
+        if (isOpen) setMode(data.rule ? 'rule' : 'editor');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    if (!isOpen || !activeRepoPath) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className={`${mode === 'rule' ? 'w-[520px]' : 'w-[760px] h-[80vh]'} flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden`}
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <h2 className="text-base font-semibold text-text-primary">
+                            {mode === 'rule' ? 'Ignore Untracked Files' : 'Ignore Rules'}
+                        </h2>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {mode === 'rule' && data.rule ? (
+                        <AddRulePanel
+                            entry={data.rule.entry}
+                            kind={data.rule.kind}
+                            onDone={closeModal}
+                            onOpenEditor={() => setMode('editor')}
+                        />
+                    ) : (
+                        <EditorPanel repoPath={activeRepoPath} onDone={closeModal} />
+                    )}
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
+
+function AddRulePanel({ entry, kind, onDone, onOpenEditor }: {
+    entry: string;
+    kind: IgnoreKind;
+    onDone: () => void;
+    onOpenEditor: () => void;
+}) {
+    const addIgnoreRule = useRepoStore((s) => s.addIgnoreRule);
+    const [target, setTarget] = useState<IgnoreTarget>('root');
+    const [pattern, setPattern] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const rule = ignoreRuleFor(entry, kind, target);
+    const nestedDir = ignoreRuleFor(entry, kind, 'nested')?.dir;
+
+    useEffect(() => {
+        setPattern(rule?.pattern ?? '');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [entry, kind, target]);
+
+    const handleAdd = async () => {
+        if (!pattern.trim()) return;
+        setIsSaving(true);
+        try {
+            await addIgnoreRule(pattern.trim(), target, rule?.dir);
+            onDone();
+        } catch {
+            // Store already reported the error
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const targets: { value: IgnoreTarget; label: string; hint: string }[] = [
+        { value: 'root', label: '.gitignore', hint: 'Repository root, shared with everyone' },
+        ...(nestedDir ? [{ value: 'nested' as IgnoreTarget, label: `${nestedDir}/.gitignore`, hint: 'Next to the file, shared with everyone' }] : []),
+        { value: 'exclude', label: '.git/info/exclude', hint: 'Only this clone, never committed' },
+    ];
+
+    return (
+        <>
+            <div className="p-5 space-y-4">
+                <div className="text-xs text-text-secondary">
+                    Ignoring <span className="font-mono text-text-primary">{entry}</span>
+                </div>
+
+                <div className="space-y-2">
+                    {targets.map((option) => (
+                        <label key={option.value} className="flex items-start gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="radio" className="mt-0.5" checked={target === option.value} onChange={() => setTarget(option.value)} />
+                            <span>
+                                <span className="font-mono">{option.label}</span>
+                                <span className="block text-2xs text-text-tertiary">{option.hint}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-text-secondary">Pattern</label>
+                    <input
+                        type="text"
+                        value={pattern}
+                        onChange={(e) => setPattern(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        className="input-field text-xs font-mono"
+                    />
+                </div>
+            </div>
+
+            <div className="flex items-center gap-2 px-5 py-3 border-t border-border bg-surface-0/50">
+                <button onClick={onOpenEditor} className="btn-ghost text-xs">Edit ignore files...</button>
+                <div className="flex gap-2 ml-auto">
+                    <button onClick={onDone} className="btn-ghost text-xs">Cancel</button>
+                    <button onClick={handleAdd} disabled={!pattern.trim() || isSaving} className="btn-primary text-xs">
+                        {isSaving ? 'Adding...' : 'Add Rule'}
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
+
+function EditorPanel({ repoPath, onDone }: { repoPath: string; onDone: () => void }) {
+    const showNotification = useUIStore((s) => s.showNotification);
+    const refreshStatus = useRepoStore((s) => s.refreshStatus);
+
+    const [files, setFiles] = useState<IgnoreFile[]>([]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [original, setOriginal] = useState('');
+    const [content, setContent] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [checkPath, setCheckPath] = useState('');
+    const [match, setMatch] = useState<IgnoreMatch | null>(null);
+
+    useEffect(() => {
+        api().git.listIgnoreFiles(repoPath).then((list: IgnoreFile[]) => {
+            setFiles(list);
+            setSelected(list[0]?.path ?? null);
+        }).catch((error: any) => showNotification('error', error.message));
+    }, [repoPath, showNotification]);
+
+    useEffect(() => {
+        if (!selected) return;
+        api().git.readIgnoreFile(repoPath, selected).then((text: string) => {
+            setOriginal(text);
+            setContent(text);
+        }).catch((error: any) => showNotification('error', error.message));
+    }, [repoPath, selected, showNotification]);
+
+    const isDirty = content !== original;
+    const matchFile = match?.source ? files.find((f) => f.label === match.source) : undefined;
+
+    const handleSelect = (filePath: string) => {
+        if (isDirty && !confirm('Discard unsaved changes to this file?')) return;
+        setSelected(filePath);
+    };
+
+    const handleInsertTemplate = (name: string) => {
+        const template = GITIGNORE_TEMPLATES.find((t) => t.name === name);
+        if (!template) return;
+        const separator = content.length === 0 ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+        setContent(content + separator + template.content);
+    };
+
+    const handleSave = async () => {
+        if (!selected) return;
+        setIsSaving(true);
+        try {
+            await api().git.writeIgnoreFile(repoPath, selected, content);
+            setOriginal(content);
+            setFiles(files.map((f) => (f.path === selected ? { ...f, exists: true } : f)));
+            showNotification('success', 'Ignore rules saved');
+            refreshStatus();
+        } catch (error: any) {
+            showNotification('error', error.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCheck = async () => {
+        if (!checkPath.trim()) return;
+        try {
+            setMatch(await api().git.checkIgnore(repoPath, checkPath.trim()));
+        } catch (error: any) {
+            showNotification('error', error.message);
+        }
+    };
+
+    return (
+        <>
+            {/* Toolbar */}
+            <div className="flex items-center gap-2 px-5 py-3 border-b border-border">
+                <select
+                    value={selected ?? ''}
+                    onChange={(e) => handleSelect(e.target.value)}
+                    className="input-field text-xs font-mono flex-1"
+                >
+                    {files.map((file) => (
+                        <option key={file.path} value={file.path}>
+                            {file.label}{file.local ? ' (this clone only)' : ''}{file.exists ? '' : ' (new)'}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value=""
+                    onChange={(e) => handleInsertTemplate(e.target.value)}
+                    className="input-field text-xs w-44"
+                    title="Append a bundled template"
+                >
+                    <option value="" disabled>Add template...</option>
+                    {GITIGNORE_TEMPLATES.map((template) => (
+                        <option key={template.name} value={template.name}>{template.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Editor */}
+            <div className="flex-1 min-h-0 p-3">
+                <CodeEditor value={content} language="plaintext" onChange={(value) => setContent(value ?? '')} />
+            </div>
+
+            {/* Why is this ignored? */}
+            <div className="px-5 py-3 border-t border-border space-y-2">
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={checkPath}
+                        onChange={(e) => { setCheckPath(e.target.value); setMatch(null); }}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+                        placeholder="Why is this path ignored? e.g. build/output.js"
+                        className="input-field text-xs font-mono flex-1"
+                    />
+                    <button onClick={handleCheck} disabled={!checkPath.trim()} className="btn-secondary text-xs">Check</button>
+                </div>
+                {match && (
+                    <div className="text-2xs text-text-secondary">
+                        {match.pattern === undefined ? (
+                            <span><span className="font-mono">{match.path}</span> is not ignored by any rule.</span>
+                        ) : (
+                            <span>
+                                <span className="font-mono">{match.path}</span> is {match.ignored ? 'ignored' : 're-included'} by{' '}
+                                <span className="font-mono text-text-primary">{match.pattern}</span> in{' '}
+                                <span className="font-mono">{match.source}:{match.line}</span>
+                                {matchFile && (
+                                    <button
+                                        onClick={() => handleSelect(matchFile.path)}
+                                        className="ml-2 text-brand-400 hover:underline"
+                                    >
+                                        Open
+                                    </button>
+                                )}
+                            </span>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-border bg-surface-0/50">
+                <button onClick={onDone} className="btn-ghost text-xs">Close</button>
+                <button onClick={handleSave} disabled={!isDirty || isSaving} className="btn-primary text-xs">
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </>
+    );
+}
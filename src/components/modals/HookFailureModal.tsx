@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+
+export function HookFailureModal() {
+    const hookFailure = useUIStore((s) => s.hookFailure);
+    const hideHookFailure = useUIStore((s) => s.hideHookFailure);
+    const setActiveTab = useUIStore((s) => s.setActiveTab);
+
+    if (!hookFailure) return null;
+    const { failure, retry } = hookFailure;
+
+    const handleBypass = async () => {
+        if (!confirm(`Run ${failure.operation} again with --no-verify? The ${failure.hook} hook and every other ${failure.operation} hook will be skipped.`)) return;
+        hideHookFailure();
+        try {
+            await retry();
+        } catch {
+            // The retried action reports its own errors
+        }
+    };
+
+    const handleEditHooks = () => {
+        hideHookFailure();
+        setActiveTab('settings');
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={hideHookFailure}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                onClick={(e) => e.stopPropagation()}
+                className="w-[640px] max-h-[80vh] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                    <div>
+                        <h2 className="text-base font-semibold text-text-primary">
+                            {failure.operation === 'commit' ? 'Commit' : 'Push'} rejected by hook
+                        </h2>
+                        <div className="flex items-center gap-2 mt-1 text-2xs text-text-tertiary">
+                            <span className="font-mono bg-surface-2 px-1.5 py-0.5 rounded text-red-400">{failure.hook}</span>
+                            <span>exited with code {failure.exitCode}</span>
+                        </div>
+                    </div>
+                    <button
+                        onClick={hideHookFailure}
+                        className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {/* Hook output */}
+                <div className="flex-1 min-h-0 p-5 overflow-y-auto">
+                    <pre className="text-2xs font-mono text-text-secondary bg-surface-0 border border-border rounded-lg p-3 whitespace-pre-wrap break-words">
+                        {failure.output || '(the hook printed nothing)'}
+                    </pre>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center gap-2 px-5 py-3 border-t border-border bg-surface-0/50">
+                    <button
+                        onClick={handleBypass}
+                        className="btn-ghost text-xs text-amber-400 border border-amber-500/40 hover:bg-amber-500/10"
+                        title="Skips pre-commit, commit-msg and pre-push hooks for this attempt only"
+                    >
+                        Bypass hooks (--no-verify)
+                    </button>
+                    <div className="flex gap-2 ml-auto">
+                        <button onClick={handleEditHooks} className="btn-ghost text-xs">Edit Hooks</button>
+                        <button onClick={hideHookFailure} className="btn-primary text-xs">Close</button>
+                    </div>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, RebaseCommit, RebaseAction, RebaseTodoItem } from '../../stores/repo.store';
+
+interface PlanRow {
+    commit: RebaseCommit;
+    action: RebaseAction;
+    message: string;
+}
+
+const ACTIONS: { value: RebaseAction; label: string; hint: string }[] = [
+    { value: 'pick', label: 'pick', hint: 'Keep the commit as is' },
+    { value: 'reword', label: 'reword', hint: 'Keep the commit, change its message' },
+    { value: 'edit', label: 'edit', hint: 'Stop after this commit to amend it' },
+    { value: 'squash', label: 'squash', hint: 'Meld into the previous commit, combine messages' },
+    { value: 'fixup', label: 'fixup', hint: 'Meld into the previous commit, discard this message' },
+    { value: 'drop', label: 'drop', hint: 'Remove the commit' },
+];
+
+const ACTION_COLORS: Record<RebaseAction, string> = {
+    pick: 'text-text-secondary',
+    reword: 'text-blue-400',
+    edit: 'text-amber-400',
+    squash: 'text-purple-400',
+    fixup: 'text-purple-400',
+    drop: 'text-red-400',
+};
+
+const melds = (row?: PlanRow) => row?.action === 'squash' || row?.action === 'fixup';
+
+// Squash messages typed anywhere in a group are applied when the group ends,
+// on its last squash or fixup; dropped rows do not interrupt a group
+function buildTodo(rows: PlanRow[]): RebaseTodoItem[] {
+    const todo: RebaseTodoItem[] = [];
+    let groupMessage = '';
+
+    rows.forEach((row, i) => {
+        const item: RebaseTodoItem = { action: row.action, hash: row.commit.hash };
+
+        if (row.action === 'reword') {
+            item.message = row.message.trim();
+        } else if (melds(row)) {
+            if (row.action === 'squash' && row.message.trim()) groupMessage = row.message.trim();
+            const next = rows.slice(i + 1).find((r) => r.action !== 'drop');
+            if (!melds(next) && groupMessage) {
+                item.message = groupMessage;
+                groupMessage = '';
+            }
+        } else if (row.action !== 'drop') {
+            groupMessage = '';
+        }
+
+        todo.push(item);
+    });
+
+    return todo;
+}
+
+function validatePlan(rows: PlanRow[]): string | null {
+    const kept = rows.filter((r) => r.action !== 'drop');
+    if (kept.length === 0) return 'At least one commit must be kept';
+    if (kept[0].action === 'squash' || kept[0].action === 'fixup') {
+        return 'The first kept commit cannot be squashed or fixed up';
+    }
+    if (rows.some((r) => r.action === 'reword' && !r.message.trim())) {
+        return 'Reworded commits need a message';
+    }
+    return null;
+}
+
+export function InteractiveRebaseModal() {
+    const { modalState, closeModal, setActiveTab } = useUIStore();
+    const isOpen = modalState.type === 'interactive-rebase';
+    const fromHash: string | null = isOpen ? modalState.data : null;
+    const {
+        operationState,
+        loadRebaseCommits,
+        interactiveRebase,
+        continueOperation,
+        skipOperation,
+        abortOperation,
+    } = useRepoStore();
+
+    const [rows, setRows] = useState<PlanRow[]>([]);
+    const [originalOrder, setOriginalOrder] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || !fromHash) return;
+
+        setRows([]);
+        setLoadError(null);
+        setIsLoading(true);
+        loadRebaseCommits(fromHash)
+            .then((commits) => {
+                // Messages stay empty until a reword asks for one, so squashes join messages by default
+                setRows(commits.map((commit) => ({ commit, action: 'pick', message: '' })));
+                setOriginalOrder(commits.map((c) => c.hash));
+            })
+            .catch((error: any) => setLoadError(error.message))
+            .finally(() => setIsLoading(false));
+    }, [isOpen, fromHash, loadRebaseCommits]);
+
+    if (!isOpen) return null;
+
+    const rebase = operationState?.operation === 'rebase' ? operationState : null;
+    const inProgress = !!rebase;
+    const planError = validatePlan(rows);
+    const isDirty = rows.some((r, i) =>
+        r.action !== 'pick' || r.commit.hash !== originalOrder[i]
+    );
+
+    const updateRow = (index: number, patch: Partial<PlanRow>) => {
+        setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    };
+
+    // A reword starts from the full message; an untouched one is not carried into a squash
+    const changeAction = (index: number, action: RebaseAction) => {
+        const row = rows[index];
+        const full = row.commit.fullMessage;
+        const message = action === 'reword' ? row.message || full : row.message === full ? '' : row.message;
+        updateRow(index, { action, message });
+    };
+
+    const moveRow = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= rows.length) return;
+        setRows((prev) => {
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleStart = async () => {
+        if (!fromHash || planError) return;
+        const dropped = rows.filter((r) => r.action === 'drop').length;
+        if (dropped > 0 && !confirm(`Drop ${dropped} commit(s)? Their changes will be removed from the branch.`)) {
+            return;
+        }
+
+        setIsRunning(true);
+        try {
+            await interactiveRebase(fromHash, buildTodo(rows));
+            if (useRepoStore.getState().operationState?.operation !== 'rebase') {
+                closeModal();
+            }
+        } catch {
+            // Notification already shown by the store
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const runStep = async (step: () => Promise<void>) => {
+        setIsRunning(true);
+        try {
+            await step();
+            if (useRepoStore.getState().operationState?.operation !== 'rebase') {
+                closeModal();
+            }
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={() => !isRunning && closeModal()}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full max-w-3xl max-h-[85vh] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <div className="flex items-center gap-2.5">
+                            <svg className="w-5 h-5 text-brand-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                    d="M4 6h16M4 12h10M4 18h6m10-6l-3-3m3 3l-3 3" />
+                            </svg>
+                            <h2 className="text-base font-semibold text-text-primary">Interactive Rebase</h2>
+                            <span className="text-2xs text-text-tertiary">
+                                {inProgress ? 'in progress' : `from ${fromHash?.slice(0, 7)} to HEAD`}
+                            </span>
+                        </div>
+                        <button
+                            onClick={closeModal}
+                            disabled={isRunning}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors disabled:opacity-40"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {rebase ? (
+                        /* Paused rebase */
+                        <div className="flex-1 overflow-y-auto min-h-0 px-5 py-4 space-y-4">
+                            <div>
+                                <div className="flex items-center justify-between text-xs text-text-secondary mb-1.5">
+                                    <span>
+                                        Rebasing <span className="font-mono text-text-primary">{rebase.headName || 'HEAD'}</span>
+                                        {rebase.target && <> onto <span className="font-mono text-text-primary">{rebase.target}</span></>}
+                                    </span>
+                                    <span>Step {rebase.step ?? 0} of {rebase.total ?? 0}</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-surface-3 overflow-hidden">
+                                    <div
+                                        className="h-full bg-brand-500 transition-all"
+                                        style={{ width: `${rebase.total ? ((rebase.step ?? 0) / rebase.total) * 100 : 0}%` }}
+                                    />
+                                </div>
+                            </div>
+
+                            {rebase.stopReason === 'conflict' ? (
+                                <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3">
+                                    <p className="text-xs text-red-400 font-medium mb-2">
+                                        Stopped with conflicts. Resolve and stage these files, then continue.
+                                    </p>
+                                    <ul className="space-y-0.5">
+                                        {rebase.conflicts.map((conflict) => (
+                                            <li key={conflict.path} className="text-xs font-mono text-text-secondary truncate">{conflict.path}</li>
+                                        ))}
+                                    </ul>
+                                    <button
+                                        onClick={() => {
+                                            setActiveTab('changes');
+                                            closeModal();
+                                        }}
+                                        className="btn-ghost text-2xs mt-2"
+                                    >
+                                        Open Changes to resolve
+                                    </button>
+                                </div>
+                            ) : rebase.stopReason === 'edit' ? (
+                                <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3">
+                                    <p className="text-xs text-amber-400">
+                                        Paused at <span className="font-mono">{rebase.stoppedAt?.slice(0, 7)}</span> for editing.
+                                        Make your changes, stage them and continue to amend the commit.
+                                    </p>
+                                </div>
+                            ) : (
+                                <div className="rounded-lg border border-border bg-surface-2 p-3">
+                                    <p className="text-xs text-text-secondary">The rebase is paused. Continue when ready.</p>
+                                </div>
+                            )}
+
+                            {!!rebase.remaining?.length && (
+                                <div>
+                                    <h3 className="text-2xs font-medium text-text-tertiary uppercase tracking-wider mb-1.5">
+                                        Remaining ({rebase.remaining.length})
+                                    </h3>
+                                    <ul className="space-y-0.5">
+                                        {rebase.remaining.map((line, i) => (
+                                            <li key={i} className="text-xs font-mono text-text-secondary truncate">{line}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        /* Plan editor */
+                        <div className="flex-1 overflow-y-auto min-h-0">
+                            {isLoading ? (
+                                <div className="flex items-center justify-center py-12">
+                                    <svg className="w-5 h-5 animate-spin text-text-tertiary" fill="none" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                                    </svg>
+                                </div>
+                            ) : loadError ? (
+                                <div className="px-5 py-8 text-center text-xs text-red-400">{loadError}</div>
+                            ) : rows.length === 0 ? (
+                                <div className="px-5 py-8 text-center text-xs text-text-tertiary">No commits to rebase</div>
+                            ) : (
+                                <div className="divide-y divide-border/50">
+                                    {rows.map((row, index) => (
+                                        <div key={row.commit.hash} className="px-5 py-2.5">
+                                            <div className="flex items-center gap-2">
+                                                <div className="flex flex-col shrink-0">
+                                                    <button
+                                                        onClick={() => moveRow(index, -1)}
+                                                        disabled={index === 0}
+                                                        className="text-text-tertiary hover:text-text-primary disabled:opacity-20"
+                                                        title="Move up"
+                                                    >
+                                                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                                                        </svg>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => moveRow(index, 1)}
+                                                        disabled={index === rows.length - 1}
+                                                        className="text-text-tertiary hover:text-text-primary disabled:opacity-20"
+                                                        title="Move down"
+                                                    >
+                                                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                                        </svg>
+                                                    </button>
+                                                </div>
+
+                                                <select
+                                                    value={row.action}
+                                                    onChange={(e) => changeAction(index, e.target.value as RebaseAction)}
+                                                    title={ACTIONS.find((a) => a.value === row.action)?.hint}
+                                                    className={`w-20 shrink-0 px-1.5 py-1 text-xs font-mono bg-surface-0 border border-border rounded-md focus:outline-none focus:border-brand-500/50 ${ACTION_COLORS[row.action]}`}
+                                                >
+                                                    {ACTIONS.map((a) => (
+                                                        <option key={a.value} value={a.value}>{a.label}</option>
+                                                    ))}
+                                                </select>
+
+                                                <span className="font-mono text-2xs text-text-tertiary shrink-0">{row.commit.shortHash}</span>
+                                                <span className={`text-xs truncate flex-1 ${row.action === 'drop' ? 'line-through text-text-tertiary' : 'text-text-primary'}`}>
+                                                    {row.commit.message}
+                                                </span>
+                                                <span className="text-2xs text-text-tertiary shrink-0">{row.commit.author}</span>
+                                            </div>
+
+                                            {(row.action === 'reword' || row.action === 'squash') && (
+                                                <textarea
+                                                    value={row.message}
+                                                    onChange={(e) => updateRow(index, { message: e.target.value })}
+                                                    placeholder={row.action === 'squash' ? 'Combined message (leave empty to join both messages)' : 'New commit message'}
+                                                    rows={2}
+                                                    className="input-field w-full mt-2 ml-7 text-xs resize-none"
+                                                    style={{ width: 'calc(100% - 1.75rem)' }}
+                                                />
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-border bg-surface-0/50">
+                        {inProgress ? (
+                            <>
+                                <button
+                                    onClick={() => runStep(abortOperation)}
+                                    disabled={isRunning}
+                                    className="btn-ghost text-xs text-red-400 hover:text-red-300"
+                                >
+                                    Abort
+                                </button>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => runStep(skipOperation)} disabled={isRunning} className="btn-secondary text-xs">
+                                        Skip Commit
+                                    </button>
+                                    <button
+                                        onClick={() => runStep(continueOperation)}
+                                        disabled={isRunning || (rebase?.conflicts.length ?? 0) > 0}
+                                        className="btn-primary text-xs"
+                                    >
+                                        {isRunning ? 'Working...' : 'Continue'}
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className={`text-2xs ${planError && rows.length > 0 ? 'text-red-400' : 'text-text-tertiary'}`}>
+                                    {planError && rows.length > 0
+                                        ? planError
+                                        : 'Commits are applied top to bottom. This rewrites history; avoid it on pushed branches.'}
+                                </p>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <button onClick={closeModal} disabled={isRunning} className="btn-ghost text-xs">
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleStart}
+                                        disabled={isRunning || isLoading || rows.length === 0 || !!planError || !isDirty}
+                                        className="btn-primary text-xs"
+                                    >
+                                        {isRunning ? 'Rebasing...' : 'Start Rebase'}
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, PatchApplyMode } from '../../stores/repo.store';
+
+const api = () => (window as any).electronAPI;
+
+const PATCH_FILTERS = [
+    { name: 'Patches', extensions: ['patch', 'diff', 'mbox', 'eml'] },
+    { name: 'All Files', extensions: ['*'] },
+];
+
+export function PatchImportModal() {
+    const { modalState, closeModal } = useUIStore();
+    const isOpen = modalState.type === 'patch-import';
+    const importPatches = useRepoStore((s) => s.importPatches);
+
+    const [files, setFiles] = useState<string[]>([]);
+    const [mode, setMode] = useState<PatchApplyMode>('am');
+    const [threeWay, setThreeWay] = useState(true);
+    const [isImporting, setIsImporting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setFiles([]);
+    }, [isOpen]);
+
+    const handleBrowse = async () => {
+        const picked: string[] = await api().dialog.openFiles({ title: 'Select patch files', filters: PATCH_FILTERS });
+        if (picked.length > 0) {
+            // format-patch numbers its files, so name order is apply order
+            setFiles([...picked].sort((a, b) => a.localeCompare(b)));
+        }
+    };
+
+    const handleImport = async () => {
+        if (files.length === 0) return;
+        setIsImporting(true);
+        try {
+            const result = await importPatches(files, mode, threeWay);
+            if (result) closeModal();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-[520px] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <h2 className="text-base font-semibold text-text-primary">Import Patches</h2>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="p-5 space-y-4">
+                        <div className="flex flex-col gap-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-text-secondary">Patch files</label>
+                                <button onClick={handleBrowse} className="btn-ghost text-xs">Browse...</button>
+                            </div>
+                            <div className="max-h-40 overflow-y-auto rounded-lg bg-surface-0 border border-border divide-y divide-border/50">
+                                {files.length === 0 ? (
+                                    <div className="px-3 py-4 text-center text-2xs text-text-tertiary">
+                                        No files selected. Pick .patch files or a single mbox.
+                                    </div>
+                                ) : files.map((file) => (
+                                    <div key={file} className="flex items-center gap-2 px-3 py-1.5">
+                                        <span className="flex-1 text-2xs font-mono text-text-primary truncate" title={file}>
+                                            {file.split(/[\\/]/).pop()}
+                                        </span>
+                                        <button
+                                            onClick={() => setFiles(files.filter((f) => f !== file))}
+                                            className="btn-ghost text-2xs px-1 text-text-tertiary hover:text-red-400"
+                                            title="Remove"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <label className="flex items-start gap-2 text-xs text-text-secondary cursor-pointer">
+                                <input type="radio" className="mt-0.5" checked={mode === 'am'} onChange={() => setMode('am')} />
+                                <span>
+                                    Apply as commits <span className="font-mono text-text-tertiary">git am</span>
+                                    <span className="block text-2xs text-text-tertiary">Keeps the original author, date and message of each patch.</span>
+                                </span>
+                            </label>
+                            <label className="flex items-start gap-2 text-xs text-text-secondary cursor-pointer">
+                                <input type="radio" className="mt-0.5" checked={mode === 'apply'} onChange={() => setMode('apply')} />
+                                <span>
+                                    Apply to working tree <span className="font-mono text-text-tertiary">git apply</span>
+                                    <span className="block text-2xs text-text-tertiary">Leaves the changes unstaged for you to review and commit.</span>
+                                </span>
+                            </label>
+                        </div>
+
+                        <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={threeWay} onChange={(e) => setThreeWay(e.target.checked)} />
+                            Fall back to a three-way merge when a patch doesn't apply cleanly
+                        </label>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-border bg-surface-0/50">
+                        <button onClick={closeModal} className="btn-ghost text-xs">Cancel</button>
+                        <button onClick={handleImport} disabled={files.length === 0 || isImporting} className="btn-primary text-xs">
+                            {isImporting ? 'Applying...' : `Apply ${files.length || ''} Patch${files.length === 1 ? '' : 'es'}`}
+                        </button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
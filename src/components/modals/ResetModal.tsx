@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, CommitInfo, ResetMode, ResetPreview } from '../../stores/repo.store';
+
+const RESET_MODES: { mode: ResetMode; label: string; description: string }[] = [
+    {
+        mode: 'soft',
+        label: 'Soft',
+        description: 'Moves the branch only. Changes from the removed commits stay staged and your working tree is untouched.',
+    },
+    {
+        mode: 'mixed',
+        label: 'Mixed',
+        description: 'Moves the branch and resets the index. Changes from the removed commits and anything staged become unstaged changes; no file is modified.',
+    },
+    {
+        mode: 'keep',
+        label: 'Keep',
+        description: 'Moves the branch and updates the files that differ from the commit, keeping your uncommitted changes. Stops if one of those files has local changes.',
+    },
+    {
+        mode: 'merge',
+        label: 'Merge',
+        description: 'Like keep, but also resets staged changes while keeping unstaged edits. Stops if an unstaged file would be updated. Useful to back out of a conflicted merge.',
+    },
+    {
+        mode: 'hard',
+        label: 'Hard',
+        description: 'Makes the branch, index and working tree match the commit. Every uncommitted change to tracked files is discarded.',
+    },
+];
+
+export function ResetModal() {
+    const { modalState, closeModal } = useUIStore();
+    const isOpen = modalState.type === 'reset';
+    const commit: CommitInfo | null = isOpen ? modalState.data : null;
+    const { loadResetPreview, resetToCommit } = useRepoStore();
+
+    const [mode, setMode] = useState<ResetMode>('mixed');
+    const [preview, setPreview] = useState<ResetPreview | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setMode('mixed');
+    }, [isOpen, commit?.hash]);
+
+    useEffect(() => {
+        if (!commit) return;
+
+        let cancelled = false;
+        setPreview(null);
+        setPreviewError(null);
+        loadResetPreview(commit.hash, mode)
+            .then((result) => !cancelled && setPreview(result))
+            .catch((error: any) => !cancelled && setPreviewError(error.message));
+        return () => { cancelled = true; };
+    }, [commit, mode, loadResetPreview]);
+
+    if (!isOpen || !commit) return null;
+
+    const lostCommits = preview?.unreachable.length ?? 0;
+    const isDestructive = !!preview && (preview.discardedFiles.length > 0 || lostCommits > 0);
+    const isBlocked = !!preview && preview.blockingFiles.length > 0;
+
+    const handleReset = async () => {
+        setIsRunning(true);
+        try {
+            await resetToCommit(commit.hash, mode);
+            closeModal();
+        } catch {
+            // Store already reported the error
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full max-w-2xl max-h-[85vh] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <div className="min-w-0">
+                            <h2 className="text-base font-semibold text-text-primary">
+                                Reset {preview?.branch ?? 'HEAD'} to <span className="font-mono">{commit.shortHash}</span>
+                            </h2>
+                            <p className="text-2xs text-text-tertiary truncate">{commit.message}</p>
+                        </div>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto min-h-0 px-5 py-4 space-y-4">
+                        {/* Modes */}
+                        <div className="space-y-1.5">
+                            {RESET_MODES.map((option) => (
+                                <label
+                                    key={option.mode}
+                                    className={`flex items-start gap-2.5 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${mode === option.mode
+                                        ? 'border-brand-500/40 bg-brand-500/10'
+                                        : 'border-border hover:bg-surface-2/50'
+                                        }`}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="reset-mode"
+                                        checked={mode === option.mode}
+                                        onChange={() => setMode(option.mode)}
+                                        className="mt-0.5"
+                                    />
+                                    <div>
+                                        <div className="text-xs font-medium text-text-primary">
+                                            {option.label} <span className="font-mono text-text-tertiary">--{option.mode}</span>
+                                        </div>
+                                        <div className="text-2xs text-text-secondary">{option.description}</div>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+
+                        {/* Preview */}
+                        {previewError ? (
+                            <div className="px-3 py-2 rounded bg-red-500/10 border border-red-500/20 text-2xs text-red-400">{previewError}</div>
+                        ) : !preview ? (
+                            <div className="text-2xs text-text-tertiary">Checking what this reset changes...</div>
+                        ) : (
+                            <div className="space-y-3">
+                                {preview.removedCount > 0 ? (
+                                    <div>
+                                        <div className="text-xs text-text-secondary mb-1">
+                                            {preview.removedCount} commit{preview.removedCount === 1 ? '' : 's'} will leave {preview.branch ?? 'HEAD'}
+                                            {lostCommits > 0 && (
+                                                <span className="text-red-400">
+                                                    {' '}· {lostCommits} not on any other branch or tag, recoverable only from the reflog
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="max-h-40 overflow-y-auto rounded border border-border divide-y divide-border/50">
+                                            {preview.commitsRemoved.map((c) => (
+                                                <div key={c.hash} className="flex items-center gap-2 px-2.5 py-1.5 text-2xs">
+                                                    <span className={`font-mono shrink-0 ${preview.unreachable.includes(c.hash) ? 'text-red-400' : 'text-text-tertiary'}`}>
+                                                        {c.shortHash}
+                                                    </span>
+                                                    <span className="text-text-primary truncate">{c.message}</span>
+                                                </div>
+                                            ))}
+                                            {preview.removedCount > preview.commitsRemoved.length && (
+                                                <div className="px-2.5 py-1.5 text-2xs text-text-tertiary">
+                                                    and {preview.removedCount - preview.commitsRemoved.length} more
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="text-xs text-text-secondary">No commits leave the branch.</div>
+                                )}
+
+                                {preview.addedCount > 0 && (
+                                    <div className="text-xs text-text-secondary">
+                                        The branch moves forward by {preview.addedCount} commit{preview.addedCount === 1 ? '' : 's'}.
+                                    </div>
+                                )}
+
+                                {preview.discardedFiles.length > 0 && (
+                                    <div>
+                                        <div className="text-xs text-red-400 mb-1">
+                                            Uncommitted changes to {preview.discardedFiles.length} file{preview.discardedFiles.length === 1 ? '' : 's'} will be discarded
+                                        </div>
+                                        <div className="max-h-32 overflow-y-auto rounded border border-red-500/20 bg-red-500/5 px-2.5 py-1.5 space-y-0.5">
+                                            {preview.discardedFiles.map((file) => (
+                                                <div key={file} className="text-2xs font-mono text-text-primary truncate">{file}</div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {isBlocked && (
+                                    <div className="px-3 py-2 rounded bg-amber-500/10 border border-amber-500/20 text-2xs text-amber-400">
+                                        This reset would stop because these files have local changes it has to overwrite:
+                                        <span className="font-mono"> {preview.blockingFiles.join(', ')}</span>.
+                                        Commit or stash them, or pick another mode.
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-border bg-surface-0/50">
+                        <p className="text-2xs text-text-tertiary">
+                            The reset is recorded in the undo history.
+                        </p>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button onClick={closeModal} className="btn-ghost text-xs">Cancel</button>
+                            <button
+                                onClick={handleReset}
+                                disabled={isRunning || !preview || isBlocked}
+                                className={`text-xs px-3 py-1.5 rounded font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDestructive
+                                    ? 'bg-red-600 hover:bg-red-500 text-white'
+                                    : 'btn-primary'
+                                    }`}
+                            >
+                                {isRunning ? 'Resetting...' : isDestructive ? `Reset and discard (${mode})` : `Reset (${mode})`}
+                            </button>
+                        </div>
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore } from '../../stores/ui.store';
+import { useAccountStore, SigningConfig } from '../../stores/account.store';
+
+const EMPTY_CONFIG: SigningConfig = { format: 'openpgp', key: '', signCommits: true, signTags: true };
+
+export function SigningSettingsModal() {
+    const { modalState, closeModal, showNotification } = useUIStore();
+    const isOpen = modalState.type === 'signing-settings';
+    const accountId = modalState.data as string;
+
+    const accounts = useAccountStore((s) => s.accounts);
+    const signingConfigs = useAccountStore((s) => s.signingConfigs);
+    const setSigningConfig = useAccountStore((s) => s.setSigningConfig);
+    const account = accounts.find((a) => a.id === accountId);
+    const existing = accountId ? signingConfigs[accountId] : undefined;
+
+    const [config, setConfig] = useState<SigningConfig>(EMPTY_CONFIG);
+
+    useEffect(() => {
+        if (isOpen) setConfig(existing ?? EMPTY_CONFIG);
+    }, [isOpen, existing]);
+
+    const handleSave = async () => {
+        if (!config.key.trim()) return;
+        await setSigningConfig(accountId, { ...config, key: config.key.trim() });
+        showNotification('success', `Signing enabled for ${account?.username ?? 'account'}`);
+        closeModal();
+    };
+
+    const handleDisable = async () => {
+        await setSigningConfig(accountId, null);
+        showNotification('info', `Signing disabled for ${account?.username ?? 'account'}`);
+        closeModal();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-[440px] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <div>
+                            <h2 className="text-base font-semibold text-text-primary">Commit Signing</h2>
+                            <p className="text-2xs text-text-tertiary">{account?.username}</p>
+                        </div>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="p-5 space-y-4">
+                        <div className="flex items-center gap-4 text-xs text-text-secondary">
+                            <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    checked={config.format === 'openpgp'}
+                                    onChange={() => setConfig({ ...config, format: 'openpgp' })}
+                                />
+                                GPG key
+                            </label>
+                            <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    checked={config.format === 'ssh'}
+                                    onChange={() => setConfig({ ...config, format: 'ssh' })}
+                                />
+                                SSH key
+                            </label>
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <label className="text-xs font-medium text-text-secondary">
+                                {config.format === 'ssh' ? 'Public key file' : 'Key ID'}
+                            </label>
+                            <input
+                                type="text"
+                                value={config.key}
+                                onChange={(e) => setConfig({ ...config, key: e.target.value })}
+                                placeholder={config.format === 'ssh' ? '~/.ssh/id_ed25519.pub' : '3AA5C34371567BD2'}
+                                className="input-field text-xs font-mono"
+                                autoFocus
+                            />
+                            <span className="text-2xs text-text-tertiary">
+                                {config.format === 'ssh'
+                                    ? 'Path to the public key; the private key must be available to ssh-agent or next to it.'
+                                    : 'Run `gpg --list-secret-keys --keyid-format=long` to find it.'}
+                            </span>
+                        </div>
+
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={config.signCommits}
+                                    onChange={(e) => setConfig({ ...config, signCommits: e.target.checked })}
+                                />
+                                Sign commits
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={config.signTags}
+                                    onChange={(e) => setConfig({ ...config, signTags: e.target.checked })}
+                                />
+                                Sign tags
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between px-5 py-3 border-t border-border bg-surface-0/50">
+                        {existing ? (
+                            <button onClick={handleDisable} className="btn-ghost text-xs text-red-400 hover:text-red-300">
+                                Disable Signing
+                            </button>
+                        ) : <span />}
+                        <div className="flex gap-2">
+                            <button onClick={closeModal} className="btn-ghost text-xs">Cancel</button>
+                            <button onClick={handleSave} disabled={!config.key.trim()} className="btn-primary text-xs">
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, FileStatus, StashEntry } from '../../stores/repo.store';
+import { DiffEditor } from '../common/DiffEditor';
+
+const api = () => (window as any).electronAPI;
+
+export function StashManagerModal() {
+    const { modalState, closeModal } = useUIStore();
+    const isOpen = modalState.type === 'stash-manager';
+    const {
+        activeRepoPath,
+        stashes,
+        isLoadingStashes,
+        loadStashes,
+        stashChanges,
+        popStash,
+        applyStash,
+        dropStash,
+        renameStash,
+        branchFromStash,
+    } = useRepoStore();
+
+    const [selected, setSelected] = useState<StashEntry | null>(null);
+    const [files, setFiles] = useState<FileStatus[]>([]);
+    const [selectedFile, setSelectedFile] = useState<string | null>(null);
+    const [diff, setDiff] = useState<{ original: string; modified: string } | null>(null);
+    const [newMessage, setNewMessage] = useState('');
+    const [includeUntracked, setIncludeUntracked] = useState(false);
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [branchName, setBranchName] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadStashes();
+            setSelected(null);
+            setNewMessage('');
+        }
+    }, [isOpen, loadStashes]);
+
+    // Keep the selection pointing at the same stash after the list shifts
+    useEffect(() => {
+        if (!selected) return;
+        const current = stashes.find((s) => s.hash === selected.hash);
+        if (!current) setSelected(null);
+        else if (current.ref !== selected.ref || current.message !== selected.message) setSelected(current);
+    }, [stashes, selected]);
+
+    const selectedHash = selected?.hash;
+
+    // Changed files of the selected stash
+    useEffect(() => {
+        setFiles([]);
+        setSelectedFile(null);
+        setDiff(null);
+        if (!isOpen || !activeRepoPath || !selectedHash) return;
+
+        api().git.getStashFiles(activeRepoPath, selectedHash)
+            .then((stashFiles: FileStatus[]) => {
+                setFiles(stashFiles);
+                if (stashFiles.length > 0) setSelectedFile(stashFiles[0].path);
+            })
+            .catch((err: any) => console.error(err));
+    }, [isOpen, activeRepoPath, selectedHash]);
+
+    // A stash commit's first parent is the commit it was made on
+    useEffect(() => {
+        if (!isOpen || !activeRepoPath || !selectedHash || !selectedFile) return;
+
+        Promise.all([
+            api().git.getFileContent(activeRepoPath, selectedFile, `${selectedHash}^1`).catch(() => ''),
+            api().git.getFileContent(activeRepoPath, selectedFile, selectedHash).catch(() => ''),
+        ]).then(([original, modified]) => setDiff({ original, modified }));
+    }, [isOpen, activeRepoPath, selectedHash, selectedFile]);
+
+    const handleCreate = async () => {
+        try {
+            await stashChanges({ message: newMessage.trim() || undefined, includeUntracked });
+            setNewMessage('');
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    };
+
+    const handlePop = async (stash: StashEntry) => {
+        try {
+            await popStash(stash.ref);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    };
+
+    const handleDrop = (stash: StashEntry) => {
+        if (!confirm(`Drop ${stash.ref} "${stash.message}"? This cannot be undone.`)) return;
+        dropStash(stash.ref);
+    };
+
+    const handleBranch = async (stash: StashEntry) => {
+        if (branchName?.trim()) {
+            await branchFromStash(stash.ref, branchName.trim());
+        }
+        setBranchName(null);
+    };
+
+    const handleRename = async (stash: StashEntry) => {
+        if (renameValue.trim() && renameValue.trim() !== stash.message) {
+            await renameStash(stash.ref, renameValue.trim());
+        }
+        setRenaming(null);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-[90vw] max-w-6xl h-[80vh] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <div className="flex items-center gap-2.5">
+                            <svg className="w-5 h-5 text-brand-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                    d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8" />
+                            </svg>
+                            <h2 className="text-base font-semibold text-text-primary">Stashes</h2>
+                            <span className="text-xs text-text-tertiary bg-surface-3 px-2 py-0.5 rounded-full">{stashes.length}</span>
+                        </div>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {/* New stash */}
+                    <div className="flex items-center gap-2 px-5 py-3 border-b border-border">
+                        <input
+                            type="text"
+                            value={newMessage}
+                            onChange={(e) => setNewMessage(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                            placeholder="Stash message (optional)"
+                            className="input-field text-xs flex-1"
+                        />
+                        <label className="flex items-center gap-1.5 text-2xs text-text-secondary shrink-0 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={includeUntracked}
+                                onChange={(e) => setIncludeUntracked(e.target.checked)}
+                            />
+                            Include untracked
+                        </label>
+                        <button onClick={handleCreate} className="btn-primary text-xs shrink-0">
+                            Stash All Changes
+                        </button>
+                    </div>
+
+                    <div className="flex-1 flex min-h-0">
+                        {/* Stash list */}
+                        <div className="w-80 border-r border-border overflow-y-auto shrink-0">
+                            {isLoadingStashes && stashes.length === 0 ? (
+                                <div className="flex items-center justify-center py-12">
+                                    <span className="loading-spinner w-5 h-5" />
+                                </div>
+                            ) : stashes.length === 0 ? (
+                                <div className="px-4 py-12 text-center text-xs text-text-tertiary">No stashes</div>
+                            ) : (
+                                <div className="divide-y divide-border/50">
+                                    {stashes.map((stash) => (
+                                        <div
+                                            key={stash.hash}
+                                            onClick={() => setSelected(stash)}
+                                            className={`group px-4 py-2.5 cursor-pointer transition-colors ${selected?.hash === stash.hash ? 'bg-surface-3' : 'hover:bg-surface-2/50'}`}
+                                        >
+                                            {renaming === stash.hash ? (
+                                                <input
+                                                    type="text"
+                                                    value={renameValue}
+                                                    onChange={(e) => setRenameValue(e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') handleRename(stash);
+                                                        if (e.key === 'Escape') setRenaming(null);
+                                                    }}
+                                                    onBlur={() => setRenaming(null)}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="input-field text-xs w-full"
+                                                    autoFocus
+                                                />
+                                            ) : (
+                                                <div className="text-xs text-text-primary truncate" title={stash.message}>
+                                                    {stash.message}
+                                                </div>
+                                            )}
+                                            <div className="flex items-center gap-2 mt-1 text-2xs text-text-tertiary">
+                                                <span className="font-mono">{stash.ref}</span>
+                                                {stash.branch && <span className="badge-branch">{stash.branch}</span>}
+                                                <span className="ml-auto">
+                                                    {(() => {
+                                                        try {
+                                                            return formatDistanceToNow(new Date(stash.date), { addSuffix: true });
+                                                        } catch {
+                                                            return stash.date;
+                                                        }
+                                                    })()}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Selected stash */}
+                        <div className="flex-1 flex flex-col min-w-0">
+                            {!selected ? (
+                                <div className="flex-1 flex items-center justify-center text-xs text-text-tertiary">
+                                    Select a stash to see its changes
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex items-center gap-1 px-4 py-2 border-b border-border bg-surface-0/50">
+                                        <button onClick={() => applyStash(selected.ref)} className="btn-ghost text-xs" title="Apply and keep the stash">
+                                            Apply
+                                        </button>
+                                        <button onClick={() => handlePop(selected)} className="btn-ghost text-xs" title="Apply and drop the stash">
+                                            Pop
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                setRenaming(selected.hash);
+                                                setRenameValue(selected.message);
+                                            }}
+                                            className="btn-ghost text-xs"
+                                        >
+                                            Rename
+                                        </button>
+                                        {branchName === null ? (
+                                            <button
+                                                onClick={() => setBranchName('')}
+                                                className="btn-ghost text-xs"
+                                                title="Create a branch at the stash's base commit and apply it there"
+                                            >
+                                                Branch...
+                                            </button>
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                value={branchName}
+                                                onChange={(e) => setBranchName(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') handleBranch(selected);
+                                                    if (e.key === 'Escape') setBranchName(null);
+                                                }}
+                                                onBlur={() => setBranchName(null)}
+                                                placeholder="New branch name"
+                                                className="input-field text-xs w-40"
+                                                autoFocus
+                                            />
+                                        )}
+                                        <button
+                                            onClick={() => handleDrop(selected)}
+                                            className="btn-ghost text-xs text-red-400 hover:text-red-300 ml-auto"
+                                        >
+                                            Drop
+                                        </button>
+                                    </div>
+                                    <div className="flex-1 flex min-h-0">
+                                        <div className="w-56 border-r border-border overflow-y-auto shrink-0">
+                                            {files.map((file) => (
+                                                <div
+                                                    key={file.path}
+                                                    onClick={() => setSelectedFile(file.path)}
+                                                    className={`px-3 py-1.5 text-xs font-mono truncate cursor-pointer ${selectedFile === file.path ? 'bg-surface-3 text-text-primary' : 'text-text-secondary hover:bg-surface-2/50'}`}
+                                                    title={file.path}
+                                                >
+                                                    {file.path}
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="flex-1 min-w-0 p-2">
+                                            {files.length === 0 ? (
+                                                <div className="h-full flex items-center justify-center text-xs text-text-tertiary">
+                                                    No tracked changes in this stash
+                                                </div>
+                                            ) : diff ? (
+                                                <DiffEditor original={diff.original} modified={diff.modified} language="text" />
+                                            ) : (
+                                                <div className="h-full flex items-center justify-center">
+                                                    <span className="loading-spinner w-5 h-5" />
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
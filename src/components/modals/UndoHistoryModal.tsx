@@ -0,0 +1,132 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { useUIStore } from '../../stores/ui.store';
+import { useRepoStore, UndoEntry } from '../../stores/repo.store';
+
+function entryDetail(entry: UndoEntry): string {
+    const parts: string[] = [];
+    if (entry.head?.hash) parts.push(`HEAD ${entry.head.hash.slice(0, 7)}`);
+    // Refs captured by prefix, e.g. a remote's tracking branches, are only counted
+    const prefix = entry.refPrefix;
+    const prefixed = prefix ? entry.refs?.filter((r) => r.ref.startsWith(prefix)) ?? [] : [];
+    entry.refs?.forEach((r) => {
+        if (prefixed.includes(r)) return;
+        const name = r.ref.replace(/^refs\/(heads|tags)\//, '');
+        parts.push(r.hash ? `${name} → ${r.hash.slice(0, 7)}` : `remove ${name}`);
+    });
+    if (prefix) parts.push(`${prefixed.length} ref${prefixed.length === 1 ? '' : 's'} under ${prefix.replace(/^refs\//, '')}`);
+    if (entry.createdStash) parts.push(`drop stash ${entry.createdStash.hash.slice(0, 7)}`);
+    if (entry.stash) parts.push(`stash ${entry.stash.hash.slice(0, 7)}`);
+    if (entry.files?.length) parts.push(`${entry.files.length} file${entry.files.length === 1 ? '' : 's'}`);
+    if (entry.remote) parts.push(`remote ${entry.remote.name}`);
+    if (entry.renamedRemote) parts.push(`remote ${entry.renamedRemote.to} → ${entry.renamedRemote.from}`);
+    entry.config?.forEach((c) => parts.push(c.values.length ? `${c.key} = ${c.values.join(', ')}` : `unset ${c.key}`));
+    if (entry.submodules?.length) parts.push(`${entry.submodules.length} submodule${entry.submodules.length === 1 ? '' : 's'}`);
+    if (entry.worktree) parts.push(`worktree ${entry.worktree.path.split(/[\\/]/).pop()}`);
+    return parts.join(' · ');
+}
+
+export function UndoHistoryModal() {
+    const { modalState, closeModal } = useUIStore();
+    const isOpen = modalState.type === 'undo-history';
+    const { undoEntries, loadUndoJournal, undoOperation, clearUndoJournal } = useRepoStore();
+
+    useEffect(() => {
+        if (isOpen) loadUndoJournal();
+    }, [isOpen, loadUndoJournal]);
+
+    const handleUndo = (entry: UndoEntry, index: number) => {
+        // Older entries restore their own pre-state without undoing what came after
+        if (index > 0 && !confirm(`Undo "${entry.description}"? The ${index} newer operation${index === 1 ? '' : 's'} above it will not be undone.`)) return;
+        undoOperation(entry.id);
+    };
+
+    const handleClear = () => {
+        if (!confirm('Clear the undo history for this repository?')) return;
+        clearUndoJournal();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                onClick={closeModal}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full max-w-2xl max-h-[80vh] flex flex-col rounded-xl bg-surface-1 border border-border shadow-2xl overflow-hidden"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+                        <div className="flex items-center gap-2.5">
+                            <h2 className="text-base font-semibold text-text-primary">Undo History</h2>
+                            <span className="text-2xs text-text-tertiary">operations run from this app</span>
+                        </div>
+                        <button
+                            onClick={closeModal}
+                            className="p-1 rounded-md hover:bg-surface-2 text-text-tertiary hover:text-text-primary transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {/* Entries */}
+                    <div className="flex-1 overflow-y-auto min-h-0">
+                        {undoEntries.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-12 text-text-tertiary">
+                                <span className="text-sm">Nothing to undo yet</span>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border/50">
+                                {undoEntries.map((entry, index) => (
+                                    <div
+                                        key={entry.id}
+                                        className="group flex items-center gap-3 px-5 py-3 hover:bg-surface-2/50 transition-colors"
+                                    >
+                                        <span className="text-2xs px-1.5 py-0.5 rounded border font-medium shrink-0 bg-zinc-500/20 text-zinc-400 border-zinc-500/30">
+                                            {entry.operation}
+                                        </span>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-xs text-text-primary truncate">{entry.description}</div>
+                                            <div className="text-2xs text-text-tertiary font-mono truncate">{entryDetail(entry)}</div>
+                                        </div>
+                                        <span className="text-2xs text-text-tertiary shrink-0">
+                                            {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                                        </span>
+                                        <button
+                                            onClick={() => handleUndo(entry, index)}
+                                            className={`text-2xs px-2 py-0.5 rounded transition-all shrink-0 bg-brand-500/20 text-brand-400 border border-brand-500/30 hover:bg-brand-500/30 ${index === 0 ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                        >
+                                            Undo
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-border bg-surface-0/50">
+                        <p className="text-2xs text-text-tertiary">
+                            Undo restores branches, tags, stashes, remotes, worktrees and discarded files as they were before the operation.
+                        </p>
+                        {undoEntries.length > 0 && (
+                            <button onClick={handleClear} className="btn-ghost text-xs shrink-0">Clear</button>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
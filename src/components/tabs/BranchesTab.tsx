@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useRepoStore, BranchInfo, TagInfo } from '../../stores/repo.store';
+import { useRepoStore, BranchInfo, TagInfo, WorktreeInfo } from '../../stores/repo.store';
 import { useUIStore } from '../../stores/ui.store';
 import { useAccountStore } from '../../stores/account.store';
+import { TrackingBadges } from '../common/TrackingBadges';
 
 export function BranchesTab() {
     const branches = useRepoStore((s) => s.branches);
@@ -12,10 +13,13 @@ export function BranchesTab() {
     const deleteRemoteBranch = useRepoStore((s) => s.deleteRemoteBranch);
     const publishBranch = useRepoStore((s) => s.publishBranch);
     const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+    const fetchRepo = useRepoStore((s) => s.fetchRepo);
+    const isFetching = useRepoStore((s) => s.isFetching);
     const activeAccountId = useAccountStore((s) => s.activeAccountId);
     const accounts = useAccountStore((s) => s.accounts);
 
     const branchCreateRequested = useUIStore((s) => s.branchCreateRequested);
+    const openModal = useUIStore((s) => s.openModal);
 
     const [showCreate, setShowCreate] = useState(false);
     const [newBranchName, setNewBranchName] = useState('');
@@ -155,7 +159,8 @@ export function BranchesTab() {
                             <span className="text-xs text-text-tertiary uppercase tracking-wider">Current Branch</span>
                             <div className="flex items-center gap-3">
                                 <div className="text-lg font-semibold text-text-primary">{currentBranch.name}</div>
-                                {!currentBranch.remote && (
+                                <TrackingBadges branch={currentBranch} />
+                                {!currentBranch.remote && (!currentBranch.upstream || currentBranch.upstreamGone) && (
                                     <button
                                         onClick={handlePublish}
                                         className="btn-primary text-xs px-2 py-0.5 rounded flex items-center gap-1"
@@ -168,6 +173,12 @@ export function BranchesTab() {
                                     </button>
                                 )}
                             </div>
+                            {currentBranch.upstream && (
+                                <div className="text-2xs text-text-tertiary font-mono mt-0.5">
+                                    tracking {currentBranch.upstream}
+                                    {currentBranch.upstreamGone && ' (deleted on remote)'}
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -185,6 +196,21 @@ export function BranchesTab() {
                     placeholder="Filter branches..."
                     className="input-field text-xs flex-1"
                 />
+                <button
+                    onClick={() => fetchRepo({ prune: true })}
+                    disabled={isFetching}
+                    className={`btn-secondary text-xs ${isFetching ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    title="Fetch from origin and prune deleted remote branches"
+                >
+                    {isFetching ? (
+                        <span className="loading-spinner w-3.5 h-3.5" />
+                    ) : (
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                        </svg>
+                    )}
+                    Fetch
+                </button>
                 <button
                     onClick={() => setShowCreate(!showCreate)}
                     className="btn-primary text-xs"
@@ -241,6 +267,7 @@ export function BranchesTab() {
                             onDelete={!branch.current ? () => handleDelete(branch.name) : undefined}
                             onMerge={!branch.current ? () => handleMerge(branch.name) : undefined}
                             onRebase={!branch.current ? () => handleRebase(branch.name) : undefined}
+                            onCompare={!branch.current ? () => openModal('compare', { head: branch.name }) : undefined}
                         />
                     ))}
                 </div>
@@ -261,12 +288,16 @@ export function BranchesTab() {
                                 onDelete={() => handleDeleteRemote(branch.name)}
                                 onMerge={() => handleMerge(branch.name)}
                                 onRebase={() => handleRebase(branch.name)}
+                                onCompare={() => openModal('compare', { head: branch.name })}
                             />
                         ))}
                     </div>
                 </div>
             )}
 
+            {/* Worktrees */}
+            <WorktreesSection />
+
             {/* Tags */}
             <TagsSection />
         </div>
@@ -380,6 +411,7 @@ function TagsSection() {
     const createTag = useRepoStore((s) => s.createTag);
     const pushTag = useRepoStore((s) => s.pushTag);
     const deleteTag = useRepoStore((s) => s.deleteTag);
+    const openModal = useUIStore((s) => s.openModal);
     const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
 
     const [showCreate, setShowCreate] = useState(false);
@@ -474,6 +506,7 @@ function TagsSection() {
                             tag={tag}
                             onPush={() => pushTag(tag.name)}
                             onDelete={() => handleDelete(tag.name)}
+                            onCompare={() => openModal('compare', { base: tag.name })}
                         />
                     ))}
                 </div>
@@ -482,7 +515,239 @@ function TagsSection() {
     );
 }
 
-function TagItem({ tag, onPush, onDelete }: { tag: TagInfo; onPush: () => void; onDelete: () => void }) {
+// ──── Worktrees Section ────────────────────────────────────────
+
+function WorktreesSection() {
+    const worktrees = useRepoStore((s) => s.worktrees);
+    const branches = useRepoStore((s) => s.branches);
+    const isLoadingWorktrees = useRepoStore((s) => s.isLoadingWorktrees);
+    const addWorktree = useRepoStore((s) => s.addWorktree);
+    const removeWorktree = useRepoStore((s) => s.removeWorktree);
+    const pruneWorktrees = useRepoStore((s) => s.pruneWorktrees);
+    const setActiveRepo = useRepoStore((s) => s.setActiveRepo);
+    const repos = useRepoStore((s) => s.repos);
+    const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
+
+    const [showCreate, setShowCreate] = useState(false);
+    const [createBranch, setCreateBranch] = useState(false);
+    const [branch, setBranch] = useState('');
+    const [worktreePath, setWorktreePath] = useState('');
+
+    const main = worktrees.find((w) => w.isMain);
+    // A branch can only be checked out in one worktree at a time
+    const availableBranches = branches.filter(
+        (b) => !b.remote && !worktrees.some((w) => w.branch === b.name)
+    );
+    const hasPrunable = worktrees.some((w) => w.prunable);
+
+    // Suggest a sibling folder of the main worktree named after the branch
+    const suggestPath = (name: string) => {
+        if (!main || !name) return '';
+        return `${main.path}-${name.replace(/[\\/]/g, '-')}`;
+    };
+
+    const handleBranchChange = (name: string) => {
+        if (!worktreePath || worktreePath === suggestPath(branch)) {
+            setWorktreePath(suggestPath(name));
+        }
+        setBranch(name);
+    };
+
+    const handleCreate = async () => {
+        if (!branch.trim() || !worktreePath.trim()) return;
+        try {
+            await addWorktree(worktreePath.trim(), branch.trim(), { createBranch });
+            setBranch('');
+            setWorktreePath('');
+            setShowCreate(false);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    };
+
+    const handleOpen = (worktree: WorktreeInfo) => {
+        const repo = repos.find((r) => r.path === worktree.path || r.path.toLowerCase() === worktree.path.toLowerCase());
+        setActiveRepo(repo?.path ?? worktree.path);
+    };
+
+    const handleRemove = async (worktree: WorktreeInfo) => {
+        if (!confirm(`Remove worktree at ${worktree.path}?\n\nThe folder will be deleted; the branch is kept.`)) return;
+        try {
+            await removeWorktree(worktree.path);
+        } catch (error: any) {
+            if (/--force|modified or untracked|locked/.test(error.message) &&
+                confirm('This worktree has uncommitted changes or is locked. Discard them and remove it anyway?')) {
+                try {
+                    await removeWorktree(worktree.path, true);
+                } catch (forceError: any) {
+                    useUIStore.getState().showNotification('error', forceError.message);
+                }
+            } else {
+                useUIStore.getState().showNotification('error', error.message);
+            }
+        }
+    };
+
+    return (
+        <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-semibold text-text-secondary uppercase tracking-wider">
+                    Worktrees ({worktrees.length})
+                </h3>
+                <div className="flex items-center gap-1">
+                    {hasPrunable && (
+                        <button
+                            onClick={pruneWorktrees}
+                            className="btn-ghost text-2xs px-2 py-0.5"
+                            title="Remove records of worktrees whose folders no longer exist"
+                        >
+                            Prune
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setShowCreate(!showCreate)}
+                        className="btn-ghost text-xs p-1"
+                        title="Add worktree"
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <AnimatePresence>
+                {showCreate && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        className="mb-3 overflow-hidden"
+                    >
+                        <div className="p-3 rounded-lg bg-surface-2 border border-border space-y-2">
+                            <div className="flex items-center gap-3 text-2xs text-text-secondary">
+                                <label className="flex items-center gap-1.5 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        checked={!createBranch}
+                                        onChange={() => { setCreateBranch(false); handleBranchChange(''); }}
+                                    />
+                                    Existing branch
+                                </label>
+                                <label className="flex items-center gap-1.5 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        checked={createBranch}
+                                        onChange={() => { setCreateBranch(true); handleBranchChange(''); }}
+                                    />
+                                    New branch from HEAD
+                                </label>
+                            </div>
+                            {createBranch ? (
+                                <input
+                                    type="text"
+                                    value={branch}
+                                    onChange={(e) => handleBranchChange(e.target.value)}
+                                    placeholder="feature/new-branch"
+                                    className="input-field text-xs w-full"
+                                    autoFocus
+                                />
+                            ) : (
+                                <select
+                                    value={branch}
+                                    onChange={(e) => handleBranchChange(e.target.value)}
+                                    className="input-field text-xs w-full"
+                                >
+                                    <option value="">Select a branch...</option>
+                                    {availableBranches.map((b) => (
+                                        <option key={b.name} value={b.name}>{b.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <input
+                                type="text"
+                                value={worktreePath}
+                                onChange={(e) => setWorktreePath(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                                placeholder="Folder for the new worktree"
+                                className="input-field text-xs w-full font-mono"
+                            />
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleCreate}
+                                    disabled={!branch.trim() || !worktreePath.trim()}
+                                    className="btn-primary text-xs"
+                                >
+                                    Create
+                                </button>
+                                <button onClick={() => setShowCreate(false)} className="btn-ghost text-xs">Cancel</button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {isLoadingWorktrees && worktrees.length === 0 ? (
+                <div className="flex items-center justify-center py-4">
+                    <span className="loading-spinner w-4 h-4" />
+                </div>
+            ) : (
+                <div className="space-y-1">
+                    {worktrees.map((worktree) => {
+                        const isCurrent = !!activeRepoPath && activeRepoPath.toLowerCase() === worktree.path.toLowerCase();
+                        return (
+                            <div
+                                key={worktree.path}
+                                className={`flex items-center gap-3 px-3 py-2.5 rounded-lg group ${isCurrent ? 'bg-surface-2' : 'hover:bg-surface-2/50'}`}
+                            >
+                                <svg className="w-4 h-4 shrink-0 text-text-tertiary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                        d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                                </svg>
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="badge-branch">{worktree.branch ?? worktree.head.slice(0, 7)}</span>
+                                        {worktree.isMain && <span className="text-2xs text-text-tertiary">main</span>}
+                                        {worktree.detached && <span className="text-2xs text-yellow-500">detached</span>}
+                                        {worktree.locked && <span className="text-2xs text-yellow-500">locked</span>}
+                                        {worktree.prunable && <span className="text-2xs text-red-400">missing</span>}
+                                    </div>
+                                    <div className="text-2xs text-text-tertiary font-mono truncate mt-0.5" title={worktree.path}>
+                                        {worktree.path}
+                                    </div>
+                                </div>
+                                {!isCurrent && !worktree.prunable && !worktree.bare && (
+                                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={() => handleOpen(worktree)}
+                                            className="btn-ghost text-2xs px-2 py-0.5"
+                                        >
+                                            Open
+                                        </button>
+                                        {!worktree.isMain && (
+                                            <button
+                                                onClick={() => handleRemove(worktree)}
+                                                className="p-1 text-text-tertiary hover:text-red-400 transition-all"
+                                                title="Remove worktree"
+                                            >
+                                                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                                </svg>
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function TagItem({ tag, onPush, onDelete, onCompare }: { tag: TagInfo; onPush: () => void; onDelete: () => void; onCompare: () => void }) {
     const formatDate = (dateStr: string) => {
         try {
             const date = new Date(dateStr);
@@ -507,6 +772,15 @@ function TagItem({ tag, onPush, onDelete }: { tag: TagInfo; onPush: () => void;
                 </div>
             </div>
             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                    onClick={(e) => { e.stopPropagation(); onCompare(); }}
+                    className="p-1 text-text-tertiary hover:text-sky-400 transition-all"
+                    title="Compare with current branch"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                    </svg>
+                </button>
                 <button
                     onClick={(e) => { e.stopPropagation(); onPush(); }}
                     className="p-1 text-text-tertiary hover:text-brand-400 transition-all"
@@ -537,12 +811,14 @@ function BranchItem({
     onDelete,
     onMerge,
     onRebase,
+    onCompare,
 }: {
     branch: BranchInfo;
     onCheckout: () => void;
     onDelete?: () => void;
     onMerge?: () => void;
     onRebase?: () => void;
+    onCompare?: () => void;
 }) {
     return (
         <motion.div
@@ -571,6 +847,9 @@ function BranchItem({
                 {branch.name}
             </span>
 
+            {/* Upstream tracking */}
+            {!branch.remote && <TrackingBadges branch={branch} />}
+
             {/* Current indicator */}
             {branch.current && (
                 <span className="badge bg-brand-500/20 text-brand-400">current</span>
@@ -611,6 +890,20 @@ function BranchItem({
                         </svg>
                     </button>
                 )}
+                {onCompare && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onCompare();
+                        }}
+                        className="p-1 text-text-tertiary hover:text-sky-400 transition-all"
+                        title="Compare with current branch"
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                        </svg>
+                    </button>
+                )}
                 {onDelete && (
                     <button
                         onClick={(e) => {
@@ -1,9 +1,12 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useRepoStore, FileStatus } from '../../stores/repo.store';
+import { useRepoStore, AmendInfo, FileStatus, SubmoduleInfo } from '../../stores/repo.store';
 import { useUIStore } from '../../stores/ui.store';
+import { useAccountStore } from '../../stores/account.store';
 import { DiffViewer } from '../diff/DiffViewer';
 import { ConflictResolver } from '../conflicts/ConflictResolver';
+import { ContextMenu } from '../common/ContextMenu';
+import { IgnoreKind, extensionOf, folderOf } from '../../lib/gitignore';
 import { useMemo } from 'react';
 
 export function ChangesTab() {
@@ -12,6 +15,7 @@ export function ChangesTab() {
     const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
     const stageFiles = useRepoStore((s) => s.stageFiles);
     const unstageFiles = useRepoStore((s) => s.unstageFiles);
+    const openSubmodule = useRepoStore((s) => s.openSubmodule);
 
     // LFS State
     const isLfsAvailable = useRepoStore((s) => s.isLfsAvailable);
@@ -22,6 +26,16 @@ export function ChangesTab() {
     const selectedFile = useUIStore((s) => s.selectedFile);
     const setSelectedFile = useUIStore((s) => s.setSelectedFile);
 
+    // Ctrl/Cmd+click picks files for a partial stash
+    const [stashSelection, setStashSelection] = useState<Set<string>>(new Set());
+    const [stashMessage, setStashMessage] = useState('');
+
+    // Amend mode: set while the message box edits HEAD instead of a new commit
+    const [amendInfo, setAmendInfo] = useState<AmendInfo | null>(null);
+    const [resetAuthor, setResetAuthor] = useState(false);
+    const draftMessageRef = useRef('');
+    const activeAccount = useAccountStore((s) => s.accounts.find((a) => a.id === s.activeAccountId));
+
     const stagedFiles = fileStatuses.filter((f) => f.staged);
     const unstagedFiles = fileStatuses.filter((f) => !f.staged);
 
@@ -62,6 +76,52 @@ export function ChangesTab() {
         }
     }, [isCommitting, isSyncing]);
 
+    // Leave amend mode when switching repos, HEAD is a different commit there
+    useEffect(() => {
+        setAmendInfo(null);
+    }, [activeRepoPath]);
+
+    const toggleAmend = async () => {
+        if (amendInfo) {
+            setAmendInfo(null);
+            setCommitMessage(draftMessageRef.current);
+            return;
+        }
+        if (!activeRepoPath) return;
+        try {
+            const info: AmendInfo = await (window as any).electronAPI.git.getAmendInfo(activeRepoPath);
+            draftMessageRef.current = commitMessage;
+            setCommitMessage(info.message);
+            setResetAuthor(false);
+            setAmendInfo(info);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    };
+
+    // Concluding a merge may have nothing staged, and an empty message keeps the one git prepared
+    const operationState = useRepoStore((s) => s.operationState);
+    const concludesMerge = !amendInfo && operationState?.operation === 'merge' && operationState.conflicts.length === 0;
+    const canCommit = (commitMessage.trim().length > 0 || concludesMerge)
+        && (amendInfo !== null || stagedFiles.length > 0 || concludesMerge);
+
+    const handleCommit = async () => {
+        if (!canCommit) return;
+        if (!amendInfo) {
+            useRepoStore.getState().commitAndPush(commitMessage);
+            return;
+        }
+        if (amendInfo.pushedTo && !confirm(
+            `The last commit is already on ${amendInfo.pushedTo}. Amending rewrites it, so you will need to force push. Continue?`
+        )) return;
+        try {
+            await useRepoStore.getState().amendCommit(commitMessage, { resetAuthor });
+            setAmendInfo(null);
+        } catch {
+            // Store already reported the error
+        }
+    };
+
     const selectedFileStatus = useMemo(() =>
         fileStatuses.find(f => f.path === selectedFile),
         [fileStatuses, selectedFile]
@@ -77,13 +137,36 @@ export function ChangesTab() {
         if (files.length) unstageFiles(files);
     };
 
+    const handleFileClick = (e: React.MouseEvent, path: string) => {
+        if (e.ctrlKey || e.metaKey) {
+            setStashSelection((prev) => {
+                const next = new Set(prev);
+                if (next.has(path)) next.delete(path);
+                else next.add(path);
+                return next;
+            });
+            return;
+        }
+        setSelectedFile(path);
+    };
+
+    const handleStashSelected = async () => {
+        const files = Array.from(stashSelection);
+        if (files.length === 0) return;
+        try {
+            await useRepoStore.getState().stashChanges({ message: stashMessage.trim() || undefined, files });
+            useUIStore.getState().showNotification('success', `Stashed ${files.length} file(s)`);
+            setStashSelection(new Set());
+            setStashMessage('');
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.ctrlKey && e.key === 'Enter') {
             e.preventDefault();
-            const { commitAndPush } = useRepoStore.getState();
-            if (commitMessage.trim() && stagedFiles.length > 0) {
-                commitAndPush(commitMessage);
-            }
+            handleCommit();
         }
     };
 
@@ -110,38 +193,70 @@ export function ChangesTab() {
                         value={commitMessage}
                         onChange={(e) => setCommitMessage(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        placeholder="Commit message..."
-                        className="input-field resize-none text-xs font-mono"
+                        placeholder={concludesMerge ? 'Merge message (leave empty to use the prepared one)...' : 'Commit message...'}
+                        className={`input-field resize-none text-xs font-mono ${amendInfo ? 'border-amber-500/40' : ''}`}
                         rows={3}
                         autoFocus={false}
                     />
+                    {amendInfo && (
+                        <div className="mt-2 space-y-1.5">
+                            <div className="text-2xs text-text-tertiary">
+                                Amending last commit by <span className="text-text-secondary">{amendInfo.author}</span>
+                                {stagedFiles.length > 0 && ` with ${stagedFiles.length} staged change(s)`}
+                            </div>
+                            {activeAccount && (
+                                <label className="flex items-center gap-1.5 text-2xs text-text-secondary cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={resetAuthor}
+                                        onChange={(e) => setResetAuthor(e.target.checked)}
+                                    />
+                                    Reset author to {activeAccount.displayName || activeAccount.username}
+                                    {activeAccount.email && ` <${activeAccount.email}>`}
+                                </label>
+                            )}
+                            {amendInfo.pushedTo && (
+                                <div className="px-2 py-1.5 rounded bg-amber-500/10 border border-amber-500/20 text-2xs text-amber-400">
+                                    This commit is already on {amendInfo.pushedTo}. Amending rewrites it, so the next push must be forced.
+                                </div>
+                            )}
+                        </div>
+                    )}
                     <div className="flex items-center justify-between mt-3 mb-2 gap-2">
-                        <span className="text-2xs text-text-tertiary">
-                            {stagedFiles.length} staged
-                        </span>
+                        <div className="flex items-center gap-3">
+                            <span className="text-2xs text-text-tertiary">
+                                {stagedFiles.length} staged
+                            </span>
+                            <label
+                                className="flex items-center gap-1 text-2xs text-text-secondary cursor-pointer"
+                                title="Fold staged changes into the last commit and edit its message"
+                            >
+                                <input type="checkbox" checked={amendInfo !== null} onChange={toggleAmend} />
+                                Amend
+                            </label>
+                        </div>
                         <div className="flex items-center gap-2">
                             <span className="kbd text-2xs hidden sm:inline">Ctrl+Enter</span>
                             <button
-                                onClick={() => {
-                                    const { commitAndPush } = useRepoStore.getState();
-                                    if (commitMessage.trim() && stagedFiles.length > 0) {
-                                        commitAndPush(commitMessage);
-                                    }
-                                }}
-                                disabled={!commitMessage.trim() || stagedFiles.length === 0}
+                                onClick={handleCommit}
+                                disabled={!canCommit}
                                 className="px-3 py-1.5 text-xs font-medium bg-brand-600 hover:bg-brand-500 disabled:bg-surface-4 disabled:text-text-tertiary text-white rounded transition-colors disabled:cursor-not-allowed flex items-center gap-1.5"
                                 title={
-                                    !commitMessage.trim()
+                                    !commitMessage.trim() && !concludesMerge
                                         ? "Enter a commit message"
-                                        : stagedFiles.length === 0
-                                            ? "Stage files to commit"
-                                            : "Commit and push changes"
+                                        : amendInfo
+                                            ? "Amend the last commit"
+                                            : concludesMerge
+                                                ? "Commit the merge"
+                                                : stagedFiles.length === 0
+                                                    ? "Stage files to commit"
+                                                    : "Commit and push changes"
                                 }
                             >
                                 <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                                 </svg>
-                                Commit
+                                {amendInfo ? 'Amend' : concludesMerge ? 'Commit Merge' : 'Commit'}
                             </button>
                             <button
                                 onClick={() => {
@@ -165,6 +280,9 @@ export function ChangesTab() {
                     </div>
                 </div>
 
+                {/* Submodules */}
+                <SubmodulesSection />
+
                 {/* Staged Files */}
                 <div className="border-b border-border">
                     <div className="flex items-center justify-between px-3 py-2 bg-surface-1">
@@ -203,8 +321,10 @@ export function ChangesTab() {
                                 key={file.path}
                                 file={file}
                                 isSelected={selectedFile === file.path}
-                                onClick={() => setSelectedFile(file.path)}
+                                isPicked={stashSelection.has(file.path)}
+                                onClick={(e) => handleFileClick(e, file.path)}
                                 onToggle={() => unstageFiles([file.path])}
+                                onOpenSubmodule={file.submodule ? () => openSubmodule(file.path) : undefined}
                                 isLfsTracked={lfsFiles.includes(file.path)}
                                 isLfsAvailable={isLfsAvailable}
                                 onToggleLfs={() => toggleLfsTrack(file.path, lfsFiles.includes(file.path))}
@@ -244,29 +364,56 @@ export function ChangesTab() {
                     </div>
                     <div className="flex-1 overflow-y-auto">
                         {unstagedFiles.map((file) => (
-                            <FileItem
-                                key={file.path}
-                                file={file}
-                                isSelected={selectedFile === file.path}
-                                onClick={() => setSelectedFile(file.path)}
-                                onToggle={() => stageFiles([file.path])}
-                                onDiscard={() => {
-                                    if (confirm(`Discard changes to ${file.path}? This cannot be undone.`)) {
-                                        if (file.status === 'untracked') {
-                                            useRepoStore.getState().cleanFile(file.path);
-                                        } else {
-                                            useRepoStore.getState().discardChanges(file.path);
+                            <IgnoreMenu key={file.path} file={file}>
+                                <FileItem
+                                    file={file}
+                                    isSelected={selectedFile === file.path}
+                                    isPicked={stashSelection.has(file.path)}
+                                    onClick={(e) => handleFileClick(e, file.path)}
+                                    onToggle={() => stageFiles([file.path])}
+                                    onOpenSubmodule={file.submodule ? () => openSubmodule(file.path) : undefined}
+                                    onDiscard={() => {
+                                        if (confirm(`Discard changes to ${file.path}? This cannot be undone.`)) {
+                                            if (file.status === 'untracked') {
+                                                useRepoStore.getState().cleanFile(file.path);
+                                            } else {
+                                                useRepoStore.getState().discardChanges(file.path);
+                                            }
                                         }
-                                    }
-                                }}
-                                isLfsTracked={lfsFiles.includes(file.path)}
-                                isLfsAvailable={isLfsAvailable}
-                                onToggleLfs={() => toggleLfsTrack(file.path, lfsFiles.includes(file.path))}
-                            />
+                                    }}
+                                    isLfsTracked={lfsFiles.includes(file.path)}
+                                    isLfsAvailable={isLfsAvailable}
+                                    onToggleLfs={() => toggleLfsTrack(file.path, lfsFiles.includes(file.path))}
+                                />
+                            </IgnoreMenu>
                         ))}
                     </div>
                 </div>
 
+                {stashSelection.size > 0 && (
+                    <div className="px-3 py-2 border-t border-border bg-surface-1 space-y-2 shrink-0">
+                        <input
+                            type="text"
+                            value={stashMessage}
+                            onChange={(e) => setStashMessage(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleStashSelected()}
+                            placeholder="Stash message (optional)"
+                            className="input-field text-xs w-full"
+                        />
+                        <div className="flex items-center justify-between">
+                            <span className="text-2xs text-text-tertiary">{stashSelection.size} file(s) picked</span>
+                            <div className="flex gap-1">
+                                <button onClick={() => setStashSelection(new Set())} className="btn-ghost text-2xs px-2 py-1">
+                                    Clear
+                                </button>
+                                <button onClick={handleStashSelected} className="btn-primary text-2xs px-2 py-1">
+                                    Stash Selected
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {fileStatuses.length === 0 && (
                     <div className="flex-1 flex flex-col items-center justify-center text-text-tertiary p-4">
                         <svg className="w-10 h-10 mb-3 opacity-30" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -291,11 +438,145 @@ export function ChangesTab() {
     );
 }
 
+// ──── Ignore Menu ───────────────────────────────────────────────
+
+// Right-click ignore actions; only untracked entries can be ignored usefully
+function IgnoreMenu({ file, children }: { file: FileStatus; children: React.ReactNode }) {
+    if (file.status !== 'untracked') return <>{children}</>;
+
+    const openModal = useUIStore.getState().openModal;
+    const ignore = (kind: IgnoreKind) => openModal('gitignore', { rule: { entry: file.path, kind } });
+    const ext = extensionOf(file.path);
+    const folder = folderOf(file.path);
+
+    return (
+        <ContextMenu
+            items={[
+                ...(file.path.endsWith('/') ? [] : [{ label: 'Ignore file...', onClick: () => ignore('file') }]),
+                ...(ext ? [{ label: `Ignore all *${ext} files...`, onClick: () => ignore('extension') }] : []),
+                ...(folder ? [{ label: `Ignore folder ${folder}/...`, onClick: () => ignore('folder') }] : []),
+                { label: '', onClick: () => {}, divider: true },
+                { label: 'Edit ignore rules...', onClick: () => openModal('gitignore', null) },
+            ]}
+        >
+            {children}
+        </ContextMenu>
+    );
+}
+
+// ──── Submodules Section ────────────────────────────────────────
+
+function SubmodulesSection() {
+    const submodules = useRepoStore((s) => s.submodules);
+    const updateSubmodules = useRepoStore((s) => s.updateSubmodules);
+    const syncSubmodules = useRepoStore((s) => s.syncSubmodules);
+    const openSubmodule = useRepoStore((s) => s.openSubmodule);
+    const [expanded, setExpanded] = useState(true);
+    const [isUpdating, setIsUpdating] = useState(false);
+
+    if (submodules.length === 0) return null;
+
+    const runUpdate = async (paths?: string[]) => {
+        setIsUpdating(true);
+        try {
+            await updateSubmodules({ init: true, recursive: true, paths });
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const stateLabels: Record<SubmoduleInfo['state'], { label: string; className: string }> = {
+        uninitialized: { label: 'not initialized', className: 'text-text-tertiary' },
+        clean: { label: 'up to date', className: 'text-status-added' },
+        changed: { label: 'different commit', className: 'text-status-modified' },
+        conflict: { label: 'conflict', className: 'text-status-conflict' },
+    };
+
+    return (
+        <div className="border-b border-border">
+            <div className="flex items-center justify-between px-3 py-2 bg-surface-1">
+                <button
+                    onClick={() => setExpanded(!expanded)}
+                    className="flex items-center gap-1.5 text-xs font-semibold text-text-secondary uppercase tracking-wider"
+                >
+                    <svg className={`w-3 h-3 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                    Submodules ({submodules.length})
+                </button>
+                <div className="flex items-center gap-1">
+                    {isUpdating && <span className="loading-spinner w-3 h-3" />}
+                    <button
+                        onClick={() => syncSubmodules()}
+                        className="btn-ghost text-2xs px-2 py-0.5"
+                        title="Copy submodule URLs from .gitmodules into the local config"
+                    >
+                        Sync
+                    </button>
+                    <button
+                        onClick={() => runUpdate()}
+                        disabled={isUpdating}
+                        className="btn-ghost text-2xs px-2 py-0.5"
+                        title="Initialize and check out the recorded commit of every submodule, recursively"
+                    >
+                        Update All
+                    </button>
+                </div>
+            </div>
+            {expanded && (
+                <div className="max-h-[160px] overflow-y-auto">
+                    {submodules.map((submodule) => (
+                        <div key={submodule.path} className="flex items-center gap-2 px-3 py-1.5 group hover:bg-surface-2/50">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-xs font-mono text-text-primary truncate" title={submodule.url}>
+                                    {submodule.path}
+                                </div>
+                                <div className="flex items-center gap-1.5 text-2xs">
+                                    <span className={stateLabels[submodule.state].className}>{stateLabels[submodule.state].label}</span>
+                                    <span className="font-mono text-text-tertiary" title="Commit recorded in this repository">
+                                        {submodule.recordedCommit.slice(0, 7)}
+                                    </span>
+                                    {submodule.checkedOutCommit && submodule.checkedOutCommit !== submodule.recordedCommit && (
+                                        <span className="font-mono text-text-tertiary" title="Commit checked out in the submodule">
+                                            → {submodule.checkedOutCommit.slice(0, 7)}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button
+                                    onClick={() => runUpdate([submodule.path])}
+                                    disabled={isUpdating}
+                                    className="btn-ghost text-2xs px-2 py-0.5"
+                                    title="Check out the recorded commit"
+                                >
+                                    Update
+                                </button>
+                                {submodule.state !== 'uninitialized' && (
+                                    <button
+                                        onClick={() => openSubmodule(submodule.path)}
+                                        className="btn-ghost text-2xs px-2 py-0.5"
+                                        title="Open the submodule as its own repository"
+                                    >
+                                        Open
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
 function FileItem({
     file,
     isSelected,
+    isPicked,
     onClick,
     onToggle,
+    onOpenSubmodule,
     onDiscard,
     isLfsTracked,
     isLfsAvailable,
@@ -303,8 +584,10 @@ function FileItem({
 }: {
     file: FileStatus;
     isSelected: boolean;
-    onClick: () => void;
+    isPicked?: boolean;
+    onClick: (e: React.MouseEvent) => void;
     onToggle: () => void;
+    onOpenSubmodule?: () => void;
     onDiscard?: () => void;
     isLfsTracked?: boolean;
     isLfsAvailable?: boolean;
@@ -333,7 +616,8 @@ function FileItem({
             whileHover={{ backgroundColor: 'rgba(39, 39, 42, 0.5)' }}
             onClick={onClick}
             className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer group ${isSelected ? 'bg-surface-3' : ''
-                }`}
+                } ${isPicked ? 'ring-1 ring-inset ring-brand-500/60' : ''}`}
+            title="Ctrl+click to pick files for stashing"
         >
             {/* Checkbox */}
             <button
@@ -361,8 +645,36 @@ function FileItem({
                         LFS
                     </span>
                 )}
+                {file.submodule && (
+                    <span
+                        className="px-1 py-0.5 rounded-sm bg-purple-500/20 text-purple-400 text-[9px] font-bold uppercase tracking-wider items-center flex"
+                        title={[
+                            file.submodule.commitChanged && 'new commits',
+                            file.submodule.modified && 'modified content',
+                            file.submodule.untracked && 'untracked content',
+                        ].filter(Boolean).join(', ') || 'Submodule'}
+                    >
+                        SUB
+                    </span>
+                )}
             </span>
 
+            {/* Drill into a submodule */}
+            {onOpenSubmodule && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onOpenSubmodule();
+                    }}
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-4 rounded text-text-tertiary hover:text-text-primary transition-all"
+                    title="Open submodule"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                    </svg>
+                </button>
+            )}
+
             {/* Toggle LFS Button (Only if available) */}
             {isLfsAvailable && onToggleLfs && (
                 <button
@@ -1,7 +1,14 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useRepoStore, CommitInfo } from '../../stores/repo.store';
+import { useRepoStore, CommitInfo, CommitSignature, BisectStatus } from '../../stores/repo.store';
 import { useUIStore } from '../../stores/ui.store';
+import { computeGraph, laneColor, GraphRow } from '../../lib/commit-graph';
+import { SignatureBadge } from '../common/SignatureBadge';
+import { CommitSearchPanel } from '../common/CommitSearchPanel';
+import { ContextMenu } from '../common/ContextMenu';
+
+const ROW_HEIGHT = 60;
+const LANE_WIDTH = 14;
 
 export function HistoryTab() {
     const commits = useRepoStore((s) => s.commits);
@@ -10,6 +17,25 @@ export function HistoryTab() {
     const cherryPick = useRepoStore((s) => s.cherryPick);
     const squashCommits = useRepoStore((s) => s.squashCommits);
     const rewordCommit = useRepoStore((s) => s.rewordCommit);
+    const operationState = useRepoStore((s) => s.operationState);
+    const refreshOperationState = useRepoStore((s) => s.refreshOperationState);
+    const branches = useRepoStore((s) => s.branches);
+    const logFilter = useRepoStore((s) => s.logFilter);
+    const setLogFilter = useRepoStore((s) => s.setLogFilter);
+    const hasMoreCommits = useRepoStore((s) => s.hasMoreCommits);
+    const isLoadingMoreCommits = useRepoStore((s) => s.isLoadingMoreCommits);
+    const loadMoreCommits = useRepoStore((s) => s.loadMoreCommits);
+    const signatures = useRepoStore((s) => s.signatures);
+    const loadSignature = useRepoStore((s) => s.loadSignature);
+    const isShallow = useRepoStore((s) => s.isShallow);
+    const isDeepening = useRepoStore((s) => s.isDeepening);
+    const fetchMoreHistory = useRepoStore((s) => s.fetchMoreHistory);
+    const bisectStatus = useRepoStore((s) => s.bisectStatus);
+    const refreshBisectStatus = useRepoStore((s) => s.refreshBisectStatus);
+    const startBisect = useRepoStore((s) => s.startBisect);
+    const amStatus = useRepoStore((s) => s.amStatus);
+    const refreshAmStatus = useRepoStore((s) => s.refreshAmStatus);
+    const exportPatches = useRepoStore((s) => s.exportPatches);
     const openModal = useUIStore((s) => s.openModal);
     const [copiedHash, setCopiedHash] = useState<string | null>(null);
     const [squashMode, setSquashMode] = useState(false);
@@ -17,12 +43,42 @@ export function HistoryTab() {
     const [squashMessage, setSquashMessage] = useState('');
     const [rewordMode, setRewordMode] = useState(false);
     const [rewordMessage, setRewordMessage] = useState('');
+    // Known-bad commit picked while setting up a bisect
+    const [bisectBad, setBisectBad] = useState<string | null>(null);
+    const [patchMode, setPatchMode] = useState(false);
+    // List indices of the two ends of the commit range to export
+    const [patchRange, setPatchRange] = useState<[number, number] | null>(null);
+    const [patchFormat, setPatchFormat] = useState<'files' | 'mbox'>('files');
+    const [searchMode, setSearchMode] = useState(false);
 
     useEffect(() => {
         if (activeRepoPath) {
             refreshLog();
+            refreshOperationState();
+            refreshBisectStatus();
+            refreshAmStatus();
         }
-    }, [activeRepoPath, refreshLog]);
+        setBisectBad(null);
+        setPatchRange(null);
+    }, [activeRepoPath, refreshLog, refreshOperationState, refreshBisectStatus, refreshAmStatus]);
+
+    const isRebasing = operationState?.operation === 'rebase';
+    const graph = useMemo(() => computeGraph(commits), [commits]);
+    const graphWidth = Math.max(1, ...graph.map((row) => row.width)) * LANE_WIDTH + LANE_WIDTH / 2;
+    const localBranches = branches.filter((b) => !b.remote);
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const el = e.currentTarget;
+        if (el.scrollTop + el.clientHeight >= el.scrollHeight - ROW_HEIGHT * 4) {
+            loadMoreCommits();
+        }
+    };
+
+    const handleFilterChange = (value: string) => {
+        if (value === ':head') setLogFilter({ scope: 'head' });
+        else if (value === ':all') setLogFilter({ scope: 'all' });
+        else setLogFilter({ scope: 'branch', branch: value });
+    };
 
     const handleCopy = (hash: string) => {
         navigator.clipboard.writeText(hash);
@@ -37,6 +93,36 @@ export function HistoryTab() {
         } catch { /* handled in store */ }
     };
 
+    const handleBisectPick = async (hash: string) => {
+        if (!bisectBad) {
+            setBisectBad(hash);
+            return;
+        }
+        if (hash === bisectBad) return;
+        setBisectBad(null);
+        await startBisect(bisectBad, hash);
+    };
+
+    // First click picks one end of the range, the second click the other
+    const handlePatchPick = (index: number) => {
+        if (!patchRange || patchRange[0] !== patchRange[1]) {
+            setPatchRange([index, index]);
+        } else {
+            setPatchRange([patchRange[0], index]);
+        }
+    };
+
+    // The log is newest first, so the higher index is the older end
+    const patchSelection = patchRange && {
+        newest: Math.min(...patchRange),
+        oldest: Math.max(...patchRange),
+    };
+
+    const handleExportPatches = async () => {
+        if (!patchSelection) return;
+        await exportPatches(commits[patchSelection.oldest].hash, commits[patchSelection.newest].hash, patchFormat);
+    };
+
     const handleSquash = async () => {
         if (!squashMessage.trim() || squashCount < 2) return;
         if (!confirm(`Squash the last ${squashCount} commits into one?`)) return;
@@ -81,12 +167,31 @@ export function HistoryTab() {
                     </svg>
                     <span className="text-sm font-semibold">Commit History</span>
                     <span className="text-xs text-text-tertiary bg-surface-3 px-2 py-0.5 rounded-full">
-                        {commits.length} commits
+                        {commits.length}{hasMoreCommits ? '+' : ''} commits
                     </span>
                 </div>
                 <div className="flex items-center gap-1">
+                    <select
+                        value={logFilter.scope === 'branch' ? logFilter.branch : `:${logFilter.scope}`}
+                        onChange={(e) => handleFilterChange(e.target.value)}
+                        className="input-field text-xs py-1 w-40"
+                        title="Which refs to show history for"
+                    >
+                        <option value=":head">Current branch</option>
+                        <option value=":all">All refs</option>
+                        {localBranches.map((b) => (
+                            <option key={b.name} value={b.name}>{b.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setSearchMode(!searchMode)}
+                        className={`btn-ghost text-xs px-2 py-1 ${searchMode ? 'text-brand-400' : ''}`}
+                        title="Search commits by message, author, date, path or content"
+                    >
+                        Search
+                    </button>
                     <button
-                        onClick={() => { setSquashMode(!squashMode); setRewordMode(false); }}
+                        onClick={() => { setSquashMode(!squashMode); setRewordMode(false); setPatchMode(false); }}
                         className={`btn-ghost text-xs px-2 py-1 ${squashMode ? 'text-brand-400' : ''}`}
                         title="Squash recent commits"
                     >
@@ -96,6 +201,7 @@ export function HistoryTab() {
                         onClick={() => {
                             setRewordMode(!rewordMode);
                             setSquashMode(false);
+                            setPatchMode(false);
                             if (!rewordMode && commits.length > 0) setRewordMessage(commits[0].message);
                         }}
                         className={`btn-ghost text-xs px-2 py-1 ${rewordMode ? 'text-brand-400' : ''}`}
@@ -103,6 +209,18 @@ export function HistoryTab() {
                     >
                         Reword
                     </button>
+                    <button
+                        onClick={() => {
+                            setPatchMode(!patchMode);
+                            setSquashMode(false);
+                            setRewordMode(false);
+                            setPatchRange(null);
+                        }}
+                        className={`btn-ghost text-xs px-2 py-1 ${patchMode ? 'text-brand-400' : ''}`}
+                        title="Export commits as patches or import patch files"
+                    >
+                        Patches
+                    </button>
                     <button
                         onClick={() => refreshLog()}
                         className="btn-ghost p-1.5"
@@ -116,6 +234,32 @@ export function HistoryTab() {
                 </div>
             </div>
 
+            {/* Patch Import In Progress */}
+            {amStatus?.inProgress && (
+                <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-amber-500/30 bg-amber-500/10 shrink-0">
+                    <span className="text-xs text-amber-400 truncate" title={amStatus.subject}>
+                        Patch import paused at {amStatus.current} of {amStatus.total}
+                        {amStatus.conflicts.length > 0 && ` with ${amStatus.conflicts.length} conflict(s)`}
+                        {amStatus.subject && <span className="text-text-secondary"> {amStatus.subject}</span>}
+                    </span>
+                    <AmControls />
+                </div>
+            )}
+
+            {/* Bisect */}
+            {bisectStatus?.inProgress ? (
+                <BisectBanner status={bisectStatus} commits={commits} />
+            ) : bisectBad && (
+                <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-sky-500/30 bg-sky-500/10 shrink-0">
+                    <span className="text-xs text-sky-400 truncate">
+                        Bad commit: <span className="font-mono">{bisectBad.slice(0, 7)}</span>. Now pick an older commit that is known to be good.
+                    </span>
+                    <button onClick={() => setBisectBad(null)} className="btn-ghost text-xs px-2 py-1 shrink-0">
+                        Cancel
+                    </button>
+                </div>
+            )}
+
             {/* Squash Panel */}
             {squashMode && (
                 <div className="px-4 py-3 border-b border-border bg-surface-1 space-y-2">
@@ -164,41 +308,117 @@ export function HistoryTab() {
                 </div>
             )}
 
-            {/* Commit List */}
-            <div className="flex-1 overflow-y-auto">
-                <div className="flex">
-                    {/* Commit Graph Rail */}
-                    <div className="w-10 shrink-0 flex flex-col items-center pt-4">
-                        {commits.map((commit, i) => (
-                            <div key={commit.hash} className="flex flex-col items-center">
-                                <div
-                                    className={`w-3 h-3 rounded-full border-2 shrink-0 transition-colors ${i === 0
-                                        ? 'bg-brand-500 border-brand-500 shadow-sm shadow-brand-500/30'
-                                        : 'bg-surface-0 border-surface-5'
-                                        }`}
-                                />
-                                {i < commits.length - 1 && (
-                                    <div className="w-0.5 h-[52px] bg-surface-5" />
-                                )}
-                            </div>
-                        ))}
+            {/* Patches Panel */}
+            {patchMode && (
+                <div className="px-4 py-3 border-b border-border bg-surface-1 space-y-2">
+                    <div className="text-xs text-text-secondary">
+                        {!patchSelection
+                            ? 'Click the first and last commit of the range to export.'
+                            : patchSelection.newest === patchSelection.oldest
+                                ? <>Exporting <span className="font-mono">{commits[patchSelection.newest].shortHash}</span>. Click another commit to extend the range.</>
+                                : <>
+                                    Exporting {patchSelection.oldest - patchSelection.newest + 1} commits,{' '}
+                                    <span className="font-mono">{commits[patchSelection.oldest].shortHash}</span> to{' '}
+                                    <span className="font-mono">{commits[patchSelection.newest].shortHash}</span>
+                                </>}
                     </div>
-
-                    {/* Commit Items */}
-                    <div className="flex-1 py-2 pr-4">
-                        {commits.map((commit, i) => (
-                            <CommitItem
-                                key={commit.hash}
-                                commit={commit}
-                                isLatest={i === 0}
-                                isCopied={copiedHash === commit.hash}
-                                onClick={() => openModal('commit-details', commit.hash)}
-                                onCopy={() => handleCopy(commit.hash)}
-                                onCherryPick={() => handleCherryPick(commit.hash)}
-                            />
-                        ))}
+                    <div className="flex items-center gap-4 text-xs text-text-secondary">
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" checked={patchFormat === 'files'} onChange={() => setPatchFormat('files')} />
+                            One .patch file per commit
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" checked={patchFormat === 'mbox'} onChange={() => setPatchFormat('mbox')} />
+                            Single mbox file
+                        </label>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={handleExportPatches} className="btn-primary text-xs" disabled={!patchSelection}>Export...</button>
+                        <button onClick={() => openModal('patch-import', null)} className="btn-secondary text-xs" disabled={amStatus?.inProgress}>
+                            Import Patches...
+                        </button>
+                        <button onClick={() => setPatchMode(false)} className="btn-ghost text-xs">Cancel</button>
                     </div>
                 </div>
+            )}
+
+            {/* Search Results */}
+            {searchMode && (
+                <div className="flex-1 min-h-0">
+                    <CommitSearchPanel />
+                </div>
+            )}
+
+            {/* Commit List */}
+            <div className={`flex-1 overflow-y-auto ${searchMode ? 'hidden' : ''}`} onScroll={handleScroll}>
+                <div className="py-2 pr-4">
+                    {commits.map((commit, i) => {
+                        const isHead = isHeadCommit(commit);
+                        return (
+                            <div key={commit.hash} className="flex items-stretch" style={{ height: ROW_HEIGHT }}>
+                                <GraphCell row={graph[i]} width={graphWidth} isHead={isHead} isMerge={commit.parents.length > 1} />
+                                <ContextMenu
+                                    className="flex-1 min-w-0"
+                                    items={[
+                                        { label: 'View details', onClick: () => openModal('commit-details', commit.hash) },
+                                        { label: 'Copy full hash', onClick: () => handleCopy(commit.hash) },
+                                        { label: 'Cherry-pick', onClick: () => handleCherryPick(commit.hash) },
+                                        ...(isHead ? [] : [{ label: 'Compare with HEAD', onClick: () => openModal('compare', { base: commit.hash, head: 'HEAD' }) }]),
+                                        { label: '', onClick: () => {}, divider: true },
+                                        { label: 'Reset current branch to here...', onClick: () => openModal('reset', commit), danger: true },
+                                    ]}
+                                >
+                                    <CommitItem
+                                        commit={commit}
+                                        signature={signatures[commit.hash]}
+                                        onVisible={() => loadSignature(commit.hash)}
+                                        isLatest={isHead}
+                                        isCopied={copiedHash === commit.hash}
+                                        isSelected={!!patchSelection && i >= patchSelection.newest && i <= patchSelection.oldest}
+                                        onClick={() => patchMode ? handlePatchPick(i) : openModal('commit-details', commit.hash)}
+                                        onCopy={() => handleCopy(commit.hash)}
+                                        onCherryPick={() => handleCherryPick(commit.hash)}
+                                        onCompare={isHead ? undefined : () => openModal('compare', { base: commit.hash, head: 'HEAD' })}
+                                        onRebaseFrom={isRebasing || logFilter.scope !== 'head'
+                                            ? undefined
+                                            : () => openModal('interactive-rebase', commit.hash)}
+                                        bisectMark={bisectMarkFor(bisectStatus, commit.hash)}
+                                        bisectPickLabel={isRebasing || bisectStatus?.inProgress
+                                            ? undefined
+                                            : !bisectBad
+                                                ? 'Start bisect with this commit as bad'
+                                                : commit.hash !== bisectBad ? 'Use as known-good commit and start bisect' : undefined}
+                                        onBisectPick={() => handleBisectPick(commit.hash)}
+                                    />
+                                </ContextMenu>
+                            </div>
+                        );
+                    })}
+                    {isLoadingMoreCommits && (
+                        <div className="flex items-center justify-center py-3">
+                            <span className="loading-spinner w-4 h-4" />
+                        </div>
+                    )}
+                    {isShallow && !hasMoreCommits && !isLoadingMoreCommits && commits.length > 0 && (
+                        <div className="flex items-center gap-3 mx-4 my-3 px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                            <span className="text-xs text-amber-400 flex-1">
+                                History is truncated here because this is a shallow clone.
+                            </span>
+                            {isDeepening ? (
+                                <span className="loading-spinner w-4 h-4" />
+                            ) : (
+                                <>
+                                    <button onClick={() => fetchMoreHistory(100)} className="btn-ghost text-xs">
+                                        Fetch 100 More
+                                    </button>
+                                    <button onClick={() => fetchMoreHistory()} className="btn-secondary text-xs">
+                                        Fetch Full History
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
             </div>
 
             {/* Tip */}
@@ -211,20 +431,212 @@ export function HistoryTab() {
     );
 }
 
+type BisectMark = 'good' | 'bad' | 'skip' | 'current';
+
+function bisectMarkFor(status: BisectStatus | null, hash: string): BisectMark | undefined {
+    if (!status?.inProgress) return undefined;
+    if (status.bad === hash) return 'bad';
+    if (status.good.includes(hash)) return 'good';
+    if (status.skipped.includes(hash)) return 'skip';
+    if (status.current === hash) return 'current';
+    return undefined;
+}
+
+const BISECT_MARK_STYLES: Record<BisectMark, string> = {
+    good: 'bg-green-500/20 text-green-400',
+    bad: 'bg-red-500/20 text-red-400',
+    skip: 'bg-surface-3 text-text-tertiary',
+    current: 'bg-sky-500/20 text-sky-400',
+};
+
+function AmControls() {
+    const continueAm = useRepoStore((s) => s.continueAm);
+    const skipAm = useRepoStore((s) => s.skipAm);
+    const abortAm = useRepoStore((s) => s.abortAm);
+
+    return (
+        <div className="flex items-center gap-1 shrink-0">
+            <button onClick={continueAm} className="btn-ghost text-xs px-2 py-1 text-amber-400" title="Stage the resolved files first">
+                Continue
+            </button>
+            <button onClick={skipAm} className="btn-ghost text-xs px-2 py-1" title="Drop this patch and go on with the next one">
+                Skip
+            </button>
+            <button
+                onClick={() => confirm('Abort the patch import and restore the branch to where it was?') && abortAm()}
+                className="btn-ghost text-xs px-2 py-1"
+                title="git am --abort"
+            >
+                Abort
+            </button>
+        </div>
+    );
+}
+
+function BisectBanner({ status, commits }: { status: BisectStatus; commits: CommitInfo[] }) {
+    const markBisect = useRepoStore((s) => s.markBisect);
+    const runBisect = useRepoStore((s) => s.runBisect);
+    const resetBisect = useRepoStore((s) => s.resetBisect);
+    const openModal = useUIStore((s) => s.openModal);
+    const [command, setCommand] = useState('');
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleRun = async () => {
+        if (!command.trim()) return;
+        setIsRunning(true);
+        try {
+            await runBisect(command.trim());
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    if (status.firstBad) {
+        const commit = commits.find((c) => c.hash === status.firstBad);
+        return (
+            <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-red-500/30 bg-red-500/10 shrink-0">
+                <span className="text-xs text-red-400 truncate">
+                    First bad commit: <span className="font-mono">{status.firstBad.slice(0, 7)}</span>
+                    {commit && <span className="text-text-secondary"> {commit.message}</span>}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button
+                        onClick={() => openModal('commit-details', status.firstBad)}
+                        className="btn-ghost text-xs px-2 py-1 text-red-400"
+                    >
+                        View commit
+                    </button>
+                    <button onClick={resetBisect} className="btn-ghost text-xs px-2 py-1" title="git bisect reset">
+                        End Bisect
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="px-4 py-2 border-b border-sky-500/30 bg-sky-500/10 space-y-2 shrink-0">
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-xs text-sky-400 truncate">
+                    Bisecting at <span className="font-mono">{status.current?.slice(0, 7)}</span>
+                    {status.remaining > 0 && ` — ${status.remaining} commits left, about ${status.steps} step${status.steps !== 1 ? 's' : ''}`}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => markBisect('good')} disabled={isRunning} className="btn-ghost text-xs px-2 py-1 text-green-400">
+                        Good
+                    </button>
+                    <button onClick={() => markBisect('bad')} disabled={isRunning} className="btn-ghost text-xs px-2 py-1 text-red-400">
+                        Bad
+                    </button>
+                    <button onClick={() => markBisect('skip')} disabled={isRunning} className="btn-ghost text-xs px-2 py-1" title="This commit can't be tested">
+                        Skip
+                    </button>
+                    <button onClick={resetBisect} disabled={isRunning} className="btn-ghost text-xs px-2 py-1" title="git bisect reset">
+                        End Bisect
+                    </button>
+                </div>
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={command}
+                    onChange={(e) => setCommand(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+                    placeholder="Test command, e.g. npm test (exit 0 = good, 125 = skip, other = bad)"
+                    className="input-field text-xs flex-1 font-mono"
+                    disabled={isRunning}
+                />
+                <button onClick={handleRun} disabled={isRunning || !command.trim()} className="btn-secondary text-xs shrink-0">
+                    {isRunning ? 'Running...' : 'Run Automatically'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function isHeadCommit(commit: CommitInfo): boolean {
+    return commit.refs.split(',').some((ref) => ref.trim().startsWith('HEAD'));
+}
+
+function GraphCell({ row, width, isHead, isMerge }: { row?: GraphRow; width: number; isHead: boolean; isMerge: boolean }) {
+    if (!row) return <div style={{ width }} className="shrink-0" />;
+
+    const x = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2 + 4;
+    const mid = ROW_HEIGHT / 2;
+
+    // Straight for pass-through lanes, an S-curve when changing lanes
+    const segment = (x1: number, y1: number, x2: number, y2: number) =>
+        x1 === x2
+            ? `M ${x1} ${y1} L ${x2} ${y2}`
+            : `M ${x1} ${y1} C ${x1} ${(y1 + y2) / 2}, ${x2} ${(y1 + y2) / 2}, ${x2} ${y2}`;
+
+    return (
+        <svg width={width} height={ROW_HEIGHT} className="shrink-0">
+            {row.top.map((edge, i) => (
+                <path
+                    key={`t${i}`}
+                    d={segment(x(edge.from), 0, x(edge.to), mid)}
+                    stroke={laneColor(edge.color)}
+                    strokeWidth={2}
+                    fill="none"
+                />
+            ))}
+            {row.bottom.map((edge, i) => (
+                <path
+                    key={`b${i}`}
+                    d={segment(x(edge.from), mid, x(edge.to), ROW_HEIGHT)}
+                    stroke={laneColor(edge.color)}
+                    strokeWidth={2}
+                    fill="none"
+                />
+            ))}
+            {/* Merge commits are drawn hollow */}
+            <circle
+                cx={x(row.lane)}
+                cy={mid}
+                r={isHead ? 5 : 4}
+                className={isMerge ? 'fill-surface-0' : undefined}
+                fill={isMerge ? undefined : laneColor(row.lane)}
+                stroke={laneColor(row.lane)}
+                strokeWidth={2}
+            />
+        </svg>
+    );
+}
+
 function CommitItem({
     commit,
+    signature,
+    onVisible,
     isLatest,
     isCopied,
+    isSelected,
     onClick,
     onCopy,
     onCherryPick,
+    onCompare,
+    onRebaseFrom,
+    bisectMark,
+    bisectPickLabel,
+    onBisectPick,
 }: {
     commit: CommitInfo;
+    signature?: CommitSignature;
+    /** Called once the row scrolls into view, to verify its signature */
+    onVisible: () => void;
     isLatest: boolean;
     isCopied: boolean;
+    /** Part of the range picked for patch export */
+    isSelected?: boolean;
     onClick: () => void;
     onCopy: () => void;
     onCherryPick: () => void;
+    onCompare?: () => void;
+    onRebaseFrom?: () => void;
+    bisectMark?: BisectMark;
+    /** Tooltip for the bisect button; the button is hidden when unset */
+    bisectPickLabel?: string;
+    onBisectPick: () => void;
 }) {
     const formatDate = (dateStr: string) => {
         try {
@@ -249,11 +661,28 @@ function CommitItem({
         ? commit.refs.split(',').map((r) => r.trim()).filter(Boolean)
         : [];
 
+    const rowRef = useRef<HTMLDivElement>(null);
+    useEffect(() => {
+        const el = rowRef.current;
+        if (!el || signature) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                observer.disconnect();
+                onVisible();
+            }
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [commit.hash, signature]);
+
     return (
         <motion.div
+            ref={rowRef}
             whileHover={{ backgroundColor: 'rgba(39, 39, 42, 0.3)' }}
             onClick={onClick}
-            className="flex items-start gap-3 px-3 py-3 rounded-lg cursor-pointer group"
+            className={`flex items-center gap-3 px-3 py-2 h-full rounded-lg cursor-pointer group ${isSelected ? 'bg-brand-500/10 ring-1 ring-inset ring-brand-500/30' : ''}`}
         >
             <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
@@ -268,6 +697,14 @@ function CommitItem({
                     >
                         {commit.message}
                     </span>
+                    {bisectMark && (
+                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded shrink-0 uppercase ${BISECT_MARK_STYLES[bisectMark]}`}>
+                            {bisectMark}
+                        </span>
+                    )}
+                    {signature && signature.status !== 'unsigned' && (
+                        <SignatureBadge status={signature.status} signer={signature.signer} />
+                    )}
                     {refs.map((ref) => (
                         <span key={ref} className="badge-branch shrink-0">
                             {ref.replace('HEAD -> ', '').replace('origin/', '')}
@@ -302,6 +739,56 @@ function CommitItem({
                 </svg>
             </button>
 
+            {/* Compare button */}
+            {onCompare && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onCompare();
+                    }}
+                    className="opacity-0 group-hover:opacity-100 btn-ghost p-1.5 text-text-tertiary hover:text-sky-400 transition-all"
+                    title="Compare this commit with HEAD"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                    </svg>
+                </button>
+            )}
+
+            {/* Interactive rebase button */}
+            {onRebaseFrom && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onRebaseFrom();
+                    }}
+                    className="opacity-0 group-hover:opacity-100 btn-ghost p-1.5 text-text-tertiary hover:text-amber-400 transition-all"
+                    title="Interactive rebase from this commit"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                            d="M4 6h16M4 12h10M4 18h6m10-6l-3-3m3 3l-3 3" />
+                    </svg>
+                </button>
+            )}
+
+            {/* Bisect button */}
+            {bisectPickLabel && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onBisectPick();
+                    }}
+                    className="opacity-0 group-hover:opacity-100 btn-ghost p-1.5 text-text-tertiary hover:text-sky-400 transition-all"
+                    title={bisectPickLabel}
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                </button>
+            )}
+
             {/* Copy hash button */}
             <button
                 onClick={(e) => {
@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { useRepoStore } from '../../stores/repo.store';
+import { useRepoStore, HookInfo, HooksOverview, RemoteInfo } from '../../stores/repo.store';
 import { useAccountStore } from '../../stores/account.store';
 import { GitHubRepo } from '../../lib/github-types';
 import { useUIStore } from '../../stores/ui.store';
+import { CodeEditor } from '../common/CodeEditor';
+
+const AUTO_FETCH_OPTIONS = [
+    { minutes: 0, label: 'Off' },
+    { minutes: 5, label: 'Every 5 minutes' },
+    { minutes: 10, label: 'Every 10 minutes' },
+    { minutes: 30, label: 'Every 30 minutes' },
+    { minutes: 60, label: 'Every hour' },
+];
+
+const NEW_HOOK_NAMES = ['pre-commit', 'prepare-commit-msg', 'commit-msg', 'post-commit', 'pre-push', 'post-checkout', 'post-merge', 'pre-rebase'];
 
 export function SettingsTab() {
     const activeRepoPath = useRepoStore((s) => s.activeRepoPath);
     const repos = useRepoStore((s) => s.repos);
     const cloudRepos = useRepoStore((s) => s.cloudRepos);
     const loadCloudRepos = useRepoStore((s) => s.loadCloudRepos);
+    const autoFetchMinutes = useRepoStore((s) => s.autoFetchMinutes);
+    const setAutoFetchInterval = useRepoStore((s) => s.setAutoFetchInterval);
     const activeRepo = repos.find((r) => r.path === activeRepoPath);
 
     const accounts = useAccountStore((s) => s.accounts);
@@ -87,9 +100,28 @@ export function SettingsTab() {
                                 <code className="bg-surface-2 px-3 py-2 rounded text-sm font-mono truncate">{activeRepo.remoteUrl}</code>
                             </div>
                         )}
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm font-medium text-text-secondary">Background Fetch</label>
+                            <select
+                                value={autoFetchMinutes}
+                                onChange={(e) => setAutoFetchInterval(Number(e.target.value))}
+                                className="input-field text-sm w-56"
+                            >
+                                {AUTO_FETCH_OPTIONS.map((option) => (
+                                    <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                                ))}
+                            </select>
+                            <span className="text-xs text-text-tertiary">
+                                Applies to all open repositories and gives way to your own git commands. New remote commits show up in the activity log.
+                            </span>
+                        </div>
                     </div>
                 </section>
 
+                <RemotesSection />
+
+                <HooksSection repoPath={activeRepo.path} />
+
                 {/* Cloud Settings */}
                 {isLoadingCloud ? (
                     <div className="flex items-center gap-3 p-6 bg-surface-2 rounded-lg border border-border">
@@ -136,6 +168,303 @@ export function SettingsTab() {
     );
 }
 
+function RemotesSection() {
+    const remotes = useRepoStore((s) => s.remotes);
+    const remoteTargets = useRepoStore((s) => s.remoteTargets);
+    const isFetching = useRepoStore((s) => s.isFetching);
+    const { addRemote, setRemoteTargets, fetchRepo } = useRepoStore.getState();
+
+    const [newName, setNewName] = useState('');
+    const [newUrl, setNewUrl] = useState('');
+
+    const handleAdd = async () => {
+        if (!newName.trim() || !newUrl.trim()) return;
+        try {
+            await addRemote(newName.trim(), newUrl.trim());
+            setNewName('');
+            setNewUrl('');
+        } catch {
+            // Store already reported the error
+        }
+    };
+
+    return (
+        <section className="mb-8">
+            <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-4">Remotes</h3>
+
+            <div className="rounded-lg border border-border divide-y divide-border/50">
+                {remotes.length === 0 && (
+                    <div className="px-3 py-4 text-center text-xs text-text-tertiary">No remotes configured</div>
+                )}
+                {remotes.map((remote) => (
+                    <RemoteRow key={remote.name} remote={remote} isFetching={isFetching} onFetch={() => fetchRepo({ prune: true, remote: remote.name })} />
+                ))}
+            </div>
+
+            <div className="flex items-center gap-2 mt-3">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="upstream"
+                    className="input-field text-sm w-36"
+                />
+                <input
+                    type="text"
+                    value={newUrl}
+                    onChange={(e) => setNewUrl(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="https://github.com/owner/repo.git"
+                    className="input-field text-sm font-mono flex-1"
+                />
+                <button onClick={handleAdd} disabled={!newName.trim() || !newUrl.trim()} className="btn-secondary text-xs">
+                    Add Remote
+                </button>
+            </div>
+
+            {remotes.length > 0 && (
+                <div className="flex items-center gap-4 mt-4">
+                    <label className="flex items-center gap-2 text-sm text-text-secondary">
+                        Pull from
+                        <select
+                            value={remoteTargets.pull}
+                            onChange={(e) => setRemoteTargets({ ...remoteTargets, pull: e.target.value })}
+                            className="input-field text-sm w-36"
+                        >
+                            {remotes.map((r) => <option key={r.name} value={r.name}>{r.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-text-secondary">
+                        Push to
+                        <select
+                            value={remoteTargets.push}
+                            onChange={(e) => setRemoteTargets({ ...remoteTargets, push: e.target.value })}
+                            className="input-field text-sm w-36"
+                        >
+                            {remotes.map((r) => <option key={r.name} value={r.name}>{r.name}</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
+            <span className="block text-xs text-text-tertiary mt-1">
+                Used by Sync, Push and Commit &amp; Push. In a fork, pull from upstream and push to origin.
+            </span>
+        </section>
+    );
+}
+
+function RemoteRow({ remote, isFetching, onFetch }: { remote: RemoteInfo; isFetching: boolean; onFetch: () => void }) {
+    const { renameRemote, removeRemote, setRemoteUrl } = useRepoStore.getState();
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(remote.name);
+    const [fetchUrl, setFetchUrl] = useState(remote.fetchUrl);
+    const [pushUrl, setPushUrl] = useState(remote.pushUrl);
+
+    const startEditing = () => {
+        setName(remote.name);
+        setFetchUrl(remote.fetchUrl);
+        setPushUrl(remote.pushUrl);
+        setIsEditing(true);
+    };
+
+    const handleSave = async () => {
+        try {
+            // URLs first, while the remote still has its old name
+            if (fetchUrl.trim() && fetchUrl.trim() !== remote.fetchUrl) {
+                await setRemoteUrl(remote.name, fetchUrl.trim());
+            }
+            if (pushUrl.trim() && pushUrl.trim() !== remote.pushUrl) {
+                await setRemoteUrl(remote.name, pushUrl.trim(), true);
+            }
+            if (name.trim() && name.trim() !== remote.name) {
+                await renameRemote(remote.name, name.trim());
+            }
+            setIsEditing(false);
+        } catch {
+            // Store already reported the error
+        }
+    };
+
+    const handleRemove = () => {
+        if (confirm(`Remove remote ${remote.name}? Its remote-tracking branches are deleted too.`)) {
+            removeRemote(remote.name);
+        }
+    };
+
+    if (isEditing) {
+        return (
+            <div className="px-3 py-2 space-y-2">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="input-field text-sm w-36" />
+                <input
+                    type="text"
+                    value={fetchUrl}
+                    onChange={(e) => setFetchUrl(e.target.value)}
+                    placeholder="Fetch URL"
+                    className="input-field text-sm font-mono w-full"
+                />
+                <input
+                    type="text"
+                    value={pushUrl}
+                    onChange={(e) => setPushUrl(e.target.value)}
+                    placeholder="Push URL"
+                    className="input-field text-sm font-mono w-full"
+                />
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => setIsEditing(false)} className="btn-ghost text-xs">Cancel</button>
+                    <button onClick={handleSave} className="btn-primary text-xs">Save</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3 px-3 py-2">
+            <div className="flex-1 min-w-0">
+                <div className="text-sm font-mono text-text-primary">{remote.name}</div>
+                <div className="text-2xs text-text-tertiary font-mono truncate" title={remote.fetchUrl}>{remote.fetchUrl}</div>
+                {remote.pushUrl !== remote.fetchUrl && (
+                    <div className="text-2xs text-text-tertiary font-mono truncate" title={remote.pushUrl}>push: {remote.pushUrl}</div>
+                )}
+            </div>
+            <button onClick={onFetch} disabled={isFetching} className="btn-ghost text-xs shrink-0" title={`Fetch from ${remote.name} and prune`}>
+                Fetch
+            </button>
+            <button onClick={startEditing} className="btn-ghost text-xs shrink-0">Edit</button>
+            <button onClick={handleRemove} className="btn-ghost text-xs shrink-0 text-red-400 hover:text-red-300">Remove</button>
+        </div>
+    );
+}
+
+function HooksSection({ repoPath }: { repoPath: string }) {
+    const [overview, setOverview] = useState<HooksOverview | null>(null);
+    const [editing, setEditing] = useState<{ hook: HookInfo | null; name: string; content: string } | null>(null);
+    const [newHookName, setNewHookName] = useState(NEW_HOOK_NAMES[0]);
+    const [isSaving, setIsSaving] = useState(false);
+    const showNotification = useUIStore((s) => s.showNotification);
+    const api = (window as any).electronAPI;
+
+    const load = async () => {
+        try {
+            setOverview(await api.git.listHooks(repoPath));
+        } catch (error: any) {
+            showNotification('error', error.message);
+        }
+    };
+
+    useEffect(() => {
+        setEditing(null);
+        load();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [repoPath]);
+
+    const handleToggle = async (hook: HookInfo) => {
+        try {
+            await api.git.setHookEnabled(repoPath, hook.path, !hook.enabled);
+            showNotification('success', `${hook.name} ${hook.enabled ? 'disabled' : 'enabled'}`);
+        } catch (error: any) {
+            showNotification('error', error.message);
+        } finally {
+            load();
+        }
+    };
+
+    const handleEdit = async (hook: HookInfo) => {
+        try {
+            const content = await api.git.readHook(repoPath, hook.path);
+            setEditing({ hook, name: hook.name, content });
+        } catch (error: any) {
+            showNotification('error', error.message);
+        }
+    };
+
+    const handleNew = () => {
+        setEditing({ hook: null, name: newHookName, content: '#!/bin/sh\n\n' });
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setIsSaving(true);
+        try {
+            await api.git.saveHook(repoPath, editing.name, editing.content, editing.hook?.path);
+            showNotification('success', `${editing.name} saved`);
+            setEditing(null);
+            load();
+        } catch (error: any) {
+            showNotification('error', error.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <section className="mb-8">
+            <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-4">Git Hooks</h3>
+            {overview?.hooksPath && (
+                <div className="mb-3 px-3 py-2 rounded-lg bg-sky-500/10 border border-sky-500/30 text-xs text-sky-300">
+                    core.hooksPath is set to <code className="font-mono">{overview.hooksPath}</code>. Hooks in .git/hooks are ignored while it is set.
+                </div>
+            )}
+
+            <div className="rounded-lg border border-border divide-y divide-border/50">
+                {overview && overview.hooks.length === 0 && (
+                    <div className="px-3 py-4 text-center text-xs text-text-tertiary">No hooks installed</div>
+                )}
+                {overview?.hooks.map((hook) => (
+                    <div key={hook.path} className="flex items-center gap-3 px-3 py-2">
+                        <input
+                            type="checkbox"
+                            checked={hook.enabled}
+                            onChange={() => handleToggle(hook)}
+                            title={hook.enabled ? 'Disable hook' : hook.sample ? 'Install this sample' : 'Enable hook'}
+                        />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className={`text-sm font-mono ${hook.enabled && !hook.shadowed ? 'text-text-primary' : 'text-text-tertiary'}`}>
+                                    {hook.name}
+                                </span>
+                                {hook.sample && <span className="text-2xs px-1.5 py-0.5 rounded bg-surface-2 text-text-tertiary">sample</span>}
+                                {hook.shadowed && <span className="text-2xs px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">ignored</span>}
+                            </div>
+                            <div className="text-2xs text-text-tertiary font-mono truncate" title={hook.path}>{hook.path}</div>
+                        </div>
+                        <button onClick={() => handleEdit(hook)} className="btn-ghost text-xs shrink-0">Edit</button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex items-center gap-2 mt-3">
+                <select value={newHookName} onChange={(e) => setNewHookName(e.target.value)} className="input-field text-sm w-56">
+                    {NEW_HOOK_NAMES.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+                <button onClick={handleNew} className="btn-secondary text-xs">Add Hook</button>
+            </div>
+
+            {editing && (
+                <div className="mt-4 space-y-2">
+                    <div className="text-xs text-text-secondary">
+                        {editing.hook ? 'Editing' : 'New'} <span className="font-mono text-text-primary">{editing.name}</span>
+                    </div>
+                    <div className="h-64">
+                        <CodeEditor
+                            value={editing.content}
+                            language="shell"
+                            onChange={(value) => setEditing({ ...editing, content: value ?? '' })}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditing(null)} className="btn-ghost text-xs">Cancel</button>
+                        <button onClick={handleSave} disabled={isSaving} className="btn-primary text-xs">
+                            {isSaving ? 'Saving...' : 'Save Hook'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+}
+
 function RenameSection({ repo, token, localPath }: { repo: GitHubRepo; token: string; localPath: string }) {
     const [name, setName] = useState(repo.name);
     const [isLoading, setIsLoading] = useState(false);
@@ -0,0 +1,103 @@
+/**
+ * Lane layout for the commit graph. Expects commits in topological order
+ * (children before parents), as returned by `git log --topo-order`.
+ */
+
+export interface GraphEdge {
+    /** Lane at the top of the segment */
+    from: number;
+    /** Lane at the bottom of the segment */
+    to: number;
+    /** Lane whose color the edge uses */
+    color: number;
+}
+
+export interface GraphRow {
+    /** Lane the commit's node sits in */
+    lane: number;
+    /** Edges from the top of the row down to the node (or straight through) */
+    top: GraphEdge[];
+    /** Edges from the node (or straight through) down to the bottom of the row */
+    bottom: GraphEdge[];
+    /** Number of lanes in use on this row, for sizing */
+    width: number;
+}
+
+export const LANE_COLORS = [
+    '#8b5cf6', // violet
+    '#22c55e', // green
+    '#3b82f6', // blue
+    '#f59e0b', // amber
+    '#ec4899', // pink
+    '#14b8a6', // teal
+    '#ef4444', // red
+    '#a3e635', // lime
+];
+
+export function laneColor(lane: number): string {
+    return LANE_COLORS[lane % LANE_COLORS.length];
+}
+
+export function computeGraph(commits: { hash: string; parents: string[] }[]): GraphRow[] {
+    // Each lane holds the hash of the commit it is waiting for
+    let lanes: (string | null)[] = [];
+    const rows: GraphRow[] = [];
+
+    const freeLane = () => {
+        const index = lanes.indexOf(null);
+        if (index !== -1) return index;
+        lanes.push(null);
+        return lanes.length - 1;
+    };
+
+    for (const commit of commits) {
+        let lane = lanes.indexOf(commit.hash);
+        if (lane === -1) lane = freeLane();
+
+        const before = [...lanes];
+        const top: GraphEdge[] = [];
+        before.forEach((hash, i) => {
+            if (hash === null) return;
+            // Every lane waiting for this commit converges on its node
+            top.push({ from: i, to: hash === commit.hash ? lane : i, color: i });
+        });
+
+        // Lanes that converged here are free again
+        lanes = lanes.map((hash) => (hash === commit.hash ? null : hash));
+
+        const bottom: GraphEdge[] = [];
+        commit.parents.forEach((parent, p) => {
+            let target = lanes.indexOf(parent);
+            if (p === 0 && target > lane && lanes[lane] === null) {
+                // Pull the parent back into this lane so the main line stays left
+                lanes[target] = null;
+                lanes[lane] = parent;
+                bottom.push({ from: target, to: lane, color: target });
+                target = lane;
+            } else if (target === -1) {
+                // First parent continues the commit's own lane
+                target = p === 0 && lanes[lane] === null ? lane : freeLane();
+                lanes[target] = parent;
+            }
+            bottom.push({ from: lane, to: target, color: p === 0 ? lane : target });
+        });
+
+        lanes.forEach((hash, i) => {
+            if (hash !== null && before[i] === hash) {
+                bottom.push({ from: i, to: i, color: i });
+            }
+        });
+
+        // Drop trailing empty lanes so the graph doesn't keep growing
+        while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+
+        rows.push({
+            lane,
+            top,
+            bottom,
+            width: Math.max(before.length, lanes.length, lane + 1),
+        });
+    }
+
+    return rows;
+}
@@ -0,0 +1,72 @@
+/**
+ * Parsing and rewriting of git conflict markers (merge and diff3 styles).
+ */
+
+export interface ConflictBlock {
+    /** Line index of the `<<<<<<<` marker */
+    start: number;
+    /** Line index of the `>>>>>>>` marker */
+    end: number;
+    ours: string[];
+    /** Only present for diff3-style markers */
+    base: string[] | null;
+    theirs: string[];
+}
+
+export type BlockResolution = 'ours' | 'theirs' | 'base' | 'ours-theirs' | 'theirs-ours';
+
+const isMarker = (line: string, marker: string) =>
+    line.startsWith(marker) && (line.length === 7 || line[7] === ' ' || line[7] === '\r');
+
+export function parseConflictBlocks(text: string): ConflictBlock[] {
+    const lines = text.split('\n');
+    const blocks: ConflictBlock[] = [];
+    let current: ConflictBlock | null = null;
+    let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+    lines.forEach((line, i) => {
+        if (isMarker(line, '<<<<<<<')) {
+            current = { start: i, end: i, ours: [], base: null, theirs: [] };
+            section = 'ours';
+            return;
+        }
+        if (!current) return;
+
+        if (section === 'ours' && isMarker(line, '|||||||')) {
+            current.base = [];
+            section = 'base';
+        } else if (section !== 'theirs' && isMarker(line, '=======')) {
+            section = 'theirs';
+        } else if (section === 'theirs' && isMarker(line, '>>>>>>>')) {
+            current.end = i;
+            blocks.push(current);
+            current = null;
+        } else if (section === 'base') {
+            current.base!.push(line);
+        } else {
+            current[section].push(line);
+        }
+    });
+
+    return blocks;
+}
+
+/**
+ * Replaces one conflict block (by index) in the text with the chosen side(s).
+ */
+export function resolveConflictBlock(text: string, index: number, resolution: BlockResolution): string {
+    const block = parseConflictBlocks(text)[index];
+    if (!block) return text;
+
+    const replacement: Record<BlockResolution, string[]> = {
+        ours: block.ours,
+        theirs: block.theirs,
+        base: block.base ?? [],
+        'ours-theirs': [...block.ours, ...block.theirs],
+        'theirs-ours': [...block.theirs, ...block.ours],
+    };
+
+    const lines = text.split('\n');
+    lines.splice(block.start, block.end - block.start + 1, ...replacement[resolution]);
+    return lines.join('\n');
+}
@@ -72,11 +72,39 @@ export function registerDefaultCommands() {
             isAvailable: () => !!useRepoStore.getState().activeRepoPath,
             handler: () => useRepoStore.getState().popStash(),
         },
+        {
+            id: 'git:stash-manager', label: 'Manage Stashes', category: 'git', keywords: ['stash', 'apply', 'drop'],
+            isAvailable: () => !!useRepoStore.getState().activeRepoPath,
+            handler: () => useUIStore.getState().openModal('stash-manager', null),
+        },
+        {
+            id: 'git:edit-gitignore', label: 'Edit Ignore Rules', category: 'git', keywords: ['gitignore', 'exclude', 'check-ignore'],
+            isAvailable: () => !!useRepoStore.getState().activeRepoPath,
+            handler: () => useUIStore.getState().openModal('gitignore', null),
+        },
         {
             id: 'git:undo', label: 'Undo Last Commit', category: 'git', keywords: ['soft reset'],
             isAvailable: () => !!useRepoStore.getState().activeRepoPath,
             handler: () => useRepoStore.getState().undoLastCommit(),
         },
+        {
+            id: 'git:undo-operation', label: 'Undo Last Operation', category: 'git', keywords: ['undo', 'restore', 'journal'],
+            isAvailable: () => useRepoStore.getState().undoEntries.length > 0,
+            handler: () => useRepoStore.getState().undoOperation(),
+        },
+        {
+            id: 'git:continue-operation', label: 'Continue Merge / Rebase / Cherry-pick', category: 'git', keywords: ['continue', 'conflict', 'resolve'],
+            isAvailable: () => {
+                const state = useRepoStore.getState().operationState;
+                return !!state?.operation && state.conflicts.length === 0;
+            },
+            handler: () => useRepoStore.getState().continueOperation(),
+        },
+        {
+            id: 'git:abort-operation', label: 'Abort Merge / Rebase / Cherry-pick', category: 'git', keywords: ['abort', 'conflict', 'cancel'],
+            isAvailable: () => !!useRepoStore.getState().operationState?.operation,
+            handler: () => useRepoStore.getState().abortOperation(),
+        },
         {
             id: 'git:revert', label: 'Revert Last Commit', category: 'git', shortcut: 'Ctrl+Shift+R', keywords: ['undo'],
             isAvailable: () => !!useRepoStore.getState().activeRepoPath,
@@ -111,6 +139,11 @@ export function registerDefaultCommands() {
                 useCommandPaletteStore.getState().openMacroEditor();
             },
         },
+        {
+            id: 'view:undo-history', label: 'Open Undo History', category: 'view', keywords: ['undo', 'restore', 'journal'],
+            isAvailable: () => !!useRepoStore.getState().activeRepoPath,
+            handler: () => useUIStore.getState().openModal('undo-history', null),
+        },
         {
             id: 'view:time-machine', label: 'Open Time Machine', category: 'view', keywords: ['reflog', 'restore', 'history'],
             isAvailable: () => !!useRepoStore.getState().activeRepoPath,
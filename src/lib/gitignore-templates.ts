@@ -0,0 +1,171 @@
+/**
+ * Bundled .gitignore templates, so the ignore editor works offline.
+ * Trimmed versions of the common github/gitignore entries.
+ */
+
+export interface GitignoreTemplate {
+    name: string;
+    content: string;
+}
+
+export const GITIGNORE_TEMPLATES: GitignoreTemplate[] = [
+    {
+        name: 'Node',
+        content: `# Node
+node_modules/
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+.npm
+.yarn/cache
+.pnp.*
+dist/
+build/
+coverage/
+.env
+.env.*.local
+*.tsbuildinfo
+`,
+    },
+    {
+        name: 'Python',
+        content: `# Python
+__pycache__/
+*.py[cod]
+*.so
+.Python
+build/
+dist/
+*.egg-info/
+.eggs/
+.venv/
+venv/
+env/
+.pytest_cache/
+.mypy_cache/
+.coverage
+htmlcov/
+.ipynb_checkpoints
+`,
+    },
+    {
+        name: 'Java',
+        content: `# Java
+*.class
+*.jar
+*.war
+*.ear
+hs_err_pid*
+target/
+.gradle/
+build/
+out/
+`,
+    },
+    {
+        name: 'Go',
+        content: `# Go
+*.exe
+*.exe~
+*.dll
+*.so
+*.dylib
+*.test
+*.out
+vendor/
+go.work
+`,
+    },
+    {
+        name: 'Rust',
+        content: `# Rust
+target/
+**/*.rs.bk
+*.pdb
+`,
+    },
+    {
+        name: 'C / C++',
+        content: `# C / C++
+*.o
+*.obj
+*.a
+*.lib
+*.so
+*.dylib
+*.dll
+*.exe
+*.out
+*.d
+build/
+cmake-build-*/
+CMakeFiles/
+CMakeCache.txt
+`,
+    },
+    {
+        name: '.NET',
+        content: `# .NET
+bin/
+obj/
+*.user
+*.suo
+*.userprefs
+.vs/
+packages/
+TestResults/
+*.nupkg
+`,
+    },
+    {
+        name: 'macOS',
+        content: `# macOS
+.DS_Store
+.AppleDouble
+.LSOverride
+._*
+.Spotlight-V100
+.Trashes
+`,
+    },
+    {
+        name: 'Windows',
+        content: `# Windows
+Thumbs.db
+ehthumbs.db
+Desktop.ini
+$RECYCLE.BIN/
+*.lnk
+`,
+    },
+    {
+        name: 'Linux',
+        content: `# Linux
+*~
+.directory
+.Trash-*
+.nfs*
+`,
+    },
+    {
+        name: 'VS Code',
+        content: `# VS Code
+.vscode/*
+!.vscode/settings.json
+!.vscode/tasks.json
+!.vscode/launch.json
+!.vscode/extensions.json
+*.code-workspace
+`,
+    },
+    {
+        name: 'JetBrains',
+        content: `# JetBrains
+.idea/
+*.iml
+*.iws
+out/
+`,
+    },
+];
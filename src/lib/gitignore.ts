@@ -0,0 +1,61 @@
+/**
+ * Builds .gitignore rules for the ignore actions on untracked files.
+ */
+
+import type { IgnoreTarget } from '../stores/repo.store';
+
+export type IgnoreKind = 'file' | 'extension' | 'folder';
+
+export interface IgnoreRule {
+    pattern: string;
+    /** Repo-relative directory of the .gitignore the pattern is written for */
+    dir: string;
+}
+
+function dirname(p: string): string {
+    const index = p.lastIndexOf('/');
+    return index === -1 ? '' : p.slice(0, index);
+}
+
+function escapePattern(p: string): string {
+    return p.replace(/[*?[\]\\]/g, '\\$&').replace(/ $/, '\\ ');
+}
+
+/** `.ext` of a status entry, or null for folders and extension-less files */
+export function extensionOf(entry: string): string | null {
+    if (entry.endsWith('/')) return null;
+    const name = entry.slice(entry.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot) : null;
+}
+
+/** Folder an "ignore folder" action targets: the entry itself for untracked dirs, else its parent */
+export function folderOf(entry: string): string | null {
+    if (entry.endsWith('/')) return entry.slice(0, -1);
+    return dirname(entry) || null;
+}
+
+/**
+ * Pattern that ignores `entry` (a path from git status; untracked folders
+ * end with `/`), relative to the .gitignore it will be written to.
+ * Returns null when the kind doesn't apply to the entry.
+ */
+export function ignoreRuleFor(entry: string, kind: IgnoreKind, target: IgnoreTarget): IgnoreRule | null {
+    const isDir = entry.endsWith('/');
+    const clean = isDir ? entry.slice(0, -1) : entry;
+
+    if (kind === 'extension') {
+        const ext = extensionOf(entry);
+        if (!ext) return null;
+        // Unanchored, so it applies to everything below the .gitignore
+        return { pattern: `*${escapePattern(ext)}`, dir: target === 'nested' ? dirname(clean) : '' };
+    }
+
+    const subject = kind === 'folder' ? folderOf(entry) : clean;
+    if (!subject) return null;
+
+    const dir = target === 'nested' ? dirname(subject) : '';
+    const relative = dir ? subject.slice(dir.length + 1) : subject;
+    const trailing = kind === 'folder' || isDir ? '/' : '';
+    return { pattern: `/${escapePattern(relative)}${trailing}`, dir };
+}
@@ -0,0 +1,143 @@
+/**
+ * Unified diff parsing and partial patch building for hunk/line staging.
+ */
+
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove' | 'meta';
+    content: string;
+}
+
+export interface DiffHunk {
+    header: string;
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+    lines: DiffLine[];
+}
+
+export interface FileDiff {
+    /** Lines from `diff --git` up to (not including) the first hunk */
+    header: string[];
+    path: string;
+    isBinary: boolean;
+    hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Splits `git diff` output into files and hunks.
+ */
+export function parseDiff(text: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    let file: FileDiff | null = null;
+    let hunk: DiffHunk | null = null;
+
+    for (const line of text.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            const match = line.match(/ b\/(.+)$/);
+            file = { header: [line], path: match ? match[1] : '', isBinary: false, hunks: [] };
+            files.push(file);
+            hunk = null;
+            continue;
+        }
+        if (!file) continue;
+
+        const header = line.match(HUNK_HEADER);
+        if (header) {
+            hunk = {
+                header: line,
+                oldStart: parseInt(header[1], 10),
+                oldCount: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+                newStart: parseInt(header[3], 10),
+                newCount: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+                lines: [],
+            };
+            file.hunks.push(hunk);
+            continue;
+        }
+
+        if (!hunk) {
+            if (line.startsWith('Binary files ')) file.isBinary = true;
+            if (line) file.header.push(line);
+            continue;
+        }
+
+        if (line.startsWith('+')) {
+            hunk.lines.push({ type: 'add', content: line.slice(1) });
+        } else if (line.startsWith('-')) {
+            hunk.lines.push({ type: 'remove', content: line.slice(1) });
+        } else if (line.startsWith(' ')) {
+            hunk.lines.push({ type: 'context', content: line.slice(1) });
+        } else if (line.startsWith('\\')) {
+            hunk.lines.push({ type: 'meta', content: line });
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Builds a patch containing one hunk, optionally limited to the selected
+ * line indexes. Unselected changes are turned into context (or dropped)
+ * depending on which side the patch will be applied to: forward patches
+ * apply to the old side, `reverse` patches to the new side.
+ */
+export function buildHunkPatch(
+    file: FileDiff,
+    hunk: DiffHunk,
+    options: { selected?: Set<number>; reverse?: boolean } = {}
+): string | null {
+    const { selected, reverse = false } = options;
+    const out: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let changes = 0;
+    let lastKept = false;
+
+    hunk.lines.forEach((line, i) => {
+        const isSelected = !selected || selected.has(i);
+
+        if (line.type === 'meta') {
+            // "\ No newline at end of file" belongs to the line before it
+            if (lastKept) out.push(line.content);
+            return;
+        }
+
+        if (line.type === 'context') {
+            out.push(` ${line.content}`);
+            oldCount++;
+            newCount++;
+            lastKept = true;
+            return;
+        }
+
+        if (isSelected) {
+            out.push(`${line.type === 'add' ? '+' : '-'}${line.content}`);
+            if (line.type === 'add') newCount++;
+            else oldCount++;
+            changes++;
+            lastKept = true;
+            return;
+        }
+
+        // Unselected change: keep the line only if it exists on the base side
+        const existsOnBase = reverse ? line.type === 'add' : line.type === 'remove';
+        if (existsOnBase) {
+            out.push(` ${line.content}`);
+            oldCount++;
+            newCount++;
+        }
+        lastKept = existsOnBase;
+    });
+
+    if (changes === 0) return null;
+
+    const header = `@@ -${hunk.oldStart},${oldCount} +${hunk.newStart},${newCount} @@`;
+    return [...file.header, header, ...out].join('\n') + '\n';
+}
+
+export function isChangeLine(line: DiffLine): boolean {
+    return line.type === 'add' || line.type === 'remove';
+}
@@ -11,22 +11,36 @@ export interface Account {
     token?: string; // OAuth token (populated when loaded from auth service)
 }
 
+export interface SigningConfig {
+    format: 'openpgp' | 'ssh';
+    /** GPG key id, or path to the SSH public key */
+    key: string;
+    signCommits: boolean;
+    signTags: boolean;
+}
+
+const STORAGE_KEY_SIGNING = 'signing-configs';
+
 interface AccountState {
     accounts: Account[];
     activeAccountId: string | null;
     isLoading: boolean;
+    /** Commit/tag signing setup, keyed by account id */
+    signingConfigs: Record<string, SigningConfig>;
 
     setActiveAccount: (id: string) => void;
     addAccount: (account: Account) => void;
     removeAccount: (id: string) => void;
     setAccounts: (accounts: Account[]) => void;
     loadAccounts: () => Promise<void>;
+    setSigningConfig: (accountId: string, config: SigningConfig | null) => Promise<void>;
 }
 
 export const useAccountStore = create<AccountState>((set, get) => ({
     accounts: [],
     activeAccountId: null,
     isLoading: false,
+    signingConfigs: {},
 
     setActiveAccount: (id) => set({ activeAccountId: id }),
 
@@ -58,6 +72,11 @@ export const useAccountStore = create<AccountState>((set, get) => ({
         set({ isLoading: true });
         try {
             const api = (window as any).electronAPI;
+            const signingConfigs = await api?.storage?.get(STORAGE_KEY_SIGNING);
+            if (signingConfigs && typeof signingConfigs === 'object') {
+                set({ signingConfigs });
+            }
+
             if (api?.auth) {
                 const accounts = await api.auth.getAccounts();
 
@@ -84,4 +103,13 @@ export const useAccountStore = create<AccountState>((set, get) => ({
             set({ isLoading: false });
         }
     },
+
+    setSigningConfig: async (accountId, config) => {
+        const signingConfigs = { ...get().signingConfigs };
+        if (config) signingConfigs[accountId] = config;
+        else delete signingConfigs[accountId];
+
+        set({ signingConfigs });
+        await (window as any).electronAPI.storage.set(STORAGE_KEY_SIGNING, signingConfigs);
+    },
 }));
@@ -12,11 +12,27 @@ export interface ActivityLogEntry {
     errorMessage?: string;
 }
 
+export interface QueuedCommand {
+    id: string;
+    command: string;
+    queuedAt: number;
+}
+
+/** Mutating git commands running or waiting on one repository */
+export interface RepoQueueState {
+    repoPath: string;
+    running: QueuedCommand | null;
+    pending: QueuedCommand[];
+}
+
 interface ActivityState {
     entries: ActivityLogEntry[];
     addEntry: (entry: ActivityLogEntry) => void;
     updateEntry: (id: string, updates: Partial<ActivityLogEntry>) => void;
     clearEntries: () => void;
+
+    queues: RepoQueueState[];
+    setQueueState: (state: RepoQueueState) => void;
 }
 
 const MAX_ENTRIES = 500;
@@ -37,4 +53,13 @@ export const useActivityStore = create<ActivityState>((set) => ({
         })),
 
     clearEntries: () => set({ entries: [] }),
+
+    queues: [],
+
+    setQueueState: (queue) =>
+        set((state) => {
+            const others = state.queues.filter((q) => q.repoPath !== queue.repoPath);
+            const isIdle = !queue.running && queue.pending.length === 0;
+            return { queues: isIdle ? others : [...others, queue] };
+        }),
 }));
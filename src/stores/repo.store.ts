@@ -13,6 +13,10 @@ export interface RepoInfo {
     accountId?: string;
     remoteUrl?: string;
     dirty?: boolean;
+    /** Path of the main repository when this entry is one of its linked worktrees */
+    worktreeOf?: string;
+    /** Path of the superproject when this entry is one of its submodules */
+    submoduleOf?: string;
 }
 
 export interface FileStatus {
@@ -20,8 +24,15 @@ export interface FileStatus {
     status: 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflict';
     staged: boolean;
     oldPath?: string;
+    submodule?: { commitChanged: boolean; modified: boolean; untracked: boolean };
+    /** Set for conflicted paths; how each side changed the file */
+    conflict?: ConflictKind;
 }
 
+export type ConflictKind =
+    | 'both-modified' | 'both-added' | 'both-deleted'
+    | 'added-by-us' | 'added-by-them' | 'deleted-by-us' | 'deleted-by-them';
+
 export interface CommitInfo {
     hash: string;
     shortHash: string;
@@ -30,6 +41,19 @@ export interface CommitInfo {
     email: string;
     date: string;
     refs: string;
+    parents: string[];
+}
+
+export interface CommitSignature {
+    status: 'verified' | 'unverified' | 'unsigned';
+    code: string;
+    signer: string;
+    key: string;
+}
+
+export interface LogFilter {
+    scope: 'head' | 'all' | 'branch';
+    branch?: string;
 }
 
 export interface BranchInfo {
@@ -37,6 +61,10 @@ export interface BranchInfo {
     current: boolean;
     remote: boolean;
     lastCommit?: string;
+    upstream?: string;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean;
 }
 
 export interface TagInfo {
@@ -54,6 +82,285 @@ export interface BlameInfo {
     email: string;
     date: string;
     message: string;
+    /** Parent commit and path to blame next, absent for lines added in a root commit */
+    previousHash?: string;
+    previousPath?: string;
+}
+
+export interface CloneOptions {
+    /** Truncate history to this many commits */
+    depth?: number;
+    singleBranch?: boolean;
+    /** Branch or tag to clone instead of the remote's default */
+    branch?: string;
+    /** Partial clone: blob:none fetches blobs on demand, tree:0 trees as well */
+    filter?: 'blob:none' | 'tree:0';
+    /** Directories for an initial cone-mode sparse checkout */
+    sparsePaths?: string[];
+}
+
+export interface AmendInfo {
+    /** Full message of HEAD, to prefill the amend */
+    message: string;
+    author: string;
+    email: string;
+    /** Upstream that already contains HEAD; amending then needs a force push */
+    pushedTo?: string;
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard' | 'keep' | 'merge';
+
+/** What resetting the current branch to a commit would change */
+export interface ResetPreview {
+    /** Branch being moved, absent on a detached HEAD */
+    branch?: string;
+    /** Commits leaving the branch, newest first (capped) */
+    commitsRemoved: CommitInfo[];
+    removedCount: number;
+    /** Removed commits no other branch, remote branch or tag contains */
+    unreachable: string[];
+    /** Commits the branch gains when the target is ahead of HEAD */
+    addedCount: number;
+    /** Files whose uncommitted changes the reset throws away */
+    discardedFiles: string[];
+    /** Files with local changes that make a keep or merge reset refuse to run */
+    blockingFiles: string[];
+}
+
+export interface FileHistoryEntry extends CommitInfo {
+    /** Path of the file as of this commit */
+    path: string;
+    /** Path before this commit when it renamed the file */
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+}
+
+export interface StashEntry {
+    index: number;
+    ref: string;
+    hash: string;
+    message: string;
+    branch: string;
+    date: string;
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+    action: RebaseAction;
+    hash: string;
+    message?: string;
+}
+
+export interface RebaseCommit extends CommitInfo {
+    /** Subject and body, to prefill a reword */
+    fullMessage: string;
+}
+
+export type SequencerOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+/** A merge, rebase, cherry-pick or revert that stopped halfway */
+export interface OperationState {
+    operation: SequencerOperation | null;
+    /** Branch or commit being merged, picked or reverted; the new base of a rebase */
+    target?: string;
+    /** Branch being rebased */
+    headName?: string;
+    step?: number;
+    total?: number;
+    /** Why a rebase stopped; `edit` waits for the commit at `stoppedAt` to be amended */
+    stopReason?: 'edit' | 'conflict' | 'other';
+    stoppedAt?: string;
+    /** Todo lines a rebase has yet to apply */
+    remaining?: string[];
+    conflicts: { path: string; kind: ConflictKind }[];
+    /** Commit message git prepared in MERGE_MSG */
+    message?: string;
+}
+
+export interface CommitSearchQuery {
+    /** Regex matched against the commit message */
+    message?: string;
+    /** Regex matched against author name and email */
+    author?: string;
+    since?: string;
+    until?: string;
+    path?: string;
+    /** Diff content: a string whose count changed (-S), or a regex (-G) */
+    content?: string;
+    contentMode?: 'string' | 'regex';
+    ignoreCase?: boolean;
+    all?: boolean;
+    maxCount?: number;
+}
+
+export interface CommitSearchResult {
+    count: number;
+    truncated: boolean;
+    cancelled: boolean;
+}
+
+export type CompareMode = 'two-dot' | 'three-dot';
+
+export interface CompareFile {
+    path: string;
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    /** Null for binary files */
+    additions: number | null;
+    deletions: number | null;
+}
+
+export interface CompareResult {
+    base: string;
+    head: string;
+    /** Commits in head but not in base */
+    ahead: CommitInfo[];
+    /** Commits in base but not in head */
+    behind: CommitInfo[];
+    aheadCount: number;
+    behindCount: number;
+    mergeBase: string | null;
+    /** Left side of the file diffs */
+    diffFrom: string;
+    files: CompareFile[];
+}
+
+export type PatchApplyMode = 'am' | 'apply';
+
+export interface PatchApplyResult {
+    applied: number;
+    conflicts: string[];
+    inProgress: boolean;
+}
+
+export interface AmStatus {
+    inProgress: boolean;
+    current: number;
+    total: number;
+    subject?: string;
+    conflicts: string[];
+}
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface BisectStatus {
+    inProgress: boolean;
+    bad?: string;
+    good: string[];
+    skipped: string[];
+    current?: string;
+    remaining: number;
+    steps: number;
+    firstBad?: string;
+    output?: string;
+}
+
+export interface SubmoduleInfo {
+    path: string;
+    name: string;
+    url: string;
+    recordedCommit: string;
+    checkedOutCommit: string | null;
+    state: 'uninitialized' | 'clean' | 'changed' | 'conflict';
+    describe?: string;
+}
+
+export interface WorktreeInfo {
+    path: string;
+    head: string;
+    branch?: string;
+    isMain: boolean;
+    bare: boolean;
+    detached: boolean;
+    locked: boolean;
+    prunable: boolean;
+}
+
+export interface HookInfo {
+    name: string;
+    path: string;
+    enabled: boolean;
+    sample: boolean;
+    shadowed: boolean;
+}
+
+export interface HooksOverview {
+    activeDir: string;
+    hooksPath?: string;
+    hooks: HookInfo[];
+}
+
+export interface HookFailure {
+    operation: 'commit' | 'push';
+    hook: string;
+    exitCode: number;
+    output: string;
+}
+
+export interface GitProgress {
+    operationId: string;
+    phase: string;
+    percent?: number;
+    current?: number;
+    total?: number;
+    message: string;
+}
+
+/** Pre-state of an app-initiated git operation, recorded so it can be undone */
+export interface UndoEntry {
+    id: string;
+    operation: string;
+    description: string;
+    createdAt: number;
+    head?: { branch: string | null; hash: string | null; restore: 'soft' | 'mixed' | 'keep' };
+    refs?: { ref: string; hash: string | null }[];
+    refPrefix?: string;
+    files?: { path: string; blob: string | null; mode?: number }[];
+    conflicts?: string[];
+    stash?: { hash: string; subject: string };
+    createdStash?: { hash: string; subject: string };
+    remote?: { name: string; config: [string, string][] };
+    renamedRemote?: { from: string; to: string };
+    config?: { key: string; values: string[] }[];
+    submodules?: { path: string; head: { branch: string | null; hash: string | null; restore: 'soft' | 'mixed' | 'keep' } }[];
+    worktree?: { path: string; branch: string | null; hash: string | null; files: { path: string; blob: string | null; mode?: number }[] };
+}
+
+/** A running clone/fetch/pull/push, shown with its progress and a Cancel button */
+export interface GitOperation {
+    id: string;
+    label: string;
+    progress?: GitProgress;
+}
+
+export interface RemoteInfo {
+    name: string;
+    fetchUrl: string;
+    pushUrl: string;
+}
+
+/** Remotes that pull/sync and push use, e.g. upstream and origin in a fork */
+export interface RemoteTargets {
+    pull: string;
+    push: string;
+}
+
+export type IgnoreTarget = 'root' | 'nested' | 'exclude';
+
+export interface IgnoreFile {
+    path: string;
+    label: string;
+    exists: boolean;
+    local: boolean;
+}
+
+export interface IgnoreMatch {
+    path: string;
+    ignored: boolean;
+    source?: string;
+    line?: number;
+    pattern?: string;
 }
 
 interface RepoState {
@@ -83,7 +390,7 @@ interface RepoState {
     // Blame
     blameData: BlameInfo[] | null;
     isLoadingBlame: boolean;
-    loadBlame: (file: string) => Promise<void>;
+    loadBlame: (file: string, rev?: string) => Promise<void>;
     clearBlame: () => void;
 
     // Actions
@@ -95,7 +402,7 @@ interface RepoState {
 
     // Cloud repo actions
     loadCloudRepos: (token: string) => Promise<void>;
-    cloneRepo: (url: string, token: string, options?: { localPath?: string; checkoutRef?: string }) => Promise<void>;
+    cloneRepo: (url: string, token: string, options?: { localPath?: string; checkoutRef?: string; clone?: CloneOptions }) => Promise<void>;
     createRepo: (options: {
         type: 'local' | 'github' | 'both';
         name: string;
@@ -130,13 +437,34 @@ interface RepoState {
     refreshStatus: () => Promise<void>;
     refreshBranches: () => Promise<void>;
     refreshLog: () => Promise<void>;
+    logFilter: LogFilter;
+    hasMoreCommits: boolean;
+    isLoadingMoreCommits: boolean;
+    setLogFilter: (filter: LogFilter) => void;
+    loadMoreCommits: () => Promise<void>;
+    /** Verified lazily, only for the commits a history row shows */
+    signatures: Record<string, CommitSignature>;
+    loadSignature: (hash: string) => void;
+    /** Active repo is a shallow clone with truncated history */
+    isShallow: boolean;
+    isDeepening: boolean;
+    refreshShallow: () => Promise<void>;
+    fetchMoreHistory: (depth?: number) => Promise<void>;
     loadDiff: (file?: string) => Promise<void>;
+    diffSections: { file: string; staged: string; unstaged: string } | null;
+    loadDiffSections: (file: string) => Promise<void>;
+    applyPatch: (patch: string, action: 'stage' | 'unstage' | 'discard') => Promise<void>;
     stageFiles: (files: string[]) => Promise<void>;
     unstageFiles: (files: string[]) => Promise<void>;
-    commitChanges: (message: string) => Promise<void>;
-    commitAndPush: (message: string) => Promise<void>;
-    pushOnly: () => Promise<void>;
+    commitChanges: (message: string, options?: { noVerify?: boolean }) => Promise<void>;
+    commitAndPush: (message: string, options?: { noVerify?: boolean }) => Promise<void>;
+    pushOnly: (options?: { noVerify?: boolean }) => Promise<void>;
     syncRepo: (token: string) => Promise<{ success: boolean; error?: string; conflicts?: string[] }>;
+    isFetching: boolean;
+    /** Background fetch interval in minutes, 0 when off */
+    autoFetchMinutes: number;
+    setAutoFetchInterval: (minutes: number) => Promise<void>;
+    fetchRepo: (options?: { prune?: boolean; all?: boolean; remote?: string }) => Promise<void>;
     checkoutBranch: (branch: string, create?: boolean) => Promise<void>;
     publishBranch: (token: string) => Promise<void>;
     deleteBranch: (branch: string) => Promise<void>;
@@ -144,14 +472,29 @@ interface RepoState {
     mergeBranch: (branch: string) => Promise<void>;
     rebaseBranch: (branch: string) => Promise<void>;
     deleteRemoteBranch: (remote: string, branch: string, token: string) => Promise<void>;
-    stashChanges: () => Promise<void>;
-    popStash: () => Promise<void>;
+    stashChanges: (options?: { message?: string; files?: string[]; includeUntracked?: boolean }) => Promise<void>;
+    popStash: (ref?: string) => Promise<void>;
+
+    // Stash manager
+    stashes: StashEntry[];
+    isLoadingStashes: boolean;
+    loadStashes: () => Promise<void>;
+    applyStash: (ref: string) => Promise<void>;
+    dropStash: (ref: string) => Promise<void>;
+    renameStash: (ref: string, message: string) => Promise<void>;
+    branchFromStash: (ref: string, branch: string) => Promise<void>;
     discardChanges: (file: string) => Promise<void>;
     cleanFile: (file: string) => Promise<void>;
+    addIgnoreRule: (pattern: string, target: IgnoreTarget, dir?: string) => Promise<void>;
     resolveConflict: (file: string, strategy: 'theirs' | 'ours') => Promise<void>;
+    conflictVersions: { file: string; base: string | null; ours: string | null; theirs: string | null; merged: string } | null;
+    loadConflictVersions: (file: string) => Promise<void>;
+    markConflictResolved: (file: string, content: string) => Promise<void>;
     revertLastCommit: () => Promise<void>;
     undoLastCommit: () => Promise<void>;
     deleteLastCommit: () => Promise<void>;
+    loadResetPreview: (target: string, mode: ResetMode) => Promise<ResetPreview>;
+    resetToCommit: (target: string, mode: ResetMode) => Promise<void>;
     checkoutCommit: (hash: string) => Promise<void>;
 
     // Tags
@@ -168,6 +511,71 @@ interface RepoState {
     // Squash / Reword
     squashCommits: (count: number, message: string) => Promise<void>;
     rewordCommit: (message: string) => Promise<void>;
+    amendCommit: (message: string, options?: { resetAuthor?: boolean; noVerify?: boolean }) => Promise<void>;
+
+    // Interactive Rebase; a paused one is continued through the in-progress operation actions
+    loadRebaseCommits: (fromHash: string) => Promise<RebaseCommit[]>;
+    interactiveRebase: (fromHash: string, todo: RebaseTodoItem[]) => Promise<void>;
+
+    // In-progress Operations
+    operationState: OperationState | null;
+    refreshOperationState: () => Promise<OperationState | null>;
+    continueOperation: () => Promise<void>;
+    skipOperation: () => Promise<void>;
+    abortOperation: () => Promise<void>;
+
+    // Patches
+    amStatus: AmStatus | null;
+    refreshAmStatus: () => Promise<void>;
+    exportPatches: (fromHash: string, toHash: string, format: 'files' | 'mbox') => Promise<void>;
+    importPatches: (files: string[], mode: PatchApplyMode, threeWay: boolean) => Promise<PatchApplyResult | null>;
+    continueAm: () => Promise<void>;
+    skipAm: () => Promise<void>;
+    abortAm: () => Promise<void>;
+
+    // Bisect
+    bisectStatus: BisectStatus | null;
+    refreshBisectStatus: () => Promise<void>;
+    startBisect: (bad: string, good: string) => Promise<void>;
+    markBisect: (verdict: BisectVerdict) => Promise<void>;
+    runBisect: (command: string) => Promise<void>;
+    resetBisect: () => Promise<void>;
+
+    // Submodules
+    submodules: SubmoduleInfo[];
+    loadSubmodules: () => Promise<void>;
+    updateSubmodules: (options?: { init?: boolean; recursive?: boolean; paths?: string[] }) => Promise<void>;
+    syncSubmodules: () => Promise<void>;
+    openSubmodule: (submodulePath: string) => void;
+
+    // Worktrees
+    worktrees: WorktreeInfo[];
+    isLoadingWorktrees: boolean;
+    loadWorktrees: () => Promise<void>;
+    addWorktree: (worktreePath: string, branch: string, options?: { createBranch?: boolean; startPoint?: string }) => Promise<void>;
+    removeWorktree: (worktreePath: string, force?: boolean) => Promise<void>;
+    pruneWorktrees: () => Promise<void>;
+
+    // Remotes
+    remotes: RemoteInfo[];
+    remoteTargets: RemoteTargets;
+    loadRemotes: () => Promise<void>;
+    addRemote: (name: string, url: string) => Promise<void>;
+    renameRemote: (oldName: string, newName: string) => Promise<void>;
+    removeRemote: (name: string) => Promise<void>;
+    setRemoteUrl: (name: string, url: string, pushOnly?: boolean) => Promise<void>;
+    setRemoteTargets: (targets: RemoteTargets) => Promise<void>;
+
+    // Long-running operations
+    operations: GitOperation[];
+    updateOperationProgress: (progress: GitProgress) => void;
+    cancelOperation: (operationId: string) => Promise<void>;
+
+    // Undo journal
+    undoEntries: UndoEntry[];
+    loadUndoJournal: () => Promise<void>;
+    undoOperation: (entryId?: string) => Promise<void>;
+    clearUndoJournal: () => Promise<void>;
 
     // Monaco Diff
     diffCtx: { original: string; modified: string; language: string; file: string } | null;
@@ -185,13 +593,25 @@ const api = () => (window as any).electronAPI;
 
 const STORAGE_KEY_REPOS = 'saved-repos';
 const STORAGE_KEY_ACTIVE = 'active-repo';
+const STORAGE_KEY_AUTO_FETCH = 'auto-fetch-minutes';
+const STORAGE_KEY_REMOTE_TARGETS = 'remote-targets';
+const DEFAULT_REMOTE_TARGETS: RemoteTargets = { pull: 'origin', push: 'origin' };
+const DEFAULT_AUTO_FETCH_MINUTES = 0;
+
+const LOG_PAGE_SIZE = 100;
+
+function logOptions(filter: LogFilter): { all?: boolean; ref?: string } {
+    if (filter.scope === 'all') return { all: true };
+    if (filter.scope === 'branch' && filter.branch) return { ref: filter.branch };
+    return {};
+}
 
 // Persist repos + activeRepoPath to disk (fire-and-forget)
 function persistRepos(repos: RepoInfo[], activeRepoPath: string | null) {
     try {
         // Only persist the fields we need (strip runtime state)
-        const toSave = repos.map(({ name, path, branch, remoteUrl, accountId, lastOpened }) => ({
-            name, path, branch, remoteUrl, accountId, lastOpened,
+        const toSave = repos.map(({ name, path, branch, remoteUrl, accountId, lastOpened, worktreeOf, submoduleOf }) => ({
+            name, path, branch, remoteUrl, accountId, lastOpened, worktreeOf, submoduleOf,
         }));
         api().storage.set(STORAGE_KEY_REPOS, toSave);
         api().storage.set(STORAGE_KEY_ACTIVE, activeRepoPath);
@@ -200,6 +620,93 @@ function persistRepos(repos: RepoInfo[], activeRepoPath: string | null) {
     }
 }
 
+// Git reports worktree paths with forward slashes, saved repos may use backslashes.
+// Case only matters on file systems that are case-sensitive (Linux by default).
+function samePath(a: string, b: string) {
+    const ignoreCase = ['win32', 'darwin'].includes(api().platform);
+    const normalize = (p: string) => {
+        const path = p.replace(/\\/g, '/').replace(/\/+$/, '');
+        return ignoreCase ? path.toLowerCase() : path;
+    };
+    return normalize(a) === normalize(b);
+}
+
+// A hook rejecting a commit/push gets the structured failure view instead of a toast
+async function reportHookFailure(repoPath: string, retry: () => Promise<void>): Promise<boolean> {
+    const failure: HookFailure | null = await api().git.lastHookFailure(repoPath).catch(() => null);
+    if (!failure) return false;
+    useUIStore.getState().showHookFailure(failure, retry);
+    return true;
+}
+
+export const OPERATION_LABELS: Record<SequencerOperation, string> = {
+    merge: 'Merge',
+    rebase: 'Rebase',
+    'cherry-pick': 'Cherry-pick',
+    revert: 'Revert',
+};
+
+// Stopping on conflicts leaves the operation for the banner to finish, which is not a failure
+async function reportStoppedOperation(error: any, stashed = false): Promise<boolean> {
+    const state = await useRepoStore.getState().refreshOperationState();
+    const notify = useUIStore.getState().showNotification;
+    if (!state?.operation) {
+        notify('error', error.message);
+        return false;
+    }
+    const note = stashed ? ' Your local changes were stashed; pop them once it is finished.' : '';
+    notify('error', `${OPERATION_LABELS[state.operation]} stopped with ${state.conflicts.length} conflicted file(s).${note}`);
+    return true;
+}
+
+// A continue or skip can stop again on the next commit
+function notifyOperationResult(label: string, state: OperationState) {
+    const notify = useUIStore.getState().showNotification;
+    if (!state.operation) {
+        notify('success', `${label} complete`);
+    } else if (state.conflicts.length > 0) {
+        notify('error', `${label} stopped with ${state.conflicts.length} conflicted file(s)`);
+    } else if (state.stopReason === 'edit') {
+        notify('info', `${label} paused at ${state.stoppedAt?.slice(0, 7) ?? 'commit'} for editing`);
+    } else {
+        notify('info', `${label} paused`);
+    }
+}
+
+let operationCounter = 0;
+
+// Commits whose rows came into view, verified together on the next tick
+const pendingSignatures = new Set<string>();
+let signatureTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Registers a streaming git operation for the progress panel while `run` is in flight
+async function runOperation<T>(label: string, run: (operation: { operationId: string }) => T | Promise<T>): Promise<T> {
+    const id = `op-${Date.now()}-${++operationCounter}`;
+    useRepoStore.setState((s) => ({ operations: [...s.operations, { id, label }] }));
+    try {
+        return await run({ operationId: id });
+    } finally {
+        useRepoStore.setState((s) => ({ operations: s.operations.filter((o) => o.id !== id) }));
+    }
+}
+
+function isCancelled(error: any): boolean {
+    return typeof error?.message === 'string' && error.message.includes('cancelled by the user');
+}
+
+// Paused `git am` sessions hand their conflicts to the conflict panel
+function notifyAmResult(status: AmStatus, doneMessage: string) {
+    const ui = useUIStore.getState();
+    if (!status.inProgress) {
+        ui.showNotification('success', doneMessage);
+    } else if (status.conflicts.length > 0) {
+        ui.showNotification('error', `Patch ${status.current}/${status.total} stopped with ${status.conflicts.length} conflicted file(s)`);
+        ui.showConflicts(status.conflicts);
+    } else {
+        ui.showNotification('info', `Patch import paused at ${status.current}/${status.total}`);
+    }
+}
+
 export const useRepoStore = create<RepoState>((set, get) => ({
     repos: [],
     activeRepoPath: null,
@@ -218,6 +725,8 @@ export const useRepoStore = create<RepoState>((set, get) => ({
     commits: [],
     branches: [],
     currentDiff: '',
+    isFetching: false,
+    autoFetchMinutes: DEFAULT_AUTO_FETCH_MINUTES,
 
     isLfsAvailable: false,
     lfsFiles: [],
@@ -230,10 +739,27 @@ export const useRepoStore = create<RepoState>((set, get) => ({
     reflogEntries: [],
     isLoadingReflog: false,
 
+    bisectStatus: null,
+
+    submodules: [],
+
+    worktrees: [],
+    isLoadingWorktrees: false,
+
+    remotes: [],
+    remoteTargets: DEFAULT_REMOTE_TARGETS,
+
+    operations: [],
+
     loadSavedRepos: async () => {
         try {
             const savedRepos = await api().storage.get(STORAGE_KEY_REPOS);
             const savedActive = await api().storage.get(STORAGE_KEY_ACTIVE);
+            const savedAutoFetch = await api().storage.get(STORAGE_KEY_AUTO_FETCH);
+
+            const autoFetchMinutes = typeof savedAutoFetch === 'number' ? savedAutoFetch : DEFAULT_AUTO_FETCH_MINUTES;
+            set({ autoFetchMinutes });
+            api().autoFetch.configure(autoFetchMinutes);
 
             if (savedRepos && Array.isArray(savedRepos) && savedRepos.length > 0) {
                 set({ repos: savedRepos });
@@ -248,13 +774,13 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         }
     },
 
-    loadBlame: async (file) => {
+    loadBlame: async (file, rev) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
         set({ isLoadingBlame: true });
         try {
-            const blameData = await api().git.blame(activeRepoPath, file);
+            const blameData = await api().git.blame(activeRepoPath, file, rev);
             set({ blameData, isLoadingBlame: false });
         } catch (error) {
             console.error('Failed to load blame:', error);
@@ -265,6 +791,7 @@ export const useRepoStore = create<RepoState>((set, get) => ({
     clearBlame: () => set({ blameData: null }),
 
     setActiveRepo: (path) => {
+        pendingSignatures.clear();
         // Update lastOpened timestamp
         set((state) => {
             const updatedRepos = state.repos.map((r) =>
@@ -275,8 +802,21 @@ export const useRepoStore = create<RepoState>((set, get) => ({
                 activeRepoPath: path,
                 fileStatuses: [],
                 commits: [],
+                logFilter: { scope: 'head' },
+                hasMoreCommits: false,
+                signatures: {},
+                isShallow: false,
                 branches: [],
                 currentDiff: '',
+                diffSections: null,
+                operationState: null,
+                amStatus: null,
+                bisectStatus: null,
+                submodules: [],
+                worktrees: [],
+                remotes: [],
+                remoteTargets: DEFAULT_REMOTE_TARGETS,
+                undoEntries: [],
                 repos: updatedRepos,
             };
         });
@@ -285,6 +825,13 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             get().refreshStatus();
             get().refreshBranches();
             get().refreshLog();
+            get().refreshAmStatus();
+            get().refreshBisectStatus();
+            get().loadWorktrees();
+            get().loadSubmodules();
+            get().refreshShallow();
+            get().loadRemotes();
+            get().loadUndoJournal();
 
             // Auto-load cloud repos if not already loaded (needed for Settings/PRs tabs)
             const accountStore = useAccountStore.getState();
@@ -302,11 +849,13 @@ export const useRepoStore = create<RepoState>((set, get) => ({
 
     removeRepo: (path) => {
         set((state) => {
-            const updatedRepos = state.repos.filter((r) => r.path !== path);
+            // Linked worktrees and opened submodules go with their main repository
+            const updatedRepos = state.repos.filter((r) => r.path !== path && r.worktreeOf !== path && r.submoduleOf !== path);
             let newActiveRepoPath = state.activeRepoPath;
+            const removedActive = !!state.activeRepoPath && !updatedRepos.some((r) => r.path === state.activeRepoPath);
 
             // If removing the active repo, switch to another or clear
-            if (state.activeRepoPath === path) {
+            if (removedActive) {
                 // Try to switch to the most recently opened repo
                 const recentRepos = updatedRepos
                     .filter(r => r.lastOpened)
@@ -321,7 +870,7 @@ export const useRepoStore = create<RepoState>((set, get) => ({
                 repos: updatedRepos,
                 activeRepoPath: newActiveRepoPath,
                 // Clear repo-specific state if we removed the active repo
-                ...(state.activeRepoPath === path && {
+                ...(removedActive && {
                     fileStatuses: [],
                     commits: [],
                     branches: [],
@@ -375,12 +924,8 @@ export const useRepoStore = create<RepoState>((set, get) => ({
 
     cloneRepo: async (url, token, options) => {
         set({ cloneProgress: 'Preparing to clone...' });
+        let unsubscribe: (() => void) | undefined;
         try {
-            // Setup progress listener
-            api().git.onCloneProgress((message: string) => {
-                set({ cloneProgress: message });
-            });
-
             let fullPath = '';
 
             if (options?.localPath) {
@@ -397,7 +942,13 @@ export const useRepoStore = create<RepoState>((set, get) => ({
                 fullPath = `${destination}\\${repoName}`;
             }
 
-            await api().git.clone(url, fullPath, token);
+            const folderName = fullPath.slice(fullPath.lastIndexOf('\\') + 1);
+            await runOperation(`Cloning ${folderName}`, (operation) => {
+                unsubscribe = api().git.onProgress((progress: GitProgress) => {
+                    if (progress.operationId === operation.operationId) set({ cloneProgress: progress.message });
+                });
+                return api().git.clone(url, fullPath, token, options?.clone, operation);
+            });
 
             if (options?.checkoutRef) {
                 set({ cloneProgress: `Checking out ${options.checkoutRef}...` });
@@ -422,6 +973,8 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             console.error('Clone failed:', error);
             set({ cloneProgress: null });
             throw error;
+        } finally {
+            unsubscribe?.();
         }
     },
 
@@ -693,6 +1246,8 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             }
 
             set({ fileStatuses, isLfsAvailable, lfsFiles });
+            // Merges started or finished outside the app only show up here
+            get().refreshOperationState();
         } catch (error) {
             console.error('Status refresh failed:', error);
         } finally {
@@ -713,17 +1268,113 @@ export const useRepoStore = create<RepoState>((set, get) => ({
     },
 
     refreshLog: async () => {
-        const { activeRepoPath } = get();
+        const { activeRepoPath, logFilter, commits: loaded } = get();
         if (!activeRepoPath) return;
 
         try {
-            const commits = await api().git.log(activeRepoPath, 100);
-            set({ commits });
+            const page: CommitInfo[] = await api().git.log(activeRepoPath, LOG_PAGE_SIZE, logOptions(logFilter));
+
+            // Only the first page is reloaded. If its last commit is still among the
+            // pages already loaded, keep what follows it so the history view doesn't
+            // jump back; otherwise history was rewritten and paging starts over.
+            const last = page[page.length - 1];
+            const overlap = last && page.length >= LOG_PAGE_SIZE
+                ? loaded.findIndex((c) => c.hash === last.hash)
+                : -1;
+            if (overlap >= 0) {
+                set({ commits: [...page, ...loaded.slice(overlap + 1)] });
+            } else {
+                set({ commits: page, hasMoreCommits: page.length >= LOG_PAGE_SIZE });
+            }
         } catch (error) {
             console.error('Log refresh failed:', error);
         }
     },
 
+    logFilter: { scope: 'head' },
+    hasMoreCommits: false,
+    isLoadingMoreCommits: false,
+    isShallow: false,
+    isDeepening: false,
+
+    setLogFilter: (filter) => {
+        set({ logFilter: filter, commits: [], hasMoreCommits: false });
+        get().refreshLog();
+    },
+
+    loadMoreCommits: async () => {
+        const { activeRepoPath, logFilter, commits, hasMoreCommits, isLoadingMoreCommits } = get();
+        if (!activeRepoPath || !hasMoreCommits || isLoadingMoreCommits) return;
+
+        set({ isLoadingMoreCommits: true });
+        try {
+            const page = await api().git.log(activeRepoPath, LOG_PAGE_SIZE, {
+                ...logOptions(logFilter),
+                skip: commits.length,
+            });
+            set({ commits: [...commits, ...page], hasMoreCommits: page.length >= LOG_PAGE_SIZE });
+        } catch (error) {
+            console.error('Failed to load more commits:', error);
+        } finally {
+            set({ isLoadingMoreCommits: false });
+        }
+    },
+
+    signatures: {},
+
+    loadSignature: (hash) => {
+        if (hash in get().signatures || pendingSignatures.has(hash)) return;
+        pendingSignatures.add(hash);
+        if (signatureTimer) return;
+
+        signatureTimer = setTimeout(async () => {
+            signatureTimer = null;
+            const { activeRepoPath } = get();
+            const hashes = [...pendingSignatures];
+            pendingSignatures.clear();
+            if (!activeRepoPath) return;
+
+            try {
+                const loaded = await api().git.getCommitSignatures(activeRepoPath, hashes);
+                if (get().activeRepoPath !== activeRepoPath) return;
+                set((state) => ({ signatures: { ...state.signatures, ...loaded } }));
+            } catch (error) {
+                console.error('Failed to verify signatures:', error);
+            }
+        }, 50);
+    },
+
+    refreshShallow: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            set({ isShallow: await api().git.isShallow(activeRepoPath) });
+        } catch (error) {
+            console.error('Shallow check failed:', error);
+        }
+    },
+
+    fetchMoreHistory: async (depth) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        const accountStore = useAccountStore.getState();
+        const account = accountStore.accounts.find(a => a.id === accountStore.activeAccountId);
+        set({ isDeepening: true });
+        try {
+            await runOperation('Fetching history', (operation) => api().git.deepen(activeRepoPath, account?.token, depth, operation));
+            useUIStore.getState().showNotification('success', depth ? `Fetched ${depth} more commits of history` : 'Fetched full history');
+        } catch (error: any) {
+            console.error('Failed to fetch more history:', error);
+            useUIStore.getState().showNotification(isCancelled(error) ? 'info' : 'error', error.message);
+        } finally {
+            set({ isDeepening: false, hasMoreCommits: true });
+            get().refreshShallow();
+            get().loadMoreCommits();
+        }
+    },
+
     loadDiff: async (file) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
@@ -736,6 +1387,43 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         }
     },
 
+    diffSections: null,
+
+    loadDiffSections: async (file) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const sections = await api().git.diffSections(activeRepoPath, file);
+            set({ diffSections: { file, ...sections } });
+        } catch (error) {
+            console.error('Diff load failed:', error);
+            set({ diffSections: null });
+        }
+    },
+
+    applyPatch: async (patch, action) => {
+        const { activeRepoPath, diffSections } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            // Staged hunks are undone against the index, discards against the working tree
+            await api().git.applyPatch(activeRepoPath, patch, {
+                cached: action !== 'discard',
+                reverse: action !== 'stage',
+            });
+        } catch (error: any) {
+            console.error(`Failed to ${action} patch:`, error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            if (diffSections) {
+                get().loadDiffSections(diffSections.file);
+                if (action === 'discard') get().loadDiffContext(diffSections.file);
+            }
+        }
+    },
+
     stageFiles: async (files) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
@@ -772,16 +1460,16 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         get().refreshStatus();
     },
 
-    commitChanges: async (message) => {
+    commitChanges: async (message, options) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
-        await api().git.commit(activeRepoPath, message);
+        await api().git.commit(activeRepoPath, message, options?.noVerify);
         get().refreshStatus();
         get().refreshLog();
     },
 
-    commitAndPush: async (message) => {
+    commitAndPush: async (message, options) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
@@ -791,7 +1479,7 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         ui.setIsCommitting(true);
         try {
             // 1. Commit
-            await api().git.commit(activeRepoPath, message);
+            await api().git.commit(activeRepoPath, message, options?.noVerify);
 
             // 2. Push
             // Try to find token from repo's accountId or active account
@@ -801,11 +1489,14 @@ export const useRepoStore = create<RepoState>((set, get) => ({
 
             if (account?.token) {
                 try {
-                    await api().git.push(activeRepoPath, account.token);
+                    const remote = get().remoteTargets.push;
+                    await runOperation(`Pushing to ${remote}`, (operation) =>
+                        api().git.push(activeRepoPath, account.token, remote, undefined, undefined, false, options?.noVerify, operation));
                     ui.setCommitMessage(''); // Only clear on successful push
                     ui.showNotification('success', 'Committed & pushed!');
                 } catch (pushError: any) {
-                    // Commit succeeded but push failed
+                    // Commit succeeded but push failed; a pre-push rejection only needs the push retried
+                    if (await reportHookFailure(activeRepoPath, () => get().pushOnly({ noVerify: true }))) return;
                     ui.showNotification('info', 'Committed locally, but push failed: ' + (pushError.message || 'Unknown error'));
                     // Don't clear commit message so user can see what was committed
                     // They can use the "Push" button to retry
@@ -815,16 +1506,17 @@ export const useRepoStore = create<RepoState>((set, get) => ({
                 ui.showNotification('info', 'Committed locally (no GitHub account linked)');
             }
 
-            get().refreshStatus();
-            get().refreshLog();
         } catch (error: any) {
+            if (await reportHookFailure(activeRepoPath, () => get().commitAndPush(message, { noVerify: true }))) return;
             ui.showNotification('error', error.message || 'Commit failed');
         } finally {
             ui.setIsCommitting(false);
+            get().refreshStatus();
+            get().refreshLog();
         }
     },
 
-    pushOnly: async () => {
+    pushOnly: async (options) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
@@ -840,23 +1532,30 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             return;
         }
 
+        const remote = get().remoteTargets.push;
         ui.setIsSyncing(true);
         try {
-            await api().git.push(activeRepoPath, account.token);
+            await runOperation(`Pushing to ${remote}`, (operation) =>
+                api().git.push(activeRepoPath, account.token, remote, undefined, undefined, false, options?.noVerify, operation));
             ui.setCommitMessage(''); // Clear message after successful push
             ui.showNotification('success', 'Pushed successfully!');
             get().refreshStatus();
             get().refreshLog();
         } catch (error: any) {
-            if (error.message.includes('non-fast-forward') || error.message.includes('rejected')) {
+            if (await reportHookFailure(activeRepoPath, () => get().pushOnly({ noVerify: true }))) return;
+            if (isCancelled(error)) {
+                ui.showNotification('info', error.message);
+            } else if (error.message.includes('non-fast-forward') || error.message.includes('rejected')) {
                 if (confirm('Push rejected (remote is ahead). Force push? \n\nWARNING: This will overwrite remote changes.')) {
                     try {
-                        await api().git.push(activeRepoPath, account.token, undefined, undefined, undefined, true);
+                        await runOperation(`Force pushing to ${remote}`, (operation) =>
+                            api().git.push(activeRepoPath, account.token, remote, undefined, undefined, true, options?.noVerify, operation));
                         ui.setCommitMessage(''); // Clear message after successful force push
                         ui.showNotification('success', 'Force push successful!');
                         get().refreshStatus();
                         get().refreshLog();
                     } catch (forceError: any) {
+                        if (await reportHookFailure(activeRepoPath, () => get().pushOnly({ noVerify: true }))) return;
                         ui.showNotification('error', 'Force push failed: ' + (forceError.message || 'Unknown error'));
                     }
                 }
@@ -873,8 +1572,13 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         if (!activeRepoPath) return { success: false, error: 'No active repo' };
 
         try {
-            const result = await api().git.sync(activeRepoPath, token);
+            const { remoteTargets } = get();
+            const result = await runOperation('Syncing', (operation) => api().git.sync(activeRepoPath, token, {
+                pullRemote: remoteTargets.pull,
+                pushRemote: remoteTargets.push,
+            }, operation));
             get().refreshStatus();
+            get().refreshBranches();
             get().refreshLog();
             return result;
         } catch (error: any) {
@@ -882,6 +1586,33 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         }
     },
 
+    setAutoFetchInterval: async (minutes) => {
+        set({ autoFetchMinutes: minutes });
+        await api().storage.set(STORAGE_KEY_AUTO_FETCH, minutes);
+        await api().autoFetch.configure(minutes);
+    },
+
+    fetchRepo: async (options = { prune: true }) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        const accountStore = useAccountStore.getState();
+        const account = accountStore.accounts.find(a => a.id === accountStore.activeAccountId);
+        set({ isFetching: true });
+        try {
+            const source = options.all ? 'all remotes' : options.remote ?? 'origin';
+            await runOperation(`Fetching from ${source}`, (operation) => api().git.fetch(activeRepoPath, account?.token, options, operation));
+            useUIStore.getState().showNotification('success', options.prune ? `Fetched from ${source} and pruned remote branches` : `Fetched from ${source}`);
+        } catch (error: any) {
+            console.error('Failed to fetch:', error);
+            useUIStore.getState().showNotification(isCancelled(error) ? 'info' : 'error', error.message);
+        } finally {
+            set({ isFetching: false });
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
     checkoutBranch: async (branch, create) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
@@ -952,15 +1683,16 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             await api().git.stash(activeRepoPath);
         }
 
+        let stopped = false;
         try {
             await api().git.merge(activeRepoPath, branch);
             useUIStore.getState().showNotification('success', `Merged ${branch} into current branch`);
         } catch (error: any) {
-            useUIStore.getState().showNotification('error', error.message);
+            stopped = await reportStoppedOperation(error, isDirty);
         }
 
-        // Pop stash if we stashed
-        if (isDirty) {
+        // Pop stash if we stashed; a stopped merge keeps it until it is finished
+        if (isDirty && !stopped) {
             try {
                 await api().git.stashPop(activeRepoPath);
             } catch { }
@@ -981,15 +1713,16 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             await api().git.stash(activeRepoPath);
         }
 
+        let stopped = false;
         try {
             await api().git.rebase(activeRepoPath, branch);
             useUIStore.getState().showNotification('success', `Rebased current branch onto ${branch}`);
         } catch (error: any) {
-            useUIStore.getState().showNotification('error', error.message);
+            stopped = await reportStoppedOperation(error, isDirty);
         }
 
-        // Pop stash if we stashed
-        if (isDirty) {
+        // Pop stash if we stashed; a stopped rebase keeps it until it is finished
+        if (isDirty && !stopped) {
             try {
                 await api().git.stashPop(activeRepoPath);
             } catch { }
@@ -1007,89 +1740,222 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         get().refreshBranches();
     },
 
-    stashChanges: async () => {
+    stashChanges: async (options) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
-        await api().git.stash(activeRepoPath);
+        await api().git.stash(activeRepoPath, options);
         get().refreshStatus();
+        get().loadStashes();
     },
 
-    popStash: async () => {
+    popStash: async (ref) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
-        await api().git.stashPop(activeRepoPath);
+        await api().git.stashPop(activeRepoPath, ref);
         get().refreshStatus();
+        get().loadStashes();
     },
 
-    discardChanges: async (file: string) => {
+    stashes: [],
+    isLoadingStashes: false,
+
+    loadStashes: async () => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
+        set({ isLoadingStashes: true });
         try {
-            await api().git.discardFile(activeRepoPath, file);
-            get().refreshStatus();
-        } catch (error: any) {
-            console.error('Failed to discard changes:', error);
-            useUIStore.getState().showNotification('error', `Discard failed: ${error.message}`);
+            const stashes = await api().git.listStashes(activeRepoPath);
+            set({ stashes, isLoadingStashes: false });
+        } catch (error) {
+            console.error('Failed to load stashes:', error);
+            set({ stashes: [], isLoadingStashes: false });
         }
     },
 
-    cleanFile: async (file: string) => {
+    applyStash: async (ref) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
         try {
-            await api().git.cleanFile(activeRepoPath, file);
-            get().refreshStatus();
+            await api().git.stashApply(activeRepoPath, ref);
+            useUIStore.getState().showNotification('success', `Applied ${ref}`);
         } catch (error: any) {
-            console.error('Failed to clean file:', error);
-            useUIStore.getState().showNotification('error', `Clean failed: ${error.message}`);
+            console.error('Failed to apply stash:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
         }
     },
 
-    resolveConflict: async (file: string, strategy: 'theirs' | 'ours') => {
+    dropStash: async (ref) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
         try {
-            await api().git.resolveConflict(activeRepoPath, file, strategy);
-
-            // Refresh status to see if conflict is gone
-            get().refreshStatus();
-
-            // Load diff (now resolved)
-            get().loadDiff(file);
-
-            useUIStore.getState().showNotification('success', `Resolved conflict using ${strategy}`);
+            await api().git.stashDrop(activeRepoPath, ref);
+            useUIStore.getState().showNotification('success', `Dropped ${ref}`);
         } catch (error: any) {
-            console.error('Failed to resolve conflict:', error);
-            useUIStore.getState().showNotification('error', `Resolve failed: ${error.message}`);
+            console.error('Failed to drop stash:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadStashes();
         }
     },
 
-    revertLastCommit: async () => {
+    renameStash: async (ref, message) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
-        await api().git.revert(activeRepoPath);
-        get().refreshStatus();
-        get().refreshLog();
+        try {
+            await api().git.stashRename(activeRepoPath, ref, message);
+            useUIStore.getState().showNotification('success', 'Stash renamed');
+        } catch (error: any) {
+            console.error('Failed to rename stash:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadStashes();
+        }
     },
 
-    undoLastCommit: async () => {
+    branchFromStash: async (ref, branch) => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
 
         try {
-            await api().git.reset(activeRepoPath, 'soft', 'HEAD~1');
-            // Refresh all git state after reset
-            await Promise.all([
-                get().refreshStatus(),
-                get().refreshBranches(),
-                get().refreshLog(),
-            ]);
+            await api().git.stashBranch(activeRepoPath, branch, ref);
+            useUIStore.getState().showNotification('success', `Created branch ${branch} from ${ref}`);
+        } catch (error: any) {
+            console.error('Failed to create branch from stash:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadStashes();
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    discardChanges: async (file: string) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.discardFile(activeRepoPath, file);
+            get().refreshStatus();
+        } catch (error: any) {
+            console.error('Failed to discard changes:', error);
+            useUIStore.getState().showNotification('error', `Discard failed: ${error.message}`);
+        }
+    },
+
+    cleanFile: async (file: string) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.cleanFile(activeRepoPath, file);
+            get().refreshStatus();
+        } catch (error: any) {
+            console.error('Failed to clean file:', error);
+            useUIStore.getState().showNotification('error', `Clean failed: ${error.message}`);
+        }
+    },
+
+    addIgnoreRule: async (pattern, target, dir) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.addIgnorePattern(activeRepoPath, pattern, target, dir);
+            const where = target === 'exclude' ? 'info/exclude' : `${dir ? `${dir}/` : ''}.gitignore`;
+            useUIStore.getState().showNotification('success', `Added ${pattern} to ${where}`);
+        } catch (error: any) {
+            console.error('Failed to add ignore rule:', error);
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().refreshStatus();
+        }
+    },
+
+    resolveConflict: async (file: string, strategy: 'theirs' | 'ours') => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.resolveConflict(activeRepoPath, file, strategy);
+
+            // Refresh status to see if conflict is gone
+            get().refreshStatus();
+
+            // Load diff (now resolved)
+            get().loadDiff(file);
+
+            useUIStore.getState().showNotification('success', `Resolved conflict using ${strategy}`);
+        } catch (error: any) {
+            console.error('Failed to resolve conflict:', error);
+            useUIStore.getState().showNotification('error', `Resolve failed: ${error.message}`);
+        }
+    },
+
+    conflictVersions: null,
+
+    loadConflictVersions: async (file) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const versions = await api().git.getConflictVersions(activeRepoPath, file);
+            set({ conflictVersions: { file, ...versions } });
+        } catch (error) {
+            console.error('Failed to load conflict versions:', error);
+            set({ conflictVersions: null });
+        }
+    },
+
+    markConflictResolved: async (file, content) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.markResolved(activeRepoPath, file, content);
+            set({ conflictVersions: null });
+            get().refreshStatus();
+            useUIStore.getState().showNotification('success', `Marked ${file} as resolved`);
+        } catch (error: any) {
+            console.error('Failed to mark conflict resolved:', error);
+            useUIStore.getState().showNotification('error', `Resolve failed: ${error.message}`);
+        }
+    },
+
+    revertLastCommit: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.revert(activeRepoPath);
+        } catch (error: any) {
+            await reportStoppedOperation(error);
+        }
+        get().refreshStatus();
+        get().refreshLog();
+    },
+
+    undoLastCommit: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.reset(activeRepoPath, 'soft', 'HEAD~1');
+            // Refresh all git state after reset
+            await Promise.all([
+                get().refreshStatus(),
+                get().refreshBranches(),
+                get().refreshLog(),
+            ]);
             useUIStore.getState().showNotification('success', 'Commit undone, changes staged');
         } catch (error: any) {
             useUIStore.getState().showNotification('error', error.message || 'Failed to undo commit');
@@ -1100,6 +1966,31 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         }
     },
 
+    loadResetPreview: async (target, mode) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) throw new Error('No repository selected');
+
+        return api().git.resetPreview(activeRepoPath, target, mode);
+    },
+
+    resetToCommit: async (target, mode) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.reset(activeRepoPath, mode, target);
+            useUIStore.getState().showNotification('success', `Reset (${mode}) to ${target.slice(0, 7)}`);
+        } catch (error: any) {
+            console.error('Failed to reset:', error);
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
     deleteLastCommit: async () => {
         const { activeRepoPath } = get();
         if (!activeRepoPath) return;
@@ -1228,7 +2119,10 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             get().refreshLog();
         } catch (error: any) {
             console.error('Failed to cherry-pick:', error);
-            useUIStore.getState().showNotification('error', error.message);
+            if (await reportStoppedOperation(error)) {
+                get().refreshStatus();
+                return;
+            }
             throw error;
         }
     },
@@ -1265,6 +2159,256 @@ export const useRepoStore = create<RepoState>((set, get) => ({
         }
     },
 
+    amendCommit: async (message, options) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        const ui = useUIStore.getState();
+        ui.setIsCommitting(true);
+        try {
+            await api().git.amendCommit(activeRepoPath, message, options?.resetAuthor, options?.noVerify);
+            ui.setCommitMessage('');
+            ui.showNotification('success', 'Last commit amended');
+        } catch (error: any) {
+            console.error('Failed to amend commit:', error);
+            const retry = () => get().amendCommit(message, { ...options, noVerify: true });
+            if (!(await reportHookFailure(activeRepoPath, retry))) {
+                ui.showNotification('error', error.message);
+            }
+            throw error;
+        } finally {
+            ui.setIsCommitting(false);
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    // Interactive Rebase
+    loadRebaseCommits: async (fromHash) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return [];
+
+        return api().git.getRebaseCommits(activeRepoPath, fromHash);
+    },
+
+    interactiveRebase: async (fromHash, todo) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const operationState: OperationState = await api().git.interactiveRebase(activeRepoPath, fromHash, todo);
+            set({ operationState });
+            notifyOperationResult('Interactive rebase', operationState);
+        } catch (error: any) {
+            console.error('Failed to run interactive rebase:', error);
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    // In-progress Operations
+    operationState: null,
+
+    refreshOperationState: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return null;
+
+        try {
+            const operationState: OperationState = await api().git.operationState(activeRepoPath);
+            const previous = get().operationState;
+            set({ operationState });
+
+            // Offer git's prepared message in the commit box, and take it back once the operation is gone
+            const ui = useUIStore.getState();
+            if (operationState.message && operationState.message !== previous?.message && !ui.commitMessage.trim()) {
+                ui.setCommitMessage(operationState.message);
+            } else if (!operationState.operation && previous?.message && ui.commitMessage === previous.message) {
+                ui.setCommitMessage('');
+            }
+            return operationState;
+        } catch (error) {
+            console.error('Operation state refresh failed:', error);
+            return null;
+        }
+    },
+
+    continueOperation: async () => {
+        const { activeRepoPath, operationState } = get();
+        if (!activeRepoPath || !operationState?.operation) return;
+
+        const label = OPERATION_LABELS[operationState.operation];
+        try {
+            const state: OperationState = await api().git.continueOperation(activeRepoPath);
+            set({ operationState: state });
+            notifyOperationResult(label, state);
+        } catch (error: any) {
+            console.error(`Failed to continue ${operationState.operation}:`, error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    skipOperation: async () => {
+        const { activeRepoPath, operationState } = get();
+        if (!activeRepoPath || !operationState?.operation) return;
+
+        const label = OPERATION_LABELS[operationState.operation];
+        try {
+            const state: OperationState = await api().git.skipOperation(activeRepoPath);
+            set({ operationState: state });
+            notifyOperationResult(label, state);
+        } catch (error: any) {
+            console.error(`Failed to skip ${operationState.operation} step:`, error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    abortOperation: async () => {
+        const { activeRepoPath, operationState } = get();
+        if (!activeRepoPath || !operationState?.operation) return;
+
+        try {
+            await api().git.abortOperation(activeRepoPath);
+            useUIStore.getState().showNotification('info', `${OPERATION_LABELS[operationState.operation]} aborted`);
+        } catch (error: any) {
+            console.error(`Failed to abort ${operationState.operation}:`, error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    // Patches
+    amStatus: null,
+
+    refreshAmStatus: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const amStatus = await api().git.amStatus(activeRepoPath);
+            set({ amStatus });
+        } catch (error) {
+            console.error('Patch import status refresh failed:', error);
+        }
+    },
+
+    exportPatches: async (fromHash, toHash, format) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        const destination = format === 'mbox'
+            ? await api().dialog.saveFile({
+                title: 'Save patch series',
+                defaultPath: `${toHash.slice(0, 7)}.mbox`,
+                filters: [{ name: 'Mailbox', extensions: ['mbox', 'patch'] }],
+            })
+            : await api().dialog.openDirectory('Select a folder for the patch files');
+        if (!destination) return;
+
+        try {
+            const written: string[] = await api().git.exportPatches(activeRepoPath, fromHash, toHash, destination, format === 'mbox');
+            useUIStore.getState().showNotification(
+                'success',
+                format === 'mbox' ? `Exported patch series to ${destination}` : `Exported ${written.length} patch file(s)`
+            );
+        } catch (error: any) {
+            console.error('Failed to export patches:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    },
+
+    importPatches: async (files, mode, threeWay) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return null;
+
+        try {
+            const result: PatchApplyResult = await api().git.applyPatches(activeRepoPath, files, mode, threeWay);
+            const ui = useUIStore.getState();
+            if (result.conflicts.length > 0) {
+                ui.showNotification('error', `Patch applied with ${result.conflicts.length} conflicted file(s)`);
+                ui.showConflicts(result.conflicts);
+            } else if (mode === 'am') {
+                ui.showNotification('success', `Applied ${result.applied} patch(es) as commits`);
+            } else {
+                ui.showNotification('success', `Applied ${files.length} patch(es) to the working tree`);
+            }
+            return result;
+        } catch (error: any) {
+            console.error('Failed to import patches:', error);
+            useUIStore.getState().showNotification('error', error.message);
+            return null;
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+            get().refreshAmStatus();
+        }
+    },
+
+    continueAm: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const amStatus: AmStatus = await api().git.amContinue(activeRepoPath);
+            set({ amStatus });
+            notifyAmResult(amStatus, 'Patch import complete');
+        } catch (error: any) {
+            console.error('Failed to continue patch import:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    skipAm: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const amStatus: AmStatus = await api().git.amSkip(activeRepoPath);
+            set({ amStatus });
+            notifyAmResult(amStatus, 'Patch import complete');
+        } catch (error: any) {
+            console.error('Failed to skip patch:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    abortAm: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.amAbort(activeRepoPath);
+            set({ amStatus: null });
+            useUIStore.getState().showNotification('info', 'Patch import aborted');
+        } catch (error: any) {
+            console.error('Failed to abort patch import:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
     diffCtx: null,
     isLoadingDiff: false,
     loadDiffContext: async (file: string) => {
@@ -1328,4 +2472,403 @@ export const useRepoStore = create<RepoState>((set, get) => ({
             useUIStore.getState().showNotification('error', error.message || 'Restore failed');
         }
     },
+
+    refreshBisectStatus: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const bisectStatus = await api().git.bisectStatus(activeRepoPath);
+            set({ bisectStatus });
+        } catch (error) {
+            console.error('Failed to load bisect status:', error);
+        }
+    },
+
+    startBisect: async (bad, good) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const bisectStatus = await api().git.bisectStart(activeRepoPath, bad, good);
+            set({ bisectStatus });
+            useUIStore.getState().showNotification('info', `Bisecting: ${bisectStatus.remaining} commits, about ${bisectStatus.steps} steps`);
+        } catch (error: any) {
+            console.error('Failed to start bisect:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    markBisect: async (verdict) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const bisectStatus = await api().git.bisectMark(activeRepoPath, verdict);
+            set({ bisectStatus });
+            if (bisectStatus.firstBad) {
+                useUIStore.getState().showNotification('success', `First bad commit: ${bisectStatus.firstBad.slice(0, 7)}`);
+            }
+        } catch (error: any) {
+            console.error('Failed to mark bisect commit:', error);
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    runBisect: async (command) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const bisectStatus = await runOperation('Running bisect', (operation) =>
+                api().git.bisectRun(activeRepoPath, command, operation)
+            );
+            set({ bisectStatus });
+            if (bisectStatus.firstBad) {
+                useUIStore.getState().showNotification('success', `First bad commit: ${bisectStatus.firstBad.slice(0, 7)}`);
+            }
+        } catch (error: any) {
+            console.error('Bisect run failed:', error);
+            useUIStore.getState().showNotification(isCancelled(error) ? 'info' : 'error', error.message);
+            get().refreshBisectStatus();
+        } finally {
+            get().refreshStatus();
+            get().refreshLog();
+        }
+    },
+
+    resetBisect: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.bisectReset(activeRepoPath);
+            set({ bisectStatus: null });
+            useUIStore.getState().showNotification('info', 'Bisect ended');
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().refreshBisectStatus();
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+        }
+    },
+
+    loadSubmodules: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const submodules = await api().git.listSubmodules(activeRepoPath);
+            set({ submodules });
+        } catch (error) {
+            console.error('Failed to load submodules:', error);
+            set({ submodules: [] });
+        }
+    },
+
+    updateSubmodules: async (options = { init: true, recursive: true }) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        const accountStore = useAccountStore.getState();
+        const account = accountStore.accounts.find(a => a.id === accountStore.activeAccountId);
+        try {
+            await runOperation('Updating submodules', (operation) =>
+                api().git.updateSubmodules(activeRepoPath, options, account?.token, operation));
+            useUIStore.getState().showNotification('success', 'Submodules updated');
+        } catch (error: any) {
+            console.error('Failed to update submodules:', error);
+            useUIStore.getState().showNotification(isCancelled(error) ? 'info' : 'error', error.message);
+        } finally {
+            get().loadSubmodules();
+            get().refreshStatus();
+        }
+    },
+
+    syncSubmodules: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.syncSubmodules(activeRepoPath, true);
+            useUIStore.getState().showNotification('success', 'Submodule URLs synced from .gitmodules');
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadSubmodules();
+        }
+    },
+
+    openSubmodule: (submodulePath) => {
+        const { activeRepoPath, repos, submodules } = get();
+        if (!activeRepoPath) return;
+
+        const separator = activeRepoPath.includes('\\') ? '\\' : '/';
+        const fullPath = `${activeRepoPath}${separator}${submodulePath.split('/').join(separator)}`;
+        const submodule = submodules.find((s) => s.path === submodulePath);
+
+        if (!repos.some((r) => samePath(r.path, fullPath))) {
+            const parent = repos.find((r) => r.path === activeRepoPath);
+            const updatedRepos = [...repos, {
+                name: submodulePath.split('/').pop() || submodulePath,
+                path: fullPath,
+                branch: submodule?.checkedOutCommit?.slice(0, 7),
+                accountId: parent?.accountId,
+                remoteUrl: submodule?.url,
+                submoduleOf: activeRepoPath,
+            }];
+            set({ repos: updatedRepos });
+            persistRepos(updatedRepos, activeRepoPath);
+        }
+        get().setActiveRepo(repos.find((r) => samePath(r.path, fullPath))?.path ?? fullPath);
+    },
+
+    loadWorktrees: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        set({ isLoadingWorktrees: true });
+        try {
+            const worktrees: WorktreeInfo[] = await api().git.listWorktrees(activeRepoPath);
+            set((state) => {
+                const main = worktrees.find((w) => w.isMain);
+                const mainRepo = main && state.repos.find((r) => samePath(r.path, main.path));
+                if (!mainRepo) return { worktrees, isLoadingWorktrees: false };
+
+                // Mirror the linked worktrees into the repo list as children of the main repo
+                const children: RepoInfo[] = worktrees
+                    .filter((w) => !w.isMain && !w.prunable)
+                    .map((w) => {
+                        const existing = state.repos.find((r) => samePath(r.path, w.path));
+                        return {
+                            ...existing,
+                            name: w.path.split(/[\\/]/).pop() || w.path,
+                            path: existing?.path ?? w.path,
+                            branch: w.branch ?? w.head.slice(0, 7),
+                            accountId: existing?.accountId ?? mainRepo.accountId,
+                            remoteUrl: mainRepo.remoteUrl,
+                            worktreeOf: mainRepo.path,
+                        };
+                    });
+                const repos = [
+                    ...state.repos.filter((r) =>
+                        r.worktreeOf !== mainRepo.path && !children.some((c) => c.path === r.path)
+                    ),
+                    ...children,
+                ];
+                persistRepos(repos, state.activeRepoPath);
+                return { worktrees, repos, isLoadingWorktrees: false };
+            });
+        } catch (error) {
+            console.error('Failed to load worktrees:', error);
+            set({ worktrees: [], isLoadingWorktrees: false });
+        }
+    },
+
+    addWorktree: async (worktreePath, branch, options) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        await api().git.addWorktree(activeRepoPath, worktreePath, branch, options);
+        useUIStore.getState().showNotification('success', `Created worktree for ${branch}`);
+        get().loadWorktrees();
+        get().refreshBranches();
+    },
+
+    removeWorktree: async (worktreePath, force) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        await api().git.removeWorktree(activeRepoPath, worktreePath, force);
+        useUIStore.getState().showNotification('success', 'Worktree removed');
+        get().loadWorktrees();
+    },
+
+    pruneWorktrees: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.pruneWorktrees(activeRepoPath);
+            useUIStore.getState().showNotification('success', 'Pruned stale worktrees');
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadWorktrees();
+        }
+    },
+
+    // Remotes
+    loadRemotes: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const remotes: RemoteInfo[] = await api().git.listRemotes(activeRepoPath);
+            const saved = (await api().storage.get(STORAGE_KEY_REMOTE_TARGETS)) || {};
+            const stored: Partial<RemoteTargets> = saved[activeRepoPath] || {};
+
+            // Targets pointing at a removed remote fall back to origin, or the only remote there is
+            const names = remotes.map((r) => r.name);
+            const fallback = names.includes('origin') ? 'origin' : names[0] ?? 'origin';
+            const pick = (name?: string) => (name && names.includes(name) ? name : fallback);
+
+            if (get().activeRepoPath !== activeRepoPath) return;
+            set({ remotes, remoteTargets: { pull: pick(stored.pull), push: pick(stored.push) } });
+        } catch (error) {
+            console.error('Failed to load remotes:', error);
+            set({ remotes: [] });
+        }
+    },
+
+    addRemote: async (name, url) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.addRemote(activeRepoPath, name, url);
+            useUIStore.getState().showNotification('success', `Added remote ${name}`);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().loadRemotes();
+        }
+    },
+
+    renameRemote: async (oldName, newName) => {
+        const { activeRepoPath, remoteTargets } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.renameRemote(activeRepoPath, oldName, newName);
+            const rename = (name: string) => (name === oldName ? newName : name);
+            await get().setRemoteTargets({ pull: rename(remoteTargets.pull), push: rename(remoteTargets.push) });
+            useUIStore.getState().showNotification('success', `Renamed remote ${oldName} to ${newName}`);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().loadRemotes();
+            get().refreshBranches();
+        }
+    },
+
+    removeRemote: async (name) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.removeRemote(activeRepoPath, name);
+            useUIStore.getState().showNotification('success', `Removed remote ${name}`);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        } finally {
+            get().loadRemotes();
+            get().refreshBranches();
+        }
+    },
+
+    setRemoteUrl: async (name, url, pushOnly) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.setRemote(activeRepoPath, name, url, pushOnly);
+            useUIStore.getState().showNotification('success', `Updated ${pushOnly ? 'push ' : ''}URL of ${name}`);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+            throw error;
+        } finally {
+            get().loadRemotes();
+        }
+    },
+
+    setRemoteTargets: async (targets) => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        set({ remoteTargets: targets });
+        const saved = (await api().storage.get(STORAGE_KEY_REMOTE_TARGETS)) || {};
+        await api().storage.set(STORAGE_KEY_REMOTE_TARGETS, { ...saved, [activeRepoPath]: targets });
+    },
+
+    // Long-running operations
+
+    updateOperationProgress: (progress) => {
+        set((s) => ({
+            operations: s.operations.map((o) => (o.id === progress.operationId ? { ...o, progress } : o)),
+        }));
+    },
+
+    cancelOperation: async (operationId) => {
+        try {
+            await api().git.cancelOperation(operationId);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    },
+
+    // Undo journal
+    undoEntries: [],
+
+    loadUndoJournal: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            const undoEntries: UndoEntry[] = await api().git.undoJournal(activeRepoPath);
+            if (get().activeRepoPath !== activeRepoPath) return;
+            set({ undoEntries });
+        } catch (error) {
+            console.error('Failed to load undo journal:', error);
+            set({ undoEntries: [] });
+        }
+    },
+
+    undoOperation: async (entryId) => {
+        const { activeRepoPath, undoEntries } = get();
+        if (!activeRepoPath) return;
+
+        // Without an entry, undo the most recent operation
+        const entry = entryId ? undoEntries.find((e) => e.id === entryId) : undoEntries[0];
+        if (!entry) {
+            useUIStore.getState().showNotification('info', 'Nothing to undo');
+            return;
+        }
+
+        try {
+            await api().git.undo(activeRepoPath, entry.id);
+            useUIStore.getState().showNotification('success', `Undone: ${entry.description}`);
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message || 'Undo failed');
+        } finally {
+            get().loadUndoJournal();
+            get().refreshStatus();
+            get().refreshBranches();
+            get().refreshLog();
+            if (entry.stash) get().loadStashes();
+            if (entry.refs?.some((r) => r.ref.startsWith('refs/tags/'))) get().loadTags();
+        }
+    },
+
+    clearUndoJournal: async () => {
+        const { activeRepoPath } = get();
+        if (!activeRepoPath) return;
+
+        try {
+            await api().git.clearUndoJournal(activeRepoPath);
+            set({ undoEntries: [] });
+        } catch (error: any) {
+            useUIStore.getState().showNotification('error', error.message);
+        }
+    },
 }));
@@ -1,7 +1,10 @@
 import { create } from 'zustand';
+import type { HookFailure } from './repo.store';
 
 export type TabId = 'changes' | 'history' | 'branches' | 'cloud' | 'settings' | 'pull-requests' | 'actions' | 'issues' | 'files' | 'agent';
 
+export type ModalType = 'commit-details' | 'clone' | 'time-machine' | 'interactive-rebase' | 'stash-manager' | 'signing-settings' | 'patch-import' | 'compare' | 'gitignore' | 'undo-history' | 'reset';
+
 export interface TerminalInstance {
     id: string;
     title: string;
@@ -22,6 +25,8 @@ interface UIState {
     isSyncing: boolean;
     showConflictPanel: boolean;
     conflictFiles: string[];
+    // Commit/push rejected by a hook; retry re-runs it with --no-verify
+    hookFailure: { failure: HookFailure; retry: () => Promise<void> } | null;
     showNewRepoModal: boolean;
     branchCreateRequested: boolean;
     notification: { type: 'success' | 'error' | 'info'; message: string } | null;
@@ -29,10 +34,10 @@ interface UIState {
 
     // Generic modal state to avoid clutter
     modalState: {
-        type: 'commit-details' | 'clone' | 'time-machine' | null;
+        type: ModalType | null;
         data: any;
     };
-    openModal: (type: 'commit-details' | 'clone' | 'time-machine', data: any) => void;
+    openModal: (type: ModalType, data: any) => void;
     closeModal: () => void;
     setBottomPanel: (panel: 'terminal' | 'activity') => void;
 
@@ -51,6 +56,8 @@ interface UIState {
     setIsSyncing: (value: boolean) => void;
     showConflicts: (files: string[]) => void;
     hideConflicts: () => void;
+    showHookFailure: (failure: HookFailure, retry: () => Promise<void>) => void;
+    hideHookFailure: () => void;
     setShowNewRepoModal: (show: boolean) => void;
     setBranchCreateRequested: (requested: boolean) => void;
     showNotification: (type: 'success' | 'error' | 'info', message: string) => void;
@@ -71,6 +78,7 @@ export const useUIStore = create<UIState>((set) => ({
     isSyncing: false,
     showConflictPanel: false,
     conflictFiles: [],
+    hookFailure: null,
     showNewRepoModal: false,
     branchCreateRequested: false,
     notification: null,
@@ -105,6 +113,9 @@ export const useUIStore = create<UIState>((set) => ({
 
     hideConflicts: () => set({ showConflictPanel: false, conflictFiles: [] }),
 
+    showHookFailure: (failure, retry) => set({ hookFailure: { failure, retry } }),
+    hideHookFailure: () => set({ hookFailure: null }),
+
     setShowNewRepoModal: (show) => set({ showNewRepoModal: show }),
     setBranchCreateRequested: (requested) => set({ branchCreateRequested: requested }),
 